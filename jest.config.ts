@@ -3,7 +3,7 @@ import type { Config } from "jest";
 const config: Config = {
   preset: "ts-jest",
   testEnvironment: "node",
-  roots: ["<rootDir>/src/__tests__"],
+  roots: ["<rootDir>/src/tests"],
   testMatch: ["**/*.test.ts"],
   moduleFileExtensions: ["ts", "js", "json"],
   // Increase global timeout — tests hit a cloud DB (Neon) with ~1-2s latency per request.
@@ -17,7 +17,10 @@ const config: Config = {
       "ts-jest",
       {
         tsconfig: {
-          strict: false,
+          // zod's inferred types are only right under strict null checks
+          strict: true,
+          // tsconfig.json limits global types to node's; tests need jest's too
+          types: ["node", "jest"],
         },
       },
     ],
@@ -1,31 +1,60 @@
-import { PrismaClient, LinkPrecedence } from "@prisma/client";
-
-const prisma = new PrismaClient();
+import { LinkPrecedence } from "@prisma/client";
+import { normalizeEmail, normalizePhone } from "../src/lib/normalize";
+import { prisma } from "../src/lib/prisma";
+import { issueApiKey } from "../src/services/tenant.service";
 
 async function main() {
   // Clean slate
+  await prisma.idempotencyKey.deleteMany();
+  await prisma.webhookDelivery.deleteMany();
+  await prisma.webhookSubscription.deleteMany();
+  await prisma.outboxEvent.deleteMany();
+  await prisma.contactLinkEvent.deleteMany();
+  await prisma.contactUnlink.deleteMany();
+  await prisma.contactIdentifier.deleteMany();
   await prisma.contact.deleteMany();
+  await prisma.apiKey.deleteMany();
+  await prisma.tenant.deleteMany();
 
-  // Reset sequence (PostgreSQL)
+  // Reset sequences (PostgreSQL)
   await prisma.$executeRawUnsafe(
     `ALTER SEQUENCE "Contact_id_seq" RESTART WITH 1`
   );
+  await prisma.$executeRawUnsafe(
+    `ALTER SEQUENCE "Tenant_id_seq" RESTART WITH 1`
+  );
+
+  // Every contact below belongs to this tenant; its key is printed once
+  const tenant = await prisma.tenant.create({ data: { name: "demo" } });
+  const { key } = await issueApiKey(tenant.id, "seed");
+
+  // Rows are written directly here, so the GET /clusters columns that
+  // contact.repository normally keeps (emailDomain, clusterSize) are set by hand
 
   // Scenario 1: Primary with email + phone, plus one secondary linked to it
   const primary1 = await prisma.contact.create({
     data: {
+      tenantId: tenant.id,
       email: "lorraine@hillvalley.edu",
       phoneNumber: "123456",
+      emailNormalized: normalizeEmail("lorraine@hillvalley.edu"),
+      emailDomain: "hillvalley.edu",
+      phoneNormalized: normalizePhone("123456"),
       linkedId: null,
       linkPrecedence: LinkPrecedence.primary,
+      clusterSize: 2,
       createdAt: new Date("2023-04-01T00:00:00.374Z"),
     },
   });
 
   await prisma.contact.create({
     data: {
+      tenantId: tenant.id,
       email: "mcfly@hillvalley.edu",
       phoneNumber: "123456",
+      emailNormalized: normalizeEmail("mcfly@hillvalley.edu"),
+      emailDomain: "hillvalley.edu",
+      phoneNormalized: normalizePhone("123456"),
       linkedId: primary1.id,
       linkPrecedence: LinkPrecedence.secondary,
       createdAt: new Date("2023-04-20T05:30:00.110Z"),
@@ -35,8 +64,12 @@ async function main() {
   // Scenario 2: Two independent primaries (for merge testing)
   await prisma.contact.create({
     data: {
+      tenantId: tenant.id,
       email: "george@hillvalley.edu",
       phoneNumber: "919191",
+      emailNormalized: normalizeEmail("george@hillvalley.edu"),
+      emailDomain: "hillvalley.edu",
+      phoneNormalized: normalizePhone("919191"),
       linkedId: null,
       linkPrecedence: LinkPrecedence.primary,
       createdAt: new Date("2023-04-11T00:00:00.374Z"),
@@ -45,8 +78,12 @@ async function main() {
 
   await prisma.contact.create({
     data: {
+      tenantId: tenant.id,
       email: "biffsucks@hillvalley.edu",
       phoneNumber: "717171",
+      emailNormalized: normalizeEmail("biffsucks@hillvalley.edu"),
+      emailDomain: "hillvalley.edu",
+      phoneNormalized: normalizePhone("717171"),
       linkedId: null,
       linkPrecedence: LinkPrecedence.primary,
       createdAt: new Date("2023-04-21T05:30:00.110Z"),
@@ -54,6 +91,7 @@ async function main() {
   });
 
   console.log("✅ Seed complete:");
+  console.log(`  - Tenant ${tenant.id} (demo), API key: ${key}`);
   console.log("  - Contact 1 (primary): lorraine@hillvalley.edu / 123456");
   console.log("  - Contact 2 (secondary → 1): mcfly@hillvalley.edu / 123456");
   console.log("  - Contact 3 (primary): george@hillvalley.edu / 919191");
@@ -1,33 +1,207 @@
+import { AsyncResource } from "async_hooks";
+import { randomUUID } from "crypto";
 import express, { Request, Response, NextFunction } from "express";
-import { identifyController } from "./controllers/identify.controller";
+import swaggerUi from "swagger-ui-express";
+import {
+  identifyController,
+  identifyPreviewController,
+  identifyBatchController,
+} from "./controllers/identify.controller";
+import {
+  unlinkContactController,
+  mergeContactsController,
+  verifyContactController,
+  clusterHistoryController,
+  getContactController,
+  searchContactsController,
+  listClustersController,
+  deleteContactController,
+  eraseClusterController,
+} from "./controllers/contact.controller";
+import {
+  createSubscriptionController,
+  listSubscriptionsController,
+  getSubscriptionController,
+  updateSubscriptionController,
+  deleteSubscriptionController,
+  listDeliveriesController,
+  retryDeliveryController,
+} from "./controllers/webhook.controller";
+import {
+  integrityCheckController,
+  integrityRepairController,
+} from "./controllers/integrity.controller";
+import {
+  createTenantController,
+  listTenantsController,
+  issueApiKeyController,
+  listApiKeysController,
+  revokeApiKeyController,
+} from "./controllers/tenant.controller";
+import {
+  listSuggestionsController,
+  acceptSuggestionController,
+  rejectSuggestionController,
+} from "./controllers/merge-suggestion.controller";
+import { graphqlController } from "./controllers/graphql.controller";
+import { requireAdminKey, requireApiKey } from "./middleware/auth";
+import { limitByApiKey, limitByIp } from "./middleware/rate-limit";
 import { logger } from "./lib/logger";
+import { runWithRequestContext } from "./lib/request-context";
+import { httpRequestDuration, httpRequestsTotal, registry } from "./lib/metrics";
+import { openApiDocument } from "./openapi";
 
 const app = express();
 
+// Behind a load balancer req.ip is the balancer unless told how many proxy
+// hops to trust; the per-IP rate limit depends on it.
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+
+// ── Request id ────────────────────────────────────────────────────────────────
+// A caller-supplied X-Request-Id is kept so ids line up across services;
+// anything missing or malformed is replaced. Runs first so every log line
+// written for the request, body-parse errors included, carries the id.
+const REQUEST_ID_HEADER = "X-Request-Id";
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,64}$/;
+
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const supplied = req.get(REQUEST_ID_HEADER);
+  const requestId = supplied && REQUEST_ID_PATTERN.test(supplied) ? supplied : randomUUID();
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+  runWithRequestContext({ requestId }, next);
+});
+
 // ── Middleware ────────────────────────────────────────────────────────────────
 app.use(express.json());
 
 // ── Request logging ───────────────────────────────────────────────────────────
-app.use((req: Request, _res: Response, next: NextFunction) => {
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const startedAt = Date.now();
   logger.info("incoming request", { method: req.method, path: req.path });
+  // Bound so the completion line keeps the request id
+  res.on(
+    "finish",
+    AsyncResource.bind(() =>
+      logger.info("request completed", {
+        method: req.method,
+        path: req.path,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAt,
+      })
+    )
+  );
   next();
 });
 
+// ── Request metrics ───────────────────────────────────────────────────────────
+// Labelled with the matched route pattern, not the raw path, so ids in URLs
+// don't create a time series each.
+app.use((req: Request, res: Response, next: NextFunction) => {
+  const stopTimer = httpRequestDuration.startTimer();
+  res.on("finish", () => {
+    const labels = {
+      method: req.method,
+      route: req.route ? `${req.baseUrl}${req.route.path}` : "unmatched",
+      status_code: String(res.statusCode),
+    };
+    httpRequestsTotal.inc(labels);
+    stopTimer(labels);
+  });
+  next();
+});
+
+// ── Authentication ────────────────────────────────────────────────────────────
+// Tenant routes take an API key, which also decides whose contacts they see;
+// /admin takes the operator key. /health and /metrics stay open for probes
+// and scrapers, /openapi.json and /docs for anyone integrating.
+app.use(["/identify", "/graphql"], limitByIp);
+app.use(
+  ["/identify", "/contacts", "/clusters", "/merge-suggestions", "/webhooks", "/graphql"],
+  requireApiKey
+);
+app.use("/admin", requireAdminKey);
+
+// ── Rate limiting ─────────────────────────────────────────────────────────────
+// /identify, and its GraphQL mutation, can create rows without bound. Per IP
+// before authentication, so floods of bad keys are cut off too, then per API
+// key. A batch spends a token per item. Merges have a stricter limit of their
+// own, enforced in identity.service.
+app.use(["/identify", "/graphql"], limitByApiKey);
+
 // ── Routes ───────────────────────────────────────────────────────────────────
 app.get("/health", (_req: Request, res: Response) => {
   res.status(200).json({ status: "ok", timestamp: new Date().toISOString() });
 });
 
+app.get("/metrics", async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.set("Content-Type", registry.contentType).send(await registry.metrics());
+  } catch (err) {
+    next(err);
+  }
+});
+
+app.get("/openapi.json", (_req: Request, res: Response) => {
+  res.status(200).json(openApiDocument());
+});
+
+app.use("/docs", swaggerUi.serve, swaggerUi.setup(undefined, { swaggerUrl: "/openapi.json" }));
+
 app.post("/identify", identifyController);
+app.post("/identify/preview", identifyPreviewController);
+app.post("/identify/batch", identifyBatchController);
+
+app.post("/graphql", graphqlController);
+
+app.get("/contacts", searchContactsController);
+app.post("/contacts/merge", mergeContactsController);
+app.get("/contacts/:id", getContactController);
+app.delete("/contacts/:id", deleteContactController);
+app.post("/contacts/:id/unlink", unlinkContactController);
+app.post("/contacts/:id/verify", verifyContactController);
+app.get("/contacts/:primaryId/history", clusterHistoryController);
+app.post("/contacts/:primaryId/erase", eraseClusterController);
+
+app.get("/clusters", listClustersController);
+
+app.get("/merge-suggestions", listSuggestionsController);
+app.post("/merge-suggestions/:id/accept", acceptSuggestionController);
+app.post("/merge-suggestions/:id/reject", rejectSuggestionController);
+
+app.post("/webhooks/subscriptions", createSubscriptionController);
+app.get("/webhooks/subscriptions", listSubscriptionsController);
+app.get("/webhooks/subscriptions/:id", getSubscriptionController);
+app.patch("/webhooks/subscriptions/:id", updateSubscriptionController);
+app.delete("/webhooks/subscriptions/:id", deleteSubscriptionController);
+app.get("/webhooks/subscriptions/:id/deliveries", listDeliveriesController);
+app.post("/webhooks/deliveries/:id/retry", retryDeliveryController);
+
+app.get("/admin/integrity", integrityCheckController);
+app.post("/admin/integrity/repair", integrityRepairController);
+
+app.post("/admin/tenants", createTenantController);
+app.get("/admin/tenants", listTenantsController);
+app.post("/admin/tenants/:id/api-keys", issueApiKeyController);
+app.get("/admin/tenants/:id/api-keys", listApiKeysController);
+app.delete("/admin/api-keys/:id", revokeApiKeyController);
 
 // ── Global error handler ──────────────────────────────────────────────────────
-app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+app.use((err: unknown, req: Request, res: Response, _next: NextFunction) => {
   if (err instanceof Error) {
-    const statusCode = (err as Error & { statusCode?: number }).statusCode ?? 500;
+    const { statusCode = 500, headers } = err as Error & {
+      statusCode?: number;
+      headers?: Record<string, string>;
+    };
     const isClientError = statusCode < 500;
+    if (headers) res.set(headers);
 
     if (!isClientError) {
       logger.error("unhandled error", {
+        method: req.method,
+        path: req.path,
         message: err.message,
         stack: err.stack,
       });
@@ -37,7 +211,7 @@ app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
       error: isClientError ? err.message : "Internal server error",
     });
   } else {
-    logger.error("unknown error", { err });
+    logger.error("unknown error", { method: req.method, path: req.path, err });
     res.status(500).json({ error: "Internal server error" });
   }
 });
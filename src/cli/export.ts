@@ -0,0 +1,48 @@
+import { once } from "events";
+import { prisma } from "../lib/prisma";
+import {
+  Contact,
+  findPrimariesPage,
+  findSecondariesOf,
+} from "../repositories/contact.repository";
+import { formatResponse } from "../services/identity.service";
+
+const PAGE_SIZE = 500;
+
+/**
+ * Write every live cluster of a tenant to `out` as NDJSON, one line per
+ * primary, each in the same shape as a POST /identify response. Returns the
+ * number of clusters.
+ *
+ * Clusters are read a page of primaries at a time rather than in one
+ * snapshot, so export from a replica or a quiet database when merges must not
+ * land mid-export.
+ */
+export async function exportClusters(
+  tenantId: number,
+  out: NodeJS.WritableStream
+): Promise<number> {
+  let afterId = 0;
+  let exported = 0;
+
+  for (;;) {
+    const primaries = await findPrimariesPage(prisma, tenantId, afterId, PAGE_SIZE);
+    if (primaries.length === 0) break;
+
+    const secondaries = await findSecondariesOf(prisma, tenantId, primaries.map((p) => p.id));
+    const byPrimary = new Map<number, Contact[]>();
+    for (const s of secondaries) {
+      byPrimary.set(s.linkedId!, [...(byPrimary.get(s.linkedId!) ?? []), s]);
+    }
+
+    for (const primary of primaries) {
+      const line = JSON.stringify(formatResponse([primary, ...(byPrimary.get(primary.id) ?? [])]));
+      if (!out.write(line + "\n")) await once(out, "drain");
+      exported++;
+    }
+
+    afterId = primaries[primaries.length - 1].id;
+  }
+
+  return exported;
+}
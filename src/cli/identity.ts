@@ -0,0 +1,202 @@
+#!/usr/bin/env node
+/**
+ * Bulk load, dump and check contacts without going through HTTP.
+ *
+ *   identity import <file> --tenant <id> [--format csv|ndjson]
+ *                          [--checkpoint <path>] [--rejects <path>] [--restart]
+ *   identity export --tenant <id> [--out <file>]
+ *   identity suggest --tenant <id>
+ *   identity doctor [--repair]
+ *
+ * Import, export and suggest work on one tenant's contacts; doctor checks
+ * every tenant. In development run it as `npm run identity -- <command> ...`.
+ * Progress and errors go to stderr, so `identity export > clusters.ndjson`
+ * stays clean.
+ */
+
+import { createWriteStream } from "fs";
+import { finished } from "stream/promises";
+import { validateEnv } from "../lib/env";
+import { prisma } from "../lib/prisma";
+import { requireTenant } from "../services/tenant.service";
+import { checkIntegrity, repairIntegrity } from "../services/integrity.service";
+import { scanMergeSuggestions } from "../services/merge-suggestion.service";
+import { exportClusters } from "./export";
+import { formatFromPath, importContacts, ImportFormat } from "./import";
+
+const CHECKPOINT_EVERY = 100;
+
+const USAGE = `Usage:
+  identity import <file> --tenant <id> [--format csv|ndjson] [--checkpoint <path>] [--rejects <path>] [--restart]
+  identity export --tenant <id> [--out <file>]
+  identity suggest --tenant <id>
+  identity doctor [--repair]`;
+
+class UsageError extends Error {}
+
+// ── Argument parsing ──────────────────────────────────────────────────────────
+
+interface ParsedArgs {
+  positional: string[];
+  flags: Map<string, string | true>;
+}
+
+function parseArgs(argv: string[], valueFlags: string[], booleanFlags: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const flags = new Map<string, string | true>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      positional.push(arg);
+      continue;
+    }
+
+    const name = arg.slice(2);
+    if (booleanFlags.includes(name)) {
+      flags.set(name, true);
+    } else if (valueFlags.includes(name)) {
+      const value = argv[++i];
+      if (value === undefined || value.startsWith("--")) {
+        throw new UsageError(`--${name} needs a value`);
+      }
+      flags.set(name, value);
+    } else {
+      throw new UsageError(`Unknown option ${arg}`);
+    }
+  }
+
+  return { positional, flags };
+}
+
+const log = (message: string) => process.stderr.write(message + "\n");
+
+/**
+ * The --tenant flag, checked against the database.
+ */
+async function tenantFlag(flags: Map<string, string | true>): Promise<number> {
+  const raw = flags.get("tenant");
+  if (raw === undefined) throw new UsageError("--tenant is required");
+
+  const tenantId = Number(raw);
+  if (!Number.isInteger(tenantId) || tenantId <= 0) {
+    throw new UsageError("--tenant must be a positive integer");
+  }
+  return (await requireTenant(tenantId)).id;
+}
+
+// ── Commands ──────────────────────────────────────────────────────────────────
+
+async function runImport(argv: string[]): Promise<void> {
+  const { positional, flags } = parseArgs(
+    argv,
+    ["tenant", "format", "checkpoint", "rejects"],
+    ["restart"]
+  );
+  if (positional.length !== 1) throw new UsageError("import takes exactly one file");
+
+  const [file] = positional;
+  const format = (flags.get("format") as string | undefined) ?? formatFromPath(file);
+  if (format !== "csv" && format !== "ndjson") {
+    throw new UsageError("Cannot tell the format from the file name; pass --format csv|ndjson");
+  }
+
+  const tenantId = await tenantFlag(flags);
+  const started = Date.now();
+  const summary = await importContacts({
+    tenantId,
+    file,
+    format: format as ImportFormat,
+    checkpointPath: (flags.get("checkpoint") as string | undefined) ?? `${file}.checkpoint.json`,
+    rejectsPath: (flags.get("rejects") as string | undefined) ?? `${file}.rejects.ndjson`,
+    restart: flags.has("restart"),
+    checkpointEvery: CHECKPOINT_EVERY,
+    onProgress: (p) => log(`row ${p.row}: ${p.resolved} resolved, ${p.rejected} rejected`),
+  });
+
+  if (summary.resumedFrom > 0) log(`resumed after row ${summary.resumedFrom}`);
+  log(
+    `import complete in ${((Date.now() - started) / 1000).toFixed(1)}s: ` +
+      `${summary.resolved} resolved, ${summary.rejected} rejected`
+  );
+}
+
+async function runExport(argv: string[]): Promise<void> {
+  const { positional, flags } = parseArgs(argv, ["tenant", "out"], []);
+  if (positional.length > 0) throw new UsageError("export takes no arguments");
+  const tenantId = await tenantFlag(flags);
+
+  const path = flags.get("out") as string | undefined;
+  const out = path ? createWriteStream(path) : process.stdout;
+
+  const exported = await exportClusters(tenantId, out);
+  if (path) {
+    out.end();
+    await finished(out);
+  }
+  log(`exported ${exported} clusters`);
+}
+
+/**
+ * Refresh the tenant's merge suggestion queue, reviewed through
+ * GET /merge-suggestions. Meant to run on a schedule, like doctor.
+ */
+async function runSuggest(argv: string[]): Promise<void> {
+  const { positional, flags } = parseArgs(argv, ["tenant"], []);
+  if (positional.length > 0) throw new UsageError("suggest takes no arguments");
+  const tenantId = await tenantFlag(flags);
+
+  const summary = await scanMergeSuggestions(tenantId);
+  log(
+    `${summary.clustersScanned} clusters scanned, ${summary.pairsScored} pairs scored: ` +
+      `${summary.suggested} suggestions pending, ${summary.removed} stale removed`
+  );
+}
+
+/**
+ * Print the integrity report as JSON on stdout. Exits 1 while violations
+ * remain, so a scheduled `identity doctor` can alert.
+ */
+async function runDoctor(argv: string[]): Promise<void> {
+  const { positional, flags } = parseArgs(argv, [], ["repair"]);
+  if (positional.length > 0) throw new UsageError("doctor takes no arguments");
+
+  const report = flags.has("repair") ? await repairIntegrity() : await checkIntegrity();
+  process.stdout.write(JSON.stringify(report, null, 2) + "\n");
+
+  const outstanding = report.remaining ?? report.violations;
+  log(
+    `${report.contactsScanned} contacts scanned: ${report.violations.length} violations found` +
+      (report.repairs ? `, ${report.repairs.length} repairs, ${outstanding.length} remaining` : "")
+  );
+  if (outstanding.length > 0) process.exitCode = 1;
+}
+
+// ── Entry point ───────────────────────────────────────────────────────────────
+
+async function main(argv: string[]): Promise<void> {
+  const [command, ...rest] = argv;
+  validateEnv();
+
+  if (command === "import") return runImport(rest);
+  if (command === "export") return runExport(rest);
+  if (command === "suggest") return runSuggest(rest);
+  if (command === "doctor") return runDoctor(rest);
+  if (command === "help" || command === "--help") {
+    log(USAGE);
+    return;
+  }
+  throw new UsageError(command ? `Unknown command ${command}` : "Missing command");
+}
+
+main(process.argv.slice(2))
+  .catch((e) => {
+    if (e instanceof UsageError) {
+      log(`${e.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+    } else {
+      log(`error: ${e instanceof Error ? e.message : String(e)}`);
+      process.exitCode = 1;
+    }
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,257 @@
+import { createReadStream, promises as fs } from "fs";
+import path from "path";
+import { createInterface } from "readline";
+import { readCsvRecords } from "../lib/csv";
+import { identifierTypeNames } from "../lib/identifiers";
+import { identify } from "../services/identity.service";
+import { IdentifySchema, toIdentifyInput } from "../validation/identify.schema";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type ImportFormat = "csv" | "ndjson";
+
+export interface ImportOptions {
+  /** Tenant every row is resolved under */
+  tenantId: number;
+  file: string;
+  format: ImportFormat;
+  /** JSON file recording the last completed row, for resuming */
+  checkpointPath: string;
+  /** NDJSON file that receives every rejected row */
+  rejectsPath: string;
+  /** Ignore an existing checkpoint and start from the first row */
+  restart: boolean;
+  /** Save the checkpoint and report progress every N rows */
+  checkpointEvery: number;
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+export interface ImportProgress {
+  /** Last row (1-based, header excluded) that has been fully handled */
+  row: number;
+  resolved: number;
+  rejected: number;
+}
+
+export interface ImportSummary extends ImportProgress {
+  /** Row the run resumed after; 0 for a fresh import */
+  resumedFrom: number;
+}
+
+interface Checkpoint extends ImportProgress {
+  tenantId: number;
+  file: string;
+  /** Size of the reject file once `row` was handled */
+  rejectsBytes: number;
+  updatedAt: string;
+}
+
+interface SourceRow {
+  row: number;
+  line: number;
+  record?: unknown;
+  error?: string;
+}
+
+// ── Source readers ────────────────────────────────────────────────────────────
+
+export function formatFromPath(file: string): ImportFormat | null {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === ".csv") return "csv";
+  if (ext === ".ndjson" || ext === ".jsonl") return "ndjson";
+  return null;
+}
+
+function readLines(file: string): AsyncIterable<string> {
+  return createInterface({ input: createReadStream(file), crlfDelay: Infinity });
+}
+
+/**
+ * CSV rows become /identify bodies: `email` and `phoneNumber` columns map
+ * across directly, a column named after a registered identifier type becomes
+ * an entry in `identifiers`, and any other column is ignored.
+ */
+async function* csvRows(file: string): AsyncGenerator<SourceRow> {
+  let header: string[] | null = null;
+  const types = new Set(identifierTypeNames());
+  let row = 0;
+
+  for await (const { line, fields } of readCsvRecords(readLines(file))) {
+    if (header === null) {
+      header = fields.map((f) => f.trim());
+      continue;
+    }
+    if (fields.length === 1 && fields[0].trim() === "") continue;
+
+    row++;
+    if (fields.length !== header.length) {
+      yield { row, line, error: `Expected ${header.length} fields, found ${fields.length}` };
+      continue;
+    }
+
+    const record: Record<string, unknown> = {};
+    const identifiers: { type: string; value: string }[] = [];
+    header.forEach((column, i) => {
+      const value = fields[i].trim();
+      if (!value) return;
+      if (column === "email" || column === "phoneNumber") record[column] = value;
+      else if (types.has(column)) identifiers.push({ type: column, value });
+    });
+    if (identifiers.length > 0) record.identifiers = identifiers;
+
+    yield { row, line, record };
+  }
+}
+
+/** NDJSON rows are /identify bodies as-is; blank lines are skipped. */
+async function* ndjsonRows(file: string): AsyncGenerator<SourceRow> {
+  let row = 0;
+  let line = 0;
+
+  for await (const text of readLines(file)) {
+    line++;
+    if (!text.trim()) continue;
+
+    row++;
+    try {
+      yield { row, line, record: JSON.parse(text) };
+    } catch (err) {
+      yield { row, line, error: `Invalid JSON: ${err instanceof Error ? err.message : String(err)}` };
+    }
+  }
+}
+
+// ── Checkpoints ───────────────────────────────────────────────────────────────
+
+async function readCheckpoint(options: ImportOptions): Promise<Checkpoint | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(options.checkpointPath, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+
+  const checkpoint = JSON.parse(raw) as Checkpoint;
+  if (checkpoint.file !== path.resolve(options.file)) {
+    throw new Error(
+      `Checkpoint ${options.checkpointPath} belongs to ${checkpoint.file}; ` +
+        `pass --restart to start over or --checkpoint to use another file`
+    );
+  }
+  if (checkpoint.tenantId !== options.tenantId) {
+    throw new Error(
+      `Checkpoint ${options.checkpointPath} was written for tenant ${checkpoint.tenantId}; ` +
+        `pass --restart to start over or --checkpoint to use another file`
+    );
+  }
+  return checkpoint;
+}
+
+// Write-then-rename, so a crash mid-write never leaves a truncated checkpoint
+async function writeCheckpoint(
+  options: ImportOptions,
+  progress: ImportProgress,
+  rejectsBytes: number
+): Promise<void> {
+  const checkpoint: Checkpoint = {
+    tenantId: options.tenantId,
+    file: path.resolve(options.file),
+    ...progress,
+    rejectsBytes,
+    updatedAt: new Date().toISOString(),
+  };
+  const tmp = `${options.checkpointPath}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(checkpoint, null, 2) + "\n");
+  await fs.rename(tmp, options.checkpointPath);
+}
+
+/**
+ * Cut the reject file back to its size at the checkpoint: rows after it are
+ * about to be replayed, and would otherwise be rejected a second time.
+ */
+async function truncateRejects(options: ImportOptions, bytes: number): Promise<void> {
+  try {
+    await fs.truncate(options.rejectsPath, bytes);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+}
+
+// ── Import ────────────────────────────────────────────────────────────────────
+
+/**
+ * Stream rows through identify(), one transaction per row, in file order —
+ * the end state is the same as posting every row to /identify in turn.
+ *
+ * Invalid rows and rows the service rejects with a 4xx are appended to the
+ * reject file and skipped. Any other error stops the import with the
+ * checkpoint at the last completed row; running the same command again
+ * resumes after it. Rows replayed after a crash between two checkpoints are
+ * harmless: identify() does not duplicate an exact match, and the reject file
+ * is cut back to the checkpoint first so their rejects are not written twice.
+ */
+export async function importContacts(options: ImportOptions): Promise<ImportSummary> {
+  if (options.restart) {
+    await fs.rm(options.checkpointPath, { force: true });
+    await fs.rm(options.rejectsPath, { force: true });
+  }
+
+  const checkpoint = await readCheckpoint(options);
+  const resumedFrom = checkpoint?.row ?? 0;
+  const progress: ImportProgress = {
+    row: resumedFrom,
+    resolved: checkpoint?.resolved ?? 0,
+    rejected: checkpoint?.rejected ?? 0,
+  };
+  let rejectsBytes = checkpoint?.rejectsBytes ?? 0;
+  await truncateRejects(options, rejectsBytes);
+
+  const reject = async (source: SourceRow, error: string, details?: unknown) => {
+    const entry = { row: source.row, line: source.line, error, details, record: source.record };
+    const text = JSON.stringify(entry) + "\n";
+    await fs.appendFile(options.rejectsPath, text);
+    rejectsBytes += Buffer.byteLength(text);
+    progress.rejected++;
+  };
+
+  const rows = options.format === "csv" ? csvRows(options.file) : ndjsonRows(options.file);
+  try {
+    for await (const source of rows) {
+      if (source.row <= resumedFrom) continue;
+
+      if (source.error !== undefined) {
+        await reject(source, source.error);
+      } else {
+        const parsed = IdentifySchema.safeParse(source.record);
+        if (!parsed.success) {
+          await reject(
+            source,
+            "Validation failed",
+            parsed.error.errors.map((e) => ({ field: e.path.join("."), message: e.message }))
+          );
+        } else {
+          try {
+            await identify(options.tenantId, toIdentifyInput(parsed.data));
+            progress.resolved++;
+          } catch (err) {
+            const statusCode = (err as Error & { statusCode?: number }).statusCode ?? 500;
+            if (statusCode >= 500) throw err;
+            await reject(source, err instanceof Error ? err.message : String(err));
+          }
+        }
+      }
+
+      progress.row = source.row;
+      if ((progress.row - resumedFrom) % options.checkpointEvery === 0) {
+        await writeCheckpoint(options, progress, rejectsBytes);
+        options.onProgress?.({ ...progress });
+      }
+    }
+  } finally {
+    await writeCheckpoint(options, progress, rejectsBytes);
+  }
+
+  options.onProgress?.({ ...progress });
+  return { ...progress, resumedFrom };
+}
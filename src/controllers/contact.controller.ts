@@ -0,0 +1,225 @@
+import { Request, Response, NextFunction } from "express";
+import { tenantOf } from "../middleware/auth";
+import {
+  unlinkContact,
+  mergeContacts,
+  verifyContact,
+  getClusterHistory,
+  getCluster,
+  findClusters,
+  listClusters,
+  deleteContact,
+  eraseCluster,
+} from "../services/cluster.service";
+import {
+  ClusterListQuerySchema,
+  ContactIdParamsSchema,
+  ContactSearchQuerySchema,
+  MergeContactsSchema,
+  PrimaryIdParamsSchema,
+  UnlinkSchema,
+  VerifyContactSchema,
+} from "../validation/contact.schema";
+import { sendValidationError } from "../validation/errors";
+
+// ---------------------------------------------------------------------------
+// Controllers
+// ---------------------------------------------------------------------------
+export async function unlinkContactController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = ContactIdParamsSchema.safeParse(req.params);
+    const body = UnlinkSchema.safeParse(req.body);
+
+    if (!params.success || !body.success) {
+      sendValidationError(res, [
+        ...(params.success ? [] : params.error.errors),
+        ...(body.success ? [] : body.error.errors),
+      ]);
+      return;
+    }
+
+    const result = await unlinkContact(tenantOf(req), {
+      contactId: params.data.id,
+      reason: body.data.reason,
+    });
+
+    res.status(200).json(result);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function mergeContactsController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const body = MergeContactsSchema.safeParse(req.body);
+
+    if (!body.success) {
+      sendValidationError(res, body.error.errors);
+      return;
+    }
+
+    res.status(200).json(await mergeContacts(tenantOf(req), body.data));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function verifyContactController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = ContactIdParamsSchema.safeParse(req.params);
+    const body = VerifyContactSchema.safeParse(req.body);
+
+    if (!params.success || !body.success) {
+      sendValidationError(res, [
+        ...(params.success ? [] : params.error.errors),
+        ...(body.success ? [] : body.error.errors),
+      ]);
+      return;
+    }
+
+    const result = await verifyContact(tenantOf(req), {
+      contactId: params.data.id,
+      ...body.data,
+    });
+
+    res.status(200).json(result);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function clusterHistoryController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = PrimaryIdParamsSchema.safeParse(req.params);
+
+    if (!params.success) {
+      sendValidationError(res, params.error.errors);
+      return;
+    }
+
+    const result = await getClusterHistory(tenantOf(req), params.data.primaryId);
+
+    res.status(200).json(result);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function getContactController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = ContactIdParamsSchema.safeParse(req.params);
+
+    if (!params.success) {
+      sendValidationError(res, params.error.errors);
+      return;
+    }
+
+    const result = await getCluster(tenantOf(req), params.data.id);
+
+    res.status(200).json(result);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function listClustersController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const query = ClusterListQuerySchema.safeParse(req.query);
+
+    if (!query.success) {
+      sendValidationError(res, query.error.errors);
+      return;
+    }
+
+    res.status(200).json(await listClusters(tenantOf(req), query.data));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function searchContactsController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const query = ContactSearchQuerySchema.safeParse(req.query);
+
+    if (!query.success) {
+      sendValidationError(res, query.error.errors);
+      return;
+    }
+
+    const clusters = await findClusters(tenantOf(req), query.data);
+
+    res.status(200).json({ clusters });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function deleteContactController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = ContactIdParamsSchema.safeParse(req.params);
+
+    if (!params.success) {
+      sendValidationError(res, params.error.errors);
+      return;
+    }
+
+    const result = await deleteContact(tenantOf(req), params.data.id);
+
+    res.status(200).json(result);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function eraseClusterController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = PrimaryIdParamsSchema.safeParse(req.params);
+
+    if (!params.success) {
+      sendValidationError(res, params.error.errors);
+      return;
+    }
+
+    const result = await eraseCluster(tenantOf(req), params.data.primaryId);
+
+    res.status(200).json(result);
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,51 @@
+import { Request } from "express";
+import { GraphQLError } from "graphql";
+import { createHandler } from "graphql-http/lib/use/express";
+import { createLoaders } from "../graphql/loaders";
+import { GraphQLContext, schema } from "../graphql/schema";
+import { logger } from "../lib/logger";
+import { tenantOf } from "../middleware/auth";
+
+/**
+ * Service errors carry an HTTP statusCode, as on the REST routes. Client
+ * errors keep their message and expose the code in `extensions.statusCode`;
+ * anything else is logged and masked, like a 500 from the error handler.
+ */
+function formatError(err: Readonly<GraphQLError | Error>): GraphQLError | Error {
+  if (!(err instanceof GraphQLError) || !err.originalError) return err as Error;
+
+  const original = err.originalError;
+  if (original instanceof GraphQLError) return err;
+
+  const { statusCode = 500 } = original as Error & { statusCode?: number };
+  if (statusCode < 500) {
+    return new GraphQLError(err.message, {
+      nodes: err.nodes,
+      path: err.path,
+      extensions: { statusCode },
+    });
+  }
+
+  logger.error("unhandled error", {
+    path: err.path?.join("."),
+    message: original.message,
+    stack: original.stack,
+  });
+  return new GraphQLError("Internal server error", {
+    nodes: err.nodes,
+    path: err.path,
+    extensions: { statusCode: 500 },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Controllers
+// ---------------------------------------------------------------------------
+export const graphqlController = createHandler<GraphQLContext>({
+  schema,
+  context: (req) => {
+    const tenantId = tenantOf(req.raw as Request);
+    return { tenantId, loaders: createLoaders(tenantId) };
+  },
+  formatError,
+});
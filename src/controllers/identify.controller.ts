@@ -1,62 +1,138 @@
 import { Request, Response, NextFunction } from "express";
-import { z } from "zod";
-import { identify } from "../services/identity.service";
+import { tenantOf } from "../middleware/auth";
+import {
+  identify,
+  identifyBatch,
+  previewIdentify,
+} from "../services/identity.service";
+import { sendValidationError, validationError } from "../validation/errors";
+import {
+  IdempotencyKeySchema,
+  IdentifyBatchSchema,
+  IdentifySchema,
+  IdentifyRequestSchema,
+  toIdentifyInput,
+} from "../validation/identify.schema";
+import { identifyIdempotent } from "../services/idempotency.service";
 
-// ---------------------------------------------------------------------------
-// Validation schema
-// ---------------------------------------------------------------------------
-const IdentifySchema = z
-  .object({
-    email: z
-      .string()
-      .trim()
-      .email("Invalid email format")
-      .nullable()
-      .optional(),
-    phoneNumber: z
-      .string()
-      .trim()
-      .regex(/^\+?[\d\s\-().]{1,20}$/, "Invalid phone number format")
-      .nullable()
-      .optional(),
-  })
-  .refine(
-    (data) =>
-      (data.email != null && data.email !== "") ||
-      (data.phoneNumber != null && data.phoneNumber !== ""),
-    { message: "At least one of email or phoneNumber must be provided" }
-  );
+function batchTimeoutMs(): number {
+  return parseInt(process.env.IDENTIFY_BATCH_TIMEOUT_MS ?? "60000", 10);
+}
 
 // ---------------------------------------------------------------------------
-// Controller
+// Controllers
 // ---------------------------------------------------------------------------
 export async function identifyController(
   req: Request,
   res: Response,
   next: NextFunction
+): Promise<void> {
+  try {
+    const parsed = IdentifyRequestSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      sendValidationError(res, parsed.error.errors);
+      return;
+    }
+
+    const input = toIdentifyInput(parsed.data);
+
+    // Dry runs never write, so there is nothing for an Idempotency-Key to guard
+    if (parsed.data.dryRun) {
+      res.status(200).json(await previewIdentify(tenantOf(req), input));
+      return;
+    }
+
+    const rawKey = req.header("Idempotency-Key");
+    if (rawKey === undefined) {
+      res.status(200).json(await identify(tenantOf(req), input));
+      return;
+    }
+
+    const key = IdempotencyKeySchema.safeParse(rawKey);
+    if (!key.success) {
+      sendValidationError(res, key.error.errors, "Idempotency-Key");
+      return;
+    }
+
+    const { body, replayed } = await identifyIdempotent(tenantOf(req), input, key.data);
+    if (replayed) res.setHeader("Idempotent-Replayed", "true");
+    res.status(200).json(body);
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function identifyPreviewController(
+  req: Request,
+  res: Response,
+  next: NextFunction
 ): Promise<void> {
   try {
     const parsed = IdentifySchema.safeParse(req.body);
 
     if (!parsed.success) {
-      res.status(400).json({
-        error: "Validation failed",
-        details: parsed.error.errors.map((e) => ({
-          field: e.path.join("."),
-          message: e.message,
-        })),
-      });
+      sendValidationError(res, parsed.error.errors);
+      return;
+    }
+
+    res.status(200).json(await previewIdentify(tenantOf(req), toIdentifyInput(parsed.data)));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function identifyBatchController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parsed = IdentifyBatchSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      sendValidationError(res, parsed.error.errors);
+      return;
+    }
+
+    const { items, atomic } = parsed.data;
+    const itemResults = items.map((item) => IdentifySchema.safeParse(item));
+    const invalid = itemResults.flatMap((r, index) =>
+      r.success
+        ? []
+        : r.error.errors.map((e) => ({ ...e, path: ["items", index, ...e.path] }))
+    );
+
+    // All-or-nothing batches are rejected before anything is written
+    if (atomic && invalid.length > 0) {
+      sendValidationError(res, invalid);
       return;
     }
 
-    const { email, phoneNumber } = parsed.data;
+    const valid = itemResults.flatMap((r, index) =>
+      r.success ? [{ index, input: toIdentifyInput(r.data) }] : []
+    );
+    const resolved = await identifyBatch(
+      tenantOf(req),
+      valid.map((v) => v.input),
+      { atomic, timeoutMs: batchTimeoutMs() }
+    );
 
-    const result = await identify({
-      email: email ?? null,
-      phoneNumber: phoneNumber ?? null,
+    // Map results back onto the caller's indexes, slotting validation errors in
+    const results: unknown[] = itemResults.map((r, index) =>
+      r.success
+        ? null
+        : {
+            index,
+            status: 400,
+            ...validationError(r.error.errors),
+          }
+    );
+    resolved.forEach((r, i) => {
+      results[valid[i].index] = { ...r, index: valid[i].index };
     });
 
-    res.status(200).json(result);
+    res.status(200).json({ results });
   } catch (err) {
     next(err);
   }
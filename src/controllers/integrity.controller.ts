@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from "express";
+import { checkIntegrity, repairIntegrity } from "../services/integrity.service";
+
+// ---------------------------------------------------------------------------
+// Controllers
+// ---------------------------------------------------------------------------
+export async function integrityCheckController(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    res.status(200).json(await checkIntegrity());
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function integrityRepairController(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    res.status(200).json(await repairIntegrity());
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from "express";
+import { tenantOf } from "../middleware/auth";
+import {
+  acceptMergeSuggestion,
+  listMergeSuggestions,
+  rejectMergeSuggestion,
+} from "../services/merge-suggestion.service";
+import { IdParamsSchema, SuggestionQuerySchema } from "../validation/merge-suggestion.schema";
+import { sendValidationError } from "../validation/errors";
+
+// ---------------------------------------------------------------------------
+// Controllers
+// ---------------------------------------------------------------------------
+export async function listSuggestionsController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const query = SuggestionQuerySchema.safeParse(req.query);
+
+    if (!query.success) {
+      sendValidationError(res, query.error.errors);
+      return;
+    }
+
+    res.status(200).json({
+      suggestions: await listMergeSuggestions(tenantOf(req), query.data.status),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function acceptSuggestionController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = IdParamsSchema.safeParse(req.params);
+
+    if (!params.success) {
+      sendValidationError(res, params.error.errors);
+      return;
+    }
+
+    res.status(200).json(await acceptMergeSuggestion(tenantOf(req), params.data.id));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function rejectSuggestionController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = IdParamsSchema.safeParse(req.params);
+
+    if (!params.success) {
+      sendValidationError(res, params.error.errors);
+      return;
+    }
+
+    res.status(200).json(await rejectMergeSuggestion(tenantOf(req), params.data.id));
+  } catch (err) {
+    next(err);
+  }
+}
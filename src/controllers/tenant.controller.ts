@@ -0,0 +1,110 @@
+import { Request, Response, NextFunction } from "express";
+import {
+  createTenant,
+  listTenants,
+  issueApiKey,
+  listTenantApiKeys,
+  revokeApiKey,
+} from "../services/tenant.service";
+import {
+  CreateTenantSchema,
+  IdParamsSchema,
+  IssueApiKeySchema,
+} from "../validation/tenant.schema";
+import { sendValidationError } from "../validation/errors";
+
+// ---------------------------------------------------------------------------
+// Controllers
+// ---------------------------------------------------------------------------
+export async function createTenantController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const body = CreateTenantSchema.safeParse(req.body);
+
+    if (!body.success) {
+      sendValidationError(res, body.error.errors);
+      return;
+    }
+
+    res.status(201).json(await createTenant(body.data.name));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function listTenantsController(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    res.status(200).json({ tenants: await listTenants() });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function issueApiKeyController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = IdParamsSchema.safeParse(req.params);
+    const body = IssueApiKeySchema.safeParse(req.body);
+
+    if (!params.success) {
+      sendValidationError(res, params.error.errors);
+      return;
+    }
+    if (!body.success) {
+      sendValidationError(res, body.error.errors);
+      return;
+    }
+
+    res.status(201).json(await issueApiKey(params.data.id, body.data.name));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function listApiKeysController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = IdParamsSchema.safeParse(req.params);
+
+    if (!params.success) {
+      sendValidationError(res, params.error.errors);
+      return;
+    }
+
+    res.status(200).json({ apiKeys: await listTenantApiKeys(params.data.id) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function revokeApiKeyController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = IdParamsSchema.safeParse(req.params);
+
+    if (!params.success) {
+      sendValidationError(res, params.error.errors);
+      return;
+    }
+
+    res.status(200).json(await revokeApiKey(params.data.id));
+  } catch (err) {
+    next(err);
+  }
+}
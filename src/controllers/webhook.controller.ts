@@ -0,0 +1,157 @@
+import { Request, Response, NextFunction } from "express";
+import { tenantOf } from "../middleware/auth";
+import {
+  createWebhookSubscription,
+  listWebhookSubscriptions,
+  getWebhookSubscription,
+  updateWebhookSubscription,
+  deleteWebhookSubscription,
+  listWebhookDeliveries,
+  retryWebhookDelivery,
+} from "../services/webhook.service";
+import {
+  CreateSubscriptionSchema,
+  DeliveryQuerySchema,
+  IdParamsSchema,
+  UpdateSubscriptionSchema,
+} from "../validation/webhook.schema";
+import { sendValidationError } from "../validation/errors";
+
+// ---------------------------------------------------------------------------
+// Controllers
+// ---------------------------------------------------------------------------
+export async function createSubscriptionController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const body = CreateSubscriptionSchema.safeParse(req.body);
+
+    if (!body.success) {
+      sendValidationError(res, body.error.errors);
+      return;
+    }
+
+    res.status(201).json(await createWebhookSubscription(tenantOf(req), body.data));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function listSubscriptionsController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    res.status(200).json({ subscriptions: await listWebhookSubscriptions(tenantOf(req)) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function getSubscriptionController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = IdParamsSchema.safeParse(req.params);
+
+    if (!params.success) {
+      sendValidationError(res, params.error.errors);
+      return;
+    }
+
+    res.status(200).json(await getWebhookSubscription(tenantOf(req), params.data.id));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function updateSubscriptionController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = IdParamsSchema.safeParse(req.params);
+    const body = UpdateSubscriptionSchema.safeParse(req.body);
+
+    if (!params.success || !body.success) {
+      sendValidationError(res, [
+        ...(params.success ? [] : params.error.errors),
+        ...(body.success ? [] : body.error.errors),
+      ]);
+      return;
+    }
+
+    res.status(200).json(await updateWebhookSubscription(tenantOf(req), params.data.id, body.data));
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function deleteSubscriptionController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = IdParamsSchema.safeParse(req.params);
+
+    if (!params.success) {
+      sendValidationError(res, params.error.errors);
+      return;
+    }
+
+    await deleteWebhookSubscription(tenantOf(req), params.data.id);
+    res.status(204).end();
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function listDeliveriesController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = IdParamsSchema.safeParse(req.params);
+    const query = DeliveryQuerySchema.safeParse(req.query);
+
+    if (!params.success || !query.success) {
+      sendValidationError(res, [
+        ...(params.success ? [] : params.error.errors),
+        ...(query.success ? [] : query.error.errors),
+      ]);
+      return;
+    }
+
+    const deliveries = await listWebhookDeliveries(tenantOf(req), params.data.id, query.data.status);
+    res.status(200).json({ deliveries });
+  } catch (err) {
+    next(err);
+  }
+}
+
+export async function retryDeliveryController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const params = IdParamsSchema.safeParse(req.params);
+
+    if (!params.success) {
+      sendValidationError(res, params.error.errors);
+      return;
+    }
+
+    res.status(200).json(await retryWebhookDelivery(tenantOf(req), params.data.id));
+  } catch (err) {
+    next(err);
+  }
+}
@@ -0,0 +1,61 @@
+import DataLoader from "dataloader";
+import { Contact } from "../repositories/contact.repository";
+import { ContactLinkEvent } from "../repositories/link-event.repository";
+import { ContactRepository, contactStore } from "../repositories/storage";
+
+// ── Loaders ───────────────────────────────────────────────────────────────────
+// One set per GraphQL request. Every load() made while resolving one level of
+// the query is collected into a single query, so a list of N contacts asking
+// for their clusters costs one cluster query, not N. Results are cached for
+// the rest of the request; mutations clear them so later reads see their
+// writes.
+
+export interface Loaders {
+  /** Live contact by id, or null if unknown, deleted or in another tenant */
+  contact: DataLoader<number, Contact | null>;
+  /** Live rows of a cluster by primary id, oldest first; empty if none */
+  cluster: DataLoader<number, Contact[]>;
+  /** Link events of a cluster by primary id, oldest first */
+  history: DataLoader<number, ContactLinkEvent[]>;
+}
+
+export function createLoaders(
+  tenantId: number,
+  repo: ContactRepository = contactStore()
+): Loaders {
+  const cluster = new DataLoader<number, Contact[]>(async (primaryIds) => {
+    const rows = await repo.fetchCluster(tenantId, [...primaryIds]);
+    return primaryIds.map((id) => rows.filter((c) => c.id === id || c.linkedId === id));
+  });
+
+  return {
+    contact: new DataLoader<number, Contact | null>(async (ids) => {
+      const byId = new Map(
+        (await repo.findContactsInTenant(tenantId, [...ids])).map((c) => [c.id, c])
+      );
+      return ids.map((id) => byId.get(id) ?? null);
+    }),
+
+    cluster,
+
+    history: new DataLoader<number, ContactLinkEvent[]>(async (primaryIds) => {
+      const clusters = await cluster.loadMany(primaryIds);
+      const memberIds = clusters.map(
+        (rows) => new Set(rows instanceof Error ? [] : rows.map((c) => c.id))
+      );
+      const events = await repo.findClusterEvents([
+        ...new Set(memberIds.flatMap((ids) => [...ids])),
+      ]);
+
+      // Same rule as GET /contacts/:primaryId/history, applied per cluster
+      return memberIds.map((ids) =>
+        events.filter(
+          (e) =>
+            ids.has(e.contactId) ||
+            (e.oldLinkedId !== null && ids.has(e.oldLinkedId)) ||
+            (e.newLinkedId !== null && ids.has(e.newLinkedId))
+        )
+      );
+    }),
+  };
+}
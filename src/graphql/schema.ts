@@ -0,0 +1,256 @@
+import {
+  GraphQLEnumType,
+  GraphQLError,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLNullableType,
+  GraphQLObjectType,
+  GraphQLSchema,
+  GraphQLString,
+} from "graphql";
+import { VERIFICATION_STATUSES } from "../lib/verification";
+import { Contact } from "../repositories/contact.repository";
+import { ContactLinkEvent } from "../repositories/link-event.repository";
+import { findClusterPrimaryIds } from "../services/cluster.service";
+import { formatResponse, identify } from "../services/identity.service";
+import { validationError } from "../validation/errors";
+import { IdentifySchema, toIdentifyInput } from "../validation/identify.schema";
+import { Loaders } from "./loaders";
+
+// ── Schema ────────────────────────────────────────────────────────────────────
+// The same data as the REST routes, for clients that want a contact, its
+// cluster, its rows and its history in one round trip. Everything is read
+// through the request's loaders (./loaders.ts), so lists never cost a query
+// per item. Timestamps are ISO 8601 strings, as in the JSON API.
+
+// A type, not an interface: graphql-http wants a context assignable to Record
+export type GraphQLContext = {
+  tenantId: number;
+  loaders: Loaders;
+};
+
+/** What a Cluster field resolves from; the rows themselves come from the loader. */
+interface ClusterSource {
+  primaryId: number;
+}
+
+const nonNull = <T extends GraphQLNullableType>(type: T) => new GraphQLNonNull(type);
+const listOf = <T extends GraphQLNullableType>(type: T) =>
+  new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(type)));
+
+const iso = (date: Date | null) => (date ? date.toISOString() : null);
+
+async function summary(source: ClusterSource, ctx: GraphQLContext) {
+  return formatResponse(await ctx.loaders.cluster.load(source.primaryId)).contact;
+}
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+const LinkPrecedenceType = new GraphQLEnumType({
+  name: "LinkPrecedence",
+  values: { primary: {}, secondary: {} },
+});
+
+const VerificationStatusType = new GraphQLEnumType({
+  name: "VerificationStatus",
+  values: Object.fromEntries(VERIFICATION_STATUSES.map((s) => [s, {}])),
+});
+
+const LinkEventTypeType = new GraphQLEnumType({
+  name: "LinkEventType",
+  values: {
+    created: {},
+    demoted: {},
+    reparented: {},
+    promoted: {},
+    deleted: {},
+    erased: {},
+  },
+});
+
+const IdentifierType = new GraphQLObjectType<{ type: string; value: string }>({
+  name: "Identifier",
+  fields: {
+    type: { type: nonNull(GraphQLString) },
+    value: { type: nonNull(GraphQLString) },
+  },
+});
+
+const IdentifierGroupType = new GraphQLObjectType<{ type: string; values: string[] }>({
+  name: "IdentifierGroup",
+  description: "Every value of one identifier type in a cluster, primary's first",
+  fields: {
+    type: { type: nonNull(GraphQLString) },
+    values: { type: listOf(GraphQLString) },
+  },
+});
+
+const LinkEventObjectType = new GraphQLObjectType<ContactLinkEvent, GraphQLContext>({
+  name: "LinkEvent",
+  fields: {
+    id: { type: nonNull(GraphQLInt) },
+    contactId: { type: nonNull(GraphQLInt) },
+    type: { type: nonNull(LinkEventTypeType) },
+    oldLinkedId: { type: GraphQLInt },
+    newLinkedId: { type: GraphQLInt },
+    email: { type: GraphQLString },
+    phoneNumber: { type: GraphQLString },
+    requestId: { type: nonNull(GraphQLString) },
+    reason: { type: GraphQLString },
+    createdAt: { type: nonNull(GraphQLString), resolve: (e) => iso(e.createdAt) },
+  },
+});
+
+// Contact and Cluster refer to each other, hence the field thunks
+const ContactType: GraphQLObjectType<Contact, GraphQLContext> = new GraphQLObjectType<
+  Contact,
+  GraphQLContext
+>({
+  name: "Contact",
+  fields: () => ({
+    id: { type: nonNull(GraphQLInt) },
+    email: { type: GraphQLString },
+    phoneNumber: { type: GraphQLString },
+    emailVerification: { type: nonNull(VerificationStatusType) },
+    phoneVerification: { type: nonNull(VerificationStatusType) },
+    linkPrecedence: { type: nonNull(LinkPrecedenceType) },
+    linkedId: { type: GraphQLInt },
+    identifiers: {
+      type: listOf(IdentifierType),
+      resolve: (c) => c.identifiers ?? [],
+    },
+    createdAt: { type: nonNull(GraphQLString), resolve: (c) => iso(c.createdAt) },
+    updatedAt: { type: nonNull(GraphQLString), resolve: (c) => iso(c.updatedAt) },
+    cluster: {
+      type: nonNull(ClusterType),
+      resolve: (c): ClusterSource => ({
+        primaryId: c.linkPrecedence === "primary" ? c.id : c.linkedId!,
+      }),
+    },
+  }),
+});
+
+const ClusterType: GraphQLObjectType<ClusterSource, GraphQLContext> = new GraphQLObjectType<
+  ClusterSource,
+  GraphQLContext
+>({
+  name: "Cluster",
+  description: "A primary contact and its secondaries: one identity",
+  fields: () => ({
+    primaryContactId: { type: nonNull(GraphQLInt), resolve: (s) => s.primaryId },
+    emails: {
+      type: listOf(GraphQLString),
+      resolve: async (s, _args, ctx) => (await summary(s, ctx)).emails,
+    },
+    phoneNumbers: {
+      type: listOf(GraphQLString),
+      resolve: async (s, _args, ctx) => (await summary(s, ctx)).phoneNumbers,
+    },
+    secondaryContactIds: {
+      type: listOf(GraphQLInt),
+      resolve: async (s, _args, ctx) => (await summary(s, ctx)).secondaryContactIds,
+    },
+    identifiers: {
+      type: listOf(IdentifierGroupType),
+      resolve: async (s, _args, ctx) =>
+        Object.entries((await summary(s, ctx)).identifiers).map(([type, values]) => ({
+          type,
+          values,
+        })),
+    },
+    contacts: {
+      type: listOf(ContactType),
+      description: "Live rows of the cluster, oldest first",
+      resolve: (s, _args, ctx) => ctx.loaders.cluster.load(s.primaryId),
+    },
+    history: {
+      type: listOf(LinkEventObjectType),
+      description: "Link events of the cluster, oldest first",
+      resolve: (s, _args, ctx) => ctx.loaders.history.load(s.primaryId),
+    },
+  }),
+});
+
+// ── Operations ────────────────────────────────────────────────────────────────
+
+const IdentifierInputType = new GraphQLInputObjectType({
+  name: "IdentifierInput",
+  fields: {
+    type: { type: nonNull(GraphQLString) },
+    value: { type: nonNull(GraphQLString) },
+  },
+});
+
+const IdentifyInputType = new GraphQLInputObjectType({
+  name: "IdentifyInput",
+  description: "The POST /identify body, without dryRun",
+  fields: {
+    email: { type: GraphQLString },
+    phoneNumber: { type: GraphQLString },
+    identifiers: { type: new GraphQLList(new GraphQLNonNull(IdentifierInputType)) },
+  },
+});
+
+const QueryType = new GraphQLObjectType<unknown, GraphQLContext>({
+  name: "Query",
+  fields: {
+    contact: {
+      type: ContactType,
+      description: "A live contact by id; null if unknown or deleted",
+      args: { id: { type: nonNull(GraphQLInt) } },
+      resolve: (_root, args: { id: number }, ctx) => ctx.loaders.contact.load(args.id),
+    },
+    clusterByEmail: {
+      type: listOf(ClusterType),
+      description:
+        "Clusters holding the email, canonically matched. Usually one; an " +
+        "unlinked cluster can still share an identifier with its origin.",
+      args: { email: { type: nonNull(GraphQLString) } },
+      resolve: async (_root, args: { email: string }, ctx): Promise<ClusterSource[]> =>
+        (await findClusterPrimaryIds(ctx.tenantId, { email: args.email })).map((primaryId) => ({
+          primaryId,
+        })),
+    },
+    clusterByPhone: {
+      type: listOf(ClusterType),
+      description: "Clusters holding the phone number; see clusterByEmail",
+      args: { phoneNumber: { type: nonNull(GraphQLString) } },
+      resolve: async (_root, args: { phoneNumber: string }, ctx): Promise<ClusterSource[]> =>
+        (await findClusterPrimaryIds(ctx.tenantId, { phoneNumber: args.phoneNumber })).map(
+          (primaryId) => ({ primaryId })
+        ),
+    },
+  },
+});
+
+const MutationType = new GraphQLObjectType<unknown, GraphQLContext>({
+  name: "Mutation",
+  fields: {
+    identify: {
+      type: nonNull(ClusterType),
+      description: "Same resolution as POST /identify; returns the resulting cluster",
+      args: { input: { type: nonNull(IdentifyInputType) } },
+      resolve: async (_root, args: { input: unknown }, ctx): Promise<ClusterSource> => {
+        const parsed = IdentifySchema.safeParse(args.input);
+        if (!parsed.success) {
+          throw new GraphQLError("Validation failed", {
+            extensions: {
+              code: "BAD_USER_INPUT",
+              details: validationError(parsed.error.errors).details,
+            },
+          });
+        }
+
+        const { contact } = await identify(ctx.tenantId, toIdentifyInput(parsed.data));
+        ctx.loaders.contact.clearAll();
+        ctx.loaders.cluster.clearAll();
+        ctx.loaders.history.clearAll();
+        return { primaryId: contact.primaryContactId };
+      },
+    },
+  },
+});
+
+export const schema = new GraphQLSchema({ query: QueryType, mutation: MutationType });
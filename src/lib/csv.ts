@@ -0,0 +1,67 @@
+// ── CSV reading ───────────────────────────────────────────────────────────────
+// Just enough RFC 4180 for legacy exports: comma separated, optional double
+// quotes, "" as an escaped quote, and newlines inside quoted fields.
+
+/**
+ * Split one line into fields. Returns null when the line ends inside a quoted
+ * field, so the caller can append the next line and try again.
+ */
+export function parseCsvLine(line: string): string[] | null {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (quoted) return null;
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Group lines into CSV records. `line` is the 1-based line a record starts on.
+ */
+export async function* readCsvRecords(
+  lines: AsyncIterable<string>
+): AsyncGenerator<{ line: number; fields: string[] }> {
+  let pending: string | null = null;
+  let startLine = 0;
+  let lineNumber = 0;
+
+  for await (const raw of lines) {
+    lineNumber++;
+    const text: string = pending === null ? raw.replace(/\r$/, "") : `${pending}\n${raw.replace(/\r$/, "")}`;
+    if (pending === null) startLine = lineNumber;
+
+    const fields = parseCsvLine(text);
+    if (fields === null) {
+      pending = text;
+      continue;
+    }
+    pending = null;
+    yield { line: startLine, fields };
+  }
+
+  if (pending !== null) {
+    throw new Error(`Unterminated quoted field starting on line ${startLine}`);
+  }
+}
@@ -0,0 +1,17 @@
+// Opaque pagination cursors: base64url-encoded JSON. Clients pass them back
+// untouched; callers validate what comes out, since anyone can forge one.
+
+export function encodeCursor(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/**
+ * The value inside a cursor, or undefined when it is not one of ours.
+ */
+export function decodeCursor(cursor: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    return undefined;
+  }
+}
@@ -1,6 +1,37 @@
+import { logLevel } from "./logger";
+import { normalizationConfig } from "./normalize";
+import { RateLimitName, rateLimitPolicy } from "./rate-limit";
+import { suggestionConfig } from "./similarity";
+import { linkVerificationPolicy } from "./verification";
+import { primaryElectionStrategy } from "../services/primary-election";
+import { storageBackend } from "../repositories/storage";
+
 const REQUIRED_ENV_VARS = ["DATABASE_URL"] as const;
 
 export function validateEnv(): void {
+  // An unknown CONTACT_STORE fails here; with memory there is no database
+  if (storageBackend() === "postgres") validateDatabaseUrl();
+
+  // Fail fast on an unsupported PHONE_DEFAULT_REGION instead of on the first request
+  normalizationConfig();
+
+  // Same for an unknown PRIMARY_ELECTION_STRATEGY
+  primaryElectionStrategy();
+
+  // And for an unknown LOG_LEVEL, which would otherwise throw on the first log line
+  logLevel();
+
+  // And for rate limits that would otherwise fail every request they guard
+  (["apiKey", "ip", "merge"] as RateLimitName[]).forEach(rateLimitPolicy);
+
+  // And for merge suggestion rules, which would otherwise fail the first scan
+  suggestionConfig();
+
+  // And for LINK_VERIFICATION_POLICY, which would otherwise fail every /identify
+  linkVerificationPolicy();
+}
+
+function validateDatabaseUrl(): void {
   const missing = REQUIRED_ENV_VARS.filter((key) => !process.env[key]);
 
   if (missing.length > 0) {
@@ -17,4 +48,4 @@ export function validateEnv(): void {
       `DATABASE_URL must be a valid PostgreSQL connection string (got: ${dbUrl.slice(0, 20)}...)`
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,99 @@
+// ── Identifier registry ───────────────────────────────────────────────────────
+// Identifier types beyond email and phone. Each type is stored as
+// (type, value, normalizedValue) rows in ContactIdentifier and matched on its
+// normalized value, exactly like the email/phone columns. `email` and
+// `phoneNumber` keep their own columns and cannot be registered here.
+
+export interface IdentifierType {
+  /** Key used in requests, responses and the ContactIdentifier.type column */
+  type: string;
+  /** Shape the trimmed raw value must have */
+  pattern: RegExp;
+  patternMessage: string;
+  /** Canonical form used for matching; the raw value is what gets echoed */
+  normalize(value: string): string;
+}
+
+const RESERVED_TYPES = new Set(["email", "phoneNumber"]);
+
+const registry = new Map<string, IdentifierType>();
+
+export function registerIdentifierType(definition: IdentifierType): void {
+  if (RESERVED_TYPES.has(definition.type)) {
+    throw new Error(`Identifier type ${definition.type} is built in and cannot be registered`);
+  }
+  registry.set(definition.type, definition);
+}
+
+export function getIdentifierType(type: string): IdentifierType | undefined {
+  return registry.get(type);
+}
+
+export function identifierTypeNames(): string[] {
+  return [...registry.keys()];
+}
+
+registerIdentifierType({
+  type: "loyaltyCard",
+  pattern: /^[A-Za-z0-9][A-Za-z0-9 \-]{2,62}[A-Za-z0-9]$/,
+  patternMessage: "Invalid loyalty card number format",
+  // Printed cards group digits with spaces or dashes; matching ignores both
+  normalize: (value) => value.replace(/[\s\-]/g, "").toUpperCase(),
+});
+
+registerIdentifierType({
+  type: "deviceId",
+  pattern: /^[\x21-\x7e]{1,255}$/,
+  patternMessage: "Invalid device id format",
+  // IDFA / Android ids are UUID-like and arrive in either case
+  normalize: (value) => value.toLowerCase(),
+});
+
+registerIdentifierType({
+  type: "paymentFingerprint",
+  pattern: /^[A-Fa-f0-9]{32,128}$/,
+  patternMessage: "paymentFingerprint must be a hex-encoded hash",
+  normalize: (value) => value.toLowerCase(),
+});
+
+// ── Normalization ─────────────────────────────────────────────────────────────
+
+export interface IdentifierInput {
+  type: string;
+  value: string;
+}
+
+export interface NormalizedIdentifier extends IdentifierInput {
+  normalizedValue: string;
+}
+
+/**
+ * Normalize registered identifiers, dropping repeats of the same canonical
+ * value. Unknown types are rejected with a 400, as a guard behind the
+ * controller's validation.
+ */
+export function normalizeIdentifiers(
+  identifiers: IdentifierInput[] | null | undefined
+): NormalizedIdentifier[] {
+  const seen = new Set<string>();
+  const result: NormalizedIdentifier[] = [];
+
+  for (const { type, value } of identifiers ?? []) {
+    const definition = registry.get(type);
+    if (!definition) {
+      throw Object.assign(new Error(`Unknown identifier type: ${type}`), {
+        statusCode: 400,
+      });
+    }
+
+    const trimmed = value.trim();
+    if (!trimmed) continue;
+    const normalizedValue = definition.normalize(trimmed);
+    const key = `${type}:${normalizedValue}`;
+    if (seen.has(key)) continue;
+
+    seen.add(key);
+    result.push({ type, value: trimmed, normalizedValue });
+  }
+  return result;
+}
@@ -1,19 +1,89 @@
-type LogLevel = "info" | "warn" | "error";
+import { currentRequestContext } from "./request-context";
+
+type LogLevel = "debug" | "info" | "warn" | "error";
 
 interface LogEntry {
   level: LogLevel;
   timestamp: string;
   message: string;
+  requestId?: string;
+  tenantId?: number;
   [key: string]: unknown;
 }
 
+// ── Levels ────────────────────────────────────────────────────────────────────
+
+export const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * Minimum level written, from LOG_LEVEL (default info). Read on every call so
+ * tests can change it through process.env.
+ */
+export function logLevel(): LogLevel {
+  const level = (process.env.LOG_LEVEL ?? "info").toLowerCase() as LogLevel;
+  if (!LOG_LEVELS.includes(level)) {
+    throw new Error(`LOG_LEVEL must be one of ${LOG_LEVELS.join(", ")} (got: ${process.env.LOG_LEVEL})`);
+  }
+  return level;
+}
+
+// ── Redaction ─────────────────────────────────────────────────────────────────
+// Emails and phone numbers never reach log output in full: fields known to
+// hold them are masked wherever they are nested, and anything email- or
+// phone-shaped is masked inside other strings (error messages, SQL).
+
+const EMAIL_KEYS = new Set(["email", "emailNormalized"]);
+const PHONE_KEYS = new Set(["phone", "phoneNumber", "phoneNormalized"]);
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+// 7 to 15 digits, optionally after a +, separated by spaces, dashes or
+// parentheses, and not part of a longer word, id or number. Dots are not
+// separators, so IP addresses and decimals are left alone.
+const PHONE_PATTERN = /(?<![\w+-])\+?\d(?:[ ()-]*\d){6,14}(?![\w-])/g;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function maskEmail(value: string): string {
+  return value.replace(EMAIL_PATTERN, "$1***@$2");
+}
+
+export function maskPhone(value: string): string {
+  const digits = value.replace(/\D/g, "");
+  return digits.length > 2 ? `***${digits.slice(-2)}` : "***";
+}
+
+/** Mask every email and phone number inside free text. */
+export function maskText(value: string): string {
+  return maskEmail(value).replace(PHONE_PATTERN, (match) =>
+    DATE_PATTERN.test(match) ? match : maskPhone(match)
+  );
+}
+
+export function redact(value: unknown, key?: string): unknown {
+  if (typeof value === "string") {
+    if (key && EMAIL_KEYS.has(key)) return maskEmail(value);
+    if (key && PHONE_KEYS.has(key)) return maskPhone(value);
+    return maskText(value);
+  }
+  if (Array.isArray(value)) return value.map((v) => redact(v, key));
+  if (value instanceof Date || value === null || typeof value !== "object") return value;
+
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+}
+
+// ── Output ────────────────────────────────────────────────────────────────────
+
 function log(level: LogLevel, message: string, meta?: Record<string, unknown>): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(logLevel())) return;
+
   const entry: LogEntry = {
     level,
     timestamp: new Date().toISOString(),
-    message,
-    ...meta,
+    message: maskText(message),
+    ...(redact(meta ?? {}) as Record<string, unknown>),
   };
+  const context = currentRequestContext();
+  if (context) entry.requestId = context.requestId;
+  if (context?.tenantId !== undefined) entry.tenantId = context.tenantId;
+
   const output = JSON.stringify(entry);
   if (level === "error") {
     process.stderr.write(output + "\n");
@@ -23,7 +93,8 @@ function log(level: LogLevel, message: string, meta?: Record<string, unknown>):
 }
 
 export const logger = {
+  debug: (message: string, meta?: Record<string, unknown>) => log("debug", message, meta),
   info: (message: string, meta?: Record<string, unknown>) => log("info", message, meta),
   warn: (message: string, meta?: Record<string, unknown>) => log("warn", message, meta),
   error: (message: string, meta?: Record<string, unknown>) => log("error", message, meta),
-};
\ No newline at end of file
+};
@@ -0,0 +1,89 @@
+import { Counter, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+
+// ── Registry ──────────────────────────────────────────────────────────────────
+// One registry for the process, served by GET /metrics. Metrics are module
+// singletons so any layer can record without threading a handle through.
+
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry });
+
+// ── HTTP ──────────────────────────────────────────────────────────────────────
+
+export const httpRequestsTotal = new Counter({
+  name: "http_requests_total",
+  help: "HTTP requests handled, by route and status code",
+  labelNames: ["method", "route", "status_code"] as const,
+  registers: [registry],
+});
+
+export const httpRequestDuration = new Histogram({
+  name: "http_request_duration_seconds",
+  help: "HTTP request latency, by route and status code",
+  labelNames: ["method", "route", "status_code"] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [registry],
+});
+
+export const rateLimitedTotal = new Counter({
+  name: "rate_limited_requests_total",
+  help: "Requests refused with 429, by limit: apiKey, ip or merge",
+  labelNames: ["limit"] as const,
+  registers: [registry],
+});
+
+// ── Identity resolution ───────────────────────────────────────────────────────
+// Recorded after the transaction commits: dry runs and retried attempts that
+// were rolled back never show up here.
+
+export const identityResolutionsTotal = new Counter({
+  name: "identity_resolutions_total",
+  help: "Committed identify() calls by outcome: new_primary, new_secondary or idempotent",
+  labelNames: ["outcome"] as const,
+  registers: [registry],
+});
+
+export const identityMergesTotal = new Counter({
+  name: "identity_merges_total",
+  help: "Committed identify() calls that merged two or more clusters",
+  registers: [registry],
+});
+
+export const identityDemotedPrimariesTotal = new Counter({
+  name: "identity_demoted_primaries_total",
+  help: "Primaries demoted to secondary by identify() merges",
+  registers: [registry],
+});
+
+export const identityClusterSize = new Histogram({
+  name: "identity_cluster_size",
+  help: "Contacts in the cluster returned by identify()",
+  buckets: [1, 2, 3, 5, 10, 20, 50, 100, 500],
+  registers: [registry],
+});
+
+// ── Database ──────────────────────────────────────────────────────────────────
+
+export const transactionRetriesTotal = new Counter({
+  name: "db_transaction_retries_total",
+  help: "Transactions retried after a deadlock or serialization failure",
+  registers: [registry],
+});
+
+export const prismaQueryDuration = new Histogram({
+  name: "prisma_query_duration_seconds",
+  help: "Duration of SQL statements issued by Prisma, by statement type",
+  labelNames: ["operation"] as const,
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 5],
+  registers: [registry],
+});
+
+const SQL_OPERATIONS = new Set(["select", "insert", "update", "delete", "begin", "commit", "rollback"]);
+
+/**
+ * Statement type of a SQL string, bounded to a fixed set of label values.
+ */
+export function sqlOperation(query: string): string {
+  const keyword = /^\s*(\w+)/.exec(query)?.[1]?.toLowerCase() ?? "";
+  return SQL_OPERATIONS.has(keyword) ? keyword : "other";
+}
@@ -0,0 +1,93 @@
+import {
+  CountryCode,
+  isSupportedCountry,
+  parsePhoneNumberFromString,
+} from "libphonenumber-js";
+
+// ── Configuration ─────────────────────────────────────────────────────────────
+// Read on every call so tests and the backfill script can switch settings
+// through process.env without reloading modules.
+
+export interface NormalizationConfig {
+  /** Region used to parse phone numbers written without a +country prefix */
+  defaultRegion: CountryCode;
+  /** Apply provider rules such as Gmail dot and plus-tag folding */
+  emailProviderRules: boolean;
+}
+
+export function normalizationConfig(): NormalizationConfig {
+  const region = process.env.PHONE_DEFAULT_REGION ?? "US";
+  if (!isSupportedCountry(region)) {
+    throw new Error(`PHONE_DEFAULT_REGION is not a supported region: ${region}`);
+  }
+  return {
+    defaultRegion: region,
+    emailProviderRules: process.env.EMAIL_PROVIDER_RULES === "true",
+  };
+}
+
+// ── Email ─────────────────────────────────────────────────────────────────────
+
+interface ProviderRule {
+  canonicalDomain: string;
+  stripDots: boolean;
+  stripPlusTag: boolean;
+}
+
+const PROVIDER_RULES: Record<string, ProviderRule> = {
+  "gmail.com":      { canonicalDomain: "gmail.com",   stripDots: true,  stripPlusTag: true },
+  "googlemail.com": { canonicalDomain: "gmail.com",   stripDots: true,  stripPlusTag: true },
+  "outlook.com":    { canonicalDomain: "outlook.com", stripDots: false, stripPlusTag: true },
+  "hotmail.com":    { canonicalDomain: "hotmail.com", stripDots: false, stripPlusTag: true },
+  "live.com":       { canonicalDomain: "live.com",    stripDots: false, stripPlusTag: true },
+  "icloud.com":     { canonicalDomain: "icloud.com",  stripDots: false, stripPlusTag: true },
+  "fastmail.com":   { canonicalDomain: "fastmail.com", stripDots: false, stripPlusTag: true },
+  "proton.me":      { canonicalDomain: "proton.me",   stripDots: false, stripPlusTag: true },
+  "protonmail.com": { canonicalDomain: "proton.me",   stripDots: false, stripPlusTag: true },
+};
+
+/**
+ * Case-fold an email and, when enabled, apply provider-specific aliasing so
+ * that `J.Doe+shop@GoogleMail.com` and `jdoe@gmail.com` compare equal.
+ */
+export function normalizeEmail(
+  email: string | null | undefined,
+  config: NormalizationConfig = normalizationConfig()
+): string | null {
+  if (!email) return null;
+
+  const folded = email.trim().toLowerCase();
+  const at = folded.lastIndexOf("@");
+  if (at <= 0 || !config.emailProviderRules) return folded || null;
+
+  let local = folded.slice(0, at);
+  let domain = folded.slice(at + 1);
+  const rule = PROVIDER_RULES[domain];
+  if (rule) {
+    if (rule.stripPlusTag) local = local.split("+")[0];
+    if (rule.stripDots) local = local.replace(/\./g, "");
+    domain = rule.canonicalDomain;
+  }
+  return `${local}@${domain}`;
+}
+
+// ── Phone ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Convert a phone number to E.164. Numbers that cannot possibly be valid in
+ * the configured region (short codes, test data like "123456") fall back to
+ * their digits so they still match themselves regardless of punctuation.
+ */
+export function normalizePhone(
+  phoneNumber: string | null | undefined,
+  config: NormalizationConfig = normalizationConfig()
+): string | null {
+  if (!phoneNumber) return null;
+
+  const parsed = parsePhoneNumberFromString(phoneNumber, config.defaultRegion);
+  if (parsed && parsed.isPossible()) return parsed.number;
+
+  const digits = phoneNumber.replace(/\D/g, "");
+  if (!digits) return null;
+  return phoneNumber.trim().startsWith("+") ? `+${digits}` : digits;
+}
@@ -1,4 +1,6 @@
 import { PrismaClient } from "@prisma/client";
+import { logger } from "./logger";
+import { prismaQueryDuration, sqlOperation } from "./metrics";
 
 declare global {
   // Prevent multiple instances during hot-reload in dev
@@ -6,15 +8,29 @@ declare global {
   var __prisma: PrismaClient | undefined;
 }
 
-export const prisma: PrismaClient =
-  global.__prisma ??
-  new PrismaClient({
-    log:
-      process.env.NODE_ENV === "development"
-        ? ["query", "warn", "error"]
-        : ["warn", "error"],
+function createClient(): PrismaClient {
+  // Queries are emitted as events so every one can be timed; development
+  // still logs them, like Prisma's own "query" stdout logging did.
+  const client = new PrismaClient({
+    log: [
+      { emit: "event", level: "query" },
+      { emit: "stdout", level: "warn" },
+      { emit: "stdout", level: "error" },
+    ],
   });
 
+  client.$on("query", (e: { query: string; duration: number }) => {
+    prismaQueryDuration.observe({ operation: sqlOperation(e.query) }, e.duration / 1000);
+    if (process.env.NODE_ENV === "development") {
+      logger.info("prisma query", { query: e.query, durationMs: e.duration });
+    }
+  });
+
+  return client;
+}
+
+export const prisma: PrismaClient = global.__prisma ?? createClient();
+
 if (process.env.NODE_ENV !== "production") {
   global.__prisma = prisma;
-}
\ No newline at end of file
+}
@@ -0,0 +1,170 @@
+import { rateLimitedTotal } from "./metrics";
+
+// ── Token buckets ─────────────────────────────────────────────────────────────
+// Each bucket holds up to `burst` tokens and refills continuously at
+// `perSecond`; a request spends one, or one per item it resolves. A client can
+// burst up to the bucket size and is then held to the refill rate.
+
+export type RateLimitName = "apiKey" | "ip" | "merge";
+
+export interface BucketPolicy {
+  /** Bucket size: requests allowed back to back */
+  burst: number;
+  /** Tokens added back per second */
+  perSecond: number;
+}
+
+export interface BucketState {
+  allowed: boolean;
+  /** Whole tokens left after this request */
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  resetSeconds: number;
+  /** Seconds until the bucket holds the request's cost, when refused; 0 when allowed */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Where bucket levels live. The in-memory store is per process, so N
+ * instances allow N times the configured rate; a shared store (Redis, say)
+ * plugs in through setRateLimitStore().
+ */
+export interface RateLimitStore {
+  /** Spend `cost` tokens from the bucket at `key` if it has that many. */
+  consume(key: string, policy: BucketPolicy, cost?: number): Promise<BucketState>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  policy: BucketPolicy;
+}
+
+function refilled(bucket: Bucket, now: number): number {
+  const { burst, perSecond } = bucket.policy;
+  return Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * perSecond);
+}
+
+// Past this many buckets, full ones are swept out on the next write
+const SWEEP_THRESHOLD = 10_000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async consume(key: string, policy: BucketPolicy, cost = 1): Promise<BucketState> {
+    const now = this.now();
+    const previous = this.buckets.get(key);
+    // A lowered burst takes effect immediately
+    let tokens = Math.min(policy.burst, previous ? refilled(previous, now) : policy.burst);
+
+    const allowed = tokens >= cost;
+    if (allowed) tokens -= cost;
+
+    if (this.buckets.size >= SWEEP_THRESHOLD && !previous) this.sweep(now);
+    this.buckets.set(key, { tokens, updatedAt: now, policy });
+
+    return {
+      allowed,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((policy.burst - tokens) / policy.perSecond),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((cost - tokens) / policy.perSecond),
+    };
+  }
+
+  /**
+   * Drop buckets that have refilled completely; a missing bucket starts full,
+   * so they carry no information.
+   */
+  private sweep(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (refilled(bucket, now) >= bucket.policy.burst) this.buckets.delete(key);
+    }
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export function rateLimitStore(): RateLimitStore {
+  return store;
+}
+
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+export interface RateLimitResult {
+  policy: BucketPolicy;
+  state: BucketState;
+}
+
+/**
+ * Spend `cost` tokens from the bucket `key` has under one limit. Null when
+ * that limit is turned off.
+ */
+export async function takeToken(
+  name: RateLimitName,
+  key: string,
+  cost = 1
+): Promise<RateLimitResult | null> {
+  const policy = rateLimitPolicy(name);
+  if (!policy) return null;
+
+  const state = await store.consume(`${name}:${key}`, policy, cost);
+  if (!state.allowed) rateLimitedTotal.inc({ limit: name });
+  return { policy, state };
+}
+
+// ── Configuration ─────────────────────────────────────────────────────────────
+
+const DEFAULTS: Record<RateLimitName, BucketPolicy> = {
+  apiKey: { burst: 200, perSecond: 50 },
+  ip: { burst: 300, perSecond: 100 },
+  merge: { burst: 30, perSecond: 1 },
+};
+
+const ENV_PREFIX: Record<RateLimitName, string> = {
+  apiKey: "RATE_LIMIT_KEY",
+  ip: "RATE_LIMIT_IP",
+  merge: "RATE_LIMIT_MERGE",
+};
+
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number (got: ${raw})`);
+  }
+  return value;
+}
+
+/**
+ * Policy for one limit from <PREFIX>_BURST and <PREFIX>_PER_SECOND, or null
+ * when the limit is turned off with a burst of 0.
+ */
+export function rateLimitPolicy(name: RateLimitName): BucketPolicy | null {
+  const prefix = ENV_PREFIX[name];
+  const burst = readNumber(`${prefix}_BURST`, DEFAULTS[name].burst);
+  if (burst === 0) return null;
+
+  const perSecond = readNumber(`${prefix}_PER_SECOND`, DEFAULTS[name].perSecond);
+  if (burst < 1 || perSecond === 0) {
+    throw new Error(`${prefix}_BURST must be 0 or at least 1, and ${prefix}_PER_SECOND above 0`);
+  }
+  return { burst, perSecond };
+}
+
+/**
+ * Standard RateLimit-* response headers for a bucket.
+ */
+export function rateLimitHeaders({ policy, state }: RateLimitResult): Record<string, string> {
+  return {
+    "RateLimit-Limit": String(policy.burst),
+    "RateLimit-Remaining": String(state.remaining),
+    "RateLimit-Reset": String(state.resetSeconds),
+    ...(state.allowed ? {} : { "Retry-After": String(state.retryAfterSeconds) }),
+  };
+}
@@ -0,0 +1,39 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+
+// ── Request context ───────────────────────────────────────────────────────────
+// Carried through every await made while handling a request, so code deep in
+// the call stack (the logger, link-event auditing) can see which request it is
+// serving without the id being passed down by hand.
+
+export interface RequestContext {
+  requestId: string;
+  /** Set by the API-key middleware once the caller is authenticated */
+  tenantId?: number;
+  /** The key that authenticated the caller; rate limits are kept per key */
+  apiKeyId?: number;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/** The context of the request being served, or undefined outside one (workers, CLI). */
+export function currentRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/** Id of the request being served, or undefined outside one (workers, CLI). */
+export function currentRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+/**
+ * Id to stamp on audit records: the current request's, so link events and
+ * webhooks can be traced back to it, or a fresh one outside a request.
+ */
+export function requestIdOrNew(): string {
+  return currentRequestId() ?? randomUUID();
+}
@@ -0,0 +1,322 @@
+// ── Near-duplicate detection ──────────────────────────────────────────────────
+// Exact matching links clusters that share a normalized identifier. These
+// rules score pairs that share none but still look like one person
+// (`jon.smith@` vs `john.smith@`, a phone with two digits swapped). Scores
+// only ever produce merge suggestions for a human to review; nothing here
+// merges anything.
+
+/** The normalized identifiers of one cluster, as the rules see it. */
+export interface ClusterProfile {
+  primaryId: number;
+  emails: string[];
+  phones: string[];
+}
+
+export interface RuleMatch {
+  rule: string;
+  /** Evidence that the two clusters are one person, 0–1, after weighting */
+  score: number;
+  /** Why the rule fired; never contains the identifiers themselves */
+  detail: string;
+}
+
+/**
+ * One way two clusters can resemble each other. `match` returns the strongest
+ * evidence it finds across every pair of identifiers, or null for none.
+ */
+export interface SimilarityRule {
+  name: string;
+  match(a: ClusterProfile, b: ClusterProfile): { score: number; detail: string } | null;
+}
+
+// ── Distances ─────────────────────────────────────────────────────────────────
+
+/** Levenshtein distance: insertions, deletions and substitutions. */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** True when `b` is `a` with exactly one pair of adjacent characters swapped. */
+export function isAdjacentTransposition(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  const diffs = [...a].flatMap((ch, i) => (ch === b[i] ? [] : [i]));
+  return (
+    diffs.length === 2 &&
+    diffs[1] === diffs[0] + 1 &&
+    a[diffs[0]] === b[diffs[1]] &&
+    a[diffs[1]] === b[diffs[0]]
+  );
+}
+
+function hammingDistance(a: string, b: string): number {
+  let d = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) d++;
+  return d;
+}
+
+// ── Identifier parts ──────────────────────────────────────────────────────────
+
+function splitEmail(email: string): { local: string; domain: string } | null {
+  const at = email.lastIndexOf("@");
+  if (at <= 0) return null;
+  return { local: email.slice(0, at), domain: email.slice(at + 1) };
+}
+
+/** Alphabetic tokens of a local part: `john.smith84` → ["john", "smith"]. */
+function nameTokens(local: string): string[] {
+  return local.split(/[^a-z]+/).filter((t) => t.length > 0);
+}
+
+const digitsOf = (phone: string) => phone.replace(/\D/g, "");
+
+// Phone rules ignore anything shorter; short codes and test data are too
+// dense for one digit of difference to mean anything
+const MIN_PHONE_DIGITS = 7;
+
+// Email local parts further apart than this never score
+const MAX_EMAIL_EDITS = 2;
+const MIN_EMAIL_EDIT_SCORE = 0.7;
+
+/** Best result of `score` over every cross pair of values; null if none scores. */
+function best<T>(
+  as: T[],
+  bs: T[],
+  score: (a: T, b: T) => { score: number; detail: string } | null
+): { score: number; detail: string } | null {
+  let top: { score: number; detail: string } | null = null;
+  for (const a of as) {
+    for (const b of bs) {
+      const result = score(a, b);
+      if (result && (!top || result.score > top.score)) top = result;
+    }
+  }
+  return top;
+}
+
+// ── Rules ─────────────────────────────────────────────────────────────────────
+
+/** Same domain, local parts a typo or two apart. */
+export const emailEditDistance: SimilarityRule = {
+  name: "email-edit-distance",
+  match: (a, b) =>
+    best(a.emails, b.emails, (x, y) => {
+      const ex = splitEmail(x);
+      const ey = splitEmail(y);
+      if (!ex || !ey || ex.domain !== ey.domain || ex.local === ey.local) return null;
+      if (Math.min(ex.local.length, ey.local.length) < 4) return null;
+
+      const d = editDistance(ex.local, ey.local);
+      if (d > MAX_EMAIL_EDITS) return null;
+      const score = 1 - d / Math.max(ex.local.length, ey.local.length);
+      return score < MIN_EMAIL_EDIT_SCORE ? null : { score, detail: `email local parts ${d} edit(s) apart, same domain` };
+    }),
+};
+
+/**
+ * Same domain and a name-like local part (`given.family`) with the same family
+ * name and a compatible given name: equal, one edit apart, or an initial.
+ */
+export const emailNameMatch: SimilarityRule = {
+  name: "email-name",
+  match: (a, b) =>
+    best(a.emails, b.emails, (x, y) => {
+      const ex = splitEmail(x);
+      const ey = splitEmail(y);
+      if (!ex || !ey || ex.domain !== ey.domain || ex.local === ey.local) return null;
+
+      const tx = nameTokens(ex.local);
+      const ty = nameTokens(ey.local);
+      if (tx.length < 2 || ty.length < 2) return null;
+      const [givenX, familyX] = [tx[0], tx[tx.length - 1]];
+      const [givenY, familyY] = [ty[0], ty[ty.length - 1]];
+      if (familyX !== familyY || familyX.length < 3) return null;
+
+      if (givenX === givenY) return { score: 0.9, detail: "same name in email, same domain" };
+      if (
+        Math.min(givenX.length, givenY.length) >= 3 &&
+        editDistance(givenX, givenY) === 1
+      ) {
+        return { score: 0.8, detail: "similar given name and same family name in email, same domain" };
+      }
+      if ((givenX.length === 1 || givenY.length === 1) && givenX[0] === givenY[0]) {
+        return { score: 0.6, detail: "same initial and family name in email, same domain" };
+      }
+      return null;
+    }),
+};
+
+/** The same number with two adjacent digits swapped. */
+export const phoneTransposition: SimilarityRule = {
+  name: "phone-transposition",
+  match: (a, b) =>
+    best(a.phones.map(digitsOf), b.phones.map(digitsOf), (x, y) =>
+      x.length >= MIN_PHONE_DIGITS && isAdjacentTransposition(x, y)
+        ? { score: 0.85, detail: "phone numbers differ by two swapped digits" }
+        : null
+    ),
+};
+
+/** The same number with one digit wrong. */
+export const phoneOneDigit: SimilarityRule = {
+  name: "phone-one-digit",
+  match: (a, b) =>
+    best(a.phones.map(digitsOf), b.phones.map(digitsOf), (x, y) =>
+      x.length >= MIN_PHONE_DIGITS && x.length === y.length && hammingDistance(x, y) === 1
+        ? { score: 0.6, detail: "phone numbers differ in one digit" }
+        : null
+    ),
+};
+
+/** Different numbers ending in the same four digits; weak on its own. */
+export const phoneLastFour: SimilarityRule = {
+  name: "phone-last-four",
+  match: (a, b) =>
+    best(a.phones.map(digitsOf), b.phones.map(digitsOf), (x, y) =>
+      x !== y && x.length >= MIN_PHONE_DIGITS && y.length >= MIN_PHONE_DIGITS && x.slice(-4) === y.slice(-4)
+        ? { score: 0.3, detail: "phone numbers share the last four digits" }
+        : null
+    ),
+};
+
+const RULES: Record<string, SimilarityRule> = Object.fromEntries(
+  [emailEditDistance, emailNameMatch, phoneTransposition, phoneOneDigit, phoneLastFour].map(
+    (r) => [r.name, r]
+  )
+);
+
+// ── Configuration ─────────────────────────────────────────────────────────────
+// Read on every call, like primaryElectionStrategy(), so tests can switch
+// rules through process.env.
+
+export interface WeightedRule {
+  rule: SimilarityRule;
+  /** Multiplies the rule's score; 1 keeps it as is */
+  weight: number;
+}
+
+export interface SuggestionConfig {
+  rules: WeightedRule[];
+  /** Combined score a pair needs to be suggested */
+  minScore: number;
+}
+
+/**
+ * Rules from MERGE_SUGGESTION_RULES, a comma-separated list of rule names with
+ * an optional `:weight` (`email-name,phone-last-four:0.5`); every rule at
+ * weight 1 when unset. Threshold from MERGE_SUGGESTION_MIN_SCORE.
+ */
+export function suggestionConfig(): SuggestionConfig {
+  const raw = process.env.MERGE_SUGGESTION_RULES;
+  const entries = raw ? raw.split(",").map((s) => s.trim()).filter(Boolean) : Object.keys(RULES);
+
+  const rules = entries.map((entry) => {
+    const [name, weightRaw] = entry.split(":");
+    const rule = RULES[name];
+    if (!rule) {
+      throw new Error(
+        `MERGE_SUGGESTION_RULES entries must be one of ${Object.keys(RULES).join(", ")} (got: ${name})`
+      );
+    }
+    const weight = weightRaw === undefined ? 1 : Number(weightRaw);
+    if (!Number.isFinite(weight) || weight <= 0) {
+      throw new Error(`MERGE_SUGGESTION_RULES weight for ${name} must be a positive number`);
+    }
+    return { rule, weight };
+  });
+
+  const minScore = Number(process.env.MERGE_SUGGESTION_MIN_SCORE ?? "0.8");
+  if (!(minScore > 0 && minScore <= 1)) {
+    throw new Error(`MERGE_SUGGESTION_MIN_SCORE must be above 0 and at most 1`);
+  }
+  return { rules, minScore };
+}
+
+// ── Scoring ───────────────────────────────────────────────────────────────────
+
+/**
+ * Score a pair of clusters. Rules are combined as independent evidence
+ * (noisy-OR: 1 − Π(1 − score)), so two weak signals together outrank either
+ * alone but never reach 1.
+ */
+export function scorePair(
+  a: ClusterProfile,
+  b: ClusterProfile,
+  rules: WeightedRule[]
+): { score: number; matches: RuleMatch[] } {
+  const matches = rules.flatMap(({ rule, weight }) => {
+    const m = rule.match(a, b);
+    return m ? [{ rule: rule.name, score: Math.min(1, m.score * weight), detail: m.detail }] : [];
+  });
+  const score = 1 - matches.reduce((miss, m) => miss * (1 - m.score), 1);
+  return { score, matches };
+}
+
+// ── Candidate blocking ────────────────────────────────────────────────────────
+// Scoring every pair of clusters is quadratic. Clusters are only compared
+// when they share a blocking key, and every rule above fires only for pairs
+// that share one: the same domain with local parts that reduce to a common
+// string by up to MAX_EMAIL_EDITS deletions each (strings k edits apart always
+// do) or the same family name, or phone digits one deletion apart (covering
+// one wrong or two swapped digits) or the same last four.
+
+/** `value` and every string up to `depth` single-character deletions from it. */
+function deletions(value: string, depth: number): Set<string> {
+  const variants = new Set([value]);
+  let frontier = [value];
+  for (let d = 0; d < depth; d++) {
+    const next: string[] = [];
+    for (const v of frontier) {
+      for (let i = 0; i < v.length; i++) {
+        const shorter = v.slice(0, i) + v.slice(i + 1);
+        if (!variants.has(shorter)) {
+          variants.add(shorter);
+          next.push(shorter);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return variants;
+}
+
+/**
+ * Deletion depth a local part needs. Two edits only score when the longer
+ * local part is long enough for 1 − 2/length to reach the threshold; shorter
+ * ones skip the second level, whose short variants would crowd the blocks.
+ */
+function emailDeletionDepth(local: string): number {
+  const minLongest = Math.ceil(MAX_EMAIL_EDITS / (1 - MIN_EMAIL_EDIT_SCORE));
+  return local.length + MAX_EMAIL_EDITS >= minLongest ? MAX_EMAIL_EDITS : 1;
+}
+
+export function blockingKeys(profile: ClusterProfile): string[] {
+  const keys = new Set<string>();
+  for (const email of profile.emails) {
+    const parts = splitEmail(email);
+    if (!parts) continue;
+    for (const variant of deletions(parts.local, emailDeletionDepth(parts.local))) {
+      keys.add(`e:${parts.domain}:${variant}`);
+    }
+    const tokens = nameTokens(parts.local);
+    if (tokens.length >= 2) keys.add(`n:${parts.domain}:${tokens[tokens.length - 1]}`);
+  }
+  for (const phone of profile.phones) {
+    const digits = digitsOf(phone);
+    if (digits.length < MIN_PHONE_DIGITS) continue;
+    for (const variant of deletions(digits, 1)) keys.add(`p:${variant}`);
+    keys.add(`p4:${digits.slice(-4)}`);
+  }
+  return [...keys];
+}
@@ -0,0 +1,49 @@
+import { prisma } from "./prisma";
+import { logger } from "./logger";
+import { transactionRetriesTotal } from "./metrics";
+import type { TxClient } from "../repositories/contact.repository";
+
+export interface TransactionOptions {
+  /** Interactive-transaction timeout in ms (Prisma default: 5000) */
+  timeout?: number;
+}
+
+function maxRetries(): number {
+  return parseInt(process.env.TX_MAX_RETRIES ?? "3", 10);
+}
+
+/**
+ * Deadlocks and serialization failures are safe to retry from the top: the
+ * transaction was rolled back and nothing it did is visible to anyone.
+ */
+function isRetryable(err: unknown): boolean {
+  const e = err as { code?: string; meta?: { code?: string } };
+  if (e?.code === "P2034") return true;
+  // Raw queries (advisory locks) surface the Postgres SQLSTATE instead
+  return e?.code === "P2010" && (e.meta?.code === "40P01" || e.meta?.code === "40001");
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * prisma.$transaction with automatic retry on deadlock / write conflict.
+ * `fn` may run more than once, so it must not have side effects outside `tx`.
+ */
+export async function runTransaction<T>(
+  fn: (tx: TxClient) => Promise<T>,
+  options: TransactionOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await prisma.$transaction(fn, options);
+    } catch (err) {
+      if (!isRetryable(err) || attempt >= maxRetries()) throw err;
+      transactionRetriesTotal.inc();
+
+      // Jittered exponential backoff so the colliding callers spread out
+      const delay = Math.round(2 ** attempt * 25 * (1 + Math.random()));
+      logger.warn("transaction conflict, retrying", { attempt: attempt + 1, delayMs: delay });
+      await sleep(delay);
+    }
+  }
+}
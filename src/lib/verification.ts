@@ -0,0 +1,53 @@
+// ── Statuses ──────────────────────────────────────────────────────────────────
+// Tracked per email and per phone number, on every row that carries the value:
+// verifying an identifier verifies it wherever it appears in the tenant.
+
+export type VerificationStatus = "unverified" | "verified_otp" | "verified_partner";
+
+export const VERIFICATION_STATUSES: readonly VerificationStatus[] = [
+  "unverified",
+  "verified_otp",
+  "verified_partner",
+];
+
+export function isVerified(status: VerificationStatus): boolean {
+  return status !== "unverified";
+}
+
+/**
+ * The strongest of several statuses, in VERIFICATION_STATUSES order: a
+ * partner's word outranks an OTP, which outranks nothing. unverified when
+ * there are none.
+ */
+export function strongestStatus(statuses: VerificationStatus[]): VerificationStatus {
+  return statuses.reduce<VerificationStatus>(
+    (best, s) =>
+      VERIFICATION_STATUSES.indexOf(s) > VERIFICATION_STATUSES.indexOf(best) ? s : best,
+    "unverified"
+  );
+}
+
+// ── Linking policy ────────────────────────────────────────────────────────────
+
+/**
+ * What identify() needs before it merges two clusters:
+ * - any:      a shared email, phone or identifier is enough (the original behaviour)
+ * - verified: every email and phone that reaches another cluster must be verified
+ */
+export type LinkVerificationPolicy = "any" | "verified";
+
+const POLICIES: readonly LinkVerificationPolicy[] = ["any", "verified"];
+
+/**
+ * From LINK_VERIFICATION_POLICY (default any). Read on every call so tests
+ * can change it through process.env.
+ */
+export function linkVerificationPolicy(): LinkVerificationPolicy {
+  const policy = (process.env.LINK_VERIFICATION_POLICY ?? "any") as LinkVerificationPolicy;
+  if (!POLICIES.includes(policy)) {
+    throw new Error(
+      `LINK_VERIFICATION_POLICY must be one of ${POLICIES.join(", ")} (got: ${policy})`
+    );
+  }
+  return policy;
+}
@@ -0,0 +1,37 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// ── Webhook signatures ────────────────────────────────────────────────────────
+// Header format: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">`.
+// Signing the timestamp lets receivers reject replays of old deliveries.
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+export function signPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a signature header against the raw body. For receivers, and for tests.
+ */
+export function verifySignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = 300
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => part.split("=", 2) as [string, string])
+  );
+  const timestamp = parseInt(parts.t ?? "", 10);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signPayload(secret, body, timestamp).split("v1=")[1], "hex");
+  const actual = Buffer.from(parts.v1, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,81 @@
+import dns from "dns";
+import { BlockList, LookupFunction, isIP } from "net";
+
+// ── Webhook targets ───────────────────────────────────────────────────────────
+// Subscriptions are created by tenants, so the dispatcher must not become a
+// way to reach the service's own network: loopback, private, link-local
+// (cloud metadata endpoints) and other non-routable addresses are refused.
+// Literal hosts are checked when a subscription is created; names are checked
+// on every delivery against the addresses the connection actually uses, so a
+// record that later resolves somewhere private is caught too.
+
+const PRIVATE_RANGES: [string, number, "ipv4" | "ipv6"][] = [
+  ["0.0.0.0", 8, "ipv4"], // "this" network
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"], // carrier-grade NAT
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"], // benchmarking
+  ["224.0.0.0", 3, "ipv4"], // multicast, reserved and broadcast
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["64:ff9b::", 96, "ipv6"], // NAT64, embeds an IPv4 address
+  ["64:ff9b:1::", 48, "ipv6"], // local-use NAT64
+  ["fc00::", 7, "ipv6"], // unique local
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"], // multicast
+];
+
+const privateRanges = new BlockList();
+for (const [network, prefix, type] of PRIVATE_RANGES) {
+  privateRanges.addSubnet(network, prefix, type);
+}
+
+/**
+ * WEBHOOK_ALLOW_PRIVATE_TARGETS=true turns the checks off, for local
+ * development and tests that deliver to a server on 127.0.0.1. Read on every
+ * call so tests can change it through process.env.
+ */
+export function allowPrivateTargets(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === "true";
+}
+
+/** Whether an IP address is one a webhook must not be sent to. */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 0) return false;
+  // IPv4-mapped IPv6 addresses are matched against the IPv4 ranges
+  return privateRanges.check(address, version === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Whether a URL hostname is known to be private without a DNS lookup: a
+ * literal private address, or localhost.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1").replace(/\.$/, "");
+  return host === "localhost" || host.endsWith(".localhost") || isPrivateAddress(host);
+}
+
+/**
+ * dns.lookup() for outgoing webhook requests that fails when the name
+ * resolves to any private address, so the check covers the address the
+ * socket connects to rather than an earlier, separate resolution.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+
+    const blocked = addresses.find((a) => isPrivateAddress(a.address));
+    if (blocked && !allowPrivateTargets()) {
+      const error = new Error(`${hostname} resolves to a private address (${blocked.address})`);
+      return callback(Object.assign(error, { code: "EPRIVATETARGET" }), "", 0);
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
@@ -0,0 +1,85 @@
+import { timingSafeEqual } from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { currentRequestContext } from "../lib/request-context";
+import { authenticateApiKey } from "../services/tenant.service";
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      /** Tenant of the authenticated API key; set by requireApiKey */
+      tenantId?: number;
+      /** The authenticated API key; set by requireApiKey */
+      apiKeyId?: number;
+    }
+  }
+}
+
+function bearerToken(req: Request): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get("Authorization") ?? "");
+  return match ? match[1] : null;
+}
+
+function unauthorized(res: Response, message: string): void {
+  res.setHeader("WWW-Authenticate", "Bearer");
+  res.status(401).json({ error: message });
+}
+
+// ── Tenant API keys ───────────────────────────────────────────────────────────
+
+/**
+ * Authenticate `Authorization: Bearer <api key>` and scope the request to the
+ * key's tenant. Downstream handlers read the tenant from req.tenantId.
+ */
+export async function requireApiKey(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const key = bearerToken(req);
+    const identity = key ? await authenticateApiKey(key) : null;
+    if (identity === null) {
+      unauthorized(res, "Missing or invalid API key");
+      return;
+    }
+
+    req.tenantId = identity.tenantId;
+    req.apiKeyId = identity.apiKeyId;
+    const context = currentRequestContext();
+    if (context) Object.assign(context, identity);
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+// ── Admin ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Guard the /admin routes with the ADMIN_API_KEY shared secret. With no
+ * ADMIN_API_KEY configured the admin API is closed altogether.
+ */
+export function requireAdminKey(req: Request, res: Response, next: NextFunction): void {
+  const expected = Buffer.from(process.env.ADMIN_API_KEY ?? "");
+  const presented = Buffer.from(bearerToken(req) ?? "");
+
+  const valid =
+    expected.length > 0 &&
+    presented.length === expected.length &&
+    timingSafeEqual(presented, expected);
+
+  if (!valid) {
+    unauthorized(res, "Missing or invalid admin key");
+    return;
+  }
+  next();
+}
+
+/** Tenant of an authenticated request; only valid behind requireApiKey. */
+export function tenantOf(req: Request): number {
+  if (req.tenantId === undefined) {
+    throw new Error("Invariant violated: tenant-scoped route without requireApiKey");
+  }
+  return req.tenantId;
+}
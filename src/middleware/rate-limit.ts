@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { RateLimitName, rateLimitHeaders, takeToken } from "../lib/rate-limit";
+import { IdentifyBatchSchema } from "../validation/identify.schema";
+
+/**
+ * Tokens a request spends: one, or one per item of a valid POST
+ * /identify/batch, which resolves each of them. A batch that fails
+ * validation is refused without resolving anything, so it costs one.
+ */
+export function requestCost(req: Request): number {
+  if (req.method !== "POST" || `${req.baseUrl}${req.path}` !== "/identify/batch") return 1;
+
+  const parsed = IdentifyBatchSchema.safeParse(req.body);
+  return parsed.success ? parsed.data.items.length : 1;
+}
+
+/**
+ * Token-bucket limit on the requests passing through, one bucket per value of
+ * `keyOf`, each request spending requestCost() tokens. Requests `keyOf`
+ * returns null for are not limited.
+ *
+ * RateLimit-* headers describe the most constrained limit a request passed:
+ * when several are stacked, the one with the fewest tokens left wins.
+ */
+export function rateLimit(
+  name: RateLimitName,
+  keyOf: (req: Request) => string | null
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = keyOf(req);
+      const result = key === null ? null : await takeToken(name, key, requestCost(req));
+      if (!result) {
+        next();
+        return;
+      }
+
+      const current = res.getHeader("RateLimit-Remaining");
+      if (current === undefined || result.state.remaining < Number(current)) {
+        res.set(rateLimitHeaders(result));
+      }
+
+      if (!result.state.allowed) {
+        res.set(rateLimitHeaders(result));
+        res.status(429).json({ error: "Too many requests" });
+        return;
+      }
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+/** One bucket per client address; see TRUST_PROXY for callers behind a proxy. */
+export const limitByIp = rateLimit("ip", (req) => req.ip ?? null);
+
+/** One bucket per API key; only valid behind requireApiKey. */
+export const limitByApiKey = rateLimit("apiKey", (req) =>
+  req.apiKeyId === undefined ? null : String(req.apiKeyId)
+);
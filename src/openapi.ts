@@ -0,0 +1,586 @@
+import {
+  OpenAPIRegistry,
+  OpenApiGeneratorV31,
+  extendZodWithOpenApi,
+} from "@asteasolutions/zod-to-openapi";
+import { z, ZodTypeAny } from "zod";
+import { ErrorSchema, ValidationErrorSchema } from "./validation/errors";
+import {
+  IdempotencyKeySchema,
+  IdentifyBatchResponseSchema,
+  IdentifyBatchSchema,
+  IdentifyPreviewSchema,
+  IdentifyRequestSchema,
+  IdentifyResponseSchema,
+  IdentifySchema,
+} from "./validation/identify.schema";
+import {
+  ClusterHistoryResponseSchema,
+  ClusterListQuerySchema,
+  ClusterListResponseSchema,
+  ClusterSearchResponseSchema,
+  ClusterViewSchema,
+  ContactIdParamsSchema,
+  ContactSearchQuerySchema,
+  DeleteContactResponseSchema,
+  EraseClusterResponseSchema,
+  MergeContactsSchema,
+  VerifyContactSchema,
+  PrimaryIdParamsSchema,
+  UnlinkResponseSchema,
+  UnlinkSchema,
+} from "./validation/contact.schema";
+import {
+  CreateSubscriptionSchema,
+  CreatedSubscriptionSchema,
+  DeliveryListSchema,
+  DeliveryQuerySchema,
+  DeliverySchema,
+  IdParamsSchema,
+  SubscriptionListSchema,
+  SubscriptionSchema,
+  UpdateSubscriptionSchema,
+} from "./validation/webhook.schema";
+import {
+  ApiKeyListSchema,
+  ApiKeySchema,
+  CreateTenantSchema,
+  IssueApiKeySchema,
+  IssuedApiKeySchema,
+  TenantListSchema,
+  TenantSchema,
+} from "./validation/tenant.schema";
+import { IntegrityReportSchema } from "./validation/integrity.schema";
+import {
+  AcceptSuggestionResponseSchema,
+  IdParamsSchema as SuggestionIdParamsSchema,
+  MergeSuggestionListSchema,
+  MergeSuggestionSchema,
+  SuggestionQuerySchema,
+} from "./validation/merge-suggestion.schema";
+import { GraphQLRequestSchema, GraphQLResponseSchema } from "./validation/graphql.schema";
+
+// ── OpenAPI document ──────────────────────────────────────────────────────────
+// Built from the same zod schemas the controllers validate with, so the spec
+// served at /openapi.json cannot describe a request the API would reject.
+// Every route in app.ts must be registered here; openapi.test.ts checks both
+// directions.
+
+extendZodWithOpenApi(z);
+
+export const HealthResponseSchema = z
+  .object({
+    status: z.literal("ok"),
+    timestamp: z.string().datetime(),
+  })
+  .strict();
+
+type Status = 400 | 401 | 404 | 409 | 422 | 429;
+
+const ERROR_DESCRIPTIONS: Record<Status, string> = {
+  400: "The request failed validation",
+  401: "Missing or invalid credentials",
+  404: "The resource does not exist in the caller's tenant",
+  409: "The request conflicts with the resource's current state",
+  422: "The Idempotency-Key was already used with a different body",
+  429: "A rate limit was hit; Retry-After says when to try again",
+};
+
+function buildRegistry(): OpenAPIRegistry {
+  const registry = new OpenAPIRegistry();
+
+  const tenantAuth = registry.registerComponent("securitySchemes", "apiKey", {
+    type: "http",
+    scheme: "bearer",
+    description: "A tenant API key (idk_…); scopes the request to the key's tenant",
+  });
+  const adminAuth = registry.registerComponent("securitySchemes", "adminKey", {
+    type: "http",
+    scheme: "bearer",
+    description: "The ADMIN_API_KEY operator secret",
+  });
+
+  const error = registry.register("Error", ErrorSchema);
+  const validationError = registry.register("ValidationError", ValidationErrorSchema);
+  const identifyResponse = registry.register("IdentifyResponse", IdentifyResponseSchema);
+  const clusterView = registry.register("ClusterView", ClusterViewSchema);
+  const mergeSuggestion = registry.register("MergeSuggestion", MergeSuggestionSchema);
+  const subscription = registry.register("WebhookSubscription", SubscriptionSchema);
+  const delivery = registry.register("WebhookDelivery", DeliverySchema);
+  const tenant = registry.register("Tenant", TenantSchema);
+  const apiKey = registry.register("ApiKey", ApiKeySchema);
+  const integrityReport = registry.register("IntegrityReport", IntegrityReportSchema);
+
+  const json = (description: string, schema: ZodTypeAny) => ({
+    description,
+    content: { "application/json": { schema } },
+  });
+  const body = (schema: ZodTypeAny) => ({
+    required: true,
+    content: { "application/json": { schema } },
+  });
+  const errors = (...statuses: Status[]) =>
+    Object.fromEntries(
+      statuses.map((s) => [
+        s,
+        json(ERROR_DESCRIPTIONS[s], s === 400 ? validationError : error),
+      ])
+    );
+
+  const tenantSecurity = [{ [tenantAuth.name]: [] }];
+  const adminSecurity = [{ [adminAuth.name]: [] }];
+
+  // ── Operational ────────────────────────────────────────────────────────────
+
+  registry.registerPath({
+    method: "get",
+    path: "/health",
+    summary: "Liveness probe",
+    responses: { 200: json("The process is up", HealthResponseSchema) },
+  });
+
+  registry.registerPath({
+    method: "get",
+    path: "/metrics",
+    summary: "Prometheus metrics",
+    responses: {
+      200: {
+        description: "Metrics in the Prometheus text exposition format",
+        content: { "text/plain": { schema: z.string() } },
+      },
+    },
+  });
+
+  registry.registerPath({
+    method: "get",
+    path: "/openapi.json",
+    summary: "This document",
+    responses: {
+      200: {
+        description: "The OpenAPI 3.1 document",
+        content: { "application/json": { schema: z.record(z.unknown()) } },
+      },
+    },
+  });
+
+  // ── Identify ───────────────────────────────────────────────────────────────
+
+  registry.registerPath({
+    method: "post",
+    path: "/identify",
+    summary: "Resolve a contact, linking or merging clusters as needed",
+    description:
+      "With dryRun the resolution is computed and rolled back, and the response " +
+      "is the IdentifyPreview shape. A repeated Idempotency-Key replays the " +
+      "first response with an Idempotent-Replayed: true header.",
+    security: tenantSecurity,
+    request: {
+      headers: z.object({ "Idempotency-Key": IdempotencyKeySchema.optional() }),
+      body: body(IdentifyRequestSchema),
+    },
+    responses: {
+      200: json(
+        "The caller's consolidated contact",
+        z.union([identifyResponse, IdentifyPreviewSchema])
+      ),
+      ...errors(400, 401, 422, 429),
+    },
+  });
+
+  registry.registerPath({
+    method: "post",
+    path: "/identify/preview",
+    summary: "Show what /identify would do without writing anything",
+    security: tenantSecurity,
+    request: { body: body(IdentifySchema) },
+    responses: {
+      200: json("The cluster /identify would return, and the changes it would make", IdentifyPreviewSchema),
+      ...errors(400, 401),
+    },
+  });
+
+  registry.registerPath({
+    method: "post",
+    path: "/identify/batch",
+    summary: "Resolve many contacts in one request",
+    description:
+      "Items are validated one by one; at most IDENTIFY_BATCH_MAX_SIZE (100 by " +
+      "default). An atomic batch is all or nothing, otherwise each item " +
+      "reports its own status.",
+    security: tenantSecurity,
+    request: {
+      body: body(IdentifyBatchSchema.extend({ items: z.array(IdentifySchema).min(1) })),
+    },
+    responses: {
+      200: json("One result per item, in request order", IdentifyBatchResponseSchema),
+      ...errors(400, 401),
+    },
+  });
+
+  // ── GraphQL ────────────────────────────────────────────────────────────────
+
+  registry.registerPath({
+    method: "post",
+    path: "/graphql",
+    summary: "GraphQL queries over contacts, clusters and history",
+    description:
+      "Queries contact(id), clusterByEmail and clusterByPhone, and the identify " +
+      "mutation. Resolver errors come back in `errors` with a 200; a service " +
+      "error's HTTP status is in `extensions.statusCode`. Introspect the " +
+      "endpoint for the schema.",
+    security: tenantSecurity,
+    request: { body: body(GraphQLRequestSchema) },
+    responses: {
+      200: json("The result, with any resolver errors", GraphQLResponseSchema),
+      400: json("The request or the query is malformed", GraphQLResponseSchema),
+      ...errors(401, 429),
+    },
+  });
+
+  // ── Contacts ───────────────────────────────────────────────────────────────
+
+  registry.registerPath({
+    method: "get",
+    path: "/contacts",
+    summary: "Find the clusters holding an email or phone number",
+    security: tenantSecurity,
+    request: { query: ContactSearchQuerySchema },
+    responses: {
+      200: json("Matching clusters", ClusterSearchResponseSchema),
+      ...errors(400, 401),
+    },
+  });
+
+  registry.registerPath({
+    method: "post",
+    path: "/contacts/merge",
+    summary: "Merge the clusters of two or more contacts",
+    security: tenantSecurity,
+    request: { body: body(MergeContactsSchema) },
+    responses: {
+      200: json("The merged cluster", identifyResponse),
+      ...errors(400, 401, 404, 429),
+    },
+  });
+
+  registry.registerPath({
+    method: "get",
+    path: "/contacts/{id}",
+    summary: "The cluster a contact belongs to",
+    security: tenantSecurity,
+    request: { params: ContactIdParamsSchema },
+    responses: {
+      200: json("The contact's cluster", clusterView),
+      ...errors(400, 401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: "delete",
+    path: "/contacts/{id}",
+    summary: "Soft-delete a contact",
+    security: tenantSecurity,
+    request: { params: ContactIdParamsSchema },
+    responses: {
+      200: json("The contact was deleted", DeleteContactResponseSchema),
+      ...errors(400, 401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: "post",
+    path: "/contacts/{id}/unlink",
+    summary: "Detach a wrongly merged contact into a cluster of its own",
+    security: tenantSecurity,
+    request: { params: ContactIdParamsSchema, body: body(UnlinkSchema) },
+    responses: {
+      200: json("The detached and remaining clusters", UnlinkResponseSchema),
+      ...errors(400, 401, 404, 409),
+    },
+  });
+
+  registry.registerPath({
+    method: "post",
+    path: "/contacts/{id}/verify",
+    summary: "Set the verification state of a contact's email or phone number",
+    security: tenantSecurity,
+    request: { params: ContactIdParamsSchema, body: body(VerifyContactSchema) },
+    responses: {
+      200: json("The contact's cluster, after any merges the change allowed", identifyResponse),
+      ...errors(400, 401, 404, 409, 429),
+    },
+  });
+
+  registry.registerPath({
+    method: "get",
+    path: "/contacts/{primaryId}/history",
+    summary: "Every link change made to a cluster",
+    security: tenantSecurity,
+    request: { params: PrimaryIdParamsSchema },
+    responses: {
+      200: json("Link events, oldest first", ClusterHistoryResponseSchema),
+      ...errors(400, 401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: "post",
+    path: "/contacts/{primaryId}/erase",
+    summary: "Erase a cluster's personal data",
+    security: tenantSecurity,
+    request: { params: PrimaryIdParamsSchema },
+    responses: {
+      200: json("The erased rows", EraseClusterResponseSchema),
+      ...errors(400, 401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: "get",
+    path: "/clusters",
+    summary: "Browse clusters a page at a time, filtered and sorted",
+    security: tenantSecurity,
+    request: { query: ClusterListQuerySchema },
+    responses: {
+      200: json("One page of clusters and the cursor of the next", ClusterListResponseSchema),
+      ...errors(400, 401),
+    },
+  });
+
+  // ── Merge suggestions ──────────────────────────────────────────────────────
+
+  registry.registerPath({
+    method: "get",
+    path: "/merge-suggestions",
+    summary: "Near-duplicate clusters found by the last suggestion scan",
+    security: tenantSecurity,
+    request: { query: SuggestionQuerySchema },
+    responses: {
+      200: json("Suggestions, best score first", MergeSuggestionListSchema),
+      ...errors(400, 401),
+    },
+  });
+
+  registry.registerPath({
+    method: "post",
+    path: "/merge-suggestions/{id}/accept",
+    summary: "Merge the two clusters of a suggestion",
+    security: tenantSecurity,
+    request: { params: SuggestionIdParamsSchema },
+    responses: {
+      200: json("The accepted suggestion and the merged cluster", AcceptSuggestionResponseSchema),
+      ...errors(400, 401, 404, 409, 429),
+    },
+  });
+
+  registry.registerPath({
+    method: "post",
+    path: "/merge-suggestions/{id}/reject",
+    summary: "Dismiss a suggestion for good",
+    security: tenantSecurity,
+    request: { params: SuggestionIdParamsSchema },
+    responses: {
+      200: json("The rejected suggestion", mergeSuggestion),
+      ...errors(400, 401, 404, 409),
+    },
+  });
+
+  // ── Webhooks ───────────────────────────────────────────────────────────────
+
+  registry.registerPath({
+    method: "post",
+    path: "/webhooks/subscriptions",
+    summary: "Register a webhook endpoint",
+    security: tenantSecurity,
+    request: { body: body(CreateSubscriptionSchema) },
+    responses: {
+      201: json("The subscription, with its signing secret", CreatedSubscriptionSchema),
+      ...errors(400, 401),
+    },
+  });
+
+  registry.registerPath({
+    method: "get",
+    path: "/webhooks/subscriptions",
+    summary: "List webhook subscriptions",
+    security: tenantSecurity,
+    responses: {
+      200: json("The tenant's subscriptions", SubscriptionListSchema),
+      ...errors(401),
+    },
+  });
+
+  registry.registerPath({
+    method: "get",
+    path: "/webhooks/subscriptions/{id}",
+    summary: "Get a webhook subscription",
+    security: tenantSecurity,
+    request: { params: IdParamsSchema },
+    responses: {
+      200: json("The subscription", subscription),
+      ...errors(400, 401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: "patch",
+    path: "/webhooks/subscriptions/{id}",
+    summary: "Update a webhook subscription",
+    security: tenantSecurity,
+    request: { params: IdParamsSchema, body: body(UpdateSubscriptionSchema) },
+    responses: {
+      200: json("The updated subscription", subscription),
+      ...errors(400, 401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: "delete",
+    path: "/webhooks/subscriptions/{id}",
+    summary: "Delete a webhook subscription",
+    security: tenantSecurity,
+    request: { params: IdParamsSchema },
+    responses: {
+      204: { description: "The subscription was deleted" },
+      ...errors(400, 401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: "get",
+    path: "/webhooks/subscriptions/{id}/deliveries",
+    summary: "The 100 most recent deliveries to a subscription",
+    security: tenantSecurity,
+    request: { params: IdParamsSchema, query: DeliveryQuerySchema },
+    responses: {
+      200: json("Deliveries, newest first", DeliveryListSchema),
+      ...errors(400, 401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: "post",
+    path: "/webhooks/deliveries/{id}/retry",
+    summary: "Send a delivery again",
+    security: tenantSecurity,
+    request: { params: IdParamsSchema },
+    responses: {
+      200: json("The delivery, queued for the next dispatcher pass", delivery),
+      ...errors(400, 401, 404, 409),
+    },
+  });
+
+  // ── Admin ──────────────────────────────────────────────────────────────────
+
+  registry.registerPath({
+    method: "get",
+    path: "/admin/integrity",
+    summary: "Scan every tenant's clusters for broken invariants",
+    security: adminSecurity,
+    responses: {
+      200: json("What the scan found", integrityReport),
+      ...errors(401),
+    },
+  });
+
+  registry.registerPath({
+    method: "post",
+    path: "/admin/integrity/repair",
+    summary: "Repair what the integrity scan finds",
+    security: adminSecurity,
+    responses: {
+      200: json("Repairs made and anything left over", integrityReport),
+      ...errors(401),
+    },
+  });
+
+  registry.registerPath({
+    method: "post",
+    path: "/admin/tenants",
+    summary: "Create a tenant",
+    security: adminSecurity,
+    request: { body: body(CreateTenantSchema) },
+    responses: {
+      201: json("The new tenant", tenant),
+      ...errors(400, 401, 409),
+    },
+  });
+
+  registry.registerPath({
+    method: "get",
+    path: "/admin/tenants",
+    summary: "List tenants",
+    security: adminSecurity,
+    responses: {
+      200: json("Every tenant", TenantListSchema),
+      ...errors(401),
+    },
+  });
+
+  registry.registerPath({
+    method: "post",
+    path: "/admin/tenants/{id}/api-keys",
+    summary: "Issue an API key for a tenant",
+    security: adminSecurity,
+    request: { params: IdParamsSchema, body: body(IssueApiKeySchema) },
+    responses: {
+      201: json("The key; this is the only time it is returned", IssuedApiKeySchema),
+      ...errors(400, 401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: "get",
+    path: "/admin/tenants/{id}/api-keys",
+    summary: "List a tenant's API keys",
+    security: adminSecurity,
+    request: { params: IdParamsSchema },
+    responses: {
+      200: json("The tenant's keys, revoked ones included", ApiKeyListSchema),
+      ...errors(400, 401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: "delete",
+    path: "/admin/api-keys/{id}",
+    summary: "Revoke an API key",
+    security: adminSecurity,
+    request: { params: IdParamsSchema },
+    responses: {
+      200: json("The revoked key", apiKey),
+      ...errors(400, 401, 404),
+    },
+  });
+
+  return registry;
+}
+
+export type OpenApiDocument = ReturnType<OpenApiGeneratorV31["generateDocument"]>;
+
+let cachedRegistry: OpenAPIRegistry | undefined;
+let cachedDocument: OpenApiDocument | undefined;
+
+/**
+ * The registered routes with their zod schemas, for the contract tests to
+ * check live responses against.
+ */
+export function openApiRegistry(): OpenAPIRegistry {
+  cachedRegistry ??= buildRegistry();
+  return cachedRegistry;
+}
+
+/** The OpenAPI 3.1 document for the whole API; built once, on first use. */
+export function openApiDocument(): OpenApiDocument {
+  cachedDocument ??= new OpenApiGeneratorV31(openApiRegistry().definitions).generateDocument({
+    openapi: "3.1.0",
+    info: {
+      title: "Bitespeed Identity Reconciliation",
+      version: "1.0.0",
+      description:
+        "Links customer contacts that share an email, phone number or other " +
+        "identifier into a single identity.",
+    },
+  });
+  return cachedDocument;
+}
@@ -1,4 +1,6 @@
 import { Prisma } from "@prisma/client";
+import { NormalizedIdentifier } from "../lib/identifiers";
+import { VerificationStatus } from "../lib/verification";
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 // Defined locally so the file compiles before `prisma generate` has been run.
@@ -8,13 +10,29 @@ export type LinkPrecedence = "primary" | "secondary";
 
 export interface Contact {
   id: number;
+  tenantId: number;
   email: string | null;
   phoneNumber: string | null;
+  emailNormalized: string | null;
+  phoneNormalized: string | null;
   linkedId: number | null;
   linkPrecedence: LinkPrecedence;
+  emailVerification: VerificationStatus;
+  phoneVerification: VerificationStatus;
   createdAt: Date;
   updatedAt: Date;
   deletedAt: Date | null;
+  /** Loaded by the cluster fetches, findDirectMatches and createContact; absent on other reads */
+  identifiers?: ContactIdentifier[];
+}
+
+export interface ContactIdentifier {
+  id: number;
+  contactId: number;
+  type: string;
+  value: string;
+  normalizedValue: string;
+  createdAt: Date;
 }
 
 // TxClient is Prisma's transaction client — passed in from prisma.$transaction()
@@ -23,32 +41,156 @@ export type TxClient = Prisma.TransactionClient;
 export interface ContactCreateInput {
   email?: string | null;
   phoneNumber?: string | null;
+  emailNormalized?: string | null;
+  phoneNormalized?: string | null;
   linkedId?: number | null;
   linkPrecedence: LinkPrecedence;
+  identifiers?: NormalizedIdentifier[];
+  /** Inherited from existing rows holding the same value; unverified by default */
+  emailVerification?: VerificationStatus;
+  phoneVerification?: VerificationStatus;
+}
+
+export interface ContactUnlinkCreateInput {
+  contactId: number;
+  previousPrimaryId: number;
+  detachedPrimaryId: number;
+  remainingPrimaryId: number;
+  reason: string;
+}
+
+export interface ContactUnlink extends ContactUnlinkCreateInput {
+  id: number;
+  createdAt: Date;
+}
+
+/** The linking columns of a row, tombstones included. */
+export interface LinkRow {
+  id: number;
+  tenantId: number;
+  linkedId: number | null;
+  linkPrecedence: LinkPrecedence;
+  deletedAt: Date | null;
+}
+
+/** A LinkRow plus what its linkedId points at; parent fields are null when nothing. */
+export interface LinkAnomaly extends LinkRow {
+  parentPrecedence: LinkPrecedence | null;
+  parentDeleted: boolean | null;
 }
 
 // Plain where-clause type — avoids dependency on generated Prisma.ContactWhereInput
 type WhereClause = Record<string, unknown>;
 
+const withIdentifiers = { identifiers: { orderBy: { id: "asc" } } } as const;
+
+// Contact has a ContactIdentifier row carrying this exact normalized value
+function hasIdentifier(identifier: NormalizedIdentifier): WhereClause {
+  return {
+    identifiers: {
+      some: { type: identifier.type, normalizedValue: identifier.normalizedValue },
+    },
+  };
+}
+
+// ── Listing columns ───────────────────────────────────────────────────────────
+// emailDomain and clusterSize exist only so GET /clusters can filter and sort
+// through an index (see findClusterPage). They are not part of Contact: every
+// write below that changes an email or a cluster's membership keeps them
+// current, so nothing else may write those columns or linkedId directly.
+
+export function emailDomainOf(emailNormalized: string | null | undefined): string | null {
+  return emailNormalized ? emailNormalized.slice(emailNormalized.lastIndexOf("@") + 1) : null;
+}
+
+/**
+ * Recount the live rows each given contact heads, itself included. Pass every
+ * primary that gained or lost a member, before and after the change.
+ */
+async function refreshClusterSizes(tx: TxClient, contactIds: (number | null)[]): Promise<void> {
+  const ids = [...new Set(contactIds.filter((id): id is number => id !== null))];
+  if (ids.length === 0) return;
+
+  await tx.$executeRawUnsafe(
+    `UPDATE "Contact" p
+        SET "clusterSize" = 1 + (
+              SELECT COUNT(*)::int FROM "Contact" c
+               WHERE c."linkedId" = p."id" AND c."deletedAt" IS NULL
+            )
+      WHERE p."id" = ANY($1::int[])`,
+    ids
+  );
+}
+
+// Where the given contacts point now, for refreshClusterSizes() after a move
+async function parentsOf(
+  tx: TxClient,
+  tenantId: number,
+  contactIds: number[]
+): Promise<(number | null)[]> {
+  const rows = (await tx.contact.findMany({
+    where: { id: { in: contactIds }, tenantId },
+    select: { linkedId: true },
+  })) as { linkedId: number | null }[];
+  return rows.map((r) => r.linkedId);
+}
+
 // ── Queries ───────────────────────────────────────────────────────────────────
+// Every query takes the tenant and filters on it, ids included: a contact id
+// from another tenant behaves exactly like one that does not exist.
 
 /**
- * Find contacts matching either the provided email or phoneNumber.
+ * Find contacts matching the provided email, phoneNumber or any of the extra
+ * identifiers. Matches on normalized values — callers pass normalized values.
  * Only non-null fields are included in the OR conditions.
  */
 export async function findDirectMatches(
   tx: TxClient,
-  email: string | null | undefined,
-  phoneNumber: string | null | undefined
+  tenantId: number,
+  emailNormalized: string | null | undefined,
+  phoneNormalized: string | null | undefined,
+  identifiers: NormalizedIdentifier[] = []
 ): Promise<Contact[]> {
   const conditions: WhereClause[] = [];
-  if (email) conditions.push({ email });
-  if (phoneNumber) conditions.push({ phoneNumber });
+  if (emailNormalized) conditions.push({ emailNormalized });
+  if (phoneNormalized) conditions.push({ phoneNormalized });
+  conditions.push(...identifiers.map(hasIdentifier));
   if (conditions.length === 0) return [];
 
   return tx.contact.findMany({
-    where: { OR: conditions, deletedAt: null },
-    orderBy: { createdAt: "asc" },
+    where: { tenantId, OR: conditions, deletedAt: null },
+    include: withIdentifiers,
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  }) as Promise<Contact[]>;
+}
+
+/**
+ * Find a single live contact by id.
+ */
+export async function findContactById(
+  tx: TxClient,
+  tenantId: number,
+  id: number
+): Promise<Contact | null> {
+  return tx.contact.findFirst({
+    where: { id, tenantId, deletedAt: null },
+  }) as Promise<Contact | null>;
+}
+
+/**
+ * Live contacts by id, with their identifiers, in one query; ids that are
+ * unknown, deleted or in another tenant are left out.
+ */
+export async function findContactsInTenant(
+  tx: TxClient,
+  tenantId: number,
+  ids: number[]
+): Promise<Contact[]> {
+  if (ids.length === 0) return [];
+
+  return tx.contact.findMany({
+    where: { tenantId, id: { in: ids }, deletedAt: null },
+    include: withIdentifiers,
   }) as Promise<Contact[]>;
 }
 
@@ -57,17 +199,20 @@ export async function findDirectMatches(
  */
 export async function fetchCluster(
   tx: TxClient,
+  tenantId: number,
   primaryIds: number[]
 ): Promise<Contact[]> {
   return tx.contact.findMany({
     where: {
+      tenantId,
       OR: [
         { id: { in: primaryIds } },
         { linkedId: { in: primaryIds } },
       ],
       deletedAt: null,
     },
-    orderBy: { createdAt: "asc" },
+    include: withIdentifiers,
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
   }) as Promise<Contact[]>;
 }
 
@@ -76,14 +221,17 @@ export async function fetchCluster(
  */
 export async function fetchFinalCluster(
   tx: TxClient,
+  tenantId: number,
   canonicalPrimaryId: number
 ): Promise<Contact[]> {
   return tx.contact.findMany({
     where: {
+      tenantId,
       OR: [{ id: canonicalPrimaryId }, { linkedId: canonicalPrimaryId }],
       deletedAt: null,
     },
-    orderBy: { createdAt: "asc" },
+    include: withIdentifiers,
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
   }) as Promise<Contact[]>;
 }
 
@@ -92,31 +240,85 @@ export async function fetchFinalCluster(
  */
 export async function demoteToSecondary(
   tx: TxClient,
+  tenantId: number,
   demotedId: number,
   canonicalPrimaryId: number
 ): Promise<void> {
   await tx.contact.update({
-    where: { id: demotedId },
+    where: { id: demotedId, tenantId },
     data: {
       linkPrecedence: "secondary",
       linkedId: canonicalPrimaryId,
     },
   });
+  await refreshClusterSizes(tx, [demotedId, canonicalPrimaryId]);
 }
 
 /**
  * Re-parent all secondaries of a demoted primary to the canonical primary.
  * Must be called BEFORE demoteToSecondary to keep linkedId chains flat.
+ * Returns the ids of the re-parented contacts.
  */
 export async function reparentSecondaries(
   tx: TxClient,
+  tenantId: number,
   demotedId: number,
   canonicalPrimaryId: number
-): Promise<void> {
+): Promise<number[]> {
+  const children = (await tx.contact.findMany({
+    where: { linkedId: demotedId, tenantId, deletedAt: null },
+    select: { id: true },
+  })) as { id: number }[];
+  const ids = children.map((c) => c.id);
+  if (ids.length === 0) return ids;
+
   await tx.contact.updateMany({
-    where: { linkedId: demotedId, deletedAt: null },
+    where: { id: { in: ids }, tenantId },
     data: { linkedId: canonicalPrimaryId },
   });
+  await refreshClusterSizes(tx, [demotedId, canonicalPrimaryId]);
+  return ids;
+}
+
+/**
+ * Promote a contact to primary, clearing its linkedId.
+ */
+export async function promoteToPrimary(
+  tx: TxClient,
+  tenantId: number,
+  contactId: number
+): Promise<void> {
+  const previousParents = await parentsOf(tx, tenantId, [contactId]);
+  await tx.contact.update({
+    where: { id: contactId, tenantId },
+    data: {
+      linkPrecedence: "primary",
+      linkedId: null,
+    },
+  });
+  await refreshClusterSizes(tx, [contactId, ...previousParents]);
+}
+
+/**
+ * Point the given contacts at a new primary as secondaries.
+ */
+export async function relinkContacts(
+  tx: TxClient,
+  tenantId: number,
+  contactIds: number[],
+  primaryId: number
+): Promise<void> {
+  if (contactIds.length === 0) return;
+
+  const previousParents = await parentsOf(tx, tenantId, contactIds);
+  await tx.contact.updateMany({
+    where: { id: { in: contactIds }, tenantId, deletedAt: null },
+    data: {
+      linkPrecedence: "secondary",
+      linkedId: primaryId,
+    },
+  });
+  await refreshClusterSizes(tx, [...contactIds, ...previousParents, primaryId]);
 }
 
 /**
@@ -124,41 +326,577 @@ export async function reparentSecondaries(
  */
 export async function createContact(
   tx: TxClient,
+  tenantId: number,
   data: ContactCreateInput
 ): Promise<Contact> {
-  return tx.contact.create({
+  const contact = (await tx.contact.create({
     data: {
+      tenantId,
       email: data.email ?? null,
       phoneNumber: data.phoneNumber ?? null,
+      emailNormalized: data.emailNormalized ?? null,
+      emailDomain: emailDomainOf(data.emailNormalized),
+      phoneNormalized: data.phoneNormalized ?? null,
       linkedId: data.linkedId ?? null,
       linkPrecedence: data.linkPrecedence,
+      emailVerification: data.emailVerification ?? "unverified",
+      phoneVerification: data.phoneVerification ?? "unverified",
+      identifiers: {
+        create: (data.identifiers ?? []).map((i) => ({
+          type: i.type,
+          value: i.value,
+          normalizedValue: i.normalizedValue,
+        })),
+      },
     },
-  }) as Promise<Contact>;
+    include: withIdentifiers,
+  })) as Contact;
+  await refreshClusterSizes(tx, [contact.linkedId]);
+  return contact;
 }
 
 /**
  * Idempotency check — find an existing contact matching the exact input.
+ * Compares normalized values, like findDirectMatches. Every provided value
+ * must be on the same row; omitted ones are not constrained:
  * - Both provided → match on both email AND phoneNumber
  * - Only email    → match on email only
  * - Only phone    → match on phoneNumber only
+ * - Extra identifiers → the row must also carry each of them
+ * With `primaryId`, only rows of that cluster count.
  */
 export async function findExactMatch(
   tx: TxClient,
-  email: string | null | undefined,
-  phoneNumber: string | null | undefined
+  tenantId: number,
+  emailNormalized: string | null | undefined,
+  phoneNormalized: string | null | undefined,
+  identifiers: NormalizedIdentifier[] = [],
+  primaryId?: number
 ): Promise<Contact | null> {
-  const where: WhereClause = { deletedAt: null };
-
-  if (email && phoneNumber) {
-    where.email = email;
-    where.phoneNumber = phoneNumber;
-  } else if (email) {
-    where.email = email;
-  } else if (phoneNumber) {
-    where.phoneNumber = phoneNumber;
-  } else {
-    return null;
-  }
+  if (!emailNormalized && !phoneNormalized && identifiers.length === 0) return null;
+
+  const where: WhereClause = { tenantId, deletedAt: null };
+  if (primaryId !== undefined) where.OR = [{ id: primaryId }, { linkedId: primaryId }];
+  if (emailNormalized) where.emailNormalized = emailNormalized;
+  if (phoneNormalized) where.phoneNormalized = phoneNormalized;
+  if (identifiers.length > 0) where.AND = identifiers.map(hasIdentifier);
 
   return tx.contact.findFirst({ where }) as Promise<Contact | null>;
-}
\ No newline at end of file
+}
+
+/**
+ * Set the verification state of a normalized email or phone on every live
+ * row of the tenant that holds it. Returns the number of rows updated.
+ */
+export async function setVerification(
+  tx: TxClient,
+  tenantId: number,
+  column: NormalizedColumn,
+  value: string,
+  status: VerificationStatus
+): Promise<number> {
+  const data =
+    column === "emailNormalized" ? { emailVerification: status } : { phoneVerification: status };
+  const { count } = await tx.contact.updateMany({
+    where: { tenantId, [column]: value, deletedAt: null },
+    data,
+  });
+  return count;
+}
+
+/**
+ * Soft-delete contacts. Rows stay in place as tombstones so ids remain stable.
+ */
+export async function softDeleteContacts(
+  tx: TxClient,
+  tenantId: number,
+  contactIds: number[]
+): Promise<void> {
+  if (contactIds.length === 0) return;
+
+  await tx.contact.updateMany({
+    where: { id: { in: contactIds }, tenantId, deletedAt: null },
+    data: { deletedAt: new Date() },
+  });
+  await refreshClusterSizes(tx, await parentsOf(tx, tenantId, contactIds));
+}
+
+/**
+ * Primary id at the top of a contact's linkedId chain, following tombstones
+ * too: the cluster a soft-deleted contact was last part of, or the contact
+ * itself if it heads one. Null if the id is unknown in the tenant.
+ */
+export async function findClusterRootId(
+  tx: TxClient,
+  tenantId: number,
+  contactId: number
+): Promise<number | null> {
+  const seen = new Set<number>();
+  let rootId: number | null = null;
+  let id: number | null = contactId;
+  // A broken chain (dangling link or cycle) ends at the last row reached
+  while (id !== null && !seen.has(id)) {
+    const row = (await tx.contact.findFirst({
+      where: { id, tenantId },
+      select: { id: true, linkedId: true },
+    })) as { id: number; linkedId: number | null } | null;
+    if (!row) break;
+    seen.add(row.id);
+    rootId = row.id;
+    id = row.linkedId;
+  }
+  return rootId;
+}
+
+/**
+ * Every row of a cluster, tombstones included — erasure has to reach contacts
+ * that were soft-deleted earlier and still hold personal data. Tombstones are
+ * not re-parented on merges, so linkedId is followed transitively.
+ */
+export async function fetchClusterIncludingDeleted(
+  tx: TxClient,
+  tenantId: number,
+  primaryId: number
+): Promise<Contact[]> {
+  const rows = (await tx.contact.findMany({
+    where: { id: primaryId, tenantId },
+  })) as Contact[];
+  const seen = new Set(rows.map((c) => c.id));
+
+  let frontier = [...seen];
+  while (frontier.length > 0) {
+    const children = (await tx.contact.findMany({
+      where: { linkedId: { in: frontier }, id: { notIn: [...seen] }, tenantId },
+    })) as Contact[];
+    children.forEach((c) => seen.add(c.id));
+    rows.push(...children);
+    frontier = children.map((c) => c.id);
+  }
+
+  return rows.sort(
+    (a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id
+  );
+}
+
+/**
+ * Remove every identifier from the given contacts and tombstone them.
+ */
+export async function scrubContacts(
+  tx: TxClient,
+  tenantId: number,
+  contactIds: number[]
+): Promise<void> {
+  if (contactIds.length === 0) return;
+
+  await tx.contactIdentifier.deleteMany({
+    where: { contactId: { in: contactIds }, contact: { tenantId } },
+  });
+  await tx.contact.updateMany({
+    where: { id: { in: contactIds }, tenantId },
+    data: {
+      email: null,
+      phoneNumber: null,
+      emailNormalized: null,
+      emailDomain: null,
+      phoneNormalized: null,
+    },
+  });
+  await softDeleteContacts(tx, tenantId, contactIds);
+}
+
+/**
+ * Record an operator-initiated split of a cluster.
+ */
+export async function createUnlinkRecord(
+  tx: TxClient,
+  data: ContactUnlinkCreateInput
+): Promise<void> {
+  await tx.contactUnlink.create({ data });
+}
+
+/**
+ * Recorded splits of a tenant whose detached or remaining primary is one of
+ * the given contact ids, oldest first.
+ */
+export async function findUnlinkRecordsTouching(
+  tx: TxClient,
+  tenantId: number,
+  contactIds: number[]
+): Promise<ContactUnlink[]> {
+  if (contactIds.length === 0) return [];
+
+  return tx.contactUnlink.findMany({
+    where: {
+      contact: { tenantId },
+      OR: [
+        { detachedPrimaryId: { in: contactIds } },
+        { remainingPrimaryId: { in: contactIds } },
+      ],
+    },
+    orderBy: { id: "asc" },
+  }) as Promise<ContactUnlink[]>;
+}
+
+/**
+ * Every recorded split, oldest first.
+ */
+export async function findUnlinkRecords(tx: TxClient): Promise<ContactUnlink[]> {
+  return tx.contactUnlink.findMany({
+    orderBy: { id: "asc" },
+  }) as Promise<ContactUnlink[]>;
+}
+
+// ── Cluster listing ───────────────────────────────────────────────────────────
+// Keyset pagination over primaries. Size comes from the stored clusterSize and
+// sorts on its index; an email domain filter starts from the emailDomain index
+// and walks up to the primaries. Phone prefix and merge filters still check
+// each candidate primary's members through the linkedId index, so a selective
+// one over a large tenant reads many primaries per page.
+
+export type ClusterSort = "recent" | "size";
+
+export interface ClusterFilter {
+  /** Primary createdAt, inclusive lower bound */
+  createdFrom?: Date;
+  /** Primary createdAt, exclusive upper bound */
+  createdTo?: Date;
+  /** Lower-case domain some live member's normalized email ends in */
+  emailDomain?: string;
+  /** Start of some live member's normalized phone number */
+  phonePrefix?: string;
+  minSize?: number;
+  /** Some live member was demoted into the cluster at or after this time */
+  mergedSince?: Date;
+}
+
+/** Sort key of one cluster: its primary and live member count. */
+export interface ClusterKey {
+  id: number;
+  createdAt: Date;
+  size: number;
+}
+
+/** Where the previous page ended, in the sort it was read with. */
+export type ClusterCursor =
+  | { sort: "recent"; id: number; createdAt: Date }
+  | { sort: "size"; id: number; size: number };
+
+// The primary itself, or any live secondary of it, satisfies `condition`
+// (written against alias m)
+function anyMember(condition: string): string {
+  return `EXISTS (
+    SELECT 1 FROM "Contact" m
+     WHERE m."id" = p."id" AND ${condition}
+    UNION ALL
+    SELECT 1 FROM "Contact" m
+     WHERE m."linkedId" = p."id" AND m."deletedAt" IS NULL AND ${condition}
+  )`;
+}
+
+/**
+ * One page of a tenant's clusters, as the sort keys of their primaries.
+ * `recent` is newest primary first, `size` largest cluster first; both break
+ * ties on the higher id. `after` must have been read with the same sort.
+ */
+export async function findClusterPage(
+  tx: TxClient,
+  tenantId: number,
+  filter: ClusterFilter,
+  sort: ClusterSort,
+  after: ClusterCursor | null,
+  take: number
+): Promise<ClusterKey[]> {
+  // Every value goes in as a bind parameter; only fixed SQL is interpolated
+  const params: unknown[] = [];
+  const param = (value: unknown) => `$${params.push(value)}`;
+
+  const conditions = [
+    `p."tenantId" = ${param(tenantId)}`,
+    `p."linkPrecedence" = 'primary'`,
+    `p."deletedAt" IS NULL`,
+  ];
+  if (filter.createdFrom) conditions.push(`p."createdAt" >= ${param(filter.createdFrom)}`);
+  if (filter.createdTo) conditions.push(`p."createdAt" < ${param(filter.createdTo)}`);
+  if (filter.emailDomain) {
+    conditions.push(`p."id" IN (
+      SELECT COALESCE(m."linkedId", m."id") FROM "Contact" m
+       WHERE m."tenantId" = ${param(tenantId)} AND m."emailDomain" = ${param(filter.emailDomain)}
+         AND m."deletedAt" IS NULL
+    )`);
+  }
+  if (filter.phonePrefix) {
+    conditions.push(anyMember(`m."phoneNormalized" LIKE ${param(`${filter.phonePrefix}%`)}`));
+  }
+  if (filter.minSize !== undefined) {
+    conditions.push(`p."clusterSize" >= ${param(filter.minSize)}`);
+  }
+  if (filter.mergedSince) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM "Contact" m
+      JOIN "ContactLinkEvent" e ON e."contactId" = m."id"
+     WHERE m."linkedId" = p."id" AND m."deletedAt" IS NULL
+       AND e."type" = 'demoted' AND e."createdAt" >= ${param(filter.mergedSince)}
+    )`);
+  }
+  if (after) {
+    conditions.push(
+      after.sort === "size"
+        ? `(p."clusterSize", p."id") < (${param(after.size)}, ${param(after.id)})`
+        : `(p."createdAt", p."id") < (${param(after.createdAt)}, ${param(after.id)})`
+    );
+  }
+  const orderBy =
+    sort === "size" ? `p."clusterSize" DESC, p."id" DESC` : `p."createdAt" DESC, p."id" DESC`;
+
+  return tx.$queryRawUnsafe(
+    `SELECT p."id", p."createdAt", p."clusterSize" AS "size"
+       FROM "Contact" p
+      WHERE ${conditions.join("\n        AND ")}
+      ORDER BY ${orderBy}
+      LIMIT ${param(take)}`,
+    ...params
+  ) as Promise<ClusterKey[]>;
+}
+
+// ── Maintenance ───────────────────────────────────────────────────────────────
+// Scripts and the integrity check walk every tenant at once; queries here that
+// don't take a tenant are deliberately cross-tenant.
+
+export type NormalizedColumn = "emailNormalized" | "phoneNormalized";
+
+/**
+ * Page through live contacts in id order (keyset pagination).
+ */
+export async function findContactsPage(
+  tx: TxClient,
+  afterId: number,
+  take: number
+): Promise<Contact[]> {
+  return tx.contact.findMany({
+    where: { id: { gt: afterId }, deletedAt: null },
+    orderBy: { id: "asc" },
+    take,
+  }) as Promise<Contact[]>;
+}
+
+/**
+ * Page through live primaries in id order (keyset pagination), with their
+ * identifiers.
+ */
+export async function findPrimariesPage(
+  tx: TxClient,
+  tenantId: number,
+  afterId: number,
+  take: number
+): Promise<Contact[]> {
+  return tx.contact.findMany({
+    where: { tenantId, id: { gt: afterId }, linkPrecedence: "primary", deletedAt: null },
+    include: withIdentifiers,
+    orderBy: { id: "asc" },
+    take,
+  }) as Promise<Contact[]>;
+}
+
+/**
+ * Live secondaries of many primaries at once, with their identifiers, for
+ * exporting clusters a page at a time.
+ */
+export async function findSecondariesOf(
+  tx: TxClient,
+  tenantId: number,
+  primaryIds: number[]
+): Promise<Contact[]> {
+  if (primaryIds.length === 0) return [];
+
+  return tx.contact.findMany({
+    where: { tenantId, linkedId: { in: primaryIds }, deletedAt: null },
+    include: withIdentifiers,
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  }) as Promise<Contact[]>;
+}
+
+/**
+ * Recompute emailDomain and clusterSize on every row that is out of date, for
+ * rows written before the columns existed or outside this module. Returns the
+ * number of updates.
+ */
+export async function refreshListingColumns(tx: TxClient): Promise<number> {
+  const domains = await tx.$executeRawUnsafe(
+    `UPDATE "Contact"
+        SET "emailDomain" = substring("emailNormalized" from '@([^@]*)$')
+      WHERE "emailDomain" IS DISTINCT FROM substring("emailNormalized" from '@([^@]*)$')`
+  );
+  const sizes = await tx.$executeRawUnsafe(
+    `UPDATE "Contact" p
+        SET "clusterSize" = s."size"
+       FROM (
+             SELECT h."id", 1 + COUNT(c."id")::int AS "size"
+               FROM "Contact" h
+               LEFT JOIN "Contact" c ON c."linkedId" = h."id" AND c."deletedAt" IS NULL
+              GROUP BY h."id"
+            ) s
+      WHERE s."id" = p."id" AND p."clusterSize" <> s."size"`
+  );
+  return domains + sizes;
+}
+
+/**
+ * Overwrite the normalized matching columns of a contact.
+ */
+export async function updateNormalized(
+  tx: TxClient,
+  contactId: number,
+  emailNormalized: string | null,
+  phoneNormalized: string | null
+): Promise<void> {
+  await tx.contact.update({
+    where: { id: contactId },
+    data: { emailNormalized, emailDomain: emailDomainOf(emailNormalized), phoneNormalized },
+  });
+}
+
+/**
+ * Page through the extra identifiers of live contacts in id order (keyset
+ * pagination).
+ */
+export async function findIdentifiersPage(
+  tx: TxClient,
+  afterId: number,
+  take: number
+): Promise<ContactIdentifier[]> {
+  return tx.contactIdentifier.findMany({
+    where: { id: { gt: afterId }, contact: { deletedAt: null } },
+    orderBy: { id: "asc" },
+    take,
+  }) as Promise<ContactIdentifier[]>;
+}
+
+/**
+ * Overwrite the normalized value of an extra identifier. A contact can hold a
+ * normalized value only once, so when another of its rows already carries the
+ * new value this one is dropped instead.
+ */
+export async function updateIdentifierNormalized(
+  tx: TxClient,
+  identifier: ContactIdentifier,
+  normalizedValue: string
+): Promise<void> {
+  const duplicate = await tx.contactIdentifier.findFirst({
+    where: {
+      contactId: identifier.contactId,
+      type: identifier.type,
+      normalizedValue,
+      id: { not: identifier.id },
+    },
+    select: { id: true },
+  });
+  if (duplicate) {
+    await tx.contactIdentifier.delete({ where: { id: identifier.id } });
+    return;
+  }
+
+  await tx.contactIdentifier.update({
+    where: { id: identifier.id },
+    data: { normalizedValue },
+  });
+}
+
+export interface Collision {
+  tenantId: number;
+  primaryIds: number[];
+}
+
+/**
+ * Groups of primary ids whose clusters share a normalized value in `column`
+ * without being linked. One entry per colliding value and tenant; the same
+ * value under two tenants is not a collision.
+ */
+export async function findCollidingClusters(
+  tx: TxClient,
+  column: NormalizedColumn
+): Promise<Collision[]> {
+  // `column` is a closed union, never user input, so interpolation is safe
+  return tx.$queryRawUnsafe(
+    `SELECT "tenantId", array_agg(DISTINCT COALESCE("linkedId", "id")) AS "primaryIds"
+       FROM "Contact"
+      WHERE "deletedAt" IS NULL AND "${column}" IS NOT NULL
+      GROUP BY "tenantId", "${column}"
+     HAVING COUNT(DISTINCT COALESCE("linkedId", "id")) > 1`
+  ) as Promise<Collision[]>;
+}
+
+/**
+ * Groups of primary ids whose clusters share an extra identifier without
+ * being linked, with the identifier type. One entry per colliding value and
+ * tenant.
+ */
+export async function findCollidingIdentifierClusters(
+  tx: TxClient
+): Promise<(Collision & { type: string })[]> {
+  return tx.$queryRaw`
+    SELECT c."tenantId", i."type",
+           array_agg(DISTINCT COALESCE(c."linkedId", c."id")) AS "primaryIds"
+      FROM "ContactIdentifier" i
+      JOIN "Contact" c ON c."id" = i."contactId"
+     WHERE c."deletedAt" IS NULL
+     GROUP BY c."tenantId", i."type", i."normalizedValue"
+    HAVING COUNT(DISTINCT COALESCE(c."linkedId", c."id")) > 1` as Promise<
+    (Collision & { type: string })[]
+  >;
+}
+
+// ── Integrity ─────────────────────────────────────────────────────────────────
+
+/**
+ * Live rows whose linking columns break the cluster invariants: a primary
+ * with a linkedId, a secondary without one, or a secondary whose linkedId is
+ * not a live primary of the same tenant. A parent in another tenant comes
+ * back as missing.
+ */
+export async function findLinkAnomalies(tx: TxClient): Promise<LinkAnomaly[]> {
+  return tx.$queryRaw`
+    SELECT c."id", c."tenantId", c."linkedId", c."linkPrecedence"::text AS "linkPrecedence",
+           c."deletedAt",
+           p."linkPrecedence"::text AS "parentPrecedence",
+           (p."deletedAt" IS NOT NULL) AS "parentDeleted"
+      FROM "Contact" c
+      LEFT JOIN "Contact" p ON p."id" = c."linkedId" AND p."tenantId" = c."tenantId"
+     WHERE c."deletedAt" IS NULL
+       AND (
+             (c."linkPrecedence" = 'primary' AND c."linkedId" IS NOT NULL)
+          OR (c."linkPrecedence" = 'secondary' AND c."linkedId" IS NULL)
+          OR (c."linkPrecedence" = 'secondary' AND (
+                p."id" IS NULL OR p."deletedAt" IS NOT NULL OR p."linkPrecedence" <> 'primary'))
+           )
+     ORDER BY c."id"` as Promise<LinkAnomaly[]>;
+}
+
+/**
+ * Linking columns of the given rows, tombstones included, for following
+ * linkedId chains.
+ */
+export async function findLinkRows(tx: TxClient, ids: number[]): Promise<LinkRow[]> {
+  if (ids.length === 0) return [];
+
+  return tx.contact.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, tenantId: true, linkedId: true, linkPrecedence: true, deletedAt: true },
+  }) as Promise<LinkRow[]>;
+}
+
+/**
+ * Live contacts by id, with their identifiers.
+ */
+export async function findContactsByIds(tx: TxClient, ids: number[]): Promise<Contact[]> {
+  if (ids.length === 0) return [];
+
+  return tx.contact.findMany({
+    where: { id: { in: ids }, deletedAt: null },
+    include: withIdentifiers,
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  }) as Promise<Contact[]>;
+}
+
+export async function countLiveContacts(tx: TxClient): Promise<number> {
+  return tx.contact.count({ where: { deletedAt: null } }) as Promise<number>;
+}
@@ -0,0 +1,76 @@
+import { Prisma } from "@prisma/client";
+import { TxClient } from "./contact.repository";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface IdempotencyRecord {
+  tenantId: number;
+  key: string;
+  fingerprint: string;
+  primaryContactId: number;
+  responseBody: Prisma.JsonValue;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface IdempotencyRecordInput {
+  tenantId: number;
+  key: string;
+  fingerprint: string;
+  primaryContactId: number;
+  responseBody: Prisma.InputJsonValue;
+  expiresAt: Date;
+}
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+// Keys are chosen by clients, so they are only unique within a tenant.
+
+export async function findIdempotencyRecord(
+  tx: TxClient,
+  tenantId: number,
+  key: string
+): Promise<IdempotencyRecord | null> {
+  return tx.idempotencyKey.findUnique({
+    where: { tenantId_key: { tenantId, key } },
+  }) as Promise<IdempotencyRecord | null>;
+}
+
+/**
+ * Store a response under its key, replacing an expired record with the same key.
+ */
+export async function saveIdempotencyRecord(
+  tx: TxClient,
+  data: IdempotencyRecordInput
+): Promise<void> {
+  const { tenantId, key, ...rest } = data;
+  await tx.idempotencyKey.upsert({
+    where: { tenantId_key: { tenantId, key } },
+    create: data,
+    update: { ...rest, createdAt: new Date() },
+  });
+}
+
+export async function purgeExpiredIdempotencyRecords(
+  tx: TxClient,
+  now: Date
+): Promise<number> {
+  const { count } = await tx.idempotencyKey.deleteMany({
+    where: { expiresAt: { lt: now } },
+  });
+  return count;
+}
+
+/**
+ * Drop stored responses for erased clusters — they contain the cluster's
+ * emails and phone numbers.
+ */
+export async function deleteIdempotencyRecordsForContacts(
+  tx: TxClient,
+  primaryContactIds: number[]
+): Promise<void> {
+  if (primaryContactIds.length === 0) return;
+
+  await tx.idempotencyKey.deleteMany({
+    where: { primaryContactId: { in: primaryContactIds } },
+  });
+}
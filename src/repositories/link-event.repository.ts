@@ -0,0 +1,111 @@
+import { TxClient } from "./contact.repository";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type LinkEventType =
+  | "created"
+  | "demoted"
+  | "reparented"
+  | "promoted"
+  | "deleted"
+  | "erased";
+
+export interface ContactLinkEvent {
+  id: number;
+  contactId: number;
+  type: LinkEventType;
+  oldLinkedId: number | null;
+  newLinkedId: number | null;
+  email: string | null;
+  phoneNumber: string | null;
+  requestId: string;
+  reason: string | null;
+  createdAt: Date;
+}
+
+export interface LinkEventCreateInput {
+  contactId: number;
+  type: LinkEventType;
+  oldLinkedId: number | null;
+  newLinkedId: number | null;
+  email?: string | null;
+  phoneNumber?: string | null;
+  requestId: string;
+  reason?: string | null;
+}
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+/**
+ * Append link events. Callers pass the transaction that performed the change
+ * so the audit trail can never disagree with the Contact table.
+ */
+export async function recordLinkEvents(
+  tx: TxClient,
+  events: LinkEventCreateInput[]
+): Promise<void> {
+  if (events.length === 0) return;
+
+  await tx.contactLinkEvent.createMany({
+    data: events.map((e) => ({
+      contactId: e.contactId,
+      type: e.type,
+      oldLinkedId: e.oldLinkedId,
+      newLinkedId: e.newLinkedId,
+      email: e.email ?? null,
+      phoneNumber: e.phoneNumber ?? null,
+      requestId: e.requestId,
+      reason: e.reason ?? null,
+    })),
+  });
+}
+
+/**
+ * Every event that touched one of the given contacts — either as the subject,
+ * or as the old/new linkedId of another contact (which keeps the history of
+ * contacts that have since been unlinked out of the cluster).
+ */
+export async function findClusterEvents(
+  tx: TxClient,
+  contactIds: number[]
+): Promise<ContactLinkEvent[]> {
+  return tx.contactLinkEvent.findMany({
+    where: {
+      OR: [
+        { contactId: { in: contactIds } },
+        { oldLinkedId: { in: contactIds } },
+        { newLinkedId: { in: contactIds } },
+      ],
+    },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  }) as Promise<ContactLinkEvent[]>;
+}
+
+/**
+ * Blank the triggering email/phone on every event about the given contacts.
+ * Used by erasure so the audit trail keeps its shape but no personal data.
+ */
+export async function scrubLinkEvents(
+  tx: TxClient,
+  contactIds: number[]
+): Promise<void> {
+  if (contactIds.length === 0) return;
+
+  await tx.contactLinkEvent.updateMany({
+    where: { contactId: { in: contactIds } },
+    data: { email: null, phoneNumber: null },
+  });
+}
+
+/**
+ * Every event written under one request id, in the order it was written.
+ */
+export async function findEventsByRequestId(
+  tx: TxClient,
+  requestId: string
+): Promise<ContactLinkEvent[]> {
+  return tx.contactLinkEvent.findMany({
+    where: { requestId },
+    orderBy: { id: "asc" },
+  }) as Promise<ContactLinkEvent[]>;
+}
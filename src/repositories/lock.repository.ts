@@ -0,0 +1,41 @@
+import { TxClient } from "./contact.repository";
+import { NormalizedIdentifier } from "../lib/identifiers";
+
+// ── Lock keys ─────────────────────────────────────────────────────────────────
+// Every writer that touches a cluster holds its cluster key; every writer that
+// may create a contact for an identifier holds that identifier's key. Keys are
+// hashed into Postgres' advisory-lock space, so an unrelated collision only
+// costs some extra waiting, never correctness. Identifier keys carry the
+// tenant, since the same email under two tenants names two different people;
+// contact ids are global, so cluster keys don't need it.
+
+export function identifierLockKeys(
+  tenantId: number,
+  emailNormalized: string | null | undefined,
+  phoneNormalized: string | null | undefined,
+  identifiers: NormalizedIdentifier[] = []
+): string[] {
+  const keys: string[] = [];
+  if (emailNormalized) keys.push(`email:${tenantId}:${emailNormalized}`);
+  if (phoneNormalized) keys.push(`phone:${tenantId}:${phoneNormalized}`);
+  for (const i of identifiers) keys.push(`identifier:${tenantId}:${i.type}:${i.normalizedValue}`);
+  return keys;
+}
+
+export function clusterLockKey(primaryId: number): string {
+  return `cluster:${primaryId}`;
+}
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+/**
+ * Take transaction-scoped advisory locks, released automatically on commit or
+ * rollback. Keys are taken in sorted order so two callers locking the same set
+ * cannot deadlock each other; callers that lock in several rounds can, and
+ * rely on the transaction retry in lib/transaction.ts.
+ */
+export async function acquireLocks(tx: TxClient, keys: string[]): Promise<void> {
+  for (const key of [...new Set(keys)].sort()) {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${key}))`;
+  }
+}
@@ -0,0 +1,842 @@
+import { Prisma } from "@prisma/client";
+import { NormalizedIdentifier } from "../lib/identifiers";
+import { VerificationStatus } from "../lib/verification";
+import {
+  ClusterCursor,
+  ClusterFilter,
+  ClusterKey,
+  ClusterSort,
+  Contact,
+  ContactCreateInput,
+  ContactUnlink,
+  ContactUnlinkCreateInput,
+  NormalizedColumn,
+  emailDomainOf,
+} from "./contact.repository";
+import { IdempotencyRecord, IdempotencyRecordInput } from "./idempotency.repository";
+import { ContactLinkEvent, LinkEventCreateInput } from "./link-event.repository";
+import { OutboxEvent, OutboxEventInput } from "./outbox.repository";
+import { PendingLink, PendingLinkInput } from "./pending-link.repository";
+import { ApiKey, ApiKeyCreateInput, Tenant } from "./tenant.repository";
+import { ContactRepository } from "./storage";
+
+// ── Tables ────────────────────────────────────────────────────────────────────
+
+export interface Tables {
+  /** Contacts with their identifiers, in id order */
+  contacts: Contact[];
+  unlinks: ContactUnlink[];
+  linkEvents: ContactLinkEvent[];
+  outboxEvents: OutboxEvent[];
+  pendingLinks: PendingLink[];
+  idempotencyKeys: IdempotencyRecord[];
+  tenants: Tenant[];
+  apiKeys: ApiKey[];
+}
+
+function emptyTables(): Tables {
+  return {
+    contacts: [],
+    unlinks: [],
+    linkEvents: [],
+    outboxEvents: [],
+    pendingLinks: [],
+    idempotencyKeys: [],
+    tenants: [],
+    apiKeys: [],
+  };
+}
+
+/**
+ * Last id handed out per table. Shared by every transaction and never rolled
+ * back, like a Postgres sequence: a dry run's provisional ids stay used.
+ */
+interface Sequences {
+  contact: number;
+  identifier: number;
+  unlink: number;
+  linkEvent: number;
+  outboxEvent: number;
+  pendingLink: number;
+  tenant: number;
+  apiKey: number;
+}
+
+// Rows cross the repository boundary as copies, as they would coming from a
+// database, so a caller mutating a result cannot reach the stored row
+const copy = <T>(value: T): T => structuredClone(value);
+
+function byAge(a: Contact, b: Contact): number {
+  return a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id;
+}
+
+// A row as the queries that don't include identifiers read it
+function withoutIdentifiers(contact: Contact): Contact {
+  const { identifiers: _identifiers, ...row } = contact;
+  return row;
+}
+
+function hasIdentifier(contact: Contact, identifier: NormalizedIdentifier): boolean {
+  return (contact.identifiers ?? []).some(
+    (i) => i.type === identifier.type && i.normalizedValue === identifier.normalizedValue
+  );
+}
+
+// ── Backend ───────────────────────────────────────────────────────────────────
+
+/**
+ * A ContactRepository held entirely in process memory, for tests and local
+ * development without Postgres. Nothing survives the process.
+ *
+ * Transactions run one at a time, each on a private copy of the tables that
+ * replaces them when it commits and is dropped when it throws. Running
+ * strictly in turn is stricter isolation than Postgres gives, so locks have
+ * nothing left to do and no transaction ever needs a retry. The timeout
+ * option is not enforced. Outside transaction() every call is a transaction
+ * of its own; making one from inside a transaction waits for that transaction
+ * to finish, so it never does.
+ */
+export class MemoryContactRepository implements ContactRepository {
+  private tables: Tables = emptyTables();
+  private readonly sequences: Sequences = {
+    contact: 0,
+    identifier: 0,
+    unlink: 0,
+    linkEvent: 0,
+    outboxEvent: 0,
+    pendingLink: 0,
+    tenant: 0,
+    apiKey: 0,
+  };
+  // Settles when the last transaction queued so far has
+  private queue: Promise<unknown> = Promise.resolve();
+
+  async transaction<T>(fn: (repo: ContactRepository) => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => {
+      const working = copy(this.tables);
+      const tx = new MemoryTransaction(working, this.sequences);
+      try {
+        const result = await fn(tx);
+        this.tables = working;
+        return result;
+      } finally {
+        tx.close();
+      }
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * A copy of every committed row, for tests to inspect what would be in the
+   * database. Waits for transactions already queued.
+   */
+  async snapshot(): Promise<Tables> {
+    return this.transaction(async () => copy(this.tables));
+  }
+
+  /**
+   * Drop every row and restart contact and tenant ids, for tests; like
+   * cleanDb() on Postgres. API key ids keep counting, since the rate limiter
+   * keys its buckets by them. Waits for transactions already queued.
+   */
+  async reset(): Promise<void> {
+    const run = this.queue.then(() => {
+      this.tables = emptyTables();
+      this.sequences.contact = 0;
+      this.sequences.tenant = 0;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async acquireLocks(keys: string[]): Promise<void> {
+    return this.transaction((repo) => repo.acquireLocks(keys));
+  }
+
+  async findDirectMatches(
+    tenantId: number,
+    emailNormalized: string | null | undefined,
+    phoneNormalized: string | null | undefined,
+    identifiers?: NormalizedIdentifier[]
+  ): Promise<Contact[]> {
+    return this.transaction((repo) =>
+      repo.findDirectMatches(tenantId, emailNormalized, phoneNormalized, identifiers)
+    );
+  }
+
+  async fetchCluster(tenantId: number, primaryIds: number[]): Promise<Contact[]> {
+    return this.transaction((repo) => repo.fetchCluster(tenantId, primaryIds));
+  }
+
+  async fetchFinalCluster(tenantId: number, canonicalPrimaryId: number): Promise<Contact[]> {
+    return this.transaction((repo) => repo.fetchFinalCluster(tenantId, canonicalPrimaryId));
+  }
+
+  async findExactMatch(
+    tenantId: number,
+    emailNormalized: string | null | undefined,
+    phoneNormalized: string | null | undefined,
+    identifiers?: NormalizedIdentifier[],
+    primaryId?: number
+  ): Promise<Contact | null> {
+    return this.transaction((repo) =>
+      repo.findExactMatch(tenantId, emailNormalized, phoneNormalized, identifiers, primaryId)
+    );
+  }
+
+  async createContact(tenantId: number, data: ContactCreateInput): Promise<Contact> {
+    return this.transaction((repo) => repo.createContact(tenantId, data));
+  }
+
+  async demoteToSecondary(
+    tenantId: number,
+    demotedId: number,
+    canonicalPrimaryId: number
+  ): Promise<void> {
+    return this.transaction((repo) =>
+      repo.demoteToSecondary(tenantId, demotedId, canonicalPrimaryId)
+    );
+  }
+
+  async reparentSecondaries(
+    tenantId: number,
+    demotedId: number,
+    canonicalPrimaryId: number
+  ): Promise<number[]> {
+    return this.transaction((repo) =>
+      repo.reparentSecondaries(tenantId, demotedId, canonicalPrimaryId)
+    );
+  }
+
+  async findUnlinkRecordsTouching(tenantId: number, contactIds: number[]): Promise<ContactUnlink[]> {
+    return this.transaction((repo) => repo.findUnlinkRecordsTouching(tenantId, contactIds));
+  }
+
+  async recordLinkEvents(events: LinkEventCreateInput[]): Promise<void> {
+    return this.transaction((repo) => repo.recordLinkEvents(events));
+  }
+
+  async findEventsByRequestId(requestId: string): Promise<ContactLinkEvent[]> {
+    return this.transaction((repo) => repo.findEventsByRequestId(requestId));
+  }
+
+  async enqueueEvents(tenantId: number, events: OutboxEventInput[]): Promise<void> {
+    return this.transaction((repo) => repo.enqueueEvents(tenantId, events));
+  }
+
+  async recordPendingLink(tenantId: number, data: PendingLinkInput): Promise<number> {
+    return this.transaction((repo) => repo.recordPendingLink(tenantId, data));
+  }
+
+  async findContactById(tenantId: number, id: number): Promise<Contact | null> {
+    return this.transaction((repo) => repo.findContactById(tenantId, id));
+  }
+
+  async findContactsInTenant(tenantId: number, ids: number[]): Promise<Contact[]> {
+    return this.transaction((repo) => repo.findContactsInTenant(tenantId, ids));
+  }
+
+  async findSecondariesOf(tenantId: number, primaryIds: number[]): Promise<Contact[]> {
+    return this.transaction((repo) => repo.findSecondariesOf(tenantId, primaryIds));
+  }
+
+  async findClusterRootId(tenantId: number, contactId: number): Promise<number | null> {
+    return this.transaction((repo) => repo.findClusterRootId(tenantId, contactId));
+  }
+
+  async fetchClusterIncludingDeleted(tenantId: number, primaryId: number): Promise<Contact[]> {
+    return this.transaction((repo) => repo.fetchClusterIncludingDeleted(tenantId, primaryId));
+  }
+
+  async findClusterPage(
+    tenantId: number,
+    filter: ClusterFilter,
+    sort: ClusterSort,
+    after: ClusterCursor | null,
+    take: number
+  ): Promise<ClusterKey[]> {
+    return this.transaction((repo) => repo.findClusterPage(tenantId, filter, sort, after, take));
+  }
+
+  async promoteToPrimary(tenantId: number, contactId: number): Promise<void> {
+    return this.transaction((repo) => repo.promoteToPrimary(tenantId, contactId));
+  }
+
+  async relinkContacts(tenantId: number, contactIds: number[], primaryId: number): Promise<void> {
+    return this.transaction((repo) => repo.relinkContacts(tenantId, contactIds, primaryId));
+  }
+
+  async setVerification(
+    tenantId: number,
+    column: NormalizedColumn,
+    value: string,
+    status: VerificationStatus
+  ): Promise<number> {
+    return this.transaction((repo) => repo.setVerification(tenantId, column, value, status));
+  }
+
+  async softDeleteContacts(tenantId: number, contactIds: number[]): Promise<void> {
+    return this.transaction((repo) => repo.softDeleteContacts(tenantId, contactIds));
+  }
+
+  async scrubContacts(tenantId: number, contactIds: number[]): Promise<void> {
+    return this.transaction((repo) => repo.scrubContacts(tenantId, contactIds));
+  }
+
+  async createUnlinkRecord(data: ContactUnlinkCreateInput): Promise<void> {
+    return this.transaction((repo) => repo.createUnlinkRecord(data));
+  }
+
+  async findClusterEvents(contactIds: number[]): Promise<ContactLinkEvent[]> {
+    return this.transaction((repo) => repo.findClusterEvents(contactIds));
+  }
+
+  async scrubLinkEvents(contactIds: number[]): Promise<void> {
+    return this.transaction((repo) => repo.scrubLinkEvents(contactIds));
+  }
+
+  async findPendingLinksTouching(tenantId: number, contactIds: number[]): Promise<PendingLink[]> {
+    return this.transaction((repo) => repo.findPendingLinksTouching(tenantId, contactIds));
+  }
+
+  async markLinked(id: number): Promise<void> {
+    return this.transaction((repo) => repo.markLinked(id));
+  }
+
+  async findIdempotencyRecord(tenantId: number, key: string): Promise<IdempotencyRecord | null> {
+    return this.transaction((repo) => repo.findIdempotencyRecord(tenantId, key));
+  }
+
+  async saveIdempotencyRecord(data: IdempotencyRecordInput): Promise<void> {
+    return this.transaction((repo) => repo.saveIdempotencyRecord(data));
+  }
+
+  async purgeExpiredIdempotencyRecords(now: Date): Promise<number> {
+    return this.transaction((repo) => repo.purgeExpiredIdempotencyRecords(now));
+  }
+
+  async deleteIdempotencyRecordsForContacts(primaryContactIds: number[]): Promise<void> {
+    return this.transaction((repo) => repo.deleteIdempotencyRecordsForContacts(primaryContactIds));
+  }
+
+  async createTenant(name: string): Promise<Tenant> {
+    return this.transaction((repo) => repo.createTenant(name));
+  }
+
+  async listTenants(): Promise<Tenant[]> {
+    return this.transaction((repo) => repo.listTenants());
+  }
+
+  async findTenantById(id: number): Promise<Tenant | null> {
+    return this.transaction((repo) => repo.findTenantById(id));
+  }
+
+  async createApiKey(data: ApiKeyCreateInput): Promise<ApiKey> {
+    return this.transaction((repo) => repo.createApiKey(data));
+  }
+
+  async listApiKeys(tenantId: number): Promise<ApiKey[]> {
+    return this.transaction((repo) => repo.listApiKeys(tenantId));
+  }
+
+  async findApiKeyById(id: number): Promise<ApiKey | null> {
+    return this.transaction((repo) => repo.findApiKeyById(id));
+  }
+
+  async findApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    return this.transaction((repo) => repo.findApiKeyByHash(keyHash));
+  }
+
+  async revokeApiKey(id: number): Promise<ApiKey> {
+    return this.transaction((repo) => repo.revokeApiKey(id));
+  }
+
+  async touchApiKey(id: number, usedAt: Date): Promise<void> {
+    return this.transaction((repo) => repo.touchApiKey(id, usedAt));
+  }
+}
+
+// ── Transactions ──────────────────────────────────────────────────────────────
+
+/**
+ * One transaction's view of the tables. Each method does what the repository
+ * function of the same name does in SQL, against the working copy.
+ */
+class MemoryTransaction implements ContactRepository {
+  private open = true;
+
+  constructor(
+    private readonly data: Tables,
+    private readonly sequences: Sequences
+  ) {}
+
+  close(): void {
+    this.open = false;
+  }
+
+  // Like Prisma's, a transaction client is useless once its transaction ends
+  private get tables(): Tables {
+    if (!this.open) throw new Error("Transaction already closed");
+    return this.data;
+  }
+
+  private live(tenantId: number): Contact[] {
+    return this.tables.contacts.filter((c) => c.tenantId === tenantId && c.deletedAt === null);
+  }
+
+  private row(tenantId: number, id: number): Contact {
+    const contact = this.tables.contacts.find((c) => c.id === id && c.tenantId === tenantId);
+    if (!contact) throw new Error(`Contact ${id} not found`);
+    return contact;
+  }
+
+  async transaction<T>(fn: (repo: ContactRepository) => Promise<T>): Promise<T> {
+    return fn(this);
+  }
+
+  async acquireLocks(): Promise<void> {
+    // Transactions already run one at a time; only check this one is live
+    void this.tables;
+  }
+
+  async findDirectMatches(
+    tenantId: number,
+    emailNormalized: string | null | undefined,
+    phoneNormalized: string | null | undefined,
+    identifiers: NormalizedIdentifier[] = []
+  ): Promise<Contact[]> {
+    if (!emailNormalized && !phoneNormalized && identifiers.length === 0) return [];
+
+    const matches = this.live(tenantId).filter(
+      (c) =>
+        (!!emailNormalized && c.emailNormalized === emailNormalized) ||
+        (!!phoneNormalized && c.phoneNormalized === phoneNormalized) ||
+        identifiers.some((i) => hasIdentifier(c, i))
+    );
+    return copy(matches.sort(byAge));
+  }
+
+  async fetchCluster(tenantId: number, primaryIds: number[]): Promise<Contact[]> {
+    const cluster = this.live(tenantId).filter(
+      (c) => primaryIds.includes(c.id) || (c.linkedId !== null && primaryIds.includes(c.linkedId))
+    );
+    return copy(cluster.sort(byAge));
+  }
+
+  async fetchFinalCluster(tenantId: number, canonicalPrimaryId: number): Promise<Contact[]> {
+    return this.fetchCluster(tenantId, [canonicalPrimaryId]);
+  }
+
+  async findExactMatch(
+    tenantId: number,
+    emailNormalized: string | null | undefined,
+    phoneNormalized: string | null | undefined,
+    identifiers: NormalizedIdentifier[] = [],
+    primaryId?: number
+  ): Promise<Contact | null> {
+    if (!emailNormalized && !phoneNormalized && identifiers.length === 0) return null;
+
+    const match = this.live(tenantId).find(
+      (c) =>
+        (primaryId === undefined || c.id === primaryId || c.linkedId === primaryId) &&
+        (!emailNormalized || c.emailNormalized === emailNormalized) &&
+        (!phoneNormalized || c.phoneNormalized === phoneNormalized) &&
+        identifiers.every((i) => hasIdentifier(c, i))
+    );
+    // Read without its identifiers, as findExactMatch() reads it
+    return match ? copy(withoutIdentifiers(match)) : null;
+  }
+
+  async createContact(tenantId: number, data: ContactCreateInput): Promise<Contact> {
+    const now = new Date();
+    const id = ++this.sequences.contact;
+    const contact: Contact = {
+      id,
+      tenantId,
+      email: data.email ?? null,
+      phoneNumber: data.phoneNumber ?? null,
+      emailNormalized: data.emailNormalized ?? null,
+      phoneNormalized: data.phoneNormalized ?? null,
+      linkedId: data.linkedId ?? null,
+      linkPrecedence: data.linkPrecedence,
+      emailVerification: data.emailVerification ?? "unverified",
+      phoneVerification: data.phoneVerification ?? "unverified",
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null,
+      identifiers: (data.identifiers ?? []).map((i) => ({
+        id: ++this.sequences.identifier,
+        contactId: id,
+        type: i.type,
+        value: i.value,
+        normalizedValue: i.normalizedValue,
+        createdAt: now,
+      })),
+    };
+    this.tables.contacts.push(contact);
+    return copy(contact);
+  }
+
+  async demoteToSecondary(
+    tenantId: number,
+    demotedId: number,
+    canonicalPrimaryId: number
+  ): Promise<void> {
+    Object.assign(this.row(tenantId, demotedId), {
+      linkPrecedence: "secondary",
+      linkedId: canonicalPrimaryId,
+      updatedAt: new Date(),
+    });
+  }
+
+  async reparentSecondaries(
+    tenantId: number,
+    demotedId: number,
+    canonicalPrimaryId: number
+  ): Promise<number[]> {
+    const children = this.live(tenantId).filter((c) => c.linkedId === demotedId);
+    const now = new Date();
+    for (const child of children) Object.assign(child, { linkedId: canonicalPrimaryId, updatedAt: now });
+    return children.map((c) => c.id);
+  }
+
+  async findUnlinkRecordsTouching(tenantId: number, contactIds: number[]): Promise<ContactUnlink[]> {
+    const inTenant = new Set(
+      this.tables.contacts.filter((c) => c.tenantId === tenantId).map((c) => c.id)
+    );
+    return copy(
+      this.tables.unlinks.filter(
+        (u) =>
+          inTenant.has(u.contactId) &&
+          (contactIds.includes(u.detachedPrimaryId) || contactIds.includes(u.remainingPrimaryId))
+      )
+    );
+  }
+
+  async recordLinkEvents(events: LinkEventCreateInput[]): Promise<void> {
+    const now = new Date();
+    this.tables.linkEvents.push(
+      ...events.map((e) => ({
+        id: ++this.sequences.linkEvent,
+        contactId: e.contactId,
+        type: e.type,
+        oldLinkedId: e.oldLinkedId,
+        newLinkedId: e.newLinkedId,
+        email: e.email ?? null,
+        phoneNumber: e.phoneNumber ?? null,
+        requestId: e.requestId,
+        reason: e.reason ?? null,
+        createdAt: now,
+      }))
+    );
+  }
+
+  async findEventsByRequestId(requestId: string): Promise<ContactLinkEvent[]> {
+    return copy(this.tables.linkEvents.filter((e) => e.requestId === requestId));
+  }
+
+  async enqueueEvents(tenantId: number, events: OutboxEventInput[]): Promise<void> {
+    const now = new Date();
+    this.tables.outboxEvents.push(
+      ...events.map((e) => ({
+        id: ++this.sequences.outboxEvent,
+        tenantId,
+        type: e.type,
+        payload: copy(e.payload),
+        createdAt: now,
+        dispatchedAt: null,
+      }))
+    );
+  }
+
+  async recordPendingLink(tenantId: number, data: PendingLinkInput): Promise<number> {
+    // Same dedupe as recordPendingLink(): one pending link per set of clusters
+    const key = (clusterIds: number[]) => [...clusterIds].sort((a, b) => a - b).join(",");
+    const ids = [data.primaryId, ...data.heldPrimaryIds];
+    const existing = this.tables.pendingLinks.find(
+      (l) =>
+        l.tenantId === tenantId &&
+        l.status === "pending" &&
+        key([l.primaryId, ...l.heldPrimaryIds]) === key(ids)
+    );
+    if (existing) return existing.id;
+
+    const link: PendingLink = {
+      id: ++this.sequences.pendingLink,
+      tenantId,
+      ...copy(data),
+      status: "pending",
+      createdAt: new Date(),
+      linkedAt: null,
+    };
+    this.tables.pendingLinks.push(link);
+    return link.id;
+  }
+
+  async findContactById(tenantId: number, id: number): Promise<Contact | null> {
+    const contact = this.live(tenantId).find((c) => c.id === id);
+    return contact ? copy(withoutIdentifiers(contact)) : null;
+  }
+
+  async findContactsInTenant(tenantId: number, ids: number[]): Promise<Contact[]> {
+    return copy(this.live(tenantId).filter((c) => ids.includes(c.id)));
+  }
+
+  async findSecondariesOf(tenantId: number, primaryIds: number[]): Promise<Contact[]> {
+    const secondaries = this.live(tenantId).filter(
+      (c) => c.linkedId !== null && primaryIds.includes(c.linkedId)
+    );
+    return copy(secondaries.sort(byAge));
+  }
+
+  async findClusterRootId(tenantId: number, contactId: number): Promise<number | null> {
+    const seen = new Set<number>();
+    let rootId: number | null = null;
+    let id: number | null = contactId;
+    // A broken chain (dangling link or cycle) ends at the last row reached
+    while (id !== null && !seen.has(id)) {
+      const row = this.tables.contacts.find((c) => c.id === id && c.tenantId === tenantId);
+      if (!row) break;
+      seen.add(row.id);
+      rootId = row.id;
+      id = row.linkedId;
+    }
+    return rootId;
+  }
+
+  async fetchClusterIncludingDeleted(tenantId: number, primaryId: number): Promise<Contact[]> {
+    const inTenant = this.tables.contacts.filter((c) => c.tenantId === tenantId);
+    const rows = inTenant.filter((c) => c.id === primaryId);
+    const seen = new Set(rows.map((c) => c.id));
+
+    // Tombstones are not re-parented on merges, so follow linkedId transitively
+    let frontier = [...seen];
+    while (frontier.length > 0) {
+      const children = inTenant.filter(
+        (c) => c.linkedId !== null && frontier.includes(c.linkedId) && !seen.has(c.id)
+      );
+      children.forEach((c) => seen.add(c.id));
+      rows.push(...children);
+      frontier = children.map((c) => c.id);
+    }
+    return copy(rows.sort(byAge).map(withoutIdentifiers));
+  }
+
+  async findClusterPage(
+    tenantId: number,
+    filter: ClusterFilter,
+    sort: ClusterSort,
+    after: ClusterCursor | null,
+    take: number
+  ): Promise<ClusterKey[]> {
+    const live = this.live(tenantId);
+    const matches = (members: Contact[]): boolean =>
+      (!filter.emailDomain ||
+        members.some((m) => emailDomainOf(m.emailNormalized) === filter.emailDomain)) &&
+      (!filter.phonePrefix ||
+        members.some((m) => m.phoneNormalized?.startsWith(filter.phonePrefix!))) &&
+      (filter.minSize === undefined || members.length >= filter.minSize) &&
+      (!filter.mergedSince ||
+        members.some(
+          (m) =>
+            m.linkPrecedence === "secondary" &&
+            this.tables.linkEvents.some(
+              (e) =>
+                e.contactId === m.id && e.type === "demoted" && e.createdAt >= filter.mergedSince!
+            )
+        ));
+
+    const keys: ClusterKey[] = [];
+    for (const p of live) {
+      if (p.linkPrecedence !== "primary") continue;
+      if (filter.createdFrom && p.createdAt < filter.createdFrom) continue;
+      if (filter.createdTo && p.createdAt >= filter.createdTo) continue;
+      const members = live.filter((c) => c.id === p.id || c.linkedId === p.id);
+      if (matches(members)) keys.push({ id: p.id, createdAt: p.createdAt, size: members.length });
+    }
+
+    // Newest or largest first, ties on the higher id, resuming after `after`
+    const sortKey = (k: { id: number; createdAt?: Date; size?: number }): [number, number] => [
+      sort === "size" ? k.size! : k.createdAt!.getTime(),
+      k.id,
+    ];
+    const before = (a: [number, number], b: [number, number]) =>
+      a[0] !== b[0] ? a[0] > b[0] : a[1] > b[1];
+    return copy(
+      keys
+        .filter((k) => !after || before(sortKey(after), sortKey(k)))
+        .sort((a, b) => (before(sortKey(a), sortKey(b)) ? -1 : 1))
+        .slice(0, take)
+    );
+  }
+
+  async promoteToPrimary(tenantId: number, contactId: number): Promise<void> {
+    Object.assign(this.row(tenantId, contactId), {
+      linkPrecedence: "primary",
+      linkedId: null,
+      updatedAt: new Date(),
+    });
+  }
+
+  async relinkContacts(tenantId: number, contactIds: number[], primaryId: number): Promise<void> {
+    const now = new Date();
+    for (const contact of this.live(tenantId).filter((c) => contactIds.includes(c.id))) {
+      Object.assign(contact, { linkPrecedence: "secondary", linkedId: primaryId, updatedAt: now });
+    }
+  }
+
+  async setVerification(
+    tenantId: number,
+    column: NormalizedColumn,
+    value: string,
+    status: VerificationStatus
+  ): Promise<number> {
+    const field = column === "emailNormalized" ? "emailVerification" : "phoneVerification";
+    const holders = this.live(tenantId).filter((c) => c[column] === value);
+    const now = new Date();
+    for (const contact of holders) Object.assign(contact, { [field]: status, updatedAt: now });
+    return holders.length;
+  }
+
+  async softDeleteContacts(tenantId: number, contactIds: number[]): Promise<void> {
+    const now = new Date();
+    for (const contact of this.live(tenantId).filter((c) => contactIds.includes(c.id))) {
+      Object.assign(contact, { deletedAt: now, updatedAt: now });
+    }
+  }
+
+  async scrubContacts(tenantId: number, contactIds: number[]): Promise<void> {
+    const now = new Date();
+    for (const contact of this.tables.contacts) {
+      if (contact.tenantId !== tenantId || !contactIds.includes(contact.id)) continue;
+      Object.assign(contact, {
+        email: null,
+        phoneNumber: null,
+        emailNormalized: null,
+        phoneNormalized: null,
+        identifiers: [],
+        updatedAt: now,
+      });
+    }
+    await this.softDeleteContacts(tenantId, contactIds);
+  }
+
+  async createUnlinkRecord(data: ContactUnlinkCreateInput): Promise<void> {
+    this.tables.unlinks.push({ id: ++this.sequences.unlink, ...data, createdAt: new Date() });
+  }
+
+  async findClusterEvents(contactIds: number[]): Promise<ContactLinkEvent[]> {
+    const touches = (id: number | null) => id !== null && contactIds.includes(id);
+    const events = this.tables.linkEvents.filter(
+      (e) => touches(e.contactId) || touches(e.oldLinkedId) || touches(e.newLinkedId)
+    );
+    return copy(events.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id));
+  }
+
+  async scrubLinkEvents(contactIds: number[]): Promise<void> {
+    for (const event of this.tables.linkEvents) {
+      if (contactIds.includes(event.contactId)) Object.assign(event, { email: null, phoneNumber: null });
+    }
+  }
+
+  async findPendingLinksTouching(tenantId: number, contactIds: number[]): Promise<PendingLink[]> {
+    return copy(
+      this.tables.pendingLinks.filter(
+        (l) =>
+          l.tenantId === tenantId &&
+          l.status === "pending" &&
+          [l.primaryId, ...l.heldPrimaryIds].some((id) => contactIds.includes(id))
+      )
+    );
+  }
+
+  async markLinked(id: number): Promise<void> {
+    const link = this.tables.pendingLinks.find((l) => l.id === id);
+    if (!link) throw new Error(`Pending link ${id} not found`);
+    Object.assign(link, { status: "linked", linkedAt: new Date() });
+  }
+
+  async findIdempotencyRecord(tenantId: number, key: string): Promise<IdempotencyRecord | null> {
+    const record = this.tables.idempotencyKeys.find((r) => r.tenantId === tenantId && r.key === key);
+    return record ? copy(record) : null;
+  }
+
+  async saveIdempotencyRecord(data: IdempotencyRecordInput): Promise<void> {
+    // Replaces an expired record under the same key, like the upsert does
+    const records = this.tables.idempotencyKeys;
+    const index = records.findIndex((r) => r.tenantId === data.tenantId && r.key === data.key);
+    // Read back as the JSON the column would hold
+    const responseBody: Prisma.JsonValue = JSON.parse(JSON.stringify(data.responseBody));
+    const record = { ...copy(data), responseBody, createdAt: new Date() };
+    if (index === -1) records.push(record);
+    else records[index] = record;
+  }
+
+  async purgeExpiredIdempotencyRecords(now: Date): Promise<number> {
+    const before = this.tables.idempotencyKeys.length;
+    this.tables.idempotencyKeys = this.tables.idempotencyKeys.filter((r) => r.expiresAt >= now);
+    return before - this.tables.idempotencyKeys.length;
+  }
+
+  async deleteIdempotencyRecordsForContacts(primaryContactIds: number[]): Promise<void> {
+    this.tables.idempotencyKeys = this.tables.idempotencyKeys.filter(
+      (r) => !primaryContactIds.includes(r.primaryContactId)
+    );
+  }
+
+  async createTenant(name: string): Promise<Tenant> {
+    if (this.tables.tenants.some((t) => t.name === name)) {
+      // What Prisma throws for the unique index on Tenant.name
+      throw Object.assign(new Error(`Tenant name ${name} already exists`), { code: "P2002" });
+    }
+    const tenant: Tenant = { id: ++this.sequences.tenant, name, createdAt: new Date() };
+    this.tables.tenants.push(tenant);
+    return copy(tenant);
+  }
+
+  async listTenants(): Promise<Tenant[]> {
+    return copy(this.tables.tenants);
+  }
+
+  async findTenantById(id: number): Promise<Tenant | null> {
+    return copy(this.tables.tenants.find((t) => t.id === id) ?? null);
+  }
+
+  async createApiKey(data: ApiKeyCreateInput): Promise<ApiKey> {
+    const apiKey: ApiKey = {
+      id: ++this.sequences.apiKey,
+      ...data,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+    this.tables.apiKeys.push(apiKey);
+    return copy(apiKey);
+  }
+
+  async listApiKeys(tenantId: number): Promise<ApiKey[]> {
+    return copy(this.tables.apiKeys.filter((k) => k.tenantId === tenantId));
+  }
+
+  async findApiKeyById(id: number): Promise<ApiKey | null> {
+    return copy(this.tables.apiKeys.find((k) => k.id === id) ?? null);
+  }
+
+  async findApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    return copy(this.tables.apiKeys.find((k) => k.keyHash === keyHash) ?? null);
+  }
+
+  async revokeApiKey(id: number): Promise<ApiKey> {
+    const apiKey = this.tables.apiKeys.find((k) => k.id === id);
+    if (!apiKey) throw new Error(`API key ${id} not found`);
+    apiKey.revokedAt = new Date();
+    return copy(apiKey);
+  }
+
+  async touchApiKey(id: number, usedAt: Date): Promise<void> {
+    const apiKey = this.tables.apiKeys.find((k) => k.id === id);
+    if (!apiKey) throw new Error(`API key ${id} not found`);
+    apiKey.lastUsedAt = usedAt;
+  }
+}
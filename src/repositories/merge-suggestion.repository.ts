@@ -0,0 +1,113 @@
+import { MergeSuggestion as MergeSuggestionRow, Prisma } from "@prisma/client";
+import { TxClient } from "./contact.repository";
+import { RuleMatch } from "../lib/similarity";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type MergeSuggestionStatus = "pending" | "accepted" | "rejected";
+
+export interface MergeSuggestion {
+  id: number;
+  tenantId: number;
+  /** Lower of the two primary ids at scan time */
+  contactIdA: number;
+  contactIdB: number;
+  score: number;
+  reasons: RuleMatch[];
+  status: MergeSuggestionStatus;
+  decidedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MergeSuggestionInput {
+  contactIdA: number;
+  contactIdB: number;
+  score: number;
+  reasons: RuleMatch[];
+}
+
+/** `reasons` is stored as JSON; upsertSuggestion only ever writes a RuleMatch[]. */
+function toSuggestion(row: MergeSuggestionRow): MergeSuggestion {
+  const reasons = (row.reasons as Prisma.JsonObject[]).map((r) => ({
+    rule: String(r.rule),
+    score: Number(r.score),
+    detail: String(r.detail),
+  }));
+  return { ...row, reasons };
+}
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+/**
+ * Record a suggestion, or refresh the score and reasons of a pending one for
+ * the same pair. A pair that was already accepted or rejected is left as
+ * decided. Returns the id of the pending row, or null for a decided pair.
+ */
+export async function upsertSuggestion(
+  tx: TxClient,
+  tenantId: number,
+  data: MergeSuggestionInput
+): Promise<number | null> {
+  const rows = await tx.$queryRaw<{ id: number }[]>`
+    INSERT INTO "MergeSuggestion" ("tenantId", "contactIdA", "contactIdB", "score", "reasons", "updatedAt")
+    VALUES (${tenantId}, ${data.contactIdA}, ${data.contactIdB}, ${data.score}, ${JSON.stringify(data.reasons)}::jsonb, now())
+    ON CONFLICT ("tenantId", "contactIdA", "contactIdB") DO UPDATE
+      SET "score" = EXCLUDED."score", "reasons" = EXCLUDED."reasons", "updatedAt" = now()
+      WHERE "MergeSuggestion"."status" = 'pending'
+    RETURNING "id"
+  `;
+  return rows[0]?.id ?? null;
+}
+
+/**
+ * Drop the pending suggestions of a tenant that are not in `keepIds`: pairs
+ * the latest scan no longer found (merged, unlinked, edited or below the
+ * threshold). Decided rows are kept as the review record.
+ */
+export async function deleteStalePending(
+  tx: TxClient,
+  tenantId: number,
+  keepIds: number[]
+): Promise<number> {
+  const { count } = await tx.mergeSuggestion.deleteMany({
+    where: { tenantId, status: "pending", id: { notIn: keepIds } },
+  });
+  return count;
+}
+
+/**
+ * Suggestions of a tenant in one status, best score first.
+ */
+export async function listSuggestions(
+  tx: TxClient,
+  tenantId: number,
+  status: MergeSuggestionStatus
+): Promise<MergeSuggestion[]> {
+  const rows = await tx.mergeSuggestion.findMany({
+    where: { tenantId, status },
+    orderBy: [{ score: "desc" }, { id: "asc" }],
+  });
+  return rows.map(toSuggestion);
+}
+
+export async function findSuggestionById(
+  tx: TxClient,
+  tenantId: number,
+  id: number
+): Promise<MergeSuggestion | null> {
+  const row = await tx.mergeSuggestion.findFirst({ where: { id, tenantId } });
+  return row ? toSuggestion(row) : null;
+}
+
+export async function markDecided(
+  tx: TxClient,
+  id: number,
+  status: Exclude<MergeSuggestionStatus, "pending">
+): Promise<MergeSuggestion> {
+  const row = await tx.mergeSuggestion.update({
+    where: { id },
+    data: { status, decidedAt: new Date() },
+  });
+  return toSuggestion(row);
+}
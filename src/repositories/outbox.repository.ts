@@ -0,0 +1,70 @@
+import { Prisma } from "@prisma/client";
+import { TxClient } from "./contact.repository";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type DomainEventType = "contact.created" | "contact.linked" | "cluster.merged";
+
+export const DOMAIN_EVENT_TYPES: DomainEventType[] = [
+  "contact.created",
+  "contact.linked",
+  "cluster.merged",
+];
+
+export interface OutboxEvent {
+  id: number;
+  tenantId: number;
+  type: DomainEventType;
+  payload: Record<string, unknown>;
+  createdAt: Date;
+  dispatchedAt: Date | null;
+}
+
+export interface OutboxEventInput {
+  type: DomainEventType;
+  payload: Prisma.InputJsonObject;
+}
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+/**
+ * Append domain events for one tenant. Callers pass the transaction that made
+ * the change, so an event exists if and only if its change committed.
+ */
+export async function enqueueEvents(
+  tx: TxClient,
+  tenantId: number,
+  events: OutboxEventInput[]
+): Promise<void> {
+  if (events.length === 0) return;
+
+  await tx.outboxEvent.createMany({ data: events.map((e) => ({ ...e, tenantId })) });
+}
+
+/**
+ * Lock up to `take` events that have not been fanned out yet. SKIP LOCKED lets
+ * several dispatchers share the outbox without handing out an event twice.
+ */
+export async function lockUndispatchedEvents(
+  tx: TxClient,
+  take: number
+): Promise<{ id: number; tenantId: number; type: DomainEventType }[]> {
+  return tx.$queryRaw`
+    SELECT "id", "tenantId", "type" FROM "OutboxEvent"
+     WHERE "dispatchedAt" IS NULL
+     ORDER BY "id"
+     LIMIT ${take}
+       FOR UPDATE SKIP LOCKED` as Promise<{ id: number; tenantId: number; type: DomainEventType }[]>;
+}
+
+export async function markEventsDispatched(
+  tx: TxClient,
+  eventIds: number[]
+): Promise<void> {
+  if (eventIds.length === 0) return;
+
+  await tx.outboxEvent.updateMany({
+    where: { id: { in: eventIds } },
+    data: { dispatchedAt: new Date() },
+  });
+}
@@ -0,0 +1,95 @@
+import { TxClient } from "./contact.repository";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type PendingLinkStatus = "pending" | "linked";
+
+export interface PendingLink {
+  id: number;
+  tenantId: number;
+  /** Primary of the cluster the request joined */
+  primaryId: number;
+  /** Primaries of the clusters it was kept apart from */
+  heldPrimaryIds: number[];
+  /** Identifier types ("email", "phoneNumber") that were unverified */
+  unverified: string[];
+  status: PendingLinkStatus;
+  requestId: string;
+  createdAt: Date;
+  linkedAt: Date | null;
+}
+
+export interface PendingLinkInput {
+  primaryId: number;
+  heldPrimaryIds: number[];
+  unverified: string[];
+  requestId: string;
+}
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+/**
+ * Record a held-back merge, unless the same clusters are already waiting on
+ * one, whichever of them was joined: a customer retrying checkout should not
+ * pile up duplicates. Returns the id of the pending row.
+ */
+export async function recordPendingLink(
+  tx: TxClient,
+  tenantId: number,
+  data: PendingLinkInput
+): Promise<number> {
+  const ids = [data.primaryId, ...data.heldPrimaryIds];
+  const key = (clusterIds: number[]) => [...clusterIds].sort((a, b) => a - b).join(",");
+  const candidates = (await tx.pendingLink.findMany({
+    where: { tenantId, status: "pending", primaryId: { in: ids } },
+    select: { id: true, primaryId: true, heldPrimaryIds: true },
+  })) as Pick<PendingLink, "id" | "primaryId" | "heldPrimaryIds">[];
+  const existing = candidates.find(
+    (l) => key([l.primaryId, ...l.heldPrimaryIds]) === key(ids)
+  );
+  if (existing) return existing.id;
+
+  const created = (await tx.pendingLink.create({
+    data: { tenantId, ...data },
+    select: { id: true },
+  })) as { id: number };
+  return created.id;
+}
+
+/**
+ * Pending links of a tenant that name any of the given contact ids, as the
+ * joined primary or a held one, oldest first.
+ */
+export async function findPendingLinksTouching(
+  tx: TxClient,
+  tenantId: number,
+  contactIds: number[]
+): Promise<PendingLink[]> {
+  if (contactIds.length === 0) return [];
+
+  return tx.pendingLink.findMany({
+    where: {
+      tenantId,
+      status: "pending",
+      OR: [{ primaryId: { in: contactIds } }, { heldPrimaryIds: { hasSome: contactIds } }],
+    },
+    orderBy: { id: "asc" },
+  }) as Promise<PendingLink[]>;
+}
+
+/**
+ * Every pending link, across tenants, for the integrity check.
+ */
+export async function findAllPendingLinks(tx: TxClient): Promise<PendingLink[]> {
+  return tx.pendingLink.findMany({
+    where: { status: "pending" },
+    orderBy: { id: "asc" },
+  }) as Promise<PendingLink[]>;
+}
+
+export async function markLinked(tx: TxClient, id: number): Promise<void> {
+  await tx.pendingLink.update({
+    where: { id },
+    data: { status: "linked", linkedAt: new Date() },
+  });
+}
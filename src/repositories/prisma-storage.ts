@@ -0,0 +1,303 @@
+import { prisma } from "../lib/prisma";
+import { runTransaction, TransactionOptions } from "../lib/transaction";
+import { NormalizedIdentifier } from "../lib/identifiers";
+import { VerificationStatus } from "../lib/verification";
+import {
+  ClusterCursor,
+  ClusterFilter,
+  ClusterKey,
+  ClusterSort,
+  Contact,
+  ContactCreateInput,
+  ContactUnlink,
+  ContactUnlinkCreateInput,
+  NormalizedColumn,
+  TxClient,
+  createContact,
+  createUnlinkRecord,
+  demoteToSecondary,
+  fetchCluster,
+  fetchClusterIncludingDeleted,
+  fetchFinalCluster,
+  findClusterPage,
+  findClusterRootId,
+  findContactById,
+  findContactsInTenant,
+  findDirectMatches,
+  findExactMatch,
+  findSecondariesOf,
+  findUnlinkRecordsTouching,
+  promoteToPrimary,
+  relinkContacts,
+  reparentSecondaries,
+  scrubContacts,
+  setVerification,
+  softDeleteContacts,
+} from "./contact.repository";
+import {
+  IdempotencyRecord,
+  IdempotencyRecordInput,
+  deleteIdempotencyRecordsForContacts,
+  findIdempotencyRecord,
+  purgeExpiredIdempotencyRecords,
+  saveIdempotencyRecord,
+} from "./idempotency.repository";
+import {
+  ContactLinkEvent,
+  LinkEventCreateInput,
+  findClusterEvents,
+  findEventsByRequestId,
+  recordLinkEvents,
+  scrubLinkEvents,
+} from "./link-event.repository";
+import { acquireLocks } from "./lock.repository";
+import { OutboxEventInput, enqueueEvents } from "./outbox.repository";
+import {
+  PendingLink,
+  PendingLinkInput,
+  findPendingLinksTouching,
+  markLinked,
+  recordPendingLink,
+} from "./pending-link.repository";
+import {
+  ApiKey,
+  ApiKeyCreateInput,
+  Tenant,
+  createApiKey,
+  createTenant,
+  findApiKeyByHash,
+  findApiKeyById,
+  findTenantById,
+  listApiKeys,
+  listTenants,
+  revokeApiKey,
+  touchApiKey,
+} from "./tenant.repository";
+import { ContactRepository } from "./storage";
+
+/**
+ * The Postgres backend. Unscoped (no `tx`), each call is its own statement and
+ * transaction() opens a retried interactive transaction; scoped to a caller's
+ * `tx`, every call runs inside it, so services that already hold a Prisma
+ * transaction can hand it to identity resolution.
+ */
+export class PrismaContactRepository implements ContactRepository {
+  constructor(private readonly tx?: TxClient) {}
+
+  private get client(): TxClient {
+    return this.tx ?? prisma;
+  }
+
+  async transaction<T>(
+    fn: (repo: ContactRepository) => Promise<T>,
+    options?: TransactionOptions
+  ): Promise<T> {
+    if (this.tx) return fn(this);
+    return runTransaction((tx) => fn(new PrismaContactRepository(tx)), options);
+  }
+
+  async acquireLocks(keys: string[]): Promise<void> {
+    await acquireLocks(this.client, keys);
+  }
+
+  async findDirectMatches(
+    tenantId: number,
+    emailNormalized: string | null | undefined,
+    phoneNormalized: string | null | undefined,
+    identifiers?: NormalizedIdentifier[]
+  ): Promise<Contact[]> {
+    return findDirectMatches(this.client, tenantId, emailNormalized, phoneNormalized, identifiers);
+  }
+
+  async fetchCluster(tenantId: number, primaryIds: number[]): Promise<Contact[]> {
+    return fetchCluster(this.client, tenantId, primaryIds);
+  }
+
+  async fetchFinalCluster(tenantId: number, canonicalPrimaryId: number): Promise<Contact[]> {
+    return fetchFinalCluster(this.client, tenantId, canonicalPrimaryId);
+  }
+
+  async findExactMatch(
+    tenantId: number,
+    emailNormalized: string | null | undefined,
+    phoneNormalized: string | null | undefined,
+    identifiers?: NormalizedIdentifier[],
+    primaryId?: number
+  ): Promise<Contact | null> {
+    return findExactMatch(
+      this.client,
+      tenantId,
+      emailNormalized,
+      phoneNormalized,
+      identifiers,
+      primaryId
+    );
+  }
+
+  async createContact(tenantId: number, data: ContactCreateInput): Promise<Contact> {
+    return createContact(this.client, tenantId, data);
+  }
+
+  async demoteToSecondary(
+    tenantId: number,
+    demotedId: number,
+    canonicalPrimaryId: number
+  ): Promise<void> {
+    await demoteToSecondary(this.client, tenantId, demotedId, canonicalPrimaryId);
+  }
+
+  async reparentSecondaries(
+    tenantId: number,
+    demotedId: number,
+    canonicalPrimaryId: number
+  ): Promise<number[]> {
+    return reparentSecondaries(this.client, tenantId, demotedId, canonicalPrimaryId);
+  }
+
+  async findUnlinkRecordsTouching(tenantId: number, contactIds: number[]): Promise<ContactUnlink[]> {
+    return findUnlinkRecordsTouching(this.client, tenantId, contactIds);
+  }
+
+  async recordLinkEvents(events: LinkEventCreateInput[]): Promise<void> {
+    await recordLinkEvents(this.client, events);
+  }
+
+  async findEventsByRequestId(requestId: string): Promise<ContactLinkEvent[]> {
+    return findEventsByRequestId(this.client, requestId);
+  }
+
+  async enqueueEvents(tenantId: number, events: OutboxEventInput[]): Promise<void> {
+    await enqueueEvents(this.client, tenantId, events);
+  }
+
+  async recordPendingLink(tenantId: number, data: PendingLinkInput): Promise<number> {
+    return recordPendingLink(this.client, tenantId, data);
+  }
+
+  async findContactById(tenantId: number, id: number): Promise<Contact | null> {
+    return findContactById(this.client, tenantId, id);
+  }
+
+  async findContactsInTenant(tenantId: number, ids: number[]): Promise<Contact[]> {
+    return findContactsInTenant(this.client, tenantId, ids);
+  }
+
+  async findSecondariesOf(tenantId: number, primaryIds: number[]): Promise<Contact[]> {
+    return findSecondariesOf(this.client, tenantId, primaryIds);
+  }
+
+  async findClusterRootId(tenantId: number, contactId: number): Promise<number | null> {
+    return findClusterRootId(this.client, tenantId, contactId);
+  }
+
+  async fetchClusterIncludingDeleted(tenantId: number, primaryId: number): Promise<Contact[]> {
+    return fetchClusterIncludingDeleted(this.client, tenantId, primaryId);
+  }
+
+  async findClusterPage(
+    tenantId: number,
+    filter: ClusterFilter,
+    sort: ClusterSort,
+    after: ClusterCursor | null,
+    take: number
+  ): Promise<ClusterKey[]> {
+    return findClusterPage(this.client, tenantId, filter, sort, after, take);
+  }
+
+  async promoteToPrimary(tenantId: number, contactId: number): Promise<void> {
+    await promoteToPrimary(this.client, tenantId, contactId);
+  }
+
+  async relinkContacts(tenantId: number, contactIds: number[], primaryId: number): Promise<void> {
+    await relinkContacts(this.client, tenantId, contactIds, primaryId);
+  }
+
+  async setVerification(
+    tenantId: number,
+    column: NormalizedColumn,
+    value: string,
+    status: VerificationStatus
+  ): Promise<number> {
+    return setVerification(this.client, tenantId, column, value, status);
+  }
+
+  async softDeleteContacts(tenantId: number, contactIds: number[]): Promise<void> {
+    await softDeleteContacts(this.client, tenantId, contactIds);
+  }
+
+  async scrubContacts(tenantId: number, contactIds: number[]): Promise<void> {
+    await scrubContacts(this.client, tenantId, contactIds);
+  }
+
+  async createUnlinkRecord(data: ContactUnlinkCreateInput): Promise<void> {
+    await createUnlinkRecord(this.client, data);
+  }
+
+  async findClusterEvents(contactIds: number[]): Promise<ContactLinkEvent[]> {
+    return findClusterEvents(this.client, contactIds);
+  }
+
+  async scrubLinkEvents(contactIds: number[]): Promise<void> {
+    await scrubLinkEvents(this.client, contactIds);
+  }
+
+  async findPendingLinksTouching(tenantId: number, contactIds: number[]): Promise<PendingLink[]> {
+    return findPendingLinksTouching(this.client, tenantId, contactIds);
+  }
+
+  async markLinked(id: number): Promise<void> {
+    await markLinked(this.client, id);
+  }
+
+  async findIdempotencyRecord(tenantId: number, key: string): Promise<IdempotencyRecord | null> {
+    return findIdempotencyRecord(this.client, tenantId, key);
+  }
+
+  async saveIdempotencyRecord(data: IdempotencyRecordInput): Promise<void> {
+    await saveIdempotencyRecord(this.client, data);
+  }
+
+  async purgeExpiredIdempotencyRecords(now: Date): Promise<number> {
+    return purgeExpiredIdempotencyRecords(this.client, now);
+  }
+
+  async deleteIdempotencyRecordsForContacts(primaryContactIds: number[]): Promise<void> {
+    await deleteIdempotencyRecordsForContacts(this.client, primaryContactIds);
+  }
+
+  async createTenant(name: string): Promise<Tenant> {
+    return createTenant(this.client, name);
+  }
+
+  async listTenants(): Promise<Tenant[]> {
+    return listTenants(this.client);
+  }
+
+  async findTenantById(id: number): Promise<Tenant | null> {
+    return findTenantById(this.client, id);
+  }
+
+  async createApiKey(data: ApiKeyCreateInput): Promise<ApiKey> {
+    return createApiKey(this.client, data);
+  }
+
+  async listApiKeys(tenantId: number): Promise<ApiKey[]> {
+    return listApiKeys(this.client, tenantId);
+  }
+
+  async findApiKeyById(id: number): Promise<ApiKey | null> {
+    return findApiKeyById(this.client, id);
+  }
+
+  async findApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    return findApiKeyByHash(this.client, keyHash);
+  }
+
+  async revokeApiKey(id: number): Promise<ApiKey> {
+    return revokeApiKey(this.client, id);
+  }
+
+  async touchApiKey(id: number, usedAt: Date): Promise<void> {
+    await touchApiKey(this.client, id, usedAt);
+  }
+}
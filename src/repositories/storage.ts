@@ -0,0 +1,199 @@
+import type { TransactionOptions } from "../lib/transaction";
+import type { NormalizedIdentifier } from "../lib/identifiers";
+import type { VerificationStatus } from "../lib/verification";
+import type {
+  ClusterCursor,
+  ClusterFilter,
+  ClusterKey,
+  ClusterSort,
+  Contact,
+  ContactCreateInput,
+  ContactUnlink,
+  ContactUnlinkCreateInput,
+  NormalizedColumn,
+} from "./contact.repository";
+import type { IdempotencyRecord, IdempotencyRecordInput } from "./idempotency.repository";
+import type { ContactLinkEvent, LinkEventCreateInput } from "./link-event.repository";
+import type { OutboxEventInput } from "./outbox.repository";
+import type { PendingLink, PendingLinkInput } from "./pending-link.repository";
+import type { ApiKey, ApiKeyCreateInput, Tenant } from "./tenant.repository";
+import { MemoryContactRepository } from "./memory-storage";
+import { PrismaContactRepository } from "./prisma-storage";
+
+// ── Storage backends ──────────────────────────────────────────────────────────
+// Everything identity resolution and the contact and cluster services read and
+// write, behind one interface so they can run on Postgres (prisma-storage.ts)
+// or entirely in memory (memory-storage.ts). Each method means exactly what
+// the repository function of the same name does; the Prisma backend simply
+// delegates to them.
+//
+// Webhook delivery, merge suggestions, the integrity check and the CLI
+// scripts are not behind it: they query Postgres directly and only run
+// against the Prisma backend.
+
+export interface ContactRepository {
+  /**
+   * Run `fn` atomically against a repository scoped to the transaction: its
+   * writes are visible to nobody else until `fn` resolves, and all of them are
+   * discarded if it throws. Called on a repository that is already scoped to
+   * a transaction, `fn` joins it. `fn` may run more than once.
+   */
+  transaction<T>(
+    fn: (repo: ContactRepository) => Promise<T>,
+    options?: TransactionOptions
+  ): Promise<T>;
+
+  /** Hold the given lock keys (lock.repository.ts) until the transaction ends. */
+  acquireLocks(keys: string[]): Promise<void>;
+
+  findDirectMatches(
+    tenantId: number,
+    emailNormalized: string | null | undefined,
+    phoneNormalized: string | null | undefined,
+    identifiers?: NormalizedIdentifier[]
+  ): Promise<Contact[]>;
+
+  fetchCluster(tenantId: number, primaryIds: number[]): Promise<Contact[]>;
+
+  fetchFinalCluster(tenantId: number, canonicalPrimaryId: number): Promise<Contact[]>;
+
+  findExactMatch(
+    tenantId: number,
+    emailNormalized: string | null | undefined,
+    phoneNormalized: string | null | undefined,
+    identifiers?: NormalizedIdentifier[],
+    primaryId?: number
+  ): Promise<Contact | null>;
+
+  createContact(tenantId: number, data: ContactCreateInput): Promise<Contact>;
+
+  demoteToSecondary(tenantId: number, demotedId: number, canonicalPrimaryId: number): Promise<void>;
+
+  reparentSecondaries(
+    tenantId: number,
+    demotedId: number,
+    canonicalPrimaryId: number
+  ): Promise<number[]>;
+
+  findUnlinkRecordsTouching(tenantId: number, contactIds: number[]): Promise<ContactUnlink[]>;
+
+  recordLinkEvents(events: LinkEventCreateInput[]): Promise<void>;
+
+  findEventsByRequestId(requestId: string): Promise<ContactLinkEvent[]>;
+
+  enqueueEvents(tenantId: number, events: OutboxEventInput[]): Promise<void>;
+
+  recordPendingLink(tenantId: number, data: PendingLinkInput): Promise<number>;
+
+  // ── Contact and cluster services ──
+
+  findContactById(tenantId: number, id: number): Promise<Contact | null>;
+
+  findContactsInTenant(tenantId: number, ids: number[]): Promise<Contact[]>;
+
+  findSecondariesOf(tenantId: number, primaryIds: number[]): Promise<Contact[]>;
+
+  findClusterRootId(tenantId: number, contactId: number): Promise<number | null>;
+
+  fetchClusterIncludingDeleted(tenantId: number, primaryId: number): Promise<Contact[]>;
+
+  findClusterPage(
+    tenantId: number,
+    filter: ClusterFilter,
+    sort: ClusterSort,
+    after: ClusterCursor | null,
+    take: number
+  ): Promise<ClusterKey[]>;
+
+  promoteToPrimary(tenantId: number, contactId: number): Promise<void>;
+
+  relinkContacts(tenantId: number, contactIds: number[], primaryId: number): Promise<void>;
+
+  setVerification(
+    tenantId: number,
+    column: NormalizedColumn,
+    value: string,
+    status: VerificationStatus
+  ): Promise<number>;
+
+  softDeleteContacts(tenantId: number, contactIds: number[]): Promise<void>;
+
+  scrubContacts(tenantId: number, contactIds: number[]): Promise<void>;
+
+  createUnlinkRecord(data: ContactUnlinkCreateInput): Promise<void>;
+
+  findClusterEvents(contactIds: number[]): Promise<ContactLinkEvent[]>;
+
+  scrubLinkEvents(contactIds: number[]): Promise<void>;
+
+  findPendingLinksTouching(tenantId: number, contactIds: number[]): Promise<PendingLink[]>;
+
+  markLinked(id: number): Promise<void>;
+
+  // ── Idempotency keys ──
+
+  findIdempotencyRecord(tenantId: number, key: string): Promise<IdempotencyRecord | null>;
+
+  saveIdempotencyRecord(data: IdempotencyRecordInput): Promise<void>;
+
+  purgeExpiredIdempotencyRecords(now: Date): Promise<number>;
+
+  deleteIdempotencyRecordsForContacts(primaryContactIds: number[]): Promise<void>;
+
+  // ── Tenants and API keys ──
+
+  /** Fails with Prisma's unique-violation code, P2002, if the name is taken */
+  createTenant(name: string): Promise<Tenant>;
+
+  listTenants(): Promise<Tenant[]>;
+
+  findTenantById(id: number): Promise<Tenant | null>;
+
+  createApiKey(data: ApiKeyCreateInput): Promise<ApiKey>;
+
+  listApiKeys(tenantId: number): Promise<ApiKey[]>;
+
+  findApiKeyById(id: number): Promise<ApiKey | null>;
+
+  findApiKeyByHash(keyHash: string): Promise<ApiKey | null>;
+
+  revokeApiKey(id: number): Promise<ApiKey>;
+
+  touchApiKey(id: number, usedAt: Date): Promise<void>;
+}
+
+
+// ── Default backend ───────────────────────────────────────────────────────────
+
+const BACKENDS = ["postgres", "memory"] as const;
+
+export type StorageBackend = (typeof BACKENDS)[number];
+
+/**
+ * From CONTACT_STORE (default postgres). With memory nothing outlives the
+ * process and the Postgres-only features above have no data to work on.
+ */
+export function storageBackend(): StorageBackend {
+  const backend = (process.env.CONTACT_STORE ?? "postgres") as StorageBackend;
+  if (!BACKENDS.includes(backend)) {
+    throw new Error(`CONTACT_STORE must be one of ${BACKENDS.join(", ")} (got: ${backend})`);
+  }
+  return backend;
+}
+
+let store: ContactRepository | undefined;
+
+/**
+ * The repository the services use unless a caller passes one of its own:
+ * the CONTACT_STORE backend, chosen on first use, unless setContactStore()
+ * swapped it.
+ */
+export function contactStore(): ContactRepository {
+  store ??=
+    storageBackend() === "memory" ? new MemoryContactRepository() : new PrismaContactRepository();
+  return store;
+}
+
+export function setContactStore(next: ContactRepository): void {
+  store = next;
+}
@@ -0,0 +1,73 @@
+import { TxClient } from "./contact.repository";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface Tenant {
+  id: number;
+  name: string;
+  createdAt: Date;
+}
+
+export interface ApiKey {
+  id: number;
+  tenantId: number;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export interface ApiKeyCreateInput {
+  tenantId: number;
+  name: string;
+  prefix: string;
+  keyHash: string;
+}
+
+// ── Tenants ───────────────────────────────────────────────────────────────────
+
+export async function createTenant(tx: TxClient, name: string): Promise<Tenant> {
+  return tx.tenant.create({ data: { name } }) as Promise<Tenant>;
+}
+
+export async function listTenants(tx: TxClient): Promise<Tenant[]> {
+  return tx.tenant.findMany({ orderBy: { id: "asc" } }) as Promise<Tenant[]>;
+}
+
+export async function findTenantById(tx: TxClient, id: number): Promise<Tenant | null> {
+  return tx.tenant.findUnique({ where: { id } }) as Promise<Tenant | null>;
+}
+
+// ── API keys ──────────────────────────────────────────────────────────────────
+
+export async function createApiKey(tx: TxClient, data: ApiKeyCreateInput): Promise<ApiKey> {
+  return tx.apiKey.create({ data }) as Promise<ApiKey>;
+}
+
+export async function listApiKeys(tx: TxClient, tenantId: number): Promise<ApiKey[]> {
+  return tx.apiKey.findMany({
+    where: { tenantId },
+    orderBy: { id: "asc" },
+  }) as Promise<ApiKey[]>;
+}
+
+export async function findApiKeyById(tx: TxClient, id: number): Promise<ApiKey | null> {
+  return tx.apiKey.findUnique({ where: { id } }) as Promise<ApiKey | null>;
+}
+
+export async function findApiKeyByHash(tx: TxClient, keyHash: string): Promise<ApiKey | null> {
+  return tx.apiKey.findUnique({ where: { keyHash } }) as Promise<ApiKey | null>;
+}
+
+export async function revokeApiKey(tx: TxClient, id: number): Promise<ApiKey> {
+  return tx.apiKey.update({
+    where: { id },
+    data: { revokedAt: new Date() },
+  }) as Promise<ApiKey>;
+}
+
+export async function touchApiKey(tx: TxClient, id: number, usedAt: Date): Promise<void> {
+  await tx.apiKey.update({ where: { id }, data: { lastUsedAt: usedAt } });
+}
@@ -0,0 +1,242 @@
+import { TxClient } from "./contact.repository";
+import { OutboxEvent } from "./outbox.repository";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "dead";
+
+export interface WebhookSubscription {
+  id: number;
+  tenantId: number;
+  url: string;
+  secret: string;
+  eventTypes: string[];
+  description: string | null;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookSubscriptionCreateInput {
+  url: string;
+  secret: string;
+  eventTypes: string[];
+  description?: string | null;
+}
+
+export interface WebhookSubscriptionUpdateInput {
+  url?: string;
+  eventTypes?: string[];
+  description?: string | null;
+  active?: boolean;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  eventId: number;
+  subscriptionId: number;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ClaimedDelivery extends WebhookDelivery {
+  event: OutboxEvent;
+  subscription: WebhookSubscription;
+}
+
+// ── Subscriptions ─────────────────────────────────────────────────────────────
+// Subscriptions belong to a tenant and only ever receive that tenant's events.
+
+export async function createSubscription(
+  tx: TxClient,
+  tenantId: number,
+  data: WebhookSubscriptionCreateInput
+): Promise<WebhookSubscription> {
+  return tx.webhookSubscription.create({
+    data: {
+      tenantId,
+      url: data.url,
+      secret: data.secret,
+      eventTypes: data.eventTypes,
+      description: data.description ?? null,
+    },
+  }) as Promise<WebhookSubscription>;
+}
+
+export async function listSubscriptions(
+  tx: TxClient,
+  tenantId: number
+): Promise<WebhookSubscription[]> {
+  return tx.webhookSubscription.findMany({
+    where: { tenantId },
+    orderBy: { id: "asc" },
+  }) as Promise<WebhookSubscription[]>;
+}
+
+export async function findSubscriptionById(
+  tx: TxClient,
+  tenantId: number,
+  id: number
+): Promise<WebhookSubscription | null> {
+  return tx.webhookSubscription.findFirst({
+    where: { id, tenantId },
+  }) as Promise<WebhookSubscription | null>;
+}
+
+export async function updateSubscription(
+  tx: TxClient,
+  id: number,
+  data: WebhookSubscriptionUpdateInput
+): Promise<WebhookSubscription> {
+  return tx.webhookSubscription.update({
+    where: { id },
+    data,
+  }) as Promise<WebhookSubscription>;
+}
+
+/**
+ * Delete a subscription; its deliveries go with it (onDelete: Cascade).
+ */
+export async function deleteSubscription(tx: TxClient, id: number): Promise<void> {
+  await tx.webhookSubscription.delete({ where: { id } });
+}
+
+/**
+ * Active subscriptions that want events of the given type. An empty
+ * eventTypes list subscribes to everything.
+ */
+export async function findSubscribersFor(
+  tx: TxClient,
+  tenantId: number,
+  type: string
+): Promise<WebhookSubscription[]> {
+  return tx.webhookSubscription.findMany({
+    where: {
+      tenantId,
+      active: true,
+      OR: [{ eventTypes: { isEmpty: true } }, { eventTypes: { has: type } }],
+    },
+  }) as Promise<WebhookSubscription[]>;
+}
+
+// ── Deliveries ────────────────────────────────────────────────────────────────
+
+export async function createDeliveries(
+  tx: TxClient,
+  deliveries: { eventId: number; subscriptionId: number }[]
+): Promise<void> {
+  if (deliveries.length === 0) return;
+
+  await tx.webhookDelivery.createMany({ data: deliveries, skipDuplicates: true });
+}
+
+/**
+ * Claim up to `take` due deliveries by pushing their nextAttemptAt out to
+ * `leaseUntil`. If the dispatcher dies mid-request the lease simply expires
+ * and the delivery is picked up again.
+ */
+export async function claimDueDeliveries(
+  tx: TxClient,
+  take: number,
+  leaseUntil: Date
+): Promise<ClaimedDelivery[]> {
+  const claimed = (await tx.$queryRaw`
+    UPDATE "WebhookDelivery"
+       SET "nextAttemptAt" = ${leaseUntil}, "updatedAt" = now()
+     WHERE "id" IN (
+           SELECT "id" FROM "WebhookDelivery"
+            WHERE "status" = 'pending' AND "nextAttemptAt" <= now()
+            ORDER BY "nextAttemptAt", "id"
+            LIMIT ${take}
+              FOR UPDATE SKIP LOCKED)
+    RETURNING "id"`) as { id: number }[];
+  if (claimed.length === 0) return [];
+
+  return tx.webhookDelivery.findMany({
+    where: { id: { in: claimed.map((c) => c.id) } },
+    include: { event: true, subscription: true },
+    orderBy: { id: "asc" },
+  }) as Promise<ClaimedDelivery[]>;
+}
+
+export async function markDelivered(
+  tx: TxClient,
+  id: number,
+  statusCode: number
+): Promise<void> {
+  await tx.webhookDelivery.update({
+    where: { id },
+    data: {
+      status: "delivered",
+      attempts: { increment: 1 },
+      lastStatusCode: statusCode,
+      lastError: null,
+      deliveredAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Record a failed attempt: reschedule at `nextAttemptAt`, or park the
+ * delivery as dead when `nextAttemptAt` is null.
+ */
+export async function markFailed(
+  tx: TxClient,
+  id: number,
+  failure: { statusCode: number | null; error: string; nextAttemptAt: Date | null }
+): Promise<void> {
+  await tx.webhookDelivery.update({
+    where: { id },
+    data: {
+      status: failure.nextAttemptAt ? "pending" : "dead",
+      attempts: { increment: 1 },
+      lastStatusCode: failure.statusCode,
+      lastError: failure.error.slice(0, 1000),
+      ...(failure.nextAttemptAt ? { nextAttemptAt: failure.nextAttemptAt } : {}),
+    },
+  });
+}
+
+export async function listDeliveries(
+  tx: TxClient,
+  subscriptionId: number,
+  status?: WebhookDeliveryStatus
+): Promise<WebhookDelivery[]> {
+  return tx.webhookDelivery.findMany({
+    where: { subscriptionId, ...(status ? { status } : {}) },
+    orderBy: { id: "desc" },
+    take: 100,
+  }) as Promise<WebhookDelivery[]>;
+}
+
+/**
+ * A delivery, if it was made to one of the tenant's subscriptions.
+ */
+export async function findDeliveryById(
+  tx: TxClient,
+  tenantId: number,
+  id: number
+): Promise<WebhookDelivery | null> {
+  return tx.webhookDelivery.findFirst({
+    where: { id, subscription: { tenantId } },
+  }) as Promise<WebhookDelivery | null>;
+}
+
+/**
+ * Put a delivery back in the queue with a fresh attempt budget.
+ */
+export async function requeueDelivery(
+  tx: TxClient,
+  id: number
+): Promise<WebhookDelivery> {
+  return tx.webhookDelivery.update({
+    where: { id },
+    data: { status: "pending", attempts: 0, nextAttemptAt: new Date() },
+  }) as Promise<WebhookDelivery>;
+}
@@ -0,0 +1,138 @@
+/**
+ * Re-normalize every live contact and merge clusters that now collide.
+ *
+ *   npm run db:normalize
+ *
+ * Safe to re-run: rows whose normalized values are already current are left
+ * untouched, and once clusters are merged they no longer collide. Run it after
+ * changing PHONE_DEFAULT_REGION or EMAIL_PROVIDER_RULES, or the normalization
+ * of a registered identifier type. Clusters split on purpose (unlinked, or
+ * held apart by a pending link) are left apart, as the integrity check does.
+ * It also fills the columns GET /clusters lists from (email domain, cluster
+ * size) on rows that predate them.
+ */
+
+import { randomUUID } from "crypto";
+import { validateEnv } from "../lib/env";
+import { getIdentifierType } from "../lib/identifiers";
+import { logger } from "../lib/logger";
+import { prisma } from "../lib/prisma";
+import { normalizationConfig, normalizeEmail, normalizePhone } from "../lib/normalize";
+import { runTransaction } from "../lib/transaction";
+import {
+  findContactsPage,
+  findIdentifiersPage,
+  updateNormalized,
+  updateIdentifierNormalized,
+  findCollidingClusters,
+  findCollidingIdentifierClusters,
+  refreshListingColumns,
+} from "../repositories/contact.repository";
+import { acquireLocks, clusterLockKey } from "../repositories/lock.repository";
+import { PrismaContactRepository } from "../repositories/prisma-storage";
+import { mergeClusters } from "../services/identity.service";
+import { groupCollisions, mergeablePairs, splitPairs } from "../services/integrity.service";
+
+const BATCH_SIZE = 500;
+
+async function renormalize(): Promise<number> {
+  const config = normalizationConfig();
+  let afterId = 0;
+  let updated = 0;
+
+  for (;;) {
+    const page = await findContactsPage(prisma, afterId, BATCH_SIZE);
+    if (page.length === 0) break;
+
+    for (const c of page) {
+      const emailNormalized = normalizeEmail(c.email, config);
+      const phoneNormalized = normalizePhone(c.phoneNumber, config);
+      if (emailNormalized !== c.emailNormalized || phoneNormalized !== c.phoneNormalized) {
+        await updateNormalized(prisma, c.id, emailNormalized, phoneNormalized);
+        updated++;
+      }
+    }
+
+    afterId = page[page.length - 1].id;
+  }
+
+  return updated;
+}
+
+/**
+ * Same for the extra identifiers, with each type's current normalize(). Rows
+ * of a type that is no longer registered are left as they are.
+ */
+async function renormalizeIdentifiers(): Promise<number> {
+  let afterId = 0;
+  let updated = 0;
+
+  for (;;) {
+    const page = await findIdentifiersPage(prisma, afterId, BATCH_SIZE);
+    if (page.length === 0) break;
+
+    for (const i of page) {
+      const definition = getIdentifierType(i.type);
+      if (!definition) continue;
+      const normalizedValue = definition.normalize(i.value.trim());
+      if (normalizedValue !== i.normalizedValue) {
+        await updateIdentifierNormalized(prisma, i, normalizedValue);
+        updated++;
+      }
+    }
+
+    afterId = page[page.length - 1].id;
+  }
+
+  return updated;
+}
+
+async function main() {
+  validateEnv();
+
+  const listingUpdates = await refreshListingColumns(prisma);
+  logger.info("listing columns refreshed", { updated: listingUpdates });
+
+  const updated = await renormalize();
+  const identifiersUpdated = await renormalizeIdentifiers();
+  logger.info("normalized columns refreshed", { updated, identifiersUpdated });
+
+  const collisions = [
+    ...(await findCollidingClusters(prisma, "emailNormalized")),
+    ...(await findCollidingClusters(prisma, "phoneNormalized")),
+    ...(await findCollidingIdentifierClusters(prisma)),
+  ];
+  const split = await splitPairs(prisma);
+  const groups = groupCollisions(collisions.flatMap((c) => mergeablePairs(c.primaryIds, split)));
+  // Collisions are per tenant, so every group lies within one
+  const tenantOf = new Map(collisions.flatMap((c) => c.primaryIds.map((id) => [id, c.tenantId])));
+
+  const requestId = randomUUID();
+  for (const primaryIds of groups) {
+    const canonical = await runTransaction(async (tx) => {
+      await acquireLocks(tx, primaryIds.map(clusterLockKey));
+      const tenantId = tenantOf.get(primaryIds[0])!;
+      return mergeClusters(new PrismaContactRepository(tx), tenantId, primaryIds, {
+        requestId,
+        reason: "normalization backfill",
+      });
+    });
+    logger.info("merged colliding clusters", { primaryIds, canonicalPrimaryId: canonical.id });
+  }
+
+  logger.info("normalization backfill complete", {
+    updated,
+    identifiersUpdated,
+    merges: groups.length,
+    requestId,
+  });
+}
+
+main()
+  .catch((e) => {
+    logger.error("normalization backfill failed", {
+      message: e instanceof Error ? e.message : String(e),
+    });
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -7,6 +7,9 @@ validateEnv();
 
 import app from "./app";
 import { Server } from "http";
+import { storageBackend } from "./repositories/storage";
+import { purgeExpiredIdempotencyKeys } from "./services/idempotency.service";
+import { startWebhookDispatcher } from "./workers/webhook-dispatcher";
 
 const PORT = parseInt(process.env.PORT ?? "3000", 10);
 
@@ -14,6 +17,32 @@ const server: Server = app.listen(PORT, () => {
   logger.info("server started", { port: PORT, env: process.env.NODE_ENV ?? "development" });
 });
 
+// ── Housekeeping ──────────────────────────────────────────────────────────────
+const IDEMPOTENCY_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+setInterval(() => {
+  purgeExpiredIdempotencyKeys()
+    .then((purged) => logger.info("expired idempotency keys purged", { purged }))
+    .catch((err) =>
+      logger.error("idempotency key purge failed", {
+        message: err instanceof Error ? err.message : String(err),
+      })
+    );
+}, IDEMPOTENCY_PURGE_INTERVAL_MS).unref();
+
+// ── Webhook dispatcher ────────────────────────────────────────────────────────
+// Set WEBHOOK_DISPATCH_INTERVAL_MS=0 on instances that should not deliver.
+// Delivery reads its outbox from Postgres, so it never runs on CONTACT_STORE=memory.
+const WEBHOOK_DISPATCH_INTERVAL_MS = parseInt(
+  process.env.WEBHOOK_DISPATCH_INTERVAL_MS ?? "1000",
+  10
+);
+
+const stopWebhookDispatcher =
+  WEBHOOK_DISPATCH_INTERVAL_MS > 0 && storageBackend() === "postgres"
+    ? startWebhookDispatcher(WEBHOOK_DISPATCH_INTERVAL_MS)
+    : async () => {};
+
 // ── Graceful shutdown ─────────────────────────────────────────────────────────
 async function shutdown(signal: string): Promise<void> {
   logger.info("shutdown signal received", { signal });
@@ -21,6 +50,7 @@ async function shutdown(signal: string): Promise<void> {
   server.close(async () => {
     logger.info("http server closed");
     try {
+      await stopWebhookDispatcher();
       await prisma.$disconnect();
       logger.info("database disconnected");
       process.exit(0);
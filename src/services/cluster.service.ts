@@ -0,0 +1,776 @@
+import { encodeCursor } from "../lib/cursor";
+import { requestIdOrNew } from "../lib/request-context";
+import {
+  ClusterCursor,
+  ClusterFilter,
+  ClusterSort,
+  Contact,
+} from "../repositories/contact.repository";
+import { ContactLinkEvent, LinkEventCreateInput } from "../repositories/link-event.repository";
+import { clusterLockKey, identifierLockKeys } from "../repositories/lock.repository";
+import { ContactRepository, contactStore } from "../repositories/storage";
+import { normalizeEmail, normalizePhone } from "../lib/normalize";
+import { identityDemotedPrimariesTotal, identityMergesTotal } from "../lib/metrics";
+import { VerificationStatus, isVerified } from "../lib/verification";
+import {
+  IdentifyResponse,
+  enforceMergeLimit,
+  formatResponse,
+  mergeClusters,
+} from "./identity.service";
+import { electSuccessor } from "./primary-election";
+
+export interface UnlinkInput {
+  contactId: number;
+  reason: string;
+}
+
+export interface MergeInput {
+  contactIds: number[];
+  reason?: string | null;
+}
+
+export interface VerifyInput {
+  contactId: number;
+  email?: VerificationStatus;
+  phoneNumber?: VerificationStatus;
+}
+
+export interface UnlinkResponse {
+  detached: IdentifyResponse;
+  remaining: IdentifyResponse;
+}
+
+export interface ContactRow {
+  id: number;
+  email: string | null;
+  phoneNumber: string | null;
+  linkPrecedence: Contact["linkPrecedence"];
+  linkedId: number | null;
+  identifiers: { type: string; value: string }[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** The /identify response shape plus the individual rows behind it. */
+export interface ClusterView extends IdentifyResponse {
+  contacts: ContactRow[];
+}
+
+export interface ClusterSearchInput {
+  email?: string | null;
+  phoneNumber?: string | null;
+}
+
+export interface ClusterListInput extends Omit<ClusterFilter, "mergedSince"> {
+  /** Only clusters a merge grew within this many days */
+  mergedWithinDays?: number;
+  sort: ClusterSort;
+  cursor?: ClusterCursor;
+  limit: number;
+}
+
+export interface ClusterPage {
+  clusters: IdentifyResponse[];
+  /** Pass back as `cursor` for the next page; null on the last one */
+  nextCursor: string | null;
+}
+
+export interface DeleteContactResponse {
+  deletedContactId: number;
+  /** The cluster the contact was removed from, or null if it was alone */
+  remaining: IdentifyResponse | null;
+}
+
+export interface EraseClusterResponse {
+  primaryContactId: number;
+  erasedContactIds: number[];
+}
+
+export interface ClusterHistoryResponse {
+  primaryContactId: number;
+  events: ContactLinkEvent[];
+}
+
+// ── Graph helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * Every normalized value a contact can be matched on, tagged with its type.
+ */
+function matchKeys(contact: Contact): string[] {
+  const keys: string[] = [];
+  if (contact.emailNormalized) keys.push(`email:${contact.emailNormalized}`);
+  if (contact.phoneNormalized) keys.push(`phone:${contact.phoneNormalized}`);
+  for (const i of contact.identifiers ?? []) {
+    keys.push(`identifier:${i.type}:${i.normalizedValue}`);
+  }
+  return keys;
+}
+
+/**
+ * Ids of every contact reachable from `start` through a shared (normalized)
+ * email, phoneNumber or extra identifier, considering only the given contacts.
+ */
+function connectedComponent(contacts: Contact[], start: Contact): Set<number> {
+  const byKey = new Map<string, Contact[]>();
+  for (const c of contacts) {
+    for (const key of matchKeys(c)) {
+      byKey.set(key, [...(byKey.get(key) ?? []), c]);
+    }
+  }
+
+  const seen = new Set<number>([start.id]);
+  const queue: Contact[] = [start];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const neighbours = matchKeys(current).flatMap((key) => byKey.get(key) ?? []);
+    for (const n of neighbours) {
+      if (!seen.has(n.id)) {
+        seen.add(n.id);
+        queue.push(n);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Primary id of the cluster a live contact belongs to; 404 if it is unknown.
+ */
+async function resolvePrimaryId(
+  repo: ContactRepository,
+  tenantId: number,
+  contactId: number
+): Promise<number> {
+  const contact = await repo.findContactById(tenantId, contactId);
+  if (!contact) {
+    throw Object.assign(new Error(`Contact ${contactId} not found`), {
+      statusCode: 404,
+    });
+  }
+  return contact.linkPrecedence === "primary" ? contact.id : contact.linkedId!;
+}
+
+/**
+ * Lock the cluster a live contact belongs to and return the contact as read
+ * under that lock. Loops because a merge that committed while we waited may
+ * have moved the contact under a different primary.
+ */
+async function lockClusterOf(
+  repo: ContactRepository,
+  tenantId: number,
+  contactId: number
+): Promise<Contact> {
+  let lockedPrimaryId: number | null = null;
+  for (;;) {
+    const contact = await repo.findContactById(tenantId, contactId);
+    if (!contact) {
+      throw Object.assign(new Error(`Contact ${contactId} not found`), {
+        statusCode: 404,
+      });
+    }
+
+    const primaryId =
+      contact.linkPrecedence === "primary" ? contact.id : contact.linkedId!;
+    if (primaryId === lockedPrimaryId) return contact;
+
+    await repo.acquireLocks([clusterLockKey(primaryId)]);
+    lockedPrimaryId = primaryId;
+  }
+}
+
+/**
+ * Lock the cluster any row belongs to, tombstones included, and return its
+ * primary id; see findClusterRootId(). Loops like lockClusterOf.
+ */
+async function lockClusterOfAnyRow(
+  repo: ContactRepository,
+  tenantId: number,
+  contactId: number
+): Promise<number> {
+  let lockedPrimaryId: number | null = null;
+  for (;;) {
+    const primaryId = await repo.findClusterRootId(tenantId, contactId);
+    if (primaryId === null) {
+      throw Object.assign(new Error(`Contact ${contactId} not found`), {
+        statusCode: 404,
+      });
+    }
+    if (primaryId === lockedPrimaryId) return primaryId;
+
+    await repo.acquireLocks([clusterLockKey(primaryId)]);
+    lockedPrimaryId = primaryId;
+  }
+}
+
+/**
+ * Lock the clusters of several live contacts and return their primary ids,
+ * deduplicated. Loops like lockClusterOf until no contact has moved to a
+ * cluster that isn't locked yet; 404 if any contact is unknown or deleted.
+ */
+async function lockClustersOf(
+  repo: ContactRepository,
+  tenantId: number,
+  contactIds: number[]
+): Promise<number[]> {
+  const locked = new Set<number>();
+  for (;;) {
+    const primaryIds = new Set<number>();
+    for (const contactId of contactIds) {
+      primaryIds.add(await resolvePrimaryId(repo, tenantId, contactId));
+    }
+
+    const unlocked = [...primaryIds].filter((id) => !locked.has(id));
+    if (unlocked.length === 0) return [...primaryIds];
+
+    await repo.acquireLocks(unlocked.map(clusterLockKey));
+    unlocked.forEach((id) => locked.add(id));
+  }
+}
+
+// ── Manual merge ──────────────────────────────────────────────────────────────
+
+export interface MergeOutcome {
+  cluster: IdentifyResponse;
+  /** Primaries demoted by the merge; 0 when the contacts were already one cluster */
+  demotedPrimaries: number;
+}
+
+/**
+ * Merge the clusters of the given contacts inside the caller's transaction
+ * (`repo` scoped to it), through the same mergeClusters() as an /identify
+ * request that bridges them: the election strategy picks the surviving
+ * primary, and the demotions write the usual link events and webhooks.
+ * Contacts already in one cluster are left as they are. Callers report the
+ * outcome with recordMerge() once the transaction commits.
+ */
+export async function mergeContactClusters(
+  repo: ContactRepository,
+  tenantId: number,
+  contactIds: number[],
+  reason: string
+): Promise<MergeOutcome> {
+  const primaryIds = await lockClustersOf(repo, tenantId, contactIds);
+
+  let canonicalId = primaryIds[0];
+  if (primaryIds.length > 1) {
+    await enforceMergeLimit();
+    canonicalId = (
+      await mergeClusters(repo, tenantId, primaryIds, {
+        requestId: requestIdOrNew(),
+        reason,
+      })
+    ).id;
+  }
+
+  return {
+    cluster: formatResponse(await repo.fetchFinalCluster(tenantId, canonicalId)),
+    demotedPrimaries: primaryIds.length - 1,
+  };
+}
+
+/**
+ * Count a committed merge in the same metrics as identify() merges.
+ */
+export function recordMerge(outcome: MergeOutcome): void {
+  if (outcome.demotedPrimaries === 0) return;
+  identityMergesTotal.inc();
+  identityDemotedPrimariesTotal.inc(outcome.demotedPrimaries);
+}
+
+/**
+ * Merge the clusters of two or more contacts on an operator's say-so; see
+ * mergeContactClusters(). 404 if any contact is unknown or deleted.
+ */
+export async function mergeContacts(
+  tenantId: number,
+  input: MergeInput,
+  repo: ContactRepository = contactStore()
+): Promise<IdentifyResponse> {
+  const outcome = await repo.transaction((tx) =>
+    mergeContactClusters(tx, tenantId, input.contactIds, input.reason ?? "manual merge")
+  );
+  recordMerge(outcome);
+  return outcome.cluster;
+}
+
+// ── Verification ──────────────────────────────────────────────────────────────
+
+/**
+ * Whether verified emails and phone numbers alone connect every one of the
+ * given clusters.
+ */
+async function connectedByVerified(
+  repo: ContactRepository,
+  tenantId: number,
+  primaryIds: number[]
+): Promise<boolean> {
+  const keysOf = new Map<number, Set<string>>(primaryIds.map((id) => [id, new Set()]));
+  for (const c of await repo.fetchCluster(tenantId, primaryIds)) {
+    const keys = keysOf.get(c.linkPrecedence === "primary" ? c.id : c.linkedId!)!;
+    if (c.emailNormalized && isVerified(c.emailVerification)) keys.add(`email:${c.emailNormalized}`);
+    if (c.phoneNormalized && isVerified(c.phoneVerification)) keys.add(`phone:${c.phoneNormalized}`);
+  }
+
+  const reached = new Set([primaryIds[0]]);
+  for (let grew = true; grew; ) {
+    grew = false;
+    for (const [id, keys] of keysOf) {
+      if (reached.has(id)) continue;
+      const touches = [...reached].some((r) => [...keysOf.get(r)!].some((k) => keys.has(k)));
+      if (touches) {
+        reached.add(id);
+        grew = true;
+      }
+    }
+  }
+  return reached.size === keysOf.size;
+}
+
+/**
+ * Complete the pending links that involve a cluster holding one of the given
+ * values, where verified identifiers now connect the clusters identify() kept
+ * apart. Links naming a contact that has since been deleted stay pending.
+ */
+async function completePendingLinks(
+  repo: ContactRepository,
+  tenantId: number,
+  emailNormalized: string | null,
+  phoneNormalized: string | null
+): Promise<MergeOutcome[]> {
+  const holders = await repo.findDirectMatches(tenantId, emailNormalized, phoneNormalized);
+  const ids = [...new Set(holders.flatMap((c) => [c.id, c.linkedId ?? c.id]))];
+  const outcomes: MergeOutcome[] = [];
+
+  for (const link of await repo.findPendingLinksTouching(tenantId, ids)) {
+    const contactIds = [link.primaryId, ...link.heldPrimaryIds];
+    let primaryIds: number[];
+    try {
+      primaryIds = await lockClustersOf(repo, tenantId, contactIds);
+    } catch (err) {
+      if ((err as { statusCode?: number }).statusCode === 404) continue;
+      throw err;
+    }
+    if (!(await connectedByVerified(repo, tenantId, primaryIds))) continue;
+
+    outcomes.push(
+      await mergeContactClusters(repo, tenantId, contactIds, `pending link ${link.id} verified`)
+    );
+    await repo.markLinked(link.id);
+  }
+  return outcomes;
+}
+
+/**
+ * Set the verification state of a contact's email and/or phone number. The
+ * state belongs to the value, so every row of the tenant holding it changes
+ * with it. Merges held back for want of a verified identifier go through once
+ * one connects the clusters; marking a value unverified again splits nothing.
+ * Returns the contact's cluster. 404 if the contact is unknown, 409 if it has
+ * no email or phone number to verify.
+ */
+export async function verifyContact(
+  tenantId: number,
+  input: VerifyInput,
+  repo: ContactRepository = contactStore()
+): Promise<IdentifyResponse> {
+  const { contactId } = input;
+  let outcomes: MergeOutcome[] = [];
+
+  const cluster = await repo.transaction(async (tx) => {
+    const contact = await tx.findContactById(tenantId, contactId);
+    if (!contact) {
+      throw Object.assign(new Error(`Contact ${contactId} not found`), {
+        statusCode: 404,
+      });
+    }
+    const missing =
+      input.email !== undefined && contact.emailNormalized === null
+        ? "email"
+        : input.phoneNumber !== undefined && contact.phoneNormalized === null
+          ? "phone number"
+          : null;
+    if (missing) {
+      throw Object.assign(new Error(`Contact ${contactId} has no ${missing}`), {
+        statusCode: 409,
+      });
+    }
+
+    const emailNormalized = input.email !== undefined ? contact.emailNormalized : null;
+    const phoneNormalized = input.phoneNumber !== undefined ? contact.phoneNormalized : null;
+
+    // The keys identify() takes for these values, so a request carrying them
+    // sees the state from before this change or after it, never half of it
+    await tx.acquireLocks(identifierLockKeys(tenantId, emailNormalized, phoneNormalized, []));
+    if (emailNormalized) {
+      await tx.setVerification(tenantId, "emailNormalized", emailNormalized, input.email!);
+    }
+    if (phoneNormalized) {
+      await tx.setVerification(tenantId, "phoneNormalized", phoneNormalized, input.phoneNumber!);
+    }
+
+    outcomes = await completePendingLinks(tx, tenantId, emailNormalized, phoneNormalized);
+    const primaryId = await resolvePrimaryId(tx, tenantId, contactId);
+    return formatResponse(await tx.fetchFinalCluster(tenantId, primaryId));
+  });
+
+  outcomes.forEach(recordMerge);
+  return cluster;
+}
+
+// ── Unlink ────────────────────────────────────────────────────────────────────
+
+/**
+ * Split a contact out of its cluster.
+ *
+ * The contact is removed from the identifier graph of its cluster; whatever
+ * is still connected to the anchor (the primary, or the successor
+ * PRIMARY_ELECTION_STRATEGY picks when the unlinked contact is itself the
+ * primary) stays behind. The unlinked
+ * contact and everything that only reached the anchor through it become a new
+ * cluster with the unlinked contact as primary.
+ */
+export async function unlinkContact(
+  tenantId: number,
+  input: UnlinkInput,
+  repo: ContactRepository = contactStore()
+): Promise<UnlinkResponse> {
+  const { contactId, reason } = input;
+
+  return repo.transaction(async (tx) => {
+    const target = await lockClusterOf(tx, tenantId, contactId);
+
+    const previousPrimaryId =
+      target.linkPrecedence === "primary" ? target.id : target.linkedId!;
+    const cluster = await tx.fetchFinalCluster(tenantId, previousPrimaryId);
+    const others = cluster.filter((c) => c.id !== target.id);
+
+    if (others.length === 0) {
+      throw Object.assign(
+        new Error(`Contact ${contactId} is not linked to any other contact`),
+        { statusCode: 409 }
+      );
+    }
+
+    const anchor =
+      target.linkPrecedence === "primary"
+        ? electSuccessor(others)
+        : others.find((c) => c.id === previousPrimaryId)!;
+
+    const remainingIds = connectedComponent(others, anchor);
+    const detachedIds = cluster
+      .filter((c) => !remainingIds.has(c.id) && c.id !== target.id)
+      .map((c) => c.id);
+
+    const audit = { requestId: requestIdOrNew(), reason };
+    const events: LinkEventCreateInput[] = [];
+    const relink = async (ids: number[], primaryId: number) => {
+      await tx.relinkContacts(tenantId, ids, primaryId);
+      for (const id of ids) {
+        const before = cluster.find((c) => c.id === id)!;
+        events.push({
+          ...audit,
+          contactId: id,
+          type: "reparented",
+          oldLinkedId: before.linkedId,
+          newLinkedId: primaryId,
+        });
+      }
+    };
+
+    if (target.linkPrecedence === "primary") {
+      // The unlinked primary keeps its detached followers; the anchor takes
+      // over everything that stays behind.
+      await tx.promoteToPrimary(tenantId, anchor.id);
+      events.push({
+        ...audit,
+        contactId: anchor.id,
+        type: "promoted",
+        oldLinkedId: anchor.linkedId,
+        newLinkedId: null,
+      });
+      await relink(
+        [...remainingIds].filter((id) => id !== anchor.id),
+        anchor.id
+      );
+    } else {
+      await tx.promoteToPrimary(tenantId, target.id);
+      events.push({
+        ...audit,
+        contactId: target.id,
+        type: "promoted",
+        oldLinkedId: target.linkedId,
+        newLinkedId: null,
+      });
+      await relink(detachedIds, target.id);
+    }
+
+    await tx.recordLinkEvents(events);
+    await tx.createUnlinkRecord({
+      contactId: target.id,
+      previousPrimaryId,
+      detachedPrimaryId: target.id,
+      remainingPrimaryId: anchor.id,
+      reason,
+    });
+
+    const detachedCluster = await tx.fetchFinalCluster(tenantId, target.id);
+    const remainingCluster = await tx.fetchFinalCluster(tenantId, anchor.id);
+
+    return {
+      detached: formatResponse(detachedCluster),
+      remaining: formatResponse(remainingCluster),
+    };
+  });
+}
+
+// ── History ───────────────────────────────────────────────────────────────────
+
+/**
+ * Timeline of link events for the cluster that `contactId` belongs to.
+ * Secondaries are resolved to their primary first.
+ */
+export async function getClusterHistory(
+  tenantId: number,
+  contactId: number,
+  repo: ContactRepository = contactStore()
+): Promise<ClusterHistoryResponse> {
+  const primaryId = await resolvePrimaryId(repo, tenantId, contactId);
+  const cluster = await repo.fetchFinalCluster(tenantId, primaryId);
+  const events = await repo.findClusterEvents(cluster.map((c) => c.id));
+
+  return { primaryContactId: primaryId, events };
+}
+
+// ── Read-only lookup ──────────────────────────────────────────────────────────
+// Nothing below writes: these back the CRM and support tooling, which must be
+// able to inspect an identity without creating or demoting contacts.
+
+function toClusterView(cluster: Contact[]): ClusterView {
+  return {
+    ...formatResponse(cluster),
+    contacts: cluster.map((c) => ({
+      id: c.id,
+      email: c.email,
+      phoneNumber: c.phoneNumber,
+      linkPrecedence: c.linkPrecedence,
+      linkedId: c.linkedId,
+      identifiers: (c.identifiers ?? []).map(({ type, value }) => ({ type, value })),
+      createdAt: c.createdAt,
+      updatedAt: c.updatedAt,
+    })),
+  };
+}
+
+/**
+ * The full cluster of any contact, primary or secondary.
+ */
+export async function getCluster(
+  tenantId: number,
+  contactId: number,
+  repo: ContactRepository = contactStore()
+): Promise<ClusterView> {
+  const primaryId = await resolvePrimaryId(repo, tenantId, contactId);
+  return toClusterView(await repo.fetchFinalCluster(tenantId, primaryId));
+}
+
+/**
+ * Primary ids of every cluster containing the given email or phoneNumber,
+ * using the same canonical matching as /identify. Usually one cluster, but an
+ * unlinked cluster can still share an identifier with the one it was split
+ * from.
+ */
+export async function findClusterPrimaryIds(
+  tenantId: number,
+  input: ClusterSearchInput,
+  repo: ContactRepository = contactStore()
+): Promise<number[]> {
+  const matches = await repo.findDirectMatches(
+    tenantId,
+    normalizeEmail(input.email),
+    normalizePhone(input.phoneNumber)
+  );
+
+  return [
+    ...new Set(
+      matches.map((c) => (c.linkPrecedence === "primary" ? c.id : c.linkedId!))
+    ),
+  ].sort((a, b) => a - b);
+}
+
+/**
+ * Every cluster containing the given email or phoneNumber; see
+ * findClusterPrimaryIds().
+ */
+export async function findClusters(
+  tenantId: number,
+  input: ClusterSearchInput,
+  repo: ContactRepository = contactStore()
+): Promise<ClusterView[]> {
+  const views: ClusterView[] = [];
+  for (const primaryId of await findClusterPrimaryIds(tenantId, input, repo)) {
+    views.push(toClusterView(await repo.fetchFinalCluster(tenantId, primaryId)));
+  }
+  return views;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One page of a tenant's clusters, filtered and sorted in the database (see
+ * findClusterPage), then read a page at a time like `identity export`. A
+ * cluster merged into another between the two reads is left out of the page.
+ */
+export async function listClusters(
+  tenantId: number,
+  input: ClusterListInput,
+  repo: ContactRepository = contactStore()
+): Promise<ClusterPage> {
+  const { sort, cursor, limit, mergedWithinDays, ...filter } = input;
+  const mergedSince =
+    mergedWithinDays === undefined ? undefined : new Date(Date.now() - mergedWithinDays * DAY_MS);
+
+  // One extra row tells whether another page follows
+  const keys = await repo.findClusterPage(
+    tenantId,
+    { ...filter, mergedSince },
+    sort,
+    cursor ?? null,
+    limit + 1
+  );
+  const page = keys.slice(0, limit);
+  const primaryIds = page.map((k) => k.id);
+  const rows = [
+    ...(await repo.findContactsInTenant(tenantId, primaryIds)),
+    ...(await repo.findSecondariesOf(tenantId, primaryIds)),
+  ];
+
+  const clusters: IdentifyResponse[] = [];
+  for (const id of primaryIds) {
+    const members = rows.filter(
+      (c) => (c.id === id && c.linkPrecedence === "primary") || c.linkedId === id
+    );
+    if (members.some((c) => c.id === id)) clusters.push(formatResponse(members));
+  }
+
+  const last = page[page.length - 1];
+  const next: ClusterCursor | null =
+    keys.length <= limit
+      ? null
+      : sort === "size"
+        ? { sort, id: last.id, size: last.size }
+        : { sort, id: last.id, createdAt: last.createdAt };
+  return { clusters, nextCursor: next && encodeCursor(next) };
+}
+
+// ── Deletion ──────────────────────────────────────────────────────────────────
+
+/**
+ * Soft-delete one contact.
+ *
+ * Deleting a primary promotes the remaining contact PRIMARY_ELECTION_STRATEGY
+ * picks and re-parents the rest of the cluster to it, so no live secondary ever points at a tombstone.
+ * The deleted primary itself is kept as a secondary tombstone of the new
+ * primary, which keeps it reachable for a later erasure of the cluster.
+ */
+export async function deleteContact(
+  tenantId: number,
+  contactId: number,
+  repo: ContactRepository = contactStore()
+): Promise<DeleteContactResponse> {
+  return repo.transaction(async (tx) => {
+    const target = await lockClusterOf(tx, tenantId, contactId);
+
+    const primaryId =
+      target.linkPrecedence === "primary" ? target.id : target.linkedId!;
+    const cluster = await tx.fetchFinalCluster(tenantId, primaryId);
+    const others = cluster.filter((c) => c.id !== target.id);
+    const audit = { requestId: requestIdOrNew() };
+    const events: LinkEventCreateInput[] = [];
+
+    let remainingPrimaryId: number | null = others.length > 0 ? primaryId : null;
+
+    if (target.linkPrecedence === "primary" && others.length > 0) {
+      const successor = electSuccessor(others);
+      const rest = others.filter((c) => c.id !== successor.id);
+      await tx.promoteToPrimary(tenantId, successor.id);
+      events.push({
+        ...audit,
+        contactId: successor.id,
+        type: "promoted",
+        oldLinkedId: successor.linkedId,
+        newLinkedId: null,
+      });
+
+      const followers = [...rest.map((c) => c.id), target.id];
+      await tx.relinkContacts(tenantId, followers, successor.id);
+      for (const c of rest) {
+        events.push({
+          ...audit,
+          contactId: c.id,
+          type: "reparented",
+          oldLinkedId: c.linkedId,
+          newLinkedId: successor.id,
+        });
+      }
+      remainingPrimaryId = successor.id;
+    }
+
+    await tx.softDeleteContacts(tenantId, [target.id]);
+    events.push({
+      ...audit,
+      contactId: target.id,
+      type: "deleted",
+      oldLinkedId: target.linkedId,
+      newLinkedId: remainingPrimaryId,
+    });
+    await tx.recordLinkEvents(events);
+
+    return {
+      deletedContactId: target.id,
+      remaining:
+        remainingPrimaryId === null
+          ? null
+          : formatResponse(await tx.fetchFinalCluster(tenantId, remainingPrimaryId)),
+    };
+  });
+}
+
+/**
+ * Right-to-be-forgotten erasure of a whole cluster.
+ *
+ * Every row — including contacts soft-deleted earlier — loses its email,
+ * phone and extra identifiers and is tombstoned. Rows are kept so ids referenced elsewhere stay
+ * stable. The cluster's audit events lose their email/phone too, and stored
+ * Idempotency-Key responses that echo them are dropped. A soft-deleted
+ * contact is accepted too and erases the cluster it was last part of, even
+ * one with no live row left.
+ */
+export async function eraseCluster(
+  tenantId: number,
+  contactId: number,
+  repo: ContactRepository = contactStore()
+): Promise<EraseClusterResponse> {
+  return repo.transaction(async (tx) => {
+    const primaryId = await lockClusterOfAnyRow(tx, tenantId, contactId);
+    const rows = await tx.fetchClusterIncludingDeleted(tenantId, primaryId);
+    const ids = rows.map((c) => c.id);
+
+    await tx.scrubContacts(tenantId, ids);
+    await tx.scrubLinkEvents(ids);
+    await tx.deleteIdempotencyRecordsForContacts(ids);
+
+    const requestId = requestIdOrNew();
+    await tx.recordLinkEvents(
+      rows.map((c) => ({
+        requestId,
+        contactId: c.id,
+        type: "erased" as const,
+        oldLinkedId: c.linkedId,
+        newLinkedId: c.linkedId,
+      }))
+    );
+
+    return { primaryContactId: primaryId, erasedContactIds: ids };
+  });
+}
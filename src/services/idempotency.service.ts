@@ -0,0 +1,102 @@
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import { ContactRepository, contactStore } from "../repositories/storage";
+import {
+  IdentifyInput,
+  IdentifyResponse,
+  ResolutionOutcome,
+  recordResolution,
+  resolveIdentity,
+} from "./identity.service";
+
+export interface IdempotentResult {
+  body: IdentifyResponse;
+  /** true when the body was replayed from an earlier request with the same key */
+  replayed: boolean;
+}
+
+function ttlSeconds(): number {
+  return parseInt(process.env.IDEMPOTENCY_TTL_SECONDS ?? "86400", 10);
+}
+
+/**
+ * Stable hash of the validated input. Computed after trimming, so retries
+ * that differ only in insignificant whitespace still count as the same body.
+ * Extra identifiers are sorted, and left out entirely when there are none so
+ * keys stored before they existed still match.
+ */
+export function fingerprintInput(input: IdentifyInput): string {
+  const identifiers = [...(input.identifiers ?? [])]
+    .map(({ type, value }) => ({ type, value }))
+    .sort((a, b) => a.type.localeCompare(b.type) || a.value.localeCompare(b.value));
+  const canonical = JSON.stringify({
+    email: input.email ?? null,
+    phoneNumber: input.phoneNumber ?? null,
+    ...(identifiers.length > 0 ? { identifiers } : {}),
+  });
+  return createHash("sha256").update(canonical).digest("hex");
+}
+
+/**
+ * identify() keyed by a client-supplied Idempotency-Key.
+ *
+ * The key is locked, checked and stored in the same transaction as the
+ * resolution itself: a record exists if and only if its response committed,
+ * and a concurrent retry with the same key waits for the first attempt and
+ * then replays its response instead of resolving again.
+ */
+export async function identifyIdempotent(
+  tenantId: number,
+  input: IdentifyInput,
+  key: string,
+  repo: ContactRepository = contactStore()
+): Promise<IdempotentResult> {
+  const fingerprint = fingerprintInput(input);
+
+  // Overwritten by each attempt, so only the one that committed is recorded
+  let outcome: ResolutionOutcome | undefined;
+  const result = await repo.transaction<IdempotentResult>(async (tx) => {
+    outcome = undefined;
+    await tx.acquireLocks([`idempotency:${tenantId}:${key}`]);
+
+    const existing = await tx.findIdempotencyRecord(tenantId, key);
+    if (existing && existing.expiresAt > new Date()) {
+      if (existing.fingerprint !== fingerprint) {
+        throw Object.assign(
+          new Error("Idempotency-Key was already used with a different request body"),
+          { statusCode: 422 }
+        );
+      }
+      const stored = existing.responseBody as Prisma.JsonObject;
+      return { body: { contact: stored.contact as IdentifyResponse["contact"] }, replayed: true };
+    }
+
+    const body = await resolveIdentity(tx, tenantId, input, {
+      onOutcome: (o) => (outcome = o),
+    });
+    await tx.saveIdempotencyRecord({
+      tenantId,
+      key,
+      fingerprint,
+      primaryContactId: body.contact.primaryContactId,
+      // A copy of the object type, which unlike the interface is plain JSON
+      responseBody: { contact: body.contact },
+      expiresAt: new Date(Date.now() + ttlSeconds() * 1000),
+    });
+
+    return { body, replayed: false };
+  });
+
+  if (outcome) recordResolution(outcome);
+  return result;
+}
+
+/**
+ * Delete expired records. Expired keys are also overwritten on reuse, so this
+ * only bounds table growth.
+ */
+export async function purgeExpiredIdempotencyKeys(
+  repo: ContactRepository = contactStore()
+): Promise<number> {
+  return repo.purgeExpiredIdempotencyRecords(new Date());
+}
@@ -1,20 +1,38 @@
+import { randomUUID } from "crypto";
 import { Prisma } from "@prisma/client";
-import { prisma } from "../lib/prisma";
+import { Contact, LinkPrecedence } from "../repositories/contact.repository";
+import { ContactLinkEvent } from "../repositories/link-event.repository";
+import { OutboxEventInput } from "../repositories/outbox.repository";
+import { ContactRepository, contactStore } from "../repositories/storage";
+import { normalizeEmail, normalizePhone } from "../lib/normalize";
 import {
-  Contact,
-  TxClient,
-  findDirectMatches,
-  fetchCluster,
-  fetchFinalCluster,
-  demoteToSecondary,
-  reparentSecondaries,
-  createContact,
-  findExactMatch,
-} from "../repositories/contact.repository";
+  IdentifierInput,
+  NormalizedIdentifier,
+  normalizeIdentifiers,
+} from "../lib/identifiers";
+import { logger } from "../lib/logger";
+import {
+  identityClusterSize,
+  identityDemotedPrimariesTotal,
+  identityMergesTotal,
+  identityResolutionsTotal,
+} from "../lib/metrics";
+import { rateLimitHeaders, takeToken } from "../lib/rate-limit";
+import { currentRequestContext, requestIdOrNew } from "../lib/request-context";
+import {
+  VerificationStatus,
+  isVerified,
+  linkVerificationPolicy,
+  strongestStatus,
+} from "../lib/verification";
+import { rankPrimaries } from "./primary-election";
+import { identifierLockKeys, clusterLockKey } from "../repositories/lock.repository";
 
 export interface IdentifyInput {
   email?: string | null;
   phoneNumber?: string | null;
+  /** Registered identifier types beyond email and phone */
+  identifiers?: IdentifierInput[] | null;
 }
 
 export interface IdentifyResponse {
@@ -23,12 +41,19 @@ export interface IdentifyResponse {
     emails: string[];
     phoneNumbers: string[];
     secondaryContactIds: number[];
+    /** Every identifier in the cluster grouped by type, email and phoneNumber included */
+    identifiers: Record<string, string[]>;
+    /** Verification state of each email and phone number, keyed by value */
+    verification: {
+      email: Record<string, VerificationStatus>;
+      phoneNumber: Record<string, VerificationStatus>;
+    };
   };
 }
 
 // ── Response formatter ────────────────────────────────────────────────────────
 
-function formatResponse(cluster: Contact[]): IdentifyResponse {
+export function formatResponse(cluster: Contact[]): IdentifyResponse {
   const primary = cluster.find((c) => c.linkPrecedence === "primary");
   if (!primary) throw new Error("Invariant violated: no primary in cluster");
 
@@ -52,88 +77,674 @@ function formatResponse(cluster: Contact[]): IdentifyResponse {
   addPhone(primary.phoneNumber);
   secondaries.forEach((c) => addPhone(c.phoneNumber));
 
+  // Same primary-first, deduplicated ordering for the extra identifier types
+  const identifiers: Record<string, string[]> = {};
+  if (emails.length > 0) identifiers.email = emails;
+  if (phoneNumbers.length > 0) identifiers.phoneNumber = phoneNumbers;
+  for (const c of [primary, ...secondaries]) {
+    for (const { type, value } of c.identifiers ?? []) {
+      const values = (identifiers[type] ??= []);
+      if (!values.includes(value)) values.push(value);
+    }
+  }
+
+  // Rows holding the same value are verified together, so they only disagree
+  // on raw spellings of it; the strongest state wins
+  const verification: IdentifyResponse["contact"]["verification"] = { email: {}, phoneNumber: {} };
+  for (const c of [primary, ...secondaries]) {
+    if (c.email) {
+      verification.email[c.email] = strongestStatus([
+        verification.email[c.email] ?? "unverified",
+        c.emailVerification,
+      ]);
+    }
+    if (c.phoneNumber) {
+      verification.phoneNumber[c.phoneNumber] = strongestStatus([
+        verification.phoneNumber[c.phoneNumber] ?? "unverified",
+        c.phoneVerification,
+      ]);
+    }
+  }
+
   return {
     contact: {
       primaryContactId: primary.id,
       emails,
       phoneNumbers,
       secondaryContactIds: secondaries.map((c) => c.id),
+      identifiers,
+      verification,
     },
   };
 }
 
+// ── Cluster merge ─────────────────────────────────────────────────────────────
+
+/** Audit fields stamped on every link event written by one operation. */
+export interface LinkAudit {
+  requestId: string;
+  email?: string | null;
+  phoneNumber?: string | null;
+  reason?: string | null;
+}
+
+/**
+ * Steps 4B–4D: fold the clusters headed by `primaryIds` into one, keeping the
+ * primary chosen by the configured election strategy (oldest by default).
+ * Returns the canonical primary. Primaries outside `tenantId` are ignored.
+ */
+export async function mergeClusters(
+  repo: ContactRepository,
+  tenantId: number,
+  primaryIds: number[],
+  audit: LinkAudit
+): Promise<Contact> {
+  // ── Step 4B: Fetch full cluster ────────────────────────────────────────────
+  const cluster = await repo.fetchCluster(tenantId, primaryIds);
+
+  // ── Step 4C: Elect the canonical primary (PRIMARY_ELECTION_STRATEGY) ───────
+  const primariesInCluster = rankPrimaries(cluster);
+  const canonicalPrimary = primariesInCluster[0];
+
+  // ── Step 4D: Demote extra primaries ────────────────────────────────────────
+  for (const demoted of primariesInCluster.slice(1)) {
+    // Re-parent their children first to keep linkedId flat
+    const reparentedIds = await repo.reparentSecondaries(tenantId, demoted.id, canonicalPrimary.id);
+    await repo.demoteToSecondary(tenantId, demoted.id, canonicalPrimary.id);
+
+    await repo.recordLinkEvents([
+      ...reparentedIds.map((id) => ({
+        ...audit,
+        contactId: id,
+        type: "reparented" as const,
+        oldLinkedId: demoted.id,
+        newLinkedId: canonicalPrimary.id,
+      })),
+      { ...audit, contactId: demoted.id, type: "demoted", oldLinkedId: null, newLinkedId: canonicalPrimary.id },
+    ]);
+
+    const movedIds = [demoted.id, ...reparentedIds];
+    await repo.enqueueEvents(tenantId, [
+      {
+        type: "cluster.merged",
+        payload: {
+          oldPrimaryId: demoted.id,
+          newPrimaryId: canonicalPrimary.id,
+          contactIds: movedIds,
+          requestId: audit.requestId,
+        },
+      },
+      ...movedIds.map((contactId): OutboxEventInput => ({
+        type: "contact.linked",
+        payload: {
+          contactId,
+          oldPrimaryId: demoted.id,
+          newPrimaryId: canonicalPrimary.id,
+          requestId: audit.requestId,
+        },
+      })),
+    ]);
+  }
+
+  return canonicalPrimary;
+}
+
 // ── Core identity resolution ──────────────────────────────────────────────────
 
-export async function identify(input: IdentifyInput): Promise<IdentifyResponse> {
-  const { email, phoneNumber } = input;
+/**
+ * Outbox event for a newly inserted row. Events carry ids only: subscribers
+ * read details from GET /contacts/:id, so erasure never has to chase copies
+ * of personal data through the outbox or downstream systems.
+ */
+function contactCreatedEvent(contact: Contact, requestId: string): OutboxEventInput {
+  return {
+    type: "contact.created",
+    payload: {
+      contactId: contact.id,
+      linkPrecedence: contact.linkPrecedence,
+      primaryContactId: contact.linkedId ?? contact.id,
+      requestId,
+    },
+  };
+}
 
-  // Validation guard (belt-and-suspenders; controller also validates)
-  if (!email && !phoneNumber) {
-    throw Object.assign(
-      new Error("At least one of email or phoneNumber must be provided"),
-      { statusCode: 400 }
+/**
+ * Spend a token from the caller's merge bucket, or fail with 429. Merges
+ * rewrite whole clusters, so API callers get a stricter budget for them than
+ * for plain requests; callers outside an API request (CLI, scripts) are not
+ * limited. A transaction retried after a deadlock is charged again.
+ */
+export async function enforceMergeLimit(): Promise<void> {
+  const apiKeyId = currentRequestContext()?.apiKeyId;
+  if (apiKeyId === undefined) return;
+
+  const result = await takeToken("merge", String(apiKeyId));
+  if (result && !result.state.allowed) {
+    throw Object.assign(new Error("Too many merging requests"), {
+      statusCode: 429,
+      headers: rateLimitHeaders(result),
+    });
+  }
+}
+
+/**
+ * Step 4A: all primary ids referenced by the matches.
+ */
+function collectPrimaryIds(matches: Contact[]): number[] {
+  const primaryIdSet = new Set<number>();
+  for (const c of matches) {
+    if (c.linkPrecedence === "primary") {
+      primaryIdSet.add(c.id);
+    } else if (c.linkedId !== null) {
+      primaryIdSet.add(c.linkedId);
+    }
+  }
+  return [...primaryIdSet];
+}
+
+/**
+ * Find direct matches and lock every cluster they belong to. Matches are
+ * re-read after each round of locking until no new cluster shows up: a merge
+ * that committed while we waited may have demoted a primary we saw, and the
+ * cluster that absorbed it has to be locked too.
+ */
+async function lockMatchedClusters(
+  repo: ContactRepository,
+  tenantId: number,
+  emailNormalized: string | null,
+  phoneNormalized: string | null,
+  identifiers: NormalizedIdentifier[]
+): Promise<{ directMatches: Contact[]; primaryIds: number[] }> {
+  const locked = new Set<number>();
+  for (;;) {
+    const directMatches = await repo.findDirectMatches(
+      tenantId,
+      emailNormalized,
+      phoneNormalized,
+      identifiers
     );
+    const primaryIds = collectPrimaryIds(directMatches);
+    const unlocked = primaryIds.filter((id) => !locked.has(id));
+    if (unlocked.length === 0) return { directMatches, primaryIds };
+
+    await repo.acquireLocks(unlocked.map(clusterLockKey));
+    unlocked.forEach((id) => locked.add(id));
   }
+}
 
-  return prisma.$transaction(async (tx: TxClient) => {
-    // ── Step 2: Find direct matches ──────────────────────────────────────────
-    const directMatches = await findDirectMatches(tx, email, phoneNumber);
+/**
+ * Strongest verification state the matches hold for a normalized email or
+ * phone; unverified for a value not on file.
+ */
+function statusOnFile(
+  matches: Contact[],
+  type: "email" | "phoneNumber",
+  normalized: string | null
+): VerificationStatus {
+  if (normalized === null) return "unverified";
+  return strongestStatus(
+    type === "email"
+      ? matches.filter((c) => c.emailNormalized === normalized).map((c) => c.emailVerification)
+      : matches.filter((c) => c.phoneNormalized === normalized).map((c) => c.phoneVerification)
+  );
+}
 
-    // ── Step 3: No matches → create new primary ──────────────────────────────
-    if (directMatches.length === 0) {
-      const newContact = await createContact(tx, {
-        email,
-        phoneNumber,
-        linkedId: null,
-        linkPrecedence: "primary",
-      });
-      return formatResponse([newContact]);
+interface TrustSplit {
+  /** Clusters the request may merge; always at least one */
+  mergeIds: number[];
+  /** Clusters kept apart until an identifier they share is verified */
+  heldIds: number[];
+  /** Identifier types ("email", "phoneNumber") that reached the held clusters */
+  unverified: string[];
+}
+
+/**
+ * Decide which of the matched clusters the request may merge. Under
+ * LINK_VERIFICATION_POLICY=verified, a cluster reached through a verified
+ * email or phone, or through an extra identifier (issued by systems, not
+ * typed by people), can be merged; one reached only through unverified
+ * emails and phones is held back. When nothing trusted matched at all, the
+ * election strategy picks the one cluster the request joins.
+ */
+async function splitByTrust(
+  repo: ContactRepository,
+  tenantId: number,
+  directMatches: Contact[],
+  primaryIds: number[],
+  emailNormalized: string | null,
+  phoneNormalized: string | null,
+  identifiers: NormalizedIdentifier[]
+): Promise<TrustSplit> {
+  if (primaryIds.length < 2 || linkVerificationPolicy() === "any") {
+    return { mergeIds: primaryIds, heldIds: [], unverified: [] };
+  }
+
+  const viaEmail = (c: Contact) => emailNormalized !== null && c.emailNormalized === emailNormalized;
+  const viaPhone = (c: Contact) => phoneNormalized !== null && c.phoneNormalized === phoneNormalized;
+  const viaIdentifier = (c: Contact) =>
+    (c.identifiers ?? []).some((i) =>
+      identifiers.some((n) => n.type === i.type && n.normalizedValue === i.normalizedValue)
+    );
+  const emailVerified = isVerified(statusOnFile(directMatches, "email", emailNormalized));
+  const phoneVerified = isVerified(statusOnFile(directMatches, "phoneNumber", phoneNormalized));
+
+  const trusted = new Set<number>();
+  for (const c of directMatches) {
+    if (viaIdentifier(c) || (viaEmail(c) && emailVerified) || (viaPhone(c) && phoneVerified)) {
+      trusted.add(c.linkPrecedence === "primary" ? c.id : c.linkedId!);
     }
+  }
+  if (trusted.size === 0) {
+    trusted.add(rankPrimaries(await repo.fetchCluster(tenantId, primaryIds))[0].id);
+  }
+
+  const heldIds = primaryIds.filter((id) => !trusted.has(id)).sort((a, b) => a - b);
+  const reachedHeld = directMatches.filter((c) =>
+    heldIds.includes(c.linkPrecedence === "primary" ? c.id : c.linkedId!)
+  );
+  const unverified: string[] = [];
+  if (reachedHeld.some(viaEmail)) unverified.push("email");
+  if (reachedHeld.some(viaPhone)) unverified.push("phoneNumber");
+
+  return { mergeIds: [...trusted], heldIds, unverified };
+}
+
+const pairKey = (a: number, b: number) => (a < b ? `${a}:${b}` : `${b}:${a}`);
 
-    // ── Step 4A: Collect all primary IDs referenced by matches ───────────────
-    const primaryIdSet = new Set<number>();
-    for (const c of directMatches) {
-      if (c.linkPrecedence === "primary") {
-        primaryIdSet.add(c.id);
-      } else if (c.linkedId !== null) {
-        primaryIdSet.add(c.linkedId);
+/**
+ * Leave out clusters an operator split apart with POST /contacts/:id/unlink:
+ * a request carrying the value they still share (a family phone, typically)
+ * would otherwise merge the halves right back. Clusters holding more of the
+ * input's values are kept first, ties going to the election strategy; one
+ * split from a cluster already kept is neither merged nor held.
+ */
+async function withoutUnlinkedClusters(
+  repo: ContactRepository,
+  tenantId: number,
+  directMatches: Contact[],
+  split: TrustSplit,
+  emailNormalized: string | null,
+  phoneNormalized: string | null,
+  identifiers: NormalizedIdentifier[]
+): Promise<TrustSplit> {
+  if (split.mergeIds.length + split.heldIds.length < 2) return split;
+
+  const cluster = await repo.fetchCluster(tenantId, [...split.mergeIds, ...split.heldIds]);
+  const primaryOf = new Map(
+    cluster.map((c) => [c.id, c.linkPrecedence === "primary" ? c.id : c.linkedId!])
+  );
+  const apart = new Set<string>();
+  for (const u of await repo.findUnlinkRecordsTouching(tenantId, [...primaryOf.keys()])) {
+    const a = primaryOf.get(u.detachedPrimaryId);
+    const b = primaryOf.get(u.remainingPrimaryId);
+    // Either side may have been deleted, or merged back by hand, since
+    if (a !== undefined && b !== undefined && a !== b) apart.add(pairKey(a, b));
+  }
+  if (apart.size === 0) return split;
+
+  const valuesHeld = new Map<number, Set<string>>();
+  for (const c of directMatches) {
+    const values = valuesHeld.get(primaryOf.get(c.id)!) ?? new Set<string>();
+    if (emailNormalized !== null && c.emailNormalized === emailNormalized) values.add("email");
+    if (phoneNormalized !== null && c.phoneNormalized === phoneNormalized) values.add("phone");
+    for (const i of c.identifiers ?? []) {
+      if (identifiers.some((n) => n.type === i.type && n.normalizedValue === i.normalizedValue)) {
+        values.add(`${i.type}:${i.normalizedValue}`);
       }
     }
+    valuesHeld.set(primaryOf.get(c.id)!, values);
+  }
+  const rank = rankPrimaries(cluster).map((c) => c.id);
+  const held = (id: number) => valuesHeld.get(id)?.size ?? 0;
+
+  const kept: number[] = [];
+  const splitFromKept = (id: number) => kept.some((k) => apart.has(pairKey(k, id)));
+  for (const id of [...split.mergeIds].sort(
+    (a, b) => held(b) - held(a) || rank.indexOf(a) - rank.indexOf(b)
+  )) {
+    if (!splitFromKept(id)) kept.push(id);
+  }
+
+  return { ...split, mergeIds: kept, heldIds: split.heldIds.filter((id) => !splitFromKept(id)) };
+}
 
-    // ── Step 4B: Fetch full cluster ──────────────────────────────────────────
-    const cluster = await fetchCluster(tx, [...primaryIdSet]);
+export interface ResolveOptions {
+  /**
+   * Stamped on every link event written by this call; defaults to the id of
+   * the HTTP request being served, or a fresh UUID outside one
+   */
+  requestId?: string;
+  /**
+   * Told what the resolution did. Callers record it with recordResolution()
+   * once the transaction commits, keeping dry runs and retried attempts out
+   * of the metrics.
+   */
+  onOutcome?: (outcome: ResolutionOutcome) => void;
+  /** Set by previewIdentify(): nothing is kept, so no merge token is spent */
+  dryRun?: boolean;
+}
 
-    // ── Step 4C: Canonical primary = oldest createdAt among primaries ─────────
-    const primariesInCluster = cluster
-      .filter((c) => c.linkPrecedence === "primary")
-      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+export interface ResolutionOutcome {
+  outcome: "new_primary" | "new_secondary" | "idempotent";
+  /** Primaries demoted by the merge this resolution triggered; 0 when none */
+  demotedPrimaries: number;
+  clusterSize: number;
+}
 
-    const canonicalPrimary = primariesInCluster[0];
+/**
+ * Count a committed resolution in the identify() metrics.
+ */
+export function recordResolution(resolution: ResolutionOutcome): void {
+  const { outcome, demotedPrimaries, clusterSize } = resolution;
+  logger.debug("identity resolved", { ...resolution });
+  identityResolutionsTotal.inc({ outcome });
+  if (demotedPrimaries > 0) {
+    identityMergesTotal.inc();
+    identityDemotedPrimariesTotal.inc(demotedPrimaries);
+  }
+  identityClusterSize.observe(clusterSize);
+}
 
-    // ── Step 4D: Demote extra primaries ──────────────────────────────────────
-    for (const demoted of primariesInCluster.slice(1)) {
-      // Re-parent their children first to keep linkedId flat
-      await reparentSecondaries(tx, demoted.id, canonicalPrimary.id);
-      await demoteToSecondary(tx, demoted.id, canonicalPrimary.id);
-    }
+/**
+ * Resolve one input inside the caller's transaction (`repo` scoped to it).
+ * Shared by identify(), the batch endpoint and the dry-run preview so all
+ * apply exactly the same linking semantics. Only contacts of `tenantId` are
+ * ever matched.
+ */
+export async function resolveIdentity(
+  repo: ContactRepository,
+  tenantId: number,
+  input: IdentifyInput,
+  options: ResolveOptions = {}
+): Promise<IdentifyResponse> {
+  const { email, phoneNumber } = input;
 
-    // ── Step 4E: Idempotency — exact input already exists? ───────────────────
-    const exactMatch = await findExactMatch(tx, email, phoneNumber);
-    if (exactMatch) {
-      const finalCluster = await fetchFinalCluster(tx, canonicalPrimary.id);
-      return formatResponse(finalCluster);
-    }
+  // Matching runs on canonical forms; the raw input is what gets stored/echoed
+  const emailNormalized = normalizeEmail(email);
+  const phoneNormalized = normalizePhone(phoneNumber);
+  const identifiers = normalizeIdentifiers(input.identifiers);
+
+  // Validation guard (belt-and-suspenders; controller also validates)
+  if (!email && !phoneNumber && identifiers.length === 0) {
+    throw Object.assign(
+      new Error("At least one of email, phoneNumber or identifiers must be provided"),
+      { statusCode: 400 }
+    );
+  }
+
+  // Ties every link event written by this call together in the audit log
+  const requestId = options.requestId ?? requestIdOrNew();
+  const trigger: LinkAudit = { email, phoneNumber, requestId };
+
+  // ── Step 1: Serialize callers carrying the same identifiers ─────────────────
+  // Two concurrent requests with the same new email would otherwise both see
+  // zero matches below and each create a primary.
+  await repo.acquireLocks(
+    identifierLockKeys(tenantId, emailNormalized, phoneNormalized, identifiers)
+  );
 
-    // ── Step 4F: New information → create secondary ──────────────────────────
-    await createContact(tx, {
+  // ── Step 2: Find direct matches, with their clusters locked ────────────────
+  const { directMatches, primaryIds } = await lockMatchedClusters(
+    repo,
+    tenantId,
+    emailNormalized,
+    phoneNormalized,
+    identifiers
+  );
+
+  // ── Step 3: No matches → create new primary ────────────────────────────────
+  if (directMatches.length === 0) {
+    const newContact = await repo.createContact(tenantId, {
       email,
       phoneNumber,
-      linkedId: canonicalPrimary.id,
-      linkPrecedence: "secondary",
+      emailNormalized,
+      phoneNormalized,
+      identifiers,
+      linkedId: null,
+      linkPrecedence: "primary",
     });
+    await repo.recordLinkEvents([
+      { ...trigger, contactId: newContact.id, type: "created", oldLinkedId: null, newLinkedId: null },
+    ]);
+    await repo.enqueueEvents(tenantId, [contactCreatedEvent(newContact, requestId)]);
+    options.onOutcome?.({ outcome: "new_primary", demotedPrimaries: 0, clusterSize: 1 });
+    return formatResponse([newContact]);
+  }
+
+  // ── Trust check: hold back clusters reached only through unverified values ─
+  const trust = await splitByTrust(
+    repo,
+    tenantId,
+    directMatches,
+    primaryIds,
+    emailNormalized,
+    phoneNormalized,
+    identifiers
+  );
+
+  // ── Keep clusters an operator unlinked apart ───────────────────────────────
+  const { mergeIds, heldIds, unverified } = await withoutUnlinkedClusters(
+    repo,
+    tenantId,
+    directMatches,
+    trust,
+    emailNormalized,
+    phoneNormalized,
+    identifiers
+  );
 
-    // ── Step 4G: Re-fetch final cluster ──────────────────────────────────────
-    const finalCluster = await fetchFinalCluster(tx, canonicalPrimary.id);
+  // ── Steps 4B–4D: Merge every matched cluster under one elected primary ─────
+  // Nothing has been written yet, so a refusal leaves no trace
+  if (mergeIds.length > 1 && !options.dryRun) await enforceMergeLimit();
+  const canonicalPrimary = await mergeClusters(repo, tenantId, mergeIds, trigger);
+
+  if (heldIds.length > 0) {
+    const pendingLinkId = await repo.recordPendingLink(tenantId, {
+      primaryId: canonicalPrimary.id,
+      heldPrimaryIds: heldIds,
+      unverified,
+      requestId,
+    });
+    logger.info("merge held for verification", {
+      pendingLinkId,
+      primaryId: canonicalPrimary.id,
+      heldPrimaryIds: heldIds,
+    });
+  }
+
+  // ── Step 4E: Idempotency — exact input already in the cluster? ─────────────
+  // A held cluster may carry the same values; that row is not ours to reuse
+  const exactMatch = await repo.findExactMatch(
+    tenantId,
+    emailNormalized,
+    phoneNormalized,
+    identifiers,
+    canonicalPrimary.id
+  );
+  if (exactMatch) {
+    const finalCluster = await repo.fetchFinalCluster(tenantId, canonicalPrimary.id);
+    options.onOutcome?.({
+      outcome: "idempotent",
+      demotedPrimaries: mergeIds.length - 1,
+      clusterSize: finalCluster.length,
+    });
     return formatResponse(finalCluster);
+  }
+
+  // ── Step 4F: New information → create secondary ────────────────────────────
+  // A value already on file keeps its verification state on the new row
+  const secondary = await repo.createContact(tenantId, {
+    email,
+    phoneNumber,
+    emailNormalized,
+    phoneNormalized,
+    identifiers,
+    linkedId: canonicalPrimary.id,
+    linkPrecedence: "secondary",
+    emailVerification: statusOnFile(directMatches, "email", emailNormalized),
+    phoneVerification: statusOnFile(directMatches, "phoneNumber", phoneNormalized),
   });
-}
\ No newline at end of file
+  await repo.recordLinkEvents([
+    { ...trigger, contactId: secondary.id, type: "created", oldLinkedId: null, newLinkedId: canonicalPrimary.id },
+  ]);
+  await repo.enqueueEvents(tenantId, [contactCreatedEvent(secondary, requestId)]);
+
+  // ── Step 4G: Re-fetch final cluster ────────────────────────────────────────
+  const finalCluster = await repo.fetchFinalCluster(tenantId, canonicalPrimary.id);
+  options.onOutcome?.({
+    outcome: "new_secondary",
+    demotedPrimaries: mergeIds.length - 1,
+    clusterSize: finalCluster.length,
+  });
+  return formatResponse(finalCluster);
+}
+
+export async function identify(
+  tenantId: number,
+  input: IdentifyInput,
+  repo: ContactRepository = contactStore()
+): Promise<IdentifyResponse> {
+  // Overwritten by each attempt, so only the one that committed is recorded
+  let outcome: ResolutionOutcome | undefined;
+  const response = await repo.transaction((tx) =>
+    resolveIdentity(tx, tenantId, input, { onOutcome: (o) => (outcome = o) })
+  );
+  if (outcome) recordResolution(outcome);
+  return response;
+}
+
+// ── Dry run ───────────────────────────────────────────────────────────────────
+
+export interface ResolutionChanges {
+  /** Primaries that would become secondaries of the elected primary */
+  demotedPrimaryIds: number[];
+  /** Secondaries that would move from a demoted primary to the elected one */
+  reparented: { contactId: number; fromPrimaryId: number | null; toPrimaryId: number | null }[];
+  /** The row that would be inserted, or null when the input is already known */
+  newContact: { id: number; linkPrecedence: LinkPrecedence; linkedId: number | null } | null;
+}
+
+export interface IdentifyPreview extends IdentifyResponse {
+  changes: ResolutionChanges;
+}
+
+// Thrown out of the preview transaction to force a rollback
+class DryRunRollback extends Error {
+  constructor(readonly preview: IdentifyPreview) {
+    super("dry run rollback");
+  }
+}
+
+function summarizeChanges(events: ContactLinkEvent[]): ResolutionChanges {
+  const created = events.find((e) => e.type === "created");
+  return {
+    demotedPrimaryIds: events.filter((e) => e.type === "demoted").map((e) => e.contactId),
+    reparented: events
+      .filter((e) => e.type === "reparented")
+      .map((e) => ({
+        contactId: e.contactId,
+        fromPrimaryId: e.oldLinkedId,
+        toPrimaryId: e.newLinkedId,
+      })),
+    newContact: created
+      ? {
+          id: created.contactId,
+          linkPrecedence: created.newLinkedId === null ? "primary" : "secondary",
+          linkedId: created.newLinkedId,
+        }
+      : null,
+  };
+}
+
+/**
+ * Run the full resolution — matching, election, demotions, new row — and
+ * report what it would change, then roll everything back. The diff is read
+ * back from the link events the resolution wrote, so it cannot drift from
+ * what identify() actually does.
+ *
+ * Ids of rows that would be inserted are provisional: the rollback frees the
+ * row but not the sequence value, so a real request will get a later id.
+ */
+export async function previewIdentify(
+  tenantId: number,
+  input: IdentifyInput,
+  repo: ContactRepository = contactStore()
+): Promise<IdentifyPreview> {
+  const requestId = randomUUID();
+  try {
+    return await repo.transaction<IdentifyPreview>(async (tx) => {
+      const response = await resolveIdentity(tx, tenantId, input, { requestId, dryRun: true });
+      const events = await tx.findEventsByRequestId(requestId);
+      throw new DryRunRollback({ ...response, changes: summarizeChanges(events) });
+    });
+  } catch (err) {
+    if (err instanceof DryRunRollback) return err.preview;
+    throw err;
+  }
+}
+
+// ── Batch resolution ──────────────────────────────────────────────────────────
+
+export interface BatchOptions {
+  /** true → one transaction for the whole batch; false → one per item */
+  atomic: boolean;
+  /** Interactive-transaction timeout for atomic batches */
+  timeoutMs: number;
+}
+
+export type BatchItemResult =
+  | ({ index: number; status: 200 } & IdentifyResponse)
+  | { index: number; status: number; error: string };
+
+/**
+ * Resolve items in order. Each item sees every write made by the items before
+ * it, so the end state matches sending the same requests one at a time.
+ *
+ * Atomic batches share one transaction and fail as a whole; otherwise each
+ * item commits on its own and failures are reported per item.
+ */
+export async function identifyBatch(
+  tenantId: number,
+  items: IdentifyInput[],
+  options: BatchOptions,
+  repo: ContactRepository = contactStore()
+): Promise<BatchItemResult[]> {
+  if (options.atomic) {
+    let outcomes: ResolutionOutcome[] = [];
+    const results = await repo.transaction(
+      async (tx) => {
+        outcomes = [];
+        const results: BatchItemResult[] = [];
+        for (const [index, item] of items.entries()) {
+          const response = await resolveIdentity(tx, tenantId, item, { onOutcome: (o) => outcomes.push(o) });
+          results.push({ index, status: 200, ...response });
+        }
+        return results;
+      },
+      { timeout: options.timeoutMs }
+    );
+    outcomes.forEach(recordResolution);
+    return results;
+  }
+
+  const results: BatchItemResult[] = [];
+  for (const [index, item] of items.entries()) {
+    try {
+      results.push({ index, status: 200, ...(await identify(tenantId, item, repo)) });
+    } catch (err) {
+      const statusCode = (err as Error & { statusCode?: number }).statusCode ?? 500;
+      if (statusCode >= 500) {
+        logger.error("batch item failed", {
+          index,
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+      results.push({
+        index,
+        status: statusCode,
+        error: statusCode < 500 && err instanceof Error ? err.message : "Internal server error",
+      });
+    }
+  }
+  return results;
+}
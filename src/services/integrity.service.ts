@@ -0,0 +1,373 @@
+import { prisma } from "../lib/prisma";
+import { requestIdOrNew } from "../lib/request-context";
+import { runTransaction } from "../lib/transaction";
+import {
+  LinkAnomaly,
+  LinkRow,
+  TxClient,
+  countLiveContacts,
+  findCollidingClusters,
+  findCollidingIdentifierClusters,
+  findContactsByIds,
+  findLinkAnomalies,
+  findLinkRows,
+  findUnlinkRecords,
+  promoteToPrimary,
+  relinkContacts,
+} from "../repositories/contact.repository";
+import {
+  LinkEventCreateInput,
+  recordLinkEvents,
+} from "../repositories/link-event.repository";
+import { acquireLocks, clusterLockKey } from "../repositories/lock.repository";
+import { findAllPendingLinks } from "../repositories/pending-link.repository";
+import { PrismaContactRepository } from "../repositories/prisma-storage";
+import { LinkAudit, mergeClusters } from "./identity.service";
+import { rankPrimaries } from "./primary-election";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type ViolationKind =
+  /** A primary whose linkedId is set */
+  | "primary_with_link"
+  /** A secondary whose linkedId is null */
+  | "secondary_without_link"
+  /** A secondary pointing at another live secondary instead of a primary */
+  | "chained_link"
+  /** A secondary pointing at a deleted or missing row, or one in another tenant */
+  | "dangling_link"
+  /** Clusters sharing an identifier without being linked */
+  | "unlinked_shared_identifier";
+
+export interface Violation {
+  kind: ViolationKind;
+  /** The offending rows; for unlinked_shared_identifier, the cluster primaries */
+  contactIds: number[];
+  message: string;
+}
+
+export interface Repair {
+  action: "promoted" | "relinked" | "merged";
+  /** Rows changed; for merged, the primaries of the clusters folded together */
+  contactIds: number[];
+  primaryId: number;
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  contactsScanned: number;
+  violations: Violation[];
+  /** Only on a repair run */
+  repairs?: Repair[];
+  /** Only on a repair run: what a fresh scan still finds afterwards */
+  remaining?: Violation[];
+}
+
+interface Scan {
+  anomalies: LinkAnomaly[];
+  /** Pairs of primary ids that should be merged */
+  mergePairs: number[][];
+  /** Tenant of every primary in mergePairs */
+  tenantOf: Map<number, number>;
+  violations: Violation[];
+}
+
+const REPAIR_TIMEOUT_MS = 120_000;
+
+// ── Grouping ──────────────────────────────────────────────────────────────────
+
+/**
+ * Union the colliding primary-id groups so clusters linked through several
+ * values (A shares an email with B, B a phone with C) merge in one go.
+ */
+export function groupCollisions(collisions: number[][]): number[][] {
+  const parent = new Map<number, number>();
+  const find = (id: number): number => {
+    const p = parent.get(id) ?? id;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+
+  for (const ids of collisions) {
+    for (const id of ids.slice(1)) parent.set(find(id), find(ids[0]));
+  }
+
+  const groups = new Map<number, number[]>();
+  for (const id of new Set(collisions.flat())) {
+    const root = find(id);
+    groups.set(root, [...(groups.get(root) ?? []), id]);
+  }
+  return [...groups.values()];
+}
+
+const pairKey = (a: number, b: number) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+// ── Scan ──────────────────────────────────────────────────────────────────────
+
+function describeAnomaly(a: LinkAnomaly): Violation {
+  if (a.linkPrecedence === "primary") {
+    return {
+      kind: "primary_with_link",
+      contactIds: [a.id],
+      message: `Primary ${a.id} has linkedId ${a.linkedId}`,
+    };
+  }
+  if (a.linkedId === null) {
+    return {
+      kind: "secondary_without_link",
+      contactIds: [a.id],
+      message: `Secondary ${a.id} has no linkedId`,
+    };
+  }
+  if (a.parentPrecedence === null || a.parentDeleted) {
+    return {
+      kind: "dangling_link",
+      contactIds: [a.id],
+      message: `Secondary ${a.id} points at ${a.parentDeleted ? "deleted" : "missing"} contact ${a.linkedId}`,
+    };
+  }
+  return {
+    kind: "chained_link",
+    contactIds: [a.id],
+    message: `Secondary ${a.id} points at secondary ${a.linkedId}`,
+  };
+}
+
+/**
+ * Pairs of clusters an operator split with POST /contacts/:id/unlink, or that
+ * identify() kept apart until an identifier is verified (pending links). They
+ * still share an identifier by design and are not reported or re-merged.
+ */
+export async function splitPairs(tx: TxClient): Promise<Set<string>> {
+  const unlinks = await findUnlinkRecords(tx);
+  const pendingLinks = await findAllPendingLinks(tx);
+  const pairs = [
+    ...unlinks.map((u) => [u.detachedPrimaryId, u.remainingPrimaryId]),
+    ...pendingLinks.flatMap((l) => l.heldPrimaryIds.map((held) => [l.primaryId, held])),
+  ];
+  const rows = await findLinkRows(tx, pairs.flat());
+  // Either side may have been merged into another cluster since
+  const primaryOf = new Map(
+    rows.map((r) => [r.id, r.linkPrecedence === "primary" ? r.id : r.linkedId ?? r.id])
+  );
+  const current = (id: number) => primaryOf.get(id) ?? id;
+
+  return new Set(pairs.map(([a, b]) => pairKey(current(a), current(b))));
+}
+
+/**
+ * Every pair of the clusters sharing one value that should be merged, which
+ * is all of them except pairs kept apart on purpose (see splitPairs).
+ */
+export function mergeablePairs(primaryIds: number[], split: Set<string>): number[][] {
+  const ids = [...primaryIds].sort((a, b) => a - b);
+  const pairs: number[][] = [];
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      if (!split.has(pairKey(ids[i], ids[j]))) pairs.push([ids[i], ids[j]]);
+    }
+  }
+  return pairs;
+}
+
+async function scan(tx: TxClient): Promise<Scan> {
+  const anomalies = await findLinkAnomalies(tx);
+
+  const collisions = [
+    ...(await findCollidingClusters(tx, "emailNormalized")).map((c) => ({
+      ...c,
+      label: "an email",
+    })),
+    ...(await findCollidingClusters(tx, "phoneNormalized")).map((c) => ({
+      ...c,
+      label: "a phone number",
+    })),
+    ...(await findCollidingIdentifierClusters(tx)).map((c) => ({
+      ...c,
+      label: `a ${c.type}`,
+    })),
+  ];
+
+  const split = await splitPairs(tx);
+  const mergePairs: number[][] = [];
+  const tenantOf = new Map<number, number>();
+  const violations = anomalies.map(describeAnomaly);
+
+  // Collisions never span tenants, so neither do the groups built from them
+  for (const { tenantId, label, primaryIds } of collisions) {
+    const pairs = mergeablePairs(primaryIds, split);
+    if (pairs.length === 0) continue;
+
+    const involved = [...new Set(pairs.flat())].sort((a, b) => a - b);
+    mergePairs.push(...pairs);
+    involved.forEach((id) => tenantOf.set(id, tenantId));
+    violations.push({
+      kind: "unlinked_shared_identifier",
+      contactIds: involved,
+      message: `Clusters ${involved.join(", ")} share ${label} but are not linked`,
+    });
+  }
+
+  return { anomalies, mergePairs, tenantOf, violations };
+}
+
+// ── Repair ────────────────────────────────────────────────────────────────────
+
+/**
+ * Follow linkedId from a row until a live primary turns up. Returns that
+ * primary, or null plus the row the chain dead-ends at (a missing id, a row
+ * of another tenant, a tombstone with no link, or the lowest id of a cycle).
+ */
+async function resolveRoot(
+  tx: TxClient,
+  start: LinkRow,
+  cache: Map<number, LinkRow | null>
+): Promise<{ rootId: number | null; deadEndId: number }> {
+  const path = [start.id];
+  let next = start.linkedId;
+
+  for (;;) {
+    if (next === null) return { rootId: null, deadEndId: path[path.length - 1] };
+    if (path.includes(next)) {
+      // Key a cycle by its lowest member, whichever row it was entered from
+      return { rootId: null, deadEndId: Math.min(...path.slice(path.indexOf(next))) };
+    }
+
+    if (!cache.has(next)) {
+      const [row] = await findLinkRows(tx, [next]);
+      cache.set(next, row ?? null);
+    }
+    const row = cache.get(next)!;
+    if (!row || row.tenantId !== start.tenantId) return { rootId: null, deadEndId: next };
+    if (row.deletedAt === null && row.linkPrecedence === "primary") {
+      return { rootId: row.id, deadEndId: row.id };
+    }
+
+    path.push(row.id);
+    next = row.linkedId;
+  }
+}
+
+/**
+ * Give every offending row a valid place: primaries lose their stray link,
+ * linkless secondaries become primaries, chains are flattened onto the
+ * primary at their end, and secondaries whose chain ends without one elect a
+ * new primary among themselves.
+ */
+async function repairLinks(
+  tx: TxClient,
+  anomalies: LinkAnomaly[],
+  audit: LinkAudit,
+  repairs: Repair[]
+): Promise<void> {
+  const events: LinkEventCreateInput[] = [];
+  const promote = async (row: LinkRow) => {
+    await promoteToPrimary(tx, row.tenantId, row.id);
+    events.push({ ...audit, contactId: row.id, type: "promoted", oldLinkedId: row.linkedId, newLinkedId: null });
+    repairs.push({ action: "promoted", contactIds: [row.id], primaryId: row.id });
+  };
+  const relink = async (rows: LinkRow[], primaryId: number) => {
+    if (rows.length === 0) return;
+    // Every row of a group shares the tenant of the row it was resolved from
+    await relinkContacts(tx, rows[0].tenantId, rows.map((r) => r.id), primaryId);
+    for (const r of rows) {
+      events.push({ ...audit, contactId: r.id, type: "reparented", oldLinkedId: r.linkedId, newLinkedId: primaryId });
+    }
+    repairs.push({ action: "relinked", contactIds: rows.map((r) => r.id), primaryId });
+  };
+
+  const unrooted = anomalies.filter(
+    (a) => a.linkPrecedence === "primary" || a.linkedId === null
+  );
+  for (const a of unrooted) await promote(a);
+
+  // Resolved after the promotions above, which may have created the roots
+  const cache = new Map<number, LinkRow | null>();
+  const byRoot = new Map<number, LinkRow[]>();
+  // Keyed by tenant too: rows of two tenants can dead-end at the same id
+  const byDeadEnd = new Map<string, LinkRow[]>();
+  for (const a of anomalies.filter((a) => !unrooted.includes(a))) {
+    const { rootId, deadEndId } = await resolveRoot(tx, a, cache);
+    if (rootId !== null) {
+      byRoot.set(rootId, [...(byRoot.get(rootId) ?? []), a]);
+    } else {
+      const key = `${a.tenantId}:${deadEndId}`;
+      byDeadEnd.set(key, [...(byDeadEnd.get(key) ?? []), a]);
+    }
+  }
+
+  for (const [rootId, rows] of byRoot) await relink(rows, rootId);
+
+  for (const rows of byDeadEnd.values()) {
+    // Elect among the stranded rows as if each were a primary of its own
+    const candidates = await findContactsByIds(tx, rows.map((r) => r.id));
+    const [elected] = rankPrimaries(
+      candidates.map((c) => ({ ...c, linkPrecedence: "primary" as const }))
+    );
+    await promote(rows.find((r) => r.id === elected.id)!);
+    await relink(rows.filter((r) => r.id !== elected.id), elected.id);
+  }
+
+  await recordLinkEvents(tx, events);
+}
+
+// ── Entry points ──────────────────────────────────────────────────────────────
+
+/**
+ * Scan the whole Contact table, every tenant, for cluster invariant
+ * violations. Read-only.
+ */
+export async function checkIntegrity(): Promise<IntegrityReport> {
+  const { violations } = await scan(prisma);
+  return {
+    checkedAt: new Date().toISOString(),
+    contactsScanned: await countLiveContacts(prisma),
+    violations,
+  };
+}
+
+/**
+ * Scan, then fix every violation in one transaction: link structure first,
+ * then merges of clusters that share an identifier (through mergeClusters, so
+ * the usual link events and webhooks are written). `remaining` is a fresh
+ * scan inside the same transaction and should come back empty.
+ */
+export async function repairIntegrity(): Promise<IntegrityReport> {
+  return runTransaction(
+    async (tx) => {
+      const { anomalies, violations } = await scan(tx);
+      const audit: LinkAudit = { requestId: requestIdOrNew(), reason: "integrity repair" };
+      const repairs: Repair[] = [];
+
+      // Every id involved could be treated as a cluster head by a concurrent
+      // writer, so lock each one's cluster key
+      const involved = anomalies.flatMap((a) => (a.linkedId === null ? [a.id] : [a.id, a.linkedId]));
+      await acquireLocks(tx, involved.map(clusterLockKey));
+      await repairLinks(tx, anomalies, audit, repairs);
+
+      // Primary ids may have changed above, so find the collisions again
+      const { mergePairs, tenantOf } = await scan(tx);
+      for (const primaryIds of groupCollisions(mergePairs)) {
+        await acquireLocks(tx, primaryIds.map(clusterLockKey));
+        const canonical = await mergeClusters(
+          new PrismaContactRepository(tx),
+          tenantOf.get(primaryIds[0])!,
+          primaryIds,
+          audit
+        );
+        repairs.push({ action: "merged", contactIds: primaryIds, primaryId: canonical.id });
+      }
+
+      return {
+        checkedAt: new Date().toISOString(),
+        contactsScanned: await countLiveContacts(tx),
+        violations,
+        repairs,
+        remaining: (await scan(tx)).violations,
+      };
+    },
+    { timeout: REPAIR_TIMEOUT_MS }
+  );
+}
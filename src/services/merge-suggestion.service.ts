@@ -0,0 +1,233 @@
+import { prisma } from "../lib/prisma";
+import { runTransaction } from "../lib/transaction";
+import {
+  ClusterProfile,
+  blockingKeys,
+  scorePair,
+  suggestionConfig,
+} from "../lib/similarity";
+import {
+  Contact,
+  TxClient,
+  findPrimariesPage,
+  findSecondariesOf,
+} from "../repositories/contact.repository";
+import {
+  MergeSuggestion,
+  MergeSuggestionStatus,
+  deleteStalePending,
+  findSuggestionById,
+  listSuggestions,
+  markDecided,
+  upsertSuggestion,
+} from "../repositories/merge-suggestion.repository";
+import { acquireLocks } from "../repositories/lock.repository";
+import { PrismaContactRepository } from "../repositories/prisma-storage";
+import { mergeContactClusters, recordMerge } from "./cluster.service";
+import { IdentifyResponse } from "./identity.service";
+
+const PAGE_SIZE = 500;
+
+// A blocking key shared by more clusters than this (a company domain's
+// common surname, a placeholder phone) says little about any one pair, and
+// comparing all of them would make the scan quadratic again
+const MAX_BLOCK_SIZE = 100;
+
+export interface ScanSummary {
+  clustersScanned: number;
+  /** Pairs that shared a blocking key and were scored */
+  pairsScored: number;
+  /** Pairs at or above MERGE_SUGGESTION_MIN_SCORE, pending after the scan */
+  suggested: number;
+  /** Pending suggestions the scan no longer found, removed */
+  removed: number;
+}
+
+export interface AcceptSuggestionResponse {
+  suggestion: MergeSuggestion;
+  /** The cluster both contacts belong to after the merge */
+  cluster: IdentifyResponse;
+}
+
+const lockKey = (id: number) => `merge-suggestion:${id}`;
+
+// ── Scan ──────────────────────────────────────────────────────────────────────
+
+interface ScannedCluster {
+  profile: ClusterProfile;
+  /** Exact matching keys; clusters sharing one are linked, not suggested */
+  exactKeys: Set<string>;
+}
+
+function scanCluster(rows: Contact[]): ScannedCluster {
+  const emails = new Set<string>();
+  const phones = new Set<string>();
+  const exactKeys = new Set<string>();
+  for (const c of rows) {
+    if (c.emailNormalized) emails.add(c.emailNormalized);
+    if (c.phoneNormalized) phones.add(c.phoneNormalized);
+    for (const i of c.identifiers ?? []) exactKeys.add(`${i.type}:${i.normalizedValue}`);
+  }
+  emails.forEach((e) => exactKeys.add(`email:${e}`));
+  phones.forEach((p) => exactKeys.add(`phone:${p}`));
+
+  return {
+    profile: { primaryId: rows[0].id, emails: [...emails], phones: [...phones] },
+    exactKeys,
+  };
+}
+
+/**
+ * Score near-duplicate clusters of a tenant and refresh its review queue.
+ *
+ * Every live cluster is read a page of primaries at a time and compared with
+ * the clusters it shares a blocking key with (src/lib/similarity.ts). Pairs
+ * scoring at least MERGE_SUGGESTION_MIN_SCORE are written as pending
+ * suggestions; pending rows the scan no longer produces are dropped. Pairs a
+ * reviewer already decided are never reopened.
+ */
+export async function scanMergeSuggestions(tenantId: number): Promise<ScanSummary> {
+  const { rules, minScore } = suggestionConfig();
+
+  const clusters = new Map<number, ScannedCluster>();
+  for (let afterId = 0; ; ) {
+    const primaries = await findPrimariesPage(prisma, tenantId, afterId, PAGE_SIZE);
+    if (primaries.length === 0) break;
+
+    const secondaries = await findSecondariesOf(prisma, tenantId, primaries.map((p) => p.id));
+    for (const primary of primaries) {
+      const rows = [primary, ...secondaries.filter((s) => s.linkedId === primary.id)];
+      clusters.set(primary.id, scanCluster(rows));
+    }
+    afterId = primaries[primaries.length - 1].id;
+  }
+
+  // A block stops growing once it is past MAX_BLOCK_SIZE: it is skipped anyway
+  const blocks = new Map<string, number[]>();
+  for (const { profile } of clusters.values()) {
+    for (const key of blockingKeys(profile)) {
+      const ids = blocks.get(key);
+      if (!ids) blocks.set(key, [profile.primaryId]);
+      else if (ids.length <= MAX_BLOCK_SIZE) ids.push(profile.primaryId);
+    }
+  }
+
+  const pairs = new Set<string>();
+  for (const ids of blocks.values()) {
+    if (ids.length < 2 || ids.length > MAX_BLOCK_SIZE) continue;
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        pairs.add(ids[i] < ids[j] ? `${ids[i]}:${ids[j]}` : `${ids[j]}:${ids[i]}`);
+      }
+    }
+  }
+
+  const found = [...pairs].flatMap((pair) => {
+    const [a, b] = pair.split(":").map(Number).map((id) => clusters.get(id)!);
+    if ([...a.exactKeys].some((key) => b.exactKeys.has(key))) return [];
+
+    const { score, matches } = scorePair(a.profile, b.profile, rules);
+    return score >= minScore
+      ? [{ contactIdA: a.profile.primaryId, contactIdB: b.profile.primaryId, score, reasons: matches }]
+      : [];
+  });
+
+  // One writer per tenant queue, so two scans cannot prune each other's rows
+  return runTransaction(
+    async (tx) => {
+      await acquireLocks(tx, [`merge-suggestions:${tenantId}`]);
+      const keepIds: number[] = [];
+      for (const suggestion of found) {
+        const id = await upsertSuggestion(tx, tenantId, suggestion);
+        if (id !== null) keepIds.push(id);
+      }
+      const removed = await deleteStalePending(tx, tenantId, keepIds);
+
+      return {
+        clustersScanned: clusters.size,
+        pairsScored: pairs.size,
+        suggested: keepIds.length,
+        removed,
+      };
+    },
+    { timeout: 30000 }
+  );
+}
+
+// ── Review ────────────────────────────────────────────────────────────────────
+
+export async function listMergeSuggestions(
+  tenantId: number,
+  status: MergeSuggestionStatus = "pending"
+): Promise<MergeSuggestion[]> {
+  return listSuggestions(prisma, tenantId, status);
+}
+
+/**
+ * Lock a suggestion and re-read it under the lock; 404 if unknown, 409 once
+ * decided.
+ */
+async function lockPendingSuggestion(
+  tx: TxClient,
+  tenantId: number,
+  id: number
+): Promise<MergeSuggestion> {
+  await acquireLocks(tx, [lockKey(id)]);
+  const suggestion = await findSuggestionById(tx, tenantId, id);
+  if (!suggestion) {
+    throw Object.assign(new Error(`Merge suggestion ${id} not found`), { statusCode: 404 });
+  }
+  if (suggestion.status !== "pending") {
+    throw Object.assign(new Error(`Merge suggestion ${id} is already ${suggestion.status}`), {
+      statusCode: 409,
+    });
+  }
+  return suggestion;
+}
+
+/**
+ * Accept a suggestion: merge the clusters its two contacts belong to now,
+ * through the same mergeClusters() as /identify, so the surviving primary,
+ * link events, webhooks and merge rate limit are exactly those of an
+ * identify-triggered merge. Already one cluster (merged since the scan) is
+ * accepted without changes.
+ */
+export async function acceptMergeSuggestion(
+  tenantId: number,
+  id: number
+): Promise<AcceptSuggestionResponse> {
+  const { suggestion, outcome } = await runTransaction(async (tx) => {
+    const pending = await lockPendingSuggestion(tx, tenantId, id);
+    const outcome = await mergeContactClusters(
+      new PrismaContactRepository(tx),
+      tenantId,
+      [pending.contactIdA, pending.contactIdB],
+      `merge suggestion ${id} accepted`
+    ).catch((err) => {
+      // A contact deleted since the scan: the suggestion exists, the pair doesn't
+      if (err.statusCode !== 404) throw err;
+      throw Object.assign(
+        new Error(`${err.message}; merge suggestion ${id} can no longer be accepted`),
+        { statusCode: 409 }
+      );
+    });
+
+    return { suggestion: await markDecided(tx, id, "accepted"), outcome };
+  });
+
+  recordMerge(outcome);
+  return { suggestion, cluster: outcome.cluster };
+}
+
+/**
+ * Reject a suggestion. The pair stays rejected; later scans leave it alone.
+ */
+export async function rejectMergeSuggestion(
+  tenantId: number,
+  id: number
+): Promise<MergeSuggestion> {
+  return runTransaction(async (tx) => {
+    await lockPendingSuggestion(tx, tenantId, id);
+    return markDecided(tx, id, "rejected");
+  });
+}
@@ -0,0 +1,119 @@
+import { isVerified } from "../lib/verification";
+import { Contact } from "../repositories/contact.repository";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** What a strategy may look at besides the candidate rows themselves. */
+export interface ElectionContext {
+  /** Every live contact in the clusters being merged */
+  cluster: Contact[];
+  /** Number of secondaries currently linked to each primary */
+  secondaryCounts: Map<number, number>;
+}
+
+/**
+ * Decides which primary survives a merge. `compare` orders two candidates the
+ * way Array.prototype.sort does: negative when `a` should win. Returning 0
+ * falls through to oldest-first, so every strategy stays deterministic.
+ */
+export interface PrimaryElectionStrategy {
+  name: string;
+  compare(a: Contact, b: Contact, context: ElectionContext): number;
+}
+
+// ── Strategies ────────────────────────────────────────────────────────────────
+
+// Rows written in one transaction (batch imports) can share a timestamp,
+// so the lower id breaks ties.
+function byAge(a: Contact, b: Contact): number {
+  return a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id;
+}
+
+/** The original behaviour: oldest createdAt wins. */
+export const oldestFirst: PrimaryElectionStrategy = {
+  name: "oldest",
+  compare: () => 0,
+};
+
+/** Prefer a primary that carries both an email and a phone number. */
+export const completeFirst: PrimaryElectionStrategy = {
+  name: "complete",
+  compare: (a, b) => {
+    const complete = (c: Contact) => (c.email && c.phoneNumber ? 1 : 0);
+    return complete(b) - complete(a);
+  },
+};
+
+/**
+ * Prefer a primary whose own email or phone number is verified
+ * (POST /contacts/:id/verify). Partner and OTP verification count the same.
+ */
+export const verifiedFirst: PrimaryElectionStrategy = {
+  name: "verified",
+  compare: (a, b) => {
+    const verified = (c: Contact) =>
+      isVerified(c.emailVerification) || isVerified(c.phoneVerification) ? 1 : 0;
+    return verified(b) - verified(a);
+  },
+};
+
+/** Prefer the primary that already heads the largest cluster. */
+export const mostSecondariesFirst: PrimaryElectionStrategy = {
+  name: "most-secondaries",
+  compare: (a, b, { secondaryCounts }) =>
+    (secondaryCounts.get(b.id) ?? 0) - (secondaryCounts.get(a.id) ?? 0),
+};
+
+const STRATEGIES: Record<string, PrimaryElectionStrategy> = Object.fromEntries(
+  [oldestFirst, completeFirst, verifiedFirst, mostSecondariesFirst].map((s) => [s.name, s])
+);
+
+// ── Configuration ─────────────────────────────────────────────────────────────
+// Read on every call, like normalizationConfig(), so tests can switch
+// strategies through process.env.
+
+export function primaryElectionStrategy(): PrimaryElectionStrategy {
+  const name = process.env.PRIMARY_ELECTION_STRATEGY ?? oldestFirst.name;
+  const strategy = STRATEGIES[name];
+  if (!strategy) {
+    throw new Error(
+      `PRIMARY_ELECTION_STRATEGY must be one of ${Object.keys(STRATEGIES).join(", ")} (got: ${name})`
+    );
+  }
+  return strategy;
+}
+
+// ── Election ──────────────────────────────────────────────────────────────────
+
+/**
+ * Rank the primaries found in `cluster`, winner first.
+ */
+export function rankPrimaries(
+  cluster: Contact[],
+  strategy: PrimaryElectionStrategy = primaryElectionStrategy()
+): Contact[] {
+  const secondaryCounts = new Map<number, number>();
+  for (const c of cluster) {
+    if (c.linkPrecedence === "secondary" && c.linkedId !== null) {
+      secondaryCounts.set(c.linkedId, (secondaryCounts.get(c.linkedId) ?? 0) + 1);
+    }
+  }
+  const context: ElectionContext = { cluster, secondaryCounts };
+
+  return cluster
+    .filter((c) => c.linkPrecedence === "primary")
+    .sort((a, b) => strategy.compare(a, b, context) || byAge(a, b));
+}
+
+/**
+ * Pick the contact that takes over when a cluster's primary leaves it
+ * (unlink, delete), by the same strategy as a merge. None of the candidates
+ * heads a cluster yet, so most-secondaries falls through to oldest-first.
+ */
+export function electSuccessor(
+  candidates: Contact[],
+  strategy: PrimaryElectionStrategy = primaryElectionStrategy()
+): Contact {
+  const context: ElectionContext = { cluster: candidates, secondaryCounts: new Map() };
+  return [...candidates].sort((a, b) => strategy.compare(a, b, context) || byAge(a, b))[0];
+}
@@ -0,0 +1,121 @@
+import { createHash, randomBytes } from "crypto";
+import { ContactRepository, contactStore } from "../repositories/storage";
+import { ApiKey, Tenant } from "../repositories/tenant.repository";
+
+/** An API key as returned by the admin API — the hash is never shown. */
+export type ApiKeyView = Omit<ApiKey, "keyHash">;
+
+const KEY_PREFIX = "idk_";
+const PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+// lastUsedAt is informational; writing it on every request is not worth it
+const TOUCH_INTERVAL_MS = 60_000;
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function toView(apiKey: ApiKey): ApiKeyView {
+  const { keyHash: _keyHash, ...view } = apiKey;
+  return view;
+}
+
+export async function requireTenant(
+  id: number,
+  repo: ContactRepository = contactStore()
+): Promise<Tenant> {
+  const tenant = await repo.findTenantById(id);
+  if (!tenant) {
+    throw Object.assign(new Error(`Tenant ${id} not found`), { statusCode: 404 });
+  }
+  return tenant;
+}
+
+// ── Tenants ───────────────────────────────────────────────────────────────────
+
+export async function createTenant(
+  name: string,
+  repo: ContactRepository = contactStore()
+): Promise<Tenant> {
+  try {
+    return await repo.createTenant(name);
+  } catch (err) {
+    if ((err as { code?: string }).code === "P2002") {
+      throw Object.assign(new Error(`Tenant "${name}" already exists`), { statusCode: 409 });
+    }
+    throw err;
+  }
+}
+
+export async function listTenants(repo: ContactRepository = contactStore()): Promise<Tenant[]> {
+  return repo.listTenants();
+}
+
+// ── API keys ──────────────────────────────────────────────────────────────────
+
+/**
+ * Issue a key for a tenant. The response is the only place the key is ever
+ * returned; only its SHA-256 hash is stored.
+ */
+export async function issueApiKey(
+  tenantId: number,
+  name: string,
+  repo: ContactRepository = contactStore()
+): Promise<ApiKeyView & { key: string }> {
+  await requireTenant(tenantId, repo);
+
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const apiKey = await repo.createApiKey({
+    tenantId,
+    name,
+    prefix: key.slice(0, PREFIX_LENGTH),
+    keyHash: hashKey(key),
+  });
+  return { ...toView(apiKey), key };
+}
+
+export async function listTenantApiKeys(
+  tenantId: number,
+  repo: ContactRepository = contactStore()
+): Promise<ApiKeyView[]> {
+  await requireTenant(tenantId, repo);
+  return (await repo.listApiKeys(tenantId)).map(toView);
+}
+
+/**
+ * Revoke a key. Requests using it are refused from then on; revoking twice
+ * is a no-op that keeps the original revokedAt.
+ */
+export async function revokeApiKey(
+  id: number,
+  repo: ContactRepository = contactStore()
+): Promise<ApiKeyView> {
+  const apiKey = await repo.findApiKeyById(id);
+  if (!apiKey) {
+    throw Object.assign(new Error(`API key ${id} not found`), { statusCode: 404 });
+  }
+  return toView(apiKey.revokedAt ? apiKey : await repo.revokeApiKey(id));
+}
+
+export interface ApiKeyIdentity {
+  apiKeyId: number;
+  tenantId: number;
+}
+
+/**
+ * The key a presented secret matches and its tenant, or null for an unknown
+ * or revoked key.
+ */
+export async function authenticateApiKey(
+  key: string,
+  repo: ContactRepository = contactStore()
+): Promise<ApiKeyIdentity | null> {
+  const apiKey = await repo.findApiKeyByHash(hashKey(key));
+  if (!apiKey || apiKey.revokedAt) return null;
+
+  const now = new Date();
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+    await repo.touchApiKey(apiKey.id, now);
+  }
+  return { apiKeyId: apiKey.id, tenantId: apiKey.tenantId };
+}
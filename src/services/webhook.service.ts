@@ -0,0 +1,132 @@
+import { randomBytes } from "crypto";
+import { prisma } from "../lib/prisma";
+import {
+  WebhookSubscription,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  createSubscription,
+  listSubscriptions,
+  findSubscriptionById,
+  updateSubscription,
+  deleteSubscription,
+  listDeliveries,
+  findDeliveryById,
+  requeueDelivery,
+} from "../repositories/webhook.repository";
+
+export interface CreateSubscriptionInput {
+  url: string;
+  eventTypes: string[];
+  description?: string | null;
+  /** Generated when omitted */
+  secret?: string;
+}
+
+export interface UpdateSubscriptionInput {
+  url?: string;
+  eventTypes?: string[];
+  description?: string | null;
+  active?: boolean;
+}
+
+/** A subscription as returned by the API — the secret is only shown once. */
+export type SubscriptionView = Omit<WebhookSubscription, "secret">;
+
+function toView(subscription: WebhookSubscription): SubscriptionView {
+  const { secret: _secret, ...view } = subscription;
+  return view;
+}
+
+async function requireSubscription(
+  tenantId: number,
+  id: number
+): Promise<WebhookSubscription> {
+  const subscription = await findSubscriptionById(prisma, tenantId, id);
+  if (!subscription) {
+    throw Object.assign(new Error(`Webhook subscription ${id} not found`), {
+      statusCode: 404,
+    });
+  }
+  return subscription;
+}
+
+// ── Subscriptions ─────────────────────────────────────────────────────────────
+
+/**
+ * Register an endpoint. The response is the only place the signing secret is
+ * ever returned.
+ */
+export async function createWebhookSubscription(
+  tenantId: number,
+  input: CreateSubscriptionInput
+): Promise<SubscriptionView & { secret: string }> {
+  const subscription = await createSubscription(prisma, tenantId, {
+    url: input.url,
+    eventTypes: input.eventTypes,
+    description: input.description,
+    secret: input.secret ?? `whsec_${randomBytes(24).toString("hex")}`,
+  });
+  return { ...toView(subscription), secret: subscription.secret };
+}
+
+export async function listWebhookSubscriptions(
+  tenantId: number
+): Promise<SubscriptionView[]> {
+  return (await listSubscriptions(prisma, tenantId)).map(toView);
+}
+
+export async function getWebhookSubscription(
+  tenantId: number,
+  id: number
+): Promise<SubscriptionView> {
+  return toView(await requireSubscription(tenantId, id));
+}
+
+export async function updateWebhookSubscription(
+  tenantId: number,
+  id: number,
+  input: UpdateSubscriptionInput
+): Promise<SubscriptionView> {
+  await requireSubscription(tenantId, id);
+  return toView(await updateSubscription(prisma, id, input));
+}
+
+export async function deleteWebhookSubscription(tenantId: number, id: number): Promise<void> {
+  await requireSubscription(tenantId, id);
+  await deleteSubscription(prisma, id);
+}
+
+// ── Deliveries ────────────────────────────────────────────────────────────────
+
+/**
+ * The 100 most recent deliveries to a subscription, newest first.
+ */
+export async function listWebhookDeliveries(
+  tenantId: number,
+  subscriptionId: number,
+  status?: WebhookDeliveryStatus
+): Promise<WebhookDelivery[]> {
+  await requireSubscription(tenantId, subscriptionId);
+  return listDeliveries(prisma, subscriptionId, status);
+}
+
+/**
+ * Send a dead (or still pending) delivery again on the next dispatcher pass.
+ */
+export async function retryWebhookDelivery(
+  tenantId: number,
+  id: number
+): Promise<WebhookDelivery> {
+  const delivery = await findDeliveryById(prisma, tenantId, id);
+  if (!delivery) {
+    throw Object.assign(new Error(`Webhook delivery ${id} not found`), {
+      statusCode: 404,
+    });
+  }
+  if (delivery.status === "delivered") {
+    throw Object.assign(new Error(`Webhook delivery ${id} was already delivered`), {
+      statusCode: 409,
+    });
+  }
+  return requeueDelivery(prisma, id);
+}
@@ -0,0 +1,247 @@
+/**
+ * Integration tests for the bulk import and export behind the `identity` CLI.
+ *
+ * Input, checkpoint and reject files live in a fresh temp directory per test.
+ * Requires a live PostgreSQL database; skipped on CONTACT_STORE=memory.
+ */
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { PassThrough } from "stream";
+import { exportClusters } from "../cli/export";
+import { importContacts, ImportOptions } from "../cli/import";
+import { prisma } from "../lib/prisma";
+import { cleanDb, describePostgres, TEST_TENANT_ID } from "./helpers";
+
+let dir: string;
+
+beforeEach(async () => {
+  await cleanDb();
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "identity-cli-"));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+afterAll(async () => {
+  await cleanDb();
+  await prisma.$disconnect();
+});
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+async function options(name: string, contents: string): Promise<ImportOptions> {
+  const file = path.join(dir, name);
+  await fs.writeFile(file, contents);
+  return {
+    tenantId: TEST_TENANT_ID,
+    file,
+    format: name.endsWith(".csv") ? "csv" : "ndjson",
+    checkpointPath: `${file}.checkpoint.json`,
+    rejectsPath: `${file}.rejects.ndjson`,
+    restart: false,
+    checkpointEvery: 2,
+  };
+}
+
+async function readNdjson(file: string) {
+  const text = await fs.readFile(file, "utf8");
+  return text.trim().split("\n").map((line) => JSON.parse(line));
+}
+
+async function exportAll() {
+  const out = new PassThrough();
+  const chunks: string[] = [];
+  out.on("data", (chunk) => chunks.push(chunk.toString()));
+  const count = await exportClusters(TEST_TENANT_ID, out);
+  return { count, lines: chunks.join("").trim().split("\n").map((l) => JSON.parse(l)) };
+}
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+describePostgres("importContacts", () => {
+  it(
+    "links CSV rows like /identify and writes invalid rows to the reject file",
+    async () => {
+      const opts = await options(
+        "crm.csv",
+        [
+          "name,email,phoneNumber,loyaltyCard",
+          "Ann,ann@test.com,100,",
+          "Ann,ann.work@test.com,100,LC-1",
+          "Bob,not-an-email,,",
+          "Cy,,,",
+          "Dee,dee@test.com,200,LC-1",
+        ].join("\n")
+      );
+
+      const summary = await importContacts(opts);
+      expect(summary).toMatchObject({ row: 5, resolved: 3, rejected: 2, resumedFrom: 0 });
+
+      const rejects = await readNdjson(opts.rejectsPath);
+      expect(rejects.map((r) => [r.row, r.line, r.error])).toEqual([
+        [3, 4, "Validation failed"],
+        [4, 5, "Validation failed"],
+      ]);
+
+      // The shared loyalty card pulls Dee into Ann's cluster
+      const { count, lines } = await exportAll();
+      expect(count).toBe(1);
+      expect(lines[0].contact).toMatchObject({
+        primaryContactId: 1,
+        emails: ["ann@test.com", "ann.work@test.com", "dee@test.com"],
+        phoneNumbers: ["100", "200"],
+      });
+    },
+    25000
+  );
+
+  it(
+    "resumes after the checkpointed row",
+    async () => {
+      const opts = await options(
+        "events.ndjson",
+        ['{"email":"a@test.com"}', '{"email":"b@test.com"}', '{"email":"c@test.com"}'].join("\n")
+      );
+      await fs.writeFile(
+        opts.checkpointPath,
+        JSON.stringify({
+          tenantId: TEST_TENANT_ID,
+          file: path.resolve(opts.file),
+          row: 2,
+          resolved: 2,
+          rejected: 0,
+          rejectsBytes: 0,
+        })
+      );
+
+      const summary = await importContacts(opts);
+      expect(summary).toMatchObject({ row: 3, resolved: 3, resumedFrom: 2 });
+
+      const contacts = await prisma.contact.findMany();
+      expect(contacts.map((c: any) => c.email)).toEqual(["c@test.com"]);
+
+      const checkpoint = JSON.parse(await fs.readFile(opts.checkpointPath, "utf8"));
+      expect(checkpoint).toMatchObject({ row: 3, resolved: 3, rejected: 0 });
+    },
+    20000
+  );
+
+  it(
+    "drops rejects written after the checkpoint before replaying their rows",
+    async () => {
+      const opts = await options(
+        "events.ndjson",
+        ['{"email":"bad"}', '{"email":"a@test.com"}', '{"email":"also-bad"}'].join("\n")
+      );
+      // A crash after row 3 was rejected but before its checkpoint was saved
+      const kept = JSON.stringify({ row: 1, line: 1, error: "Validation failed" }) + "\n";
+      const stale = JSON.stringify({ row: 3, line: 3, error: "Validation failed" }) + "\n";
+      await fs.writeFile(opts.rejectsPath, kept + stale);
+      await fs.writeFile(
+        opts.checkpointPath,
+        JSON.stringify({
+          tenantId: TEST_TENANT_ID,
+          file: path.resolve(opts.file),
+          row: 2,
+          resolved: 1,
+          rejected: 1,
+          rejectsBytes: Buffer.byteLength(kept),
+        })
+      );
+
+      const summary = await importContacts(opts);
+      expect(summary).toMatchObject({ row: 3, resolved: 1, rejected: 2, resumedFrom: 2 });
+
+      const rejects = await readNdjson(opts.rejectsPath);
+      expect(rejects.map((r) => r.row)).toEqual([1, 3]);
+    },
+    20000
+  );
+
+  it(
+    "starts over with restart and rejects malformed JSON lines",
+    async () => {
+      const opts = await options("events.ndjson", '{"email":"a@test.com"}\n{oops\n');
+      await fs.writeFile(
+        opts.checkpointPath,
+        JSON.stringify({
+          tenantId: TEST_TENANT_ID,
+          file: path.resolve(opts.file),
+          row: 2,
+          resolved: 2,
+          rejected: 0,
+          rejectsBytes: 0,
+        })
+      );
+
+      const summary = await importContacts({ ...opts, restart: true });
+      expect(summary).toMatchObject({ row: 2, resolved: 1, rejected: 1, resumedFrom: 0 });
+
+      const [reject] = await readNdjson(opts.rejectsPath);
+      expect(reject.error).toMatch(/^Invalid JSON/);
+    },
+    20000
+  );
+
+  it("refuses a checkpoint written for a different file", async () => {
+    const opts = await options("events.ndjson", '{"email":"a@test.com"}\n');
+    await fs.writeFile(opts.checkpointPath, JSON.stringify({ file: "/elsewhere.ndjson", row: 1 }));
+
+    await expect(importContacts(opts)).rejects.toThrow(/belongs to \/elsewhere.ndjson/);
+  });
+});
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+describePostgres("exportClusters", () => {
+  it(
+    "writes one line per primary in /identify response shape",
+    async () => {
+      const opts = await options(
+        "events.ndjson",
+        [
+          '{"email":"a@test.com","phoneNumber":"100"}',
+          '{"email":"b@test.com","phoneNumber":"100"}',
+          '{"email":"c@test.com","identifiers":[{"type":"deviceId","value":"dev-1"}]}',
+        ].join("\n")
+      );
+      await importContacts(opts);
+
+      const { count, lines } = await exportAll();
+      expect(count).toBe(2);
+      expect(lines).toEqual([
+        {
+          contact: {
+            primaryContactId: 1,
+            emails: ["a@test.com", "b@test.com"],
+            phoneNumbers: ["100"],
+            secondaryContactIds: [2],
+            identifiers: { email: ["a@test.com", "b@test.com"], phoneNumber: ["100"] },
+            verification: {
+              email: { "a@test.com": "unverified", "b@test.com": "unverified" },
+              phoneNumber: { "100": "unverified" },
+            },
+          },
+        },
+        {
+          contact: {
+            primaryContactId: 3,
+            emails: ["c@test.com"],
+            phoneNumbers: [],
+            secondaryContactIds: [],
+            identifiers: { email: ["c@test.com"], deviceId: ["dev-1"] },
+            verification: { email: { "c@test.com": "unverified" }, phoneNumber: {} },
+          },
+        },
+      ]);
+    },
+    20000
+  );
+});
@@ -0,0 +1,254 @@
+/**
+ * Integration tests for GET /clusters: cursor pagination, both sort orders
+ * and every filter.
+ *
+ * Same requirements as identify.test.ts: either storage backend and serial
+ * execution (--runInBand). The date filters are tested on Postgres only,
+ * where rows can be backdated.
+ */
+
+import { prisma } from "../lib/prisma";
+import { cleanDb, api, itPostgres } from "./helpers";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+async function identify(body: Record<string, unknown>) {
+  const res = await api().post("/identify").send(body);
+  expect(res.status).toBe(200);
+  return res.body.contact;
+}
+
+async function list(query = "") {
+  const res = await api().get(`/clusters${query}`);
+  expect(res.status).toBe(200);
+  return res.body;
+}
+
+const primaries = (body: { clusters: { contact: { primaryContactId: number } }[] }) =>
+  body.clusters.map((c) => c.contact.primaryContactId);
+
+/**
+ * Three clusters: Doc's (1, with secondary 4), Marty's (2, with 3 merged in)
+ * and Biff's (5, alone). Primaries were created in id order.
+ */
+async function threeClusters() {
+  await identify({ email: "doc@hillvalley.edu", phoneNumber: "+14155550123" }); // id=1
+  await identify({ email: "marty@mcfly.com", phoneNumber: "+12125550188" }); // id=2
+  await identify({ email: "george@mcfly.com", phoneNumber: "+12125550199" }); // id=3
+  await identify({ email: "emmett@hillvalley.edu", phoneNumber: "+14155550123" }); // id=4
+  // Merged by hand, since a bridging request would add a row of its own
+  const merged = await api().post("/contacts/merge").send({ contactIds: [2, 3] });
+  expect(merged.status).toBe(200);
+  await identify({ email: "biff@tannen.net", phoneNumber: "+442071234567" }); // id=5
+}
+
+// ── Setup / Teardown ──────────────────────────────────────────────────────────
+
+beforeEach(async () => {
+  await cleanDb();
+});
+
+afterAll(async () => {
+  await cleanDb();
+  await prisma.$disconnect();
+});
+
+// =============================================================================
+// PAGINATION AND SORTING
+// =============================================================================
+
+describe("GET /clusters pagination", () => {
+  it(
+    "returns each cluster in the /identify response shape",
+    async () => {
+      await threeClusters();
+
+      const body = await list("?limit=1");
+      expect(body.clusters).toEqual([
+        {
+          contact: {
+            primaryContactId: 5,
+            emails: ["biff@tannen.net"],
+            phoneNumbers: ["+442071234567"],
+            secondaryContactIds: [],
+            identifiers: { email: ["biff@tannen.net"], phoneNumber: ["+442071234567"] },
+            verification: {
+              email: { "biff@tannen.net": "unverified" },
+              phoneNumber: { "+442071234567": "unverified" },
+            },
+          },
+        },
+      ]);
+      expect(body.nextCursor).toEqual(expect.any(String));
+    },
+    15000
+  );
+
+  it(
+    "pages newest first and follows the cursor to the end",
+    async () => {
+      await threeClusters();
+
+      const first = await list("?limit=2");
+      expect(primaries(first)).toEqual([5, 2]);
+
+      const second = await list(`?limit=2&cursor=${first.nextCursor}`);
+      expect(primaries(second)).toEqual([1]);
+      expect(second.nextCursor).toBeNull();
+    },
+    15000
+  );
+
+  it(
+    "sorts by size, largest cluster first",
+    async () => {
+      await threeClusters();
+      await identify({ email: "doc@hillvalley.edu", phoneNumber: "+14155550100" }); // id=6 joins 1
+
+      const first = await list("?sort=size&limit=2");
+      expect(primaries(first)).toEqual([1, 2]);
+      expect(first.clusters[0].contact.secondaryContactIds).toHaveLength(2);
+
+      const second = await list(`?sort=size&limit=2&cursor=${first.nextCursor}`);
+      expect(primaries(second)).toEqual([5]);
+      expect(second.nextCursor).toBeNull();
+    },
+    15000
+  );
+
+  it(
+    "does not repeat or skip clusters created between pages",
+    async () => {
+      await threeClusters();
+
+      const first = await list("?limit=2");
+      await identify({ email: "lorraine@baines.org" }); // newer than the cursor
+      const second = await list(`?limit=2&cursor=${first.nextCursor}`);
+
+      expect(primaries(second)).toEqual([1]);
+    },
+    15000
+  );
+
+  it(
+    "rejects bad paging parameters",
+    async () => {
+      await threeClusters();
+      const { nextCursor } = await list("?limit=1");
+
+      const mismatched = await api().get(`/clusters?sort=size&cursor=${nextCursor}`);
+      expect(mismatched.status).toBe(400);
+      expect(mismatched.body.details).toContainEqual(
+        expect.objectContaining({ field: "cursor", message: "cursor was issued for sort=recent" })
+      );
+
+      expect((await api().get("/clusters?cursor=garbage")).status).toBe(400);
+      expect((await api().get("/clusters?limit=0")).status).toBe(400);
+      expect((await api().get("/clusters?limit=101")).status).toBe(400);
+      expect((await api().get("/clusters?sort=alphabetical")).status).toBe(400);
+    },
+    15000
+  );
+});
+
+// =============================================================================
+// FILTERS
+// =============================================================================
+
+describe("GET /clusters filters", () => {
+  it(
+    "matches email domains and phone prefixes on any member",
+    async () => {
+      await threeClusters();
+
+      expect(primaries(await list("?emailDomain=McFly.com"))).toEqual([2]);
+      expect(primaries(await list("?emailDomain=hillvalley.edu"))).toEqual([1]);
+      expect(primaries(await list("?phonePrefix=%2B1"))).toEqual([2, 1]);
+      expect(primaries(await list("?phonePrefix=%2B44"))).toEqual([5]);
+      expect(primaries(await list("?phonePrefix=%2B1212555019"))).toEqual([2]);
+
+      expect((await api().get("/clusters?emailDomain=mcfly")).status).toBe(400);
+      expect((await api().get("/clusters?phonePrefix=%2B1-212")).status).toBe(400);
+    },
+    15000
+  );
+
+  it(
+    "filters on cluster size",
+    async () => {
+      await threeClusters();
+
+      expect(primaries(await list("?minSize=2"))).toEqual([2, 1]);
+      expect(primaries(await list("?minSize=3"))).toEqual([]);
+      expect((await api().get("/clusters?minSize=-1")).status).toBe(400);
+    },
+    15000
+  );
+
+  it(
+    "keeps sizes and domains current as contacts leave clusters",
+    async () => {
+      await threeClusters();
+
+      expect((await api().delete("/contacts/4")).status).toBe(200);
+      expect(primaries(await list("?minSize=2"))).toEqual([2]);
+
+      const unlink = await api().post("/contacts/3/unlink").send({ reason: "different people" });
+      expect(unlink.status).toBe(200);
+      expect(primaries(await list("?minSize=2"))).toEqual([]);
+      expect(primaries(await list("?sort=size&emailDomain=mcfly.com"))).toEqual([3, 2]);
+
+      expect((await api().post("/contacts/1/erase")).status).toBe(200);
+      expect(primaries(await list("?emailDomain=hillvalley.edu"))).toEqual([]);
+    },
+    20000
+  );
+
+  itPostgres(
+    "filters on the primary's creation date, upper bound exclusive",
+    async () => {
+      await threeClusters();
+      await prisma.contact.update({ where: { id: 1 }, data: { createdAt: new Date("2024-01-01T00:00:00Z") } });
+      await prisma.contact.update({ where: { id: 2 }, data: { createdAt: new Date("2024-02-01T00:00:00Z") } });
+
+      expect(primaries(await list("?createdTo=2024-02-01T00:00:00Z"))).toEqual([1]);
+      expect(
+        primaries(await list("?createdFrom=2024-01-15T00:00:00Z&createdTo=2024-03-01T00:00:00Z"))
+      ).toEqual([2]);
+      expect(primaries(await list("?createdFrom=2024-01-15T00:00:00Z"))).toEqual([5, 2]);
+      expect((await api().get("/clusters?createdFrom=yesterday")).status).toBe(400);
+    },
+    15000
+  );
+
+  itPostgres(
+    "keeps only clusters a merge grew in the last N days",
+    async () => {
+      await threeClusters();
+
+      expect(primaries(await list("?mergedWithinDays=1"))).toEqual([2]);
+
+      await prisma.contactLinkEvent.updateMany({
+        where: { type: "demoted" },
+        data: { createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000) },
+      });
+      expect(primaries(await list("?mergedWithinDays=7"))).toEqual([]);
+      expect(primaries(await list("?mergedWithinDays=30"))).toEqual([2]);
+    },
+    15000
+  );
+
+  it(
+    "combines filters with sorting and paging, ties broken on the newer primary",
+    async () => {
+      await threeClusters();
+
+      const first = await list("?sort=size&phonePrefix=%2B1&minSize=2&limit=1");
+      expect(primaries(first)).toEqual([2]);
+      const second = await list(`?sort=size&phonePrefix=%2B1&minSize=2&limit=1&cursor=${first.nextCursor}`);
+      expect(primaries(second)).toEqual([1]);
+      expect(second.nextCursor).toBeNull();
+    },
+    15000
+  );
+});
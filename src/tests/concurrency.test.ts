@@ -0,0 +1,116 @@
+/**
+ * Concurrency tests for POST /identify
+ *
+ * Fires N requests in parallel — the way duplicate webhook deliveries arrive —
+ * and checks that the store still holds exactly one flat cluster. Runs on
+ * either storage backend, like identify.test.ts.
+ */
+
+import { prisma } from "../lib/prisma";
+import { cleanDb, api, storedRows } from "./helpers";
+
+const PARALLEL = 10;
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+async function post(body: Record<string, unknown>) {
+  return api()
+    .post("/identify")
+    .send(body)
+    .set("Content-Type", "application/json");
+}
+
+async function fireInParallel(bodies: Record<string, unknown>[]) {
+  return Promise.all(bodies.map((body) => post(body)));
+}
+
+/** Assert the live table is one cluster whose secondaries all point at its primary. */
+async function expectSingleFlatCluster(): Promise<number> {
+  const rows = (await storedRows("contacts")).filter((c) => c.deletedAt === null);
+  const primaries = rows.filter((c) => c.linkPrecedence === "primary");
+  expect(primaries).toHaveLength(1);
+
+  const primaryId = primaries[0].id;
+  for (const c of rows) {
+    if (c.linkPrecedence === "secondary") expect(c.linkedId).toBe(primaryId);
+  }
+  return primaryId;
+}
+
+// ── Setup / Teardown ──────────────────────────────────────────────────────────
+
+beforeEach(async () => {
+  await cleanDb();
+});
+
+afterAll(async () => {
+  await cleanDb();
+  await prisma.$disconnect();
+});
+
+// =============================================================================
+// CONCURRENCY
+// =============================================================================
+
+describe("Concurrent POST /identify", () => {
+  it(
+    "duplicate deliveries of a new identity create exactly one primary",
+    async () => {
+      const body = { email: "dup@test.com", phoneNumber: "555000111" };
+      const responses = await fireInParallel(Array(PARALLEL).fill(body));
+
+      for (const res of responses) expect(res.status).toBe(200);
+      const ids = new Set(responses.map((r) => r.body.contact.primaryContactId));
+      expect(ids.size).toBe(1);
+
+      expect(await storedRows("contacts")).toHaveLength(1);
+      await expectSingleFlatCluster();
+    },
+    60000
+  );
+
+  it(
+    "parallel requests sharing only one identifier end in one cluster",
+    async () => {
+      const bodies = Array.from({ length: PARALLEL }, (_, i) => ({
+        email: `shopper${i}@test.com`,
+        phoneNumber: "555000222",
+      }));
+      const responses = await fireInParallel(bodies);
+
+      for (const res of responses) expect(res.status).toBe(200);
+      expect(await storedRows("contacts")).toHaveLength(PARALLEL);
+      await expectSingleFlatCluster();
+    },
+    60000
+  );
+
+  it(
+    "overlapping bridges between the same primaries keep the cluster flat",
+    async () => {
+      // Three independent primaries, oldest first
+      await post({ email: "p1@test.com", phoneNumber: "555100001" });
+      await post({ email: "p2@test.com", phoneNumber: "555100002" });
+      await post({ email: "p3@test.com", phoneNumber: "555100003" });
+
+      // Every pairwise bridge, in both directions, all at once
+      const bodies = [
+        { email: "p1@test.com", phoneNumber: "555100002" },
+        { email: "p2@test.com", phoneNumber: "555100003" },
+        { email: "p3@test.com", phoneNumber: "555100001" },
+        { email: "p2@test.com", phoneNumber: "555100001" },
+        { email: "p3@test.com", phoneNumber: "555100002" },
+        { email: "p1@test.com", phoneNumber: "555100003" },
+      ];
+      const responses = await fireInParallel([...bodies, ...bodies]);
+
+      for (const res of responses) expect(res.status).toBe(200);
+      const primaryId = await expectSingleFlatCluster();
+      expect(primaryId).toBe(1);
+
+      // The duplicated bridges must not have created duplicate rows
+      expect(await storedRows("contacts")).toHaveLength(3 + bodies.length);
+    },
+    90000
+  );
+});
@@ -0,0 +1,629 @@
+/**
+ * Integration tests for the /contacts/* routes.
+ *
+ * Same requirements as identify.test.ts: either storage backend and serial
+ * execution (--runInBand). Clusters are built through POST /identify
+ * so every scenario starts from states the service can actually produce.
+ */
+
+import { prisma } from "../lib/prisma";
+import { cleanDb, api, storedContact, storedRows } from "./helpers";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+async function identify(body: Record<string, unknown>) {
+  return api()
+    .post("/identify")
+    .send(body)
+    .set("Content-Type", "application/json");
+}
+
+async function unlink(id: number | string, body: Record<string, unknown>) {
+  return api()
+    .post(`/contacts/${id}/unlink`)
+    .send(body)
+    .set("Content-Type", "application/json");
+}
+
+// ── Setup / Teardown ──────────────────────────────────────────────────────────
+
+beforeEach(async () => {
+  await cleanDb();
+});
+
+afterAll(async () => {
+  await cleanDb();
+  await prisma.$disconnect();
+});
+
+// =============================================================================
+// UNLINK
+// =============================================================================
+
+describe("POST /contacts/:id/unlink", () => {
+  it(
+    "splits a bridging secondary and its followers into a new cluster",
+    async () => {
+      await identify({ email: "mum@test.com", phoneNumber: "900100" }); // id=1
+      await identify({ email: "kid@test.com", phoneNumber: "900200" }); // id=2
+      await identify({ email: "kid@test.com", phoneNumber: "900100" }); // id=3 bridges 1+2
+
+      const res = await unlink(3, { reason: "shared family phone" });
+
+      expect(res.status).toBe(200);
+      expect(res.body.remaining.contact).toMatchObject({
+        primaryContactId: 1,
+        emails: ["mum@test.com"],
+        phoneNumbers: ["900100"],
+        secondaryContactIds: [],
+      });
+      // Contact 2 only reached the primary through 3, so it follows 3 out
+      expect(res.body.detached.contact).toMatchObject({
+        primaryContactId: 3,
+        secondaryContactIds: [2],
+      });
+      expect(res.body.detached.contact.emails).toEqual(["kid@test.com"]);
+    },
+    25000
+  );
+
+  it(
+    "leaves contacts that are still connected some other way behind",
+    async () => {
+      await identify({ email: "a@test.com", phoneNumber: "910100" }); // id=1
+      await identify({ email: "b@test.com", phoneNumber: "910100" }); // id=2
+      await identify({ email: "a@test.com", phoneNumber: "910200" }); // id=3 via email
+
+      const res = await unlink(2, { reason: "wrong merge" });
+
+      expect(res.status).toBe(200);
+      expect(res.body.detached.contact.primaryContactId).toBe(2);
+      expect(res.body.detached.contact.secondaryContactIds).toEqual([]);
+      expect(res.body.remaining.contact.primaryContactId).toBe(1);
+      expect(res.body.remaining.contact.secondaryContactIds).toEqual([3]);
+    },
+    25000
+  );
+
+  it(
+    "promotes the oldest remaining contact when the primary is unlinked",
+    async () => {
+      await identify({ email: "p@test.com", phoneNumber: "920100" }); // id=1
+      await identify({ email: "s1@test.com", phoneNumber: "920100" }); // id=2
+      await identify({ email: "s2@test.com", phoneNumber: "920100" }); // id=3
+
+      const res = await unlink(1, { reason: "primary belongs to someone else" });
+
+      expect(res.status).toBe(200);
+      expect(res.body.detached.contact.primaryContactId).toBe(1);
+      expect(res.body.remaining.contact.primaryContactId).toBe(2);
+      expect(res.body.remaining.contact.secondaryContactIds).toEqual([3]);
+
+      const record = (await storedRows("unlinks")).find((u) => u.contactId === 1);
+      expect(record?.reason).toBe("primary belongs to someone else");
+      expect(record?.remainingPrimaryId).toBe(2);
+    },
+    25000
+  );
+
+  it(
+    "promotes the contact the election strategy picks when the primary is unlinked",
+    async () => {
+      await identify({ email: "p@test.com", phoneNumber: "920200" }); // id=1
+      await identify({ email: "s1@test.com", phoneNumber: "920200" }); // id=2
+      await identify({ email: "s2@test.com", phoneNumber: "920200" }); // id=3
+      await api().post("/contacts/3/verify").send({ email: "verified_otp" });
+
+      process.env.PRIMARY_ELECTION_STRATEGY = "verified";
+      try {
+        const res = await unlink(1, { reason: "primary belongs to someone else" });
+        expect(res.status).toBe(200);
+        expect(res.body.remaining.contact.primaryContactId).toBe(3);
+        expect(res.body.remaining.contact.secondaryContactIds).toEqual([2]);
+      } finally {
+        delete process.env.PRIMARY_ELECTION_STRATEGY;
+      }
+    },
+    25000
+  );
+
+  it(
+    "keeps the halves apart when the shared phone comes back through /identify",
+    async () => {
+      await identify({ email: "mum@test.com", phoneNumber: "900100" }); // id=1
+      await identify({ email: "kid@test.com", phoneNumber: "900200" }); // id=2
+      await identify({ email: "kid@test.com", phoneNumber: "900100" }); // id=3 bridges 1+2
+      await unlink(3, { reason: "shared family phone" });
+
+      // The phone alone reaches both halves equally; the older one answers
+      const phoneOnly = await identify({ phoneNumber: "900100" });
+      expect(phoneOnly.status).toBe(200);
+      expect(phoneOnly.body.contact).toMatchObject({ primaryContactId: 1, secondaryContactIds: [] });
+
+      // The kid's email and the shared phone both point at the detached half
+      const kid = await identify({ email: "kid@test.com", phoneNumber: "900100" });
+      expect(kid.body.contact).toMatchObject({ primaryContactId: 3, secondaryContactIds: [2] });
+
+      // New information joins the closer half without pulling in the other
+      const mum = await identify({ email: "mum@test.com", phoneNumber: "900100" });
+      expect(mum.body.contact.primaryContactId).toBe(1);
+      const other = await identify({ email: "mum.work@test.com", phoneNumber: "900100" });
+      expect(other.body.contact.primaryContactId).toBe(1);
+      expect(other.body.contact.emails).toEqual(["mum@test.com", "mum.work@test.com"]);
+
+      const events = await storedRows("linkEvents");
+      expect(events.filter((e) => e.type === "demoted")).toHaveLength(1);
+    },
+    25000
+  );
+
+  it("returns 409 for a contact that is alone in its cluster", async () => {
+    await identify({ email: "alone@test.com" });
+    const res = await unlink(1, { reason: "nothing to split" });
+    expect(res.status).toBe(409);
+  });
+
+  it("returns 404 for an unknown contact", async () => {
+    const res = await unlink(999, { reason: "missing" });
+    expect(res.status).toBe(404);
+  });
+
+  it("returns 400 when reason is missing", async () => {
+    const res = await unlink(1, {});
+    expect(res.status).toBe(400);
+    expect(res.body.details[0].field).toBe("reason");
+  });
+
+  it("returns 400 for a non-numeric id", async () => {
+    const res = await unlink("abc", { reason: "x" });
+    expect(res.status).toBe(400);
+    expect(res.body.details[0].field).toBe("id");
+  });
+});
+
+// =============================================================================
+// MANUAL MERGE
+// =============================================================================
+
+async function merge(body: Record<string, unknown>) {
+  return api().post("/contacts/merge").send(body).set("Content-Type", "application/json");
+}
+
+describe("POST /contacts/merge", () => {
+  it(
+    "merges the clusters of the given contacts under the oldest primary",
+    async () => {
+      await identify({ email: "doc@test.com", phoneNumber: "930100" }); // id=1
+      await identify({ email: "doc@test.com", phoneNumber: "930200" }); // id=2 → 1
+      await identify({ email: "emmett@test.com", phoneNumber: "930300" }); // id=3
+      await identify({ email: "emmett@test.com", phoneNumber: "930400" }); // id=4 → 3
+      await identify({ email: "brown@test.com" }); // id=5
+
+      // Secondaries are resolved to their clusters
+      const res = await merge({ contactIds: [4, 2, 5], reason: "same customer per support ticket" });
+
+      expect(res.status).toBe(200);
+      expect(res.body.contact).toEqual({
+        primaryContactId: 1,
+        emails: ["doc@test.com", "emmett@test.com", "brown@test.com"],
+        phoneNumbers: ["930100", "930200", "930300", "930400"],
+        secondaryContactIds: [2, 3, 4, 5],
+        identifiers: {
+          email: ["doc@test.com", "emmett@test.com", "brown@test.com"],
+          phoneNumber: ["930100", "930200", "930300", "930400"],
+        },
+        verification: {
+          email: {
+            "doc@test.com": "unverified",
+            "emmett@test.com": "unverified",
+            "brown@test.com": "unverified",
+          },
+          phoneNumber: {
+            "930100": "unverified",
+            "930200": "unverified",
+            "930300": "unverified",
+            "930400": "unverified",
+          },
+        },
+      });
+
+      const events = (await storedRows("linkEvents"))
+        .filter((e) => e.type === "demoted" || e.type === "reparented")
+        .sort((a, b) => a.contactId - b.contactId);
+      expect(events.map((e) => [e.contactId, e.type, e.newLinkedId])).toEqual([
+        [3, "demoted", 1],
+        [4, "reparented", 1],
+        [5, "demoted", 1],
+      ]);
+      for (const e of events) expect(e.reason).toBe("same customer per support ticket");
+      const outbox = await storedRows("outboxEvents");
+      expect(outbox.filter((e) => e.type === "cluster.merged")).toHaveLength(2);
+    },
+    25000
+  );
+
+  it(
+    "keeps the primary the election strategy picks",
+    async () => {
+      await identify({ email: "old@test.com" }); // id=1
+      await identify({ email: "new@test.com" }); // id=2
+      await api().post("/contacts/2/verify").send({ email: "verified_otp" });
+
+      process.env.PRIMARY_ELECTION_STRATEGY = "verified";
+      try {
+        const res = await merge({ contactIds: [1, 2] });
+        expect(res.status).toBe(200);
+        expect(res.body.contact.primaryContactId).toBe(2);
+        expect(res.body.contact.secondaryContactIds).toEqual([1]);
+      } finally {
+        delete process.env.PRIMARY_ELECTION_STRATEGY;
+      }
+
+      const demoted = (await storedRows("linkEvents")).find((e) => e.type === "demoted");
+      expect(demoted?.reason).toBe("manual merge");
+    },
+    20000
+  );
+
+  it(
+    "returns the cluster unchanged when the contacts are already linked",
+    async () => {
+      await identify({ email: "p@test.com", phoneNumber: "940100" }); // id=1
+      await identify({ email: "s@test.com", phoneNumber: "940100" }); // id=2
+
+      const res = await merge({ contactIds: [1, 2] });
+
+      expect(res.status).toBe(200);
+      expect(res.body.contact.secondaryContactIds).toEqual([2]);
+      const events = await storedRows("linkEvents");
+      expect(events.filter((e) => e.type === "demoted")).toHaveLength(0);
+    },
+    20000
+  );
+
+  it(
+    "refuses unknown and deleted contacts without merging anything",
+    async () => {
+      await identify({ email: "a@test.com" }); // id=1
+      await identify({ email: "b@test.com" }); // id=2
+      await identify({ email: "c@test.com" }); // id=3
+      await api().delete("/contacts/3");
+
+      expect((await merge({ contactIds: [1, 999] })).status).toBe(404);
+      const res = await merge({ contactIds: [1, 2, 3] });
+      expect(res.status).toBe(404);
+      expect(res.body.error).toBe("Contact 3 not found");
+
+      const rows = await storedRows("contacts");
+      expect(rows.filter((c) => c.linkPrecedence === "primary")).toHaveLength(3);
+    },
+    20000
+  );
+
+  it("returns 400 for fewer than two or repeated ids", async () => {
+    for (const contactIds of [[1], [1, 1], [1, "abc"], undefined]) {
+      const res = await merge({ contactIds });
+      expect(res.status).toBe(400);
+      expect(res.body.details[0].field).toMatch(/^contactIds/);
+    }
+  });
+});
+
+// =============================================================================
+// HISTORY
+// =============================================================================
+
+async function history(id: number | string) {
+  return api().get(`/contacts/${id}/history`);
+}
+
+describe("GET /contacts/:primaryId/history", () => {
+  it(
+    "records creation, demotion and re-parenting in order",
+    async () => {
+      await identify({ email: "george@test.com", phoneNumber: "930100" }); // id=1
+      await identify({ email: "biff@test.com", phoneNumber: "930200" }); // id=2
+      await identify({ email: "biff2@test.com", phoneNumber: "930200" }); // id=3 under 2
+      await identify({ email: "george@test.com", phoneNumber: "930200" }); // merge
+
+      const res = await history(1);
+
+      expect(res.status).toBe(200);
+      expect(res.body.primaryContactId).toBe(1);
+      const summary = res.body.events.map((e: any) => [e.type, e.contactId, e.oldLinkedId, e.newLinkedId]);
+      expect(summary).toEqual([
+        ["created", 1, null, null],
+        ["created", 2, null, null],
+        ["created", 3, null, 2],
+        ["reparented", 3, 2, 1],
+        ["demoted", 2, null, 1],
+        ["created", 4, null, 1],
+      ]);
+
+      const merge = res.body.events.filter((e: any) => e.type !== "created" || e.contactId === 4);
+      // The whole merge shares one request id and carries the triggering input
+      expect(new Set(merge.map((e: any) => e.requestId)).size).toBe(1);
+      expect(merge[0]).toMatchObject({ email: "george@test.com", phoneNumber: "930200" });
+    },
+    25000
+  );
+
+  it(
+    "resolves a secondary id to its primary's timeline",
+    async () => {
+      await identify({ email: "p@test.com", phoneNumber: "940100" }); // id=1
+      await identify({ email: "s@test.com", phoneNumber: "940100" }); // id=2
+
+      const res = await history(2);
+      expect(res.status).toBe(200);
+      expect(res.body.primaryContactId).toBe(1);
+      expect(res.body.events).toHaveLength(2);
+    },
+    20000
+  );
+
+  it(
+    "keeps unlink events with their reason",
+    async () => {
+      await identify({ email: "p@test.com", phoneNumber: "950100" }); // id=1
+      await identify({ email: "s@test.com", phoneNumber: "950100" }); // id=2
+      await unlink(2, { reason: "not the same person" });
+
+      const res = await history(1);
+      const promoted = res.body.events.find((e: any) => e.type === "promoted");
+      expect(promoted).toMatchObject({ contactId: 2, oldLinkedId: 1, reason: "not the same person" });
+    },
+    20000
+  );
+
+  it("returns 404 for an unknown contact", async () => {
+    const res = await history(999);
+    expect(res.status).toBe(404);
+  });
+});
+
+// =============================================================================
+// READ-ONLY LOOKUP
+// =============================================================================
+
+describe("GET /contacts/:id and GET /contacts", () => {
+  it(
+    "resolves a secondary id to the full cluster with per-contact timestamps",
+    async () => {
+      await identify({ email: "lorraine@hillvalley.edu", phoneNumber: "123456" }); // id=1
+      await identify({ email: "mcfly@hillvalley.edu", phoneNumber: "123456" }); // id=2
+
+      const res = await api().get("/contacts/2");
+
+      expect(res.status).toBe(200);
+      expect(res.body.contact).toEqual({
+        primaryContactId: 1,
+        emails: ["lorraine@hillvalley.edu", "mcfly@hillvalley.edu"],
+        phoneNumbers: ["123456"],
+        secondaryContactIds: [2],
+        identifiers: {
+          email: ["lorraine@hillvalley.edu", "mcfly@hillvalley.edu"],
+          phoneNumber: ["123456"],
+        },
+        verification: {
+          email: { "lorraine@hillvalley.edu": "unverified", "mcfly@hillvalley.edu": "unverified" },
+          phoneNumber: { "123456": "unverified" },
+        },
+      });
+      expect(res.body.contacts).toHaveLength(2);
+      expect(res.body.contacts[1]).toMatchObject({
+        id: 2,
+        linkPrecedence: "secondary",
+        linkedId: 1,
+        createdAt: expect.any(String),
+        updatedAt: expect.any(String),
+      });
+    },
+    20000
+  );
+
+  it(
+    "looks clusters up by email or phone using canonical matching",
+    async () => {
+      await identify({ email: "Doc@Future.com", phoneNumber: "+1 (555) 010-2000" });
+
+      const byEmail = await api().get("/contacts").query({ email: "doc@future.com" });
+      const byPhone = await api().get("/contacts").query({ phoneNumber: "15550102000" });
+
+      expect(byEmail.status).toBe(200);
+      expect(byEmail.body.clusters).toHaveLength(1);
+      expect(byEmail.body.clusters[0].contact.primaryContactId).toBe(1);
+      expect(byPhone.body.clusters[0].contact.primaryContactId).toBe(1);
+    },
+    20000
+  );
+
+  it(
+    "never writes — an unknown identifier returns no clusters and creates nothing",
+    async () => {
+      await identify({ email: "p@test.com", phoneNumber: "960100" });
+
+      const res = await api().get("/contacts").query({ email: "new@test.com", phoneNumber: "960100" });
+
+      expect(res.status).toBe(200);
+      expect(res.body.clusters).toHaveLength(1);
+      expect(await storedRows("contacts")).toHaveLength(1);
+
+      const none = await api().get("/contacts").query({ email: "nobody@test.com" });
+      expect(none.body.clusters).toEqual([]);
+      expect(await storedRows("contacts")).toHaveLength(1);
+    },
+    20000
+  );
+
+  it("returns 404 for an unknown id", async () => {
+    const res = await api().get("/contacts/999");
+    expect(res.status).toBe(404);
+  });
+
+  it("returns 400 when neither email nor phoneNumber is given", async () => {
+    const res = await api().get("/contacts");
+    expect(res.status).toBe(400);
+  });
+});
+
+// =============================================================================
+// SOFT DELETE & ERASURE
+// =============================================================================
+
+describe("DELETE /contacts/:id", () => {
+  it(
+    "soft-deletes a secondary and keeps the row as a tombstone",
+    async () => {
+      await identify({ email: "p@test.com", phoneNumber: "970100" }); // id=1
+      await identify({ email: "s@test.com", phoneNumber: "970100" }); // id=2
+
+      const res = await api().delete("/contacts/2");
+
+      expect(res.status).toBe(200);
+      expect(res.body.deletedContactId).toBe(2);
+      expect(res.body.remaining.contact.secondaryContactIds).toEqual([]);
+
+      const row = await storedContact(2);
+      expect(row.deletedAt).not.toBeNull();
+      expect((await api().get("/contacts/2")).status).toBe(404);
+    },
+    20000
+  );
+
+  it(
+    "promotes the oldest secondary when the primary is deleted",
+    async () => {
+      await identify({ email: "p@test.com", phoneNumber: "980100" }); // id=1
+      await identify({ email: "s1@test.com", phoneNumber: "980100" }); // id=2
+      await identify({ email: "s2@test.com", phoneNumber: "980100" }); // id=3
+
+      const res = await api().delete("/contacts/1");
+
+      expect(res.status).toBe(200);
+      expect(res.body.remaining.contact).toMatchObject({
+        primaryContactId: 2,
+        secondaryContactIds: [3],
+      });
+
+      // No live secondary may point at a deleted row
+      const rows = await storedRows("contacts");
+      const live = rows.filter((c) => c.deletedAt === null);
+      const deletedIds = new Set(rows.filter((c) => c.deletedAt !== null).map((c) => c.id));
+      for (const c of live) {
+        if (c.linkedId !== null) expect(deletedIds.has(c.linkedId)).toBe(false);
+      }
+    },
+    25000
+  );
+
+  it(
+    "promotes the contact the election strategy picks when the primary is deleted",
+    async () => {
+      await identify({ email: "p@test.com", phoneNumber: "980200" }); // id=1
+      await identify({ email: "s1@test.com" }); // id=2, email only
+      await identify({ email: "s1@test.com", phoneNumber: "980200" }); // id=3, merges 2 into 1
+      process.env.PRIMARY_ELECTION_STRATEGY = "complete";
+      try {
+        const res = await api().delete("/contacts/1");
+        expect(res.status).toBe(200);
+        expect(res.body.remaining.contact).toMatchObject({
+          primaryContactId: 3,
+          secondaryContactIds: [2],
+        });
+      } finally {
+        delete process.env.PRIMARY_ELECTION_STRATEGY;
+      }
+    },
+    25000
+  );
+
+  it("returns 404 for an already deleted contact", async () => {
+    await identify({ email: "gone@test.com" });
+    await api().delete("/contacts/1");
+    const res = await api().delete("/contacts/1");
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("POST /contacts/:primaryId/erase", () => {
+  it(
+    "scrubs identifiers on every row, including earlier tombstones",
+    async () => {
+      await identify({ email: "erase@test.com", phoneNumber: "990100" }); // id=1
+      await identify({ email: "erase2@test.com", phoneNumber: "990100" }); // id=2
+      await identify({ email: "erase3@test.com", phoneNumber: "990100" }); // id=3
+      await api().delete("/contacts/3");
+
+      const res = await api().post("/contacts/1/erase");
+
+      expect(res.status).toBe(200);
+      expect(res.body.erasedContactIds).toEqual([1, 2, 3]);
+
+      const rows = await storedRows("contacts");
+      expect(rows).toHaveLength(3);
+      for (const row of rows) {
+        expect(row.email).toBeNull();
+        expect(row.phoneNumber).toBeNull();
+        expect(row.emailNormalized).toBeNull();
+        expect(row.phoneNormalized).toBeNull();
+        expect(row.deletedAt).not.toBeNull();
+      }
+
+      const events = await storedRows("linkEvents");
+      expect(events.every((e) => e.email === null && e.phoneNumber === null)).toBe(true);
+    },
+    25000
+  );
+
+  it(
+    "erased identifiers no longer match new requests",
+    async () => {
+      await identify({ email: "erase@test.com", phoneNumber: "990200" }); // id=1
+      await api().post("/contacts/1/erase");
+
+      const res = await identify({ email: "erase@test.com" });
+      expect(res.body.contact.primaryContactId).toBe(2);
+    },
+    20000
+  );
+
+  it(
+    "accepts a soft-deleted contact and erases the cluster it was part of",
+    async () => {
+      await identify({ email: "erase@test.com", phoneNumber: "990300" }); // id=1
+      await identify({ email: "erase2@test.com", phoneNumber: "990300" }); // id=2
+      await api().delete("/contacts/1");
+
+      const res = await api().post("/contacts/1/erase");
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ primaryContactId: 2, erasedContactIds: [1, 2] });
+      const rows = await storedRows("contacts");
+      expect(rows.map((r) => r.email)).toEqual([null, null]);
+    },
+    20000
+  );
+
+  it(
+    "erases a cluster whose only rows are tombstones",
+    async () => {
+      await identify({ email: "erase@test.com", phoneNumber: "990400" }); // id=1
+      await api().delete("/contacts/1");
+
+      const res = await api().post("/contacts/1/erase");
+
+      expect(res.status).toBe(200);
+      expect(res.body.erasedContactIds).toEqual([1]);
+      const row = await storedContact(1);
+      expect(row.email).toBeNull();
+      expect(row.phoneNumber).toBeNull();
+    },
+    20000
+  );
+
+  it("returns 404 for an unknown contact", async () => {
+    const res = await api().post("/contacts/999/erase");
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Contract tests: every documented route is called and each response is
+ * parsed with the schema the OpenAPI document declares for its status. The
+ * response schemas are strict, so a field added, dropped or retyped in a
+ * handler without updating the spec fails here.
+ *
+ * Runs on either storage backend, like identify.test.ts. The routes of the
+ * Postgres-only features, and with them the coverage check, are skipped on
+ * CONTACT_STORE=memory.
+ */
+
+import request from "supertest";
+import { ZodTypeAny } from "zod";
+import app from "../app";
+import { prisma } from "../lib/prisma";
+import { openApiRegistry } from "../openapi";
+import { scanMergeSuggestions } from "../services/merge-suggestion.service";
+import { dispatchOnce } from "../workers/webhook-dispatcher";
+import {
+  cleanDb,
+  api,
+  adminApi,
+  describePostgres,
+  itPostgres,
+  TEST_TENANT_ID,
+} from "./helpers";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+type Method = "get" | "post" | "patch" | "delete";
+
+interface DocumentedResponse {
+  content?: Record<string, { schema: ZodTypeAny }>;
+}
+
+const exercised = new Set<string>();
+
+function documentedResponse(method: Method, path: string, status: number): DocumentedResponse {
+  const definition = openApiRegistry().definitions.find(
+    (d) => d.type === "route" && d.route.method === method && d.route.path === path
+  );
+  if (definition?.type !== "route") throw new Error(`${method.toUpperCase()} ${path} is not documented`);
+
+  const response = definition.route.responses[status] as DocumentedResponse | undefined;
+  if (!response) {
+    throw new Error(`${method.toUpperCase()} ${path} returned undocumented status ${status}`);
+  }
+  return response;
+}
+
+/**
+ * Assert a response matches the spec for `method path` (the spec's path, with
+ * {params}). Returns the body for further assertions.
+ */
+function expectContract(
+  res: request.Response,
+  method: Method,
+  path: string
+): any {
+  exercised.add(`${method} ${path}`);
+  const { content } = documentedResponse(method, path, res.status);
+
+  if (!content) {
+    expect(res.text).toBe("");
+    return undefined;
+  }
+
+  const [mediaType, { schema }] = Object.entries(content)[0];
+  expect(res.headers["content-type"]).toContain(mediaType);
+
+  const parsed = schema.safeParse(mediaType === "application/json" ? res.body : res.text);
+  if (!parsed.success) {
+    throw new Error(
+      `${method.toUpperCase()} ${path} ${res.status} does not match the spec:\n` +
+        JSON.stringify(parsed.error.errors, null, 2)
+    );
+  }
+  return res.body;
+}
+
+// ── Setup / Teardown ──────────────────────────────────────────────────────────
+
+beforeAll(async () => {
+  await cleanDb();
+  process.env.WEBHOOK_MAX_ATTEMPTS = "1";
+});
+
+afterAll(async () => {
+  await cleanDb();
+  await prisma.$disconnect();
+});
+
+// The tests share one database state and run in order, each building on the
+// rows the previous ones left behind.
+
+// ── Operational ───────────────────────────────────────────────────────────────
+
+describe("operational routes", () => {
+  it("GET /health, /metrics and /openapi.json", async () => {
+    expectContract(await request(app).get("/health"), "get", "/health");
+    expectContract(await request(app).get("/metrics"), "get", "/metrics");
+    expectContract(await request(app).get("/openapi.json"), "get", "/openapi.json");
+  });
+});
+
+// ── Identify ──────────────────────────────────────────────────────────────────
+
+describe("identify routes", () => {
+  it("POST /identify", async () => {
+    expectContract(
+      await api().post("/identify").send({ email: "doc@hillvalley.edu", phoneNumber: "123456" }),
+      "post",
+      "/identify"
+    );
+    expectContract(
+      await api().post("/identify").send({ email: "marty@hillvalley.edu", phoneNumber: "123456" }),
+      "post",
+      "/identify"
+    );
+    expectContract(
+      await api().post("/identify").send({ email: "biff@hillvalley.edu", dryRun: true }),
+      "post",
+      "/identify"
+    );
+    expectContract(await api().post("/identify").send({}), "post", "/identify");
+    expectContract(await api("idk_wrong").post("/identify").send({}), "post", "/identify");
+  }, 25000);
+
+  it("POST /identify with a reused Idempotency-Key", async () => {
+    const key = "contract-key";
+    const first = await api()
+      .post("/identify")
+      .set("Idempotency-Key", key)
+      .send({ email: "lorraine@hillvalley.edu" });
+    expectContract(first, "post", "/identify");
+
+    const mismatch = await api()
+      .post("/identify")
+      .set("Idempotency-Key", key)
+      .send({ email: "george@hillvalley.edu" });
+    expect(mismatch.status).toBe(422);
+    expectContract(mismatch, "post", "/identify");
+  }, 15000);
+
+  it("POST /identify/preview", async () => {
+    expectContract(
+      await api().post("/identify/preview").send({ email: "doc@hillvalley.edu", phoneNumber: "999" }),
+      "post",
+      "/identify/preview"
+    );
+  }, 15000);
+
+  it("POST /identify/batch", async () => {
+    const res = await api()
+      .post("/identify/batch")
+      .send({ items: [{ email: "jennifer@hillvalley.edu" }, { email: "not-an-email" }] });
+    expect(res.body.results.map((r: { status: number }) => r.status)).toEqual([200, 400]);
+    expectContract(res, "post", "/identify/batch");
+  }, 15000);
+});
+
+// ── GraphQL ───────────────────────────────────────────────────────────────────
+
+describe("graphql route", () => {
+  it("POST /graphql", async () => {
+    expectContract(
+      await api().post("/graphql").send({ query: "{ contact(id: 1) { id cluster { emails } } }" }),
+      "post",
+      "/graphql"
+    );
+    expectContract(await api().post("/graphql").send({}), "post", "/graphql");
+  }, 15000);
+});
+
+// ── Contacts ──────────────────────────────────────────────────────────────────
+
+describe("contact routes", () => {
+  it("GET /contacts and /contacts/{id}", async () => {
+    expectContract(await api().get("/contacts?email=doc@hillvalley.edu"), "get", "/contacts");
+    expectContract(await api().get("/contacts"), "get", "/contacts");
+    expectContract(await api().get("/contacts/1"), "get", "/contacts/{id}");
+    expectContract(await api().get("/contacts/999"), "get", "/contacts/{id}");
+    expectContract(await api().get("/contacts/abc"), "get", "/contacts/{id}");
+  }, 15000);
+
+  it("GET /contacts/{primaryId}/history", async () => {
+    expectContract(await api().get("/contacts/1/history"), "get", "/contacts/{primaryId}/history");
+  }, 15000);
+
+  it("POST /contacts/{id}/unlink", async () => {
+    expectContract(
+      await api().post("/contacts/2/unlink").send({ reason: "shared family phone" }),
+      "post",
+      "/contacts/{id}/unlink"
+    );
+    expectContract(
+      await api().post("/contacts/2/unlink").send({ reason: "again" }),
+      "post",
+      "/contacts/{id}/unlink"
+    );
+  }, 15000);
+
+  it("POST /contacts/{id}/verify", async () => {
+    expectContract(
+      await api().post("/contacts/1/verify").send({ email: "verified_otp" }),
+      "post",
+      "/contacts/{id}/verify"
+    );
+    expectContract(await api().post("/contacts/1/verify").send({}), "post", "/contacts/{id}/verify");
+    expectContract(
+      await api().post("/contacts/999/verify").send({ email: "verified_partner" }),
+      "post",
+      "/contacts/{id}/verify"
+    );
+  }, 15000);
+
+  it("DELETE /contacts/{id} and POST /contacts/{primaryId}/erase", async () => {
+    expectContract(await api().delete("/contacts/2"), "delete", "/contacts/{id}");
+    expectContract(await api().post("/contacts/1/erase"), "post", "/contacts/{primaryId}/erase");
+  }, 15000);
+
+  it("POST /contacts/merge", async () => {
+    const a = await api().post("/identify").send({ email: "lorraine@hillvalley.edu" });
+    const b = await api().post("/identify").send({ email: "baines@hillvalley.edu" });
+    const contactIds = [a.body.contact.primaryContactId, b.body.contact.primaryContactId];
+
+    expectContract(
+      await api().post("/contacts/merge").send({ contactIds, reason: "same person" }),
+      "post",
+      "/contacts/merge"
+    );
+    expectContract(await api().post("/contacts/merge").send({ contactIds: [1] }), "post", "/contacts/merge");
+    expectContract(
+      await api().post("/contacts/merge").send({ contactIds: [1, 999] }),
+      "post",
+      "/contacts/merge"
+    );
+  }, 15000);
+
+  it("GET /clusters", async () => {
+    const first = expectContract(await api().get("/clusters?sort=size&limit=1"), "get", "/clusters");
+    expectContract(
+      await api().get(`/clusters?sort=size&limit=1&cursor=${first.nextCursor}`),
+      "get",
+      "/clusters"
+    );
+    expectContract(await api().get("/clusters?cursor=garbage"), "get", "/clusters");
+  }, 15000);
+});
+
+// ── Merge suggestions ─────────────────────────────────────────────────────────
+
+describePostgres("merge suggestion routes", () => {
+  it("lists, accepts and rejects suggestions", async () => {
+    await api().post("/identify").send({ email: "john.smith@gmail.com" });
+    await api().post("/identify").send({ email: "jon.smith@gmail.com" });
+    await api().post("/identify").send({ phoneNumber: "+14155550123" });
+    await api().post("/identify").send({ phoneNumber: "+14155550132" });
+    await scanMergeSuggestions(TEST_TENANT_ID);
+
+    const { suggestions } = expectContract(
+      await api().get("/merge-suggestions"),
+      "get",
+      "/merge-suggestions"
+    );
+    expect(suggestions).toHaveLength(2);
+    expectContract(await api().get("/merge-suggestions?status=nope"), "get", "/merge-suggestions");
+
+    const [first, second] = suggestions.map((s: { id: number }) => s.id);
+    const accept = (id: number | string) => api().post(`/merge-suggestions/${id}/accept`);
+    const reject = (id: number | string) => api().post(`/merge-suggestions/${id}/reject`);
+
+    expectContract(await accept(first), "post", "/merge-suggestions/{id}/accept");
+    expectContract(await accept(first), "post", "/merge-suggestions/{id}/accept");
+    expectContract(await accept(999), "post", "/merge-suggestions/{id}/accept");
+    expectContract(await reject(second), "post", "/merge-suggestions/{id}/reject");
+    expectContract(await reject("abc"), "post", "/merge-suggestions/{id}/reject");
+  }, 25000);
+});
+
+// ── Webhooks ──────────────────────────────────────────────────────────────────
+
+describePostgres("webhook routes", () => {
+  it("manages subscriptions and their deliveries", async () => {
+    const created = expectContract(
+      await api()
+        .post("/webhooks/subscriptions")
+        .send({ url: "http://127.0.0.1:9/hooks", eventTypes: ["contact.created"] }),
+      "post",
+      "/webhooks/subscriptions"
+    );
+    const base = `/webhooks/subscriptions/${created.id}`;
+
+    expectContract(await api().get("/webhooks/subscriptions"), "get", "/webhooks/subscriptions");
+    expectContract(await api().get(base), "get", "/webhooks/subscriptions/{id}");
+    expectContract(
+      await api().patch(base).send({ description: "contract test" }),
+      "patch",
+      "/webhooks/subscriptions/{id}"
+    );
+
+    // Nothing listens on port 9, so the single allowed attempt kills it
+    await api().post("/identify").send({ email: "clara@hillvalley.edu" });
+    await dispatchOnce();
+
+    const { deliveries } = expectContract(
+      await api().get(`${base}/deliveries`),
+      "get",
+      "/webhooks/subscriptions/{id}/deliveries"
+    );
+    expect(deliveries.length).toBeGreaterThan(0);
+    expectContract(
+      await api().post(`/webhooks/deliveries/${deliveries[0].id}/retry`),
+      "post",
+      "/webhooks/deliveries/{id}/retry"
+    );
+
+    expectContract(await api().delete(base), "delete", "/webhooks/subscriptions/{id}");
+    expectContract(await api().get(base), "get", "/webhooks/subscriptions/{id}");
+  }, 25000);
+});
+
+// ── Admin ─────────────────────────────────────────────────────────────────────
+
+describe("admin routes", () => {
+  itPostgres("integrity check and repair", async () => {
+    expectContract(await adminApi().get("/admin/integrity"), "get", "/admin/integrity");
+    expectContract(await adminApi().post("/admin/integrity/repair"), "post", "/admin/integrity/repair");
+  }, 15000);
+
+  it("tenants and API keys", async () => {
+    const tenant = expectContract(
+      await adminApi().post("/admin/tenants").send({ name: "contract" }),
+      "post",
+      "/admin/tenants"
+    );
+    expectContract(
+      await adminApi().post("/admin/tenants").send({ name: "contract" }),
+      "post",
+      "/admin/tenants"
+    );
+    expectContract(await adminApi().get("/admin/tenants"), "get", "/admin/tenants");
+
+    const keys = `/admin/tenants/${tenant.id}/api-keys`;
+    const key = expectContract(
+      await adminApi().post(keys).send({ name: "ci" }),
+      "post",
+      "/admin/tenants/{id}/api-keys"
+    );
+    expectContract(await adminApi().get(keys), "get", "/admin/tenants/{id}/api-keys");
+    expectContract(
+      await adminApi().delete(`/admin/api-keys/${key.id}`),
+      "delete",
+      "/admin/api-keys/{id}"
+    );
+  }, 15000);
+});
+
+// ── Coverage ──────────────────────────────────────────────────────────────────
+
+itPostgres("exercises every documented route", () => {
+  const documented = openApiRegistry()
+    .definitions.flatMap((d) => (d.type === "route" ? [`${d.route.method} ${d.route.path}`] : []));
+  expect([...exercised].sort()).toEqual(documented.sort());
+});
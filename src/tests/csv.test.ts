@@ -0,0 +1,44 @@
+/**
+ * Unit tests for the CSV reader used by the bulk import (no database needed).
+ */
+
+import { parseCsvLine, readCsvRecords } from "../lib/csv";
+
+async function* lines(...values: string[]) {
+  yield* values;
+}
+
+async function collect(values: string[]) {
+  const records = [];
+  for await (const record of readCsvRecords(lines(...values))) records.push(record);
+  return records;
+}
+
+describe("parseCsvLine", () => {
+  it("splits plain and quoted fields", () => {
+    expect(parseCsvLine('a@x.com,"100, ext 2",')).toEqual(["a@x.com", "100, ext 2", ""]);
+  });
+
+  it('unescapes "" inside quotes', () => {
+    expect(parseCsvLine('"say ""hi""",x')).toEqual(['say "hi"', "x"]);
+  });
+
+  it("returns null when a quoted field runs past the end of the line", () => {
+    expect(parseCsvLine('a,"multi')).toBeNull();
+  });
+});
+
+describe("readCsvRecords", () => {
+  it("joins quoted newlines and reports the starting line", async () => {
+    const records = await collect(["email,note", 'a@x.com,"line one', 'line two"', "b@x.com,\r"]);
+    expect(records).toEqual([
+      { line: 1, fields: ["email", "note"] },
+      { line: 2, fields: ["a@x.com", "line one\nline two"] },
+      { line: 4, fields: ["b@x.com", ""] },
+    ]);
+  });
+
+  it("throws on an unterminated quote at end of input", async () => {
+    await expect(collect(["email", '"a@x.com'])).rejects.toThrow(/line 2/);
+  });
+});
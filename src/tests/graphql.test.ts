@@ -0,0 +1,226 @@
+/**
+ * Integration tests for POST /graphql: the queries and the identify mutation,
+ * tenant scoping, error reporting and batched loading.
+ *
+ * Same requirements as identify.test.ts: either storage backend and serial
+ * execution (--runInBand).
+ */
+
+import { prisma } from "../lib/prisma";
+import { cleanDb, api, adminApi, itPostgres, storedRows } from "./helpers";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+async function gql(query: string, variables?: Record<string, unknown>, key?: string) {
+  return api(key).post("/graphql").send({ query, variables });
+}
+
+async function identify(body: Record<string, unknown>) {
+  const res = await api().post("/identify").send(body);
+  expect(res.status).toBe(200);
+  return res.body.contact;
+}
+
+// Counts SELECTs on the Contact table while `fn` runs; Postgres only
+async function countContactQueries(fn: () => Promise<unknown>): Promise<number> {
+  let count = 0;
+  let counting = true;
+  (prisma as unknown as { $on(e: "query", cb: (e: { query: string }) => void): void }).$on(
+    "query",
+    (e) => {
+      if (counting && /^SELECT .* FROM "public"\."Contact" /.test(e.query)) count++;
+    }
+  );
+  await fn();
+  counting = false;
+  return count;
+}
+
+const CLUSTER_FIELDS = `
+  primaryContactId
+  emails
+  phoneNumbers
+  secondaryContactIds
+  identifiers { type values }
+  contacts { id email phoneNumber linkPrecedence linkedId createdAt updatedAt }
+  history { contactId type oldLinkedId newLinkedId }
+`;
+
+// ── Setup / Teardown ──────────────────────────────────────────────────────────
+
+beforeEach(async () => {
+  await cleanDb();
+});
+
+afterAll(async () => {
+  await cleanDb();
+  await prisma.$disconnect();
+});
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+describe("queries", () => {
+  it(
+    "fetches a contact, its cluster, rows and history in one request",
+    async () => {
+      await identify({ email: "doc@hillvalley.edu", phoneNumber: "123456" });
+      await identify({ email: "marty@hillvalley.edu", phoneNumber: "123456" });
+
+      const res = await gql(`query ($id: Int!) {
+        contact(id: $id) { id email linkPrecedence cluster { ${CLUSTER_FIELDS} } }
+      }`, { id: 2 });
+
+      expect(res.status).toBe(200);
+      expect(res.body.errors).toBeUndefined();
+      const { contact } = res.body.data;
+      expect(contact).toMatchObject({ id: 2, email: "marty@hillvalley.edu", linkPrecedence: "secondary" });
+      expect(contact.cluster).toMatchObject({
+        primaryContactId: 1,
+        emails: ["doc@hillvalley.edu", "marty@hillvalley.edu"],
+        phoneNumbers: ["123456"],
+        secondaryContactIds: [2],
+        identifiers: [
+          { type: "email", values: ["doc@hillvalley.edu", "marty@hillvalley.edu"] },
+          { type: "phoneNumber", values: ["123456"] },
+        ],
+      });
+      expect(contact.cluster.contacts.map((c: { id: number }) => c.id)).toEqual([1, 2]);
+      expect(contact.cluster.contacts[0].createdAt).toMatch(/^\d{4}-\d\d-\d\dT/);
+      expect(contact.cluster.history.map((e: { type: string }) => e.type)).toEqual([
+        "created",
+        "created",
+      ]);
+    },
+    15000
+  );
+
+  it("returns null for an unknown contact", async () => {
+    const res = await gql(`{ contact(id: 999) { id } }`);
+    expect(res.body).toEqual({ data: { contact: null } });
+  });
+
+  it(
+    "finds clusters by email and by phone, canonically matched",
+    async () => {
+      await identify({ email: "Doc@HillValley.edu", phoneNumber: "123456" });
+
+      const res = await gql(`{
+        byEmail: clusterByEmail(email: " doc@hillvalley.edu ") { primaryContactId }
+        byPhone: clusterByPhone(phoneNumber: "123456") { primaryContactId emails }
+        none: clusterByEmail(email: "nobody@test.com") { primaryContactId }
+      }`);
+
+      expect(res.body.data).toEqual({
+        byEmail: [{ primaryContactId: 1 }],
+        byPhone: [{ primaryContactId: 1, emails: ["Doc@HillValley.edu"] }],
+        none: [],
+      });
+    },
+    15000
+  );
+
+  it(
+    "only sees the caller's tenant",
+    async () => {
+      await identify({ email: "doc@hillvalley.edu" });
+      const tenant = await adminApi().post("/admin/tenants").send({ name: "other" });
+      const issued = await adminApi()
+        .post(`/admin/tenants/${tenant.body.id}/api-keys`)
+        .send({ name: "other key" });
+
+      const res = await gql(
+        `{ contact(id: 1) { id } clusterByEmail(email: "doc@hillvalley.edu") { primaryContactId } }`,
+        undefined,
+        issued.body.key
+      );
+      expect(res.body.data).toEqual({ contact: null, clusterByEmail: [] });
+    },
+    15000
+  );
+
+  itPostgres(
+    "loads clusters for a list of contacts without a query per contact",
+    async () => {
+      for (let i = 0; i < 3; i++) {
+        await identify({ email: `user${i}@test.com` });
+        await identify({ email: `user${i}@test.com`, phoneNumber: `55500${i}` });
+      }
+      const query = (ids: number[]) =>
+        `{ ${ids.map((id) => `c${id}: contact(id: ${id}) { cluster { ${CLUSTER_FIELDS} } }`).join(" ")} }`;
+
+      const one = await countContactQueries(() => gql(query([1])));
+      const three = await countContactQueries(async () => {
+        const res = await gql(query([1, 3, 5]));
+        expect(res.body.errors).toBeUndefined();
+        expect(res.body.data.c5.cluster.contacts).toHaveLength(2);
+      });
+
+      expect(three).toBe(one);
+    },
+    25000
+  );
+});
+
+// =============================================================================
+// MUTATION
+// =============================================================================
+
+describe("identify mutation", () => {
+  it(
+    "resolves like POST /identify and returns the cluster",
+    async () => {
+      await identify({ email: "doc@hillvalley.edu", phoneNumber: "123456" });
+
+      const res = await gql(
+        `mutation ($input: IdentifyInput!) { identify(input: $input) { ${CLUSTER_FIELDS} } }`,
+        { input: { email: "marty@hillvalley.edu", phoneNumber: "123456" } }
+      );
+
+      expect(res.body.errors).toBeUndefined();
+      expect(res.body.data.identify).toMatchObject({
+        primaryContactId: 1,
+        emails: ["doc@hillvalley.edu", "marty@hillvalley.edu"],
+        secondaryContactIds: [2],
+      });
+      expect(res.body.data.identify.contacts).toHaveLength(2);
+      expect(await storedRows("contacts")).toHaveLength(2);
+    },
+    15000
+  );
+
+  it("reports validation errors with the REST details", async () => {
+    const res = await gql(`mutation { identify(input: { email: "not-an-email" }) { primaryContactId } }`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toBeNull();
+    expect(res.body.errors).toEqual([
+      expect.objectContaining({
+        message: "Validation failed",
+        extensions: {
+          code: "BAD_USER_INPUT",
+          details: [{ field: "email", message: "Invalid email format" }],
+        },
+      }),
+    ]);
+    expect(await storedRows("contacts")).toHaveLength(0);
+  });
+});
+
+// =============================================================================
+// TRANSPORT
+// =============================================================================
+
+describe("transport", () => {
+  it("requires an API key", async () => {
+    const res = await gql(`{ contact(id: 1) { id } }`, undefined, "idk_wrong");
+    expect(res.status).toBe(401);
+  });
+
+  it("answers a malformed query with errors", async () => {
+    const res = await gql(`{ contact(id: 1) { nope } }`);
+    expect(res.body.errors[0].message).toMatch(/Cannot query field "nope"/);
+    expect(res.body.data).toBeUndefined();
+  });
+});
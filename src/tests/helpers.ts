@@ -0,0 +1,120 @@
+/**
+ * Shared setup for the integration suites. They run against the backend
+ * CONTACT_STORE selects (see src/repositories/storage.ts): Postgres at
+ * DATABASE_URL by default, or an in-memory store with CONTACT_STORE=memory.
+ */
+
+import { createHash } from "crypto";
+import request from "supertest";
+import app from "../app";
+import { prisma } from "../lib/prisma";
+import { MemoryContactRepository, Tables } from "../repositories/memory-storage";
+import { contactStore, storageBackend } from "../repositories/storage";
+
+/** Tenant every suite works in unless it says otherwise; recreated by cleanDb. */
+export const TEST_TENANT_ID = 1;
+export const TEST_API_KEY = "idk_test-suite-key";
+export const TEST_ADMIN_KEY = "test-admin-key";
+
+/** Whether this run stores contacts in Postgres. */
+export const onPostgres = storageBackend() === "postgres";
+
+/**
+ * describe() and it() for what only exists in Postgres — webhooks, merge
+ * suggestions, the integrity check, the CLI, query metrics. Skipped on
+ * CONTACT_STORE=memory.
+ */
+export const describePostgres = onPostgres ? describe : describe.skip;
+export const itPostgres = onPostgres ? it : it.skip;
+
+/**
+ * Empty the store and restart contact and tenant ids, so each test can
+ * assert on predictable ids. In Postgres, children are deleted before the
+ * rows they reference. Leaves one tenant behind, reachable with TEST_API_KEY.
+ */
+export async function cleanDb(): Promise<void> {
+  const store = contactStore();
+  if (store instanceof MemoryContactRepository) {
+    await store.reset();
+  } else {
+    await prisma.idempotencyKey.deleteMany();
+    await prisma.webhookDelivery.deleteMany();
+    await prisma.webhookSubscription.deleteMany();
+    await prisma.outboxEvent.deleteMany();
+    await prisma.contactLinkEvent.deleteMany();
+    await prisma.contactUnlink.deleteMany();
+    await prisma.contactIdentifier.deleteMany();
+    await prisma.contact.deleteMany();
+    await prisma.mergeSuggestion.deleteMany();
+    await prisma.pendingLink.deleteMany();
+    await prisma.apiKey.deleteMany();
+    await prisma.tenant.deleteMany();
+    await prisma.$executeRawUnsafe(`ALTER SEQUENCE "Contact_id_seq" RESTART WITH 1`);
+    await prisma.$executeRawUnsafe(`ALTER SEQUENCE "Tenant_id_seq" RESTART WITH 1`);
+  }
+
+  await store.createTenant("test");
+  await store.createApiKey({
+    tenantId: TEST_TENANT_ID,
+    name: "test suite",
+    prefix: TEST_API_KEY.slice(0, 12),
+    keyHash: createHash("sha256").update(TEST_API_KEY).digest("hex"),
+  });
+}
+
+const MODELS: Record<keyof Tables, string> = {
+  contacts: "contact",
+  unlinks: "contactUnlink",
+  linkEvents: "contactLinkEvent",
+  outboxEvents: "outboxEvent",
+  pendingLinks: "pendingLink",
+  idempotencyKeys: "idempotencyKey",
+  tenants: "tenant",
+  apiKeys: "apiKey",
+};
+
+/**
+ * Every stored row of a table, across tenants, in the order it was written.
+ * Contacts come without their identifiers, tombstones included.
+ */
+export async function storedRows<T extends keyof Tables>(table: T): Promise<Tables[T]> {
+  const store = contactStore();
+  if (store instanceof MemoryContactRepository) {
+    const rows = (await store.snapshot())[table];
+    return (
+      table === "contacts"
+        ? (rows as Tables["contacts"]).map(({ identifiers: _identifiers, ...c }) => c)
+        : rows
+    ) as Tables[T];
+  }
+
+  // IdempotencyKey is the one table keyed by something other than an id
+  const model = (prisma as unknown as Record<string, { findMany(args: object): Promise<unknown> }>)[
+    MODELS[table]
+  ];
+  return model.findMany({
+    orderBy: table === "idempotencyKeys" ? { createdAt: "asc" } : { id: "asc" },
+  }) as Promise<Tables[T]>;
+}
+
+/** One stored contact row, live or not; fails the test if there is none. */
+export async function storedContact(id: number): Promise<Tables["contacts"][number]> {
+  const contact = (await storedRows("contacts")).find((c) => c.id === id);
+  if (!contact) throw new Error(`Contact ${id} is not stored`);
+  return contact;
+}
+
+/**
+ * Supertest agent authenticated as the test tenant, or with another key.
+ */
+export function api(key: string = TEST_API_KEY) {
+  return request.agent(app).set("Authorization", `Bearer ${key}`);
+}
+
+/**
+ * Supertest agent for the /admin routes.
+ */
+export function adminApi() {
+  process.env.ADMIN_API_KEY = TEST_ADMIN_KEY;
+  return request.agent(app).set("Authorization", `Bearer ${TEST_ADMIN_KEY}`);
+}
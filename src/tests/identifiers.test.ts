@@ -0,0 +1,76 @@
+/**
+ * Unit tests for the identifier registry (no database needed).
+ */
+
+import {
+  getIdentifierType,
+  identifierTypeNames,
+  normalizeIdentifiers,
+  registerIdentifierType,
+} from "../lib/identifiers";
+
+describe("identifier registry", () => {
+  it("registers loyaltyCard, deviceId and paymentFingerprint", () => {
+    expect(identifierTypeNames()).toEqual(
+      expect.arrayContaining(["loyaltyCard", "deviceId", "paymentFingerprint"])
+    );
+  });
+
+  it("refuses to register the built-in email and phoneNumber types", () => {
+    const definition = { pattern: /.*/, patternMessage: "", normalize: (v: string) => v };
+    expect(() => registerIdentifierType({ type: "email", ...definition })).toThrow();
+    expect(() => registerIdentifierType({ type: "phoneNumber", ...definition })).toThrow();
+  });
+
+  it("accepts new types at runtime", () => {
+    registerIdentifierType({
+      type: "memberNumber",
+      pattern: /^\d+$/,
+      patternMessage: "Invalid member number",
+      normalize: (v) => v.replace(/^0+/, ""),
+    });
+    expect(getIdentifierType("memberNumber")).toBeDefined();
+    expect(normalizeIdentifiers([{ type: "memberNumber", value: "00042" }])).toEqual([
+      { type: "memberNumber", value: "00042", normalizedValue: "42" },
+    ]);
+  });
+});
+
+describe("normalizeIdentifiers", () => {
+  it("ignores spaces, dashes and case in loyalty card numbers", () => {
+    expect(normalizeIdentifiers([{ type: "loyaltyCard", value: " ab-1234 5678 " }])).toEqual([
+      { type: "loyaltyCard", value: "ab-1234 5678", normalizedValue: "AB12345678" },
+    ]);
+  });
+
+  it("case-folds device ids and payment fingerprints", () => {
+    const [device, payment] = normalizeIdentifiers([
+      { type: "deviceId", value: "6D92078A-8246-4BA4-AE5B-76104861E7DC" },
+      { type: "paymentFingerprint", value: "ABCDEF0123456789ABCDEF0123456789" },
+    ]);
+    expect(device.normalizedValue).toBe("6d92078a-8246-4ba4-ae5b-76104861e7dc");
+    expect(payment.normalizedValue).toBe("abcdef0123456789abcdef0123456789");
+  });
+
+  it("drops repeats of the same canonical value, keeping the first spelling", () => {
+    const result = normalizeIdentifiers([
+      { type: "loyaltyCard", value: "1234-5678" },
+      { type: "loyaltyCard", value: "1234 5678" },
+      { type: "deviceId", value: "1234-5678" },
+    ]);
+    expect(result.map((i) => [i.type, i.value])).toEqual([
+      ["loyaltyCard", "1234-5678"],
+      ["deviceId", "1234-5678"],
+    ]);
+  });
+
+  it("rejects unknown types with a 400", () => {
+    expect(() => normalizeIdentifiers([{ type: "ssn", value: "123" }])).toThrow(
+      expect.objectContaining({ statusCode: 400 })
+    );
+  });
+
+  it("returns nothing for null input", () => {
+    expect(normalizeIdentifiers(null)).toEqual([]);
+  });
+});
@@ -1,27 +1,23 @@
 /**
  * Integration tests for POST /identify
  *
- * Requires a live PostgreSQL database (Neon or local).
- * Set DATABASE_URL and DIRECT_URL in your .env before running:
- *   npm test
+ * Runs against either storage backend:
+ *   npm test                 # Postgres at DATABASE_URL (and DIRECT_URL)
+ *   npm run test:memory      # in memory, no database needed
  *
- * Each test cleans the Contact table in beforeEach so scenarios are independent.
+ * Each test empties the store in beforeEach so scenarios are independent.
  * Tests run serially (--runInBand) to avoid cross-test DB conflicts.
  */
 
-import request from "supertest";
-import app from "../app";
 import { prisma } from "../lib/prisma";
+import { ContactRepository, contactStore } from "../repositories/storage";
+import { identifyBatch, previewIdentify, resolveIdentity } from "../services/identity.service";
+import { cleanDb, api, storedContact, storedRows, TEST_TENANT_ID } from "./helpers";
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
-async function cleanDb(): Promise<void> {
-  await prisma.contact.deleteMany();
-  await prisma.$executeRawUnsafe(`ALTER SEQUENCE "Contact_id_seq" RESTART WITH 1`);
-}
-
 async function post(body: Record<string, unknown>) {
-  return request(app)
+  return api()
     .post("/identify")
     .send(body)
     .set("Content-Type", "application/json");
@@ -273,14 +269,11 @@ describe("Scenario 5 — Transitive linking (A→B, B→C → unified)", () => {
       await post({ email: "y@test.com", phoneNumber: "602002" }); // bridge 2+3
 
       // Verify DB — no contact should have linkedId pointing to a secondary
-      const secondaries = await prisma.contact.findMany({
-        where: { linkPrecedence: "secondary" },
-      });
-      const primaryIds = await prisma.contact.findMany({
-        where: { linkPrecedence: "primary" },
-        select: { id: true },
-      });
-      const primaryIdSet = new Set(primaryIds.map((p:any) => p.id));
+      const rows = await storedRows("contacts");
+      const secondaries = rows.filter((c) => c.linkPrecedence === "secondary");
+      const primaryIdSet = new Set(
+        rows.filter((c) => c.linkPrecedence === "primary").map((c) => c.id)
+      );
 
       for (const s of secondaries) {
         expect(s.linkedId).not.toBeNull();
@@ -308,8 +301,7 @@ describe("Scenario 6 — Idempotency", () => {
       expect(res2.body).toEqual(res1.body);
       expect(res3.body).toEqual(res1.body);
 
-      const count = await prisma.contact.count();
-      expect(count).toBe(1);
+      expect(await storedRows("contacts")).toHaveLength(1);
     },
     20000
   );
@@ -326,8 +318,7 @@ describe("Scenario 6 — Idempotency", () => {
       expect(res1.status).toBe(200);
       expect(res2.body).toEqual(res1.body);
 
-      const count = await prisma.contact.count();
-      expect(count).toBe(2);
+      expect(await storedRows("contacts")).toHaveLength(2);
     },
     20000
   );
@@ -476,6 +467,336 @@ describe("Scenario 9 — Input whitespace trimming", () => {
   });
 });
 
+// =============================================================================
+// SCENARIO 10 — Canonical matching
+// =============================================================================
+
+describe("Scenario 10 — Email and phone canonicalization", () => {
+  it(
+    "matches emails case-insensitively but echoes what was typed",
+    async () => {
+      await post({ email: "Foo@Example.com", phoneNumber: "100200" }); // id=1
+      const res = await post({ email: "foo@example.com" });
+
+      expect(res.status).toBe(200);
+      expect(res.body.contact.primaryContactId).toBe(1);
+      expect(res.body.contact.emails).toEqual(["Foo@Example.com"]);
+      expect(await storedRows("contacts")).toHaveLength(1);
+    },
+    20000
+  );
+
+  it(
+    "matches differently formatted spellings of the same phone number",
+    async () => {
+      await post({ email: "a@test.com", phoneNumber: "+1 (555) 010-2000" }); // id=1
+      const res = await post({ email: "b@test.com", phoneNumber: "15550102000" });
+
+      expect(res.status).toBe(200);
+      expect(res.body.contact.primaryContactId).toBe(1);
+      expect(res.body.contact.phoneNumbers).toEqual(["+1 (555) 010-2000", "15550102000"]);
+      expect(res.body.contact.secondaryContactIds).toHaveLength(1);
+    },
+    20000
+  );
+});
+
+// =============================================================================
+// SCENARIO 11 — Primary election strategies
+// =============================================================================
+
+describe("Scenario 11 — Primary election strategies", () => {
+  const original = process.env.PRIMARY_ELECTION_STRATEGY;
+  afterEach(() => {
+    if (original === undefined) delete process.env.PRIMARY_ELECTION_STRATEGY;
+    else process.env.PRIMARY_ELECTION_STRATEGY = original;
+  });
+
+  // Scenario 4's bridge, but the older primary has no phone number
+  async function bridgeIncompleteOlder() {
+    await post({ email: "older@test.com" }); // id=1, email only
+    await post({ email: "newer@test.com", phoneNumber: "302002" }); // id=2, complete
+    return post({ email: "older@test.com", phoneNumber: "302002" });
+  }
+
+  it(
+    "oldest: the older primary wins regardless of completeness",
+    async () => {
+      process.env.PRIMARY_ELECTION_STRATEGY = "oldest";
+      const res = await bridgeIncompleteOlder();
+
+      expect(res.body.contact.primaryContactId).toBe(1);
+      expect(res.body.contact.secondaryContactIds).toContain(2);
+    },
+    20000
+  );
+
+  it(
+    "complete: the primary with both email and phone wins",
+    async () => {
+      process.env.PRIMARY_ELECTION_STRATEGY = "complete";
+      const res = await bridgeIncompleteOlder();
+
+      expect(res.status).toBe(200);
+      expect(res.body.contact.primaryContactId).toBe(2);
+      expect(res.body.contact.emails[0]).toBe("newer@test.com");
+      expect(res.body.contact.secondaryContactIds).toContain(1);
+    },
+    20000
+  );
+
+  it(
+    "verified: a verified primary wins over an older one",
+    async () => {
+      process.env.PRIMARY_ELECTION_STRATEGY = "verified";
+      await post({ email: "older@test.com", phoneNumber: "301001" }); // id=1
+      await post({ email: "newer@test.com", phoneNumber: "302002" }); // id=2
+      await api().post("/contacts/2/verify").send({ phoneNumber: "verified_otp" });
+
+      const res = await post({ email: "newer@test.com", phoneNumber: "301001" });
+
+      expect(res.body.contact.primaryContactId).toBe(2);
+      expect(res.body.contact.secondaryContactIds).toContain(1);
+    },
+    20000
+  );
+
+  it(
+    "most-secondaries: the larger cluster absorbs the smaller one, keeping links flat",
+    async () => {
+      process.env.PRIMARY_ELECTION_STRATEGY = "most-secondaries";
+      // Cluster A: lone primary
+      await post({ email: "pa@test.com", phoneNumber: "401001" }); // id=1
+      // Cluster B: primary + 2 secondaries
+      await post({ email: "pb@test.com", phoneNumber: "402002" }); // id=2
+      await post({ email: "sb1@test.com", phoneNumber: "402002" }); // id=3
+      await post({ email: "sb2@test.com", phoneNumber: "402002" }); // id=4
+
+      const res = await post({ email: "pa@test.com", phoneNumber: "402002" });
+
+      // The pair is on no row yet, so it is stored too (id=5)
+      expect(res.body.contact.primaryContactId).toBe(2);
+      expect(res.body.contact.secondaryContactIds).toEqual([1, 3, 4, 5]);
+
+      const demoted = await storedContact(1);
+      expect(demoted.linkPrecedence).toBe("secondary");
+      expect(demoted.linkedId).toBe(2);
+    },
+    25000
+  );
+
+  it(
+    "falls back to oldest-first when the strategy sees a tie",
+    async () => {
+      process.env.PRIMARY_ELECTION_STRATEGY = "complete";
+      await post({ email: "p1@test.com", phoneNumber: "501001" }); // id=1
+      await post({ email: "p2@test.com", phoneNumber: "502002" }); // id=2
+
+      const res = await post({ email: "p2@test.com", phoneNumber: "501001" });
+
+      expect(res.body.contact.primaryContactId).toBe(1);
+    },
+    20000
+  );
+});
+
+// =============================================================================
+// SCENARIO 12 — Extra identifier types
+// =============================================================================
+
+describe("Scenario 12 — Extra identifier types", () => {
+  const card = (value: string) => ({ type: "loyaltyCard", value });
+  const device = (value: string) => ({ type: "deviceId", value });
+
+  it("creates a primary from an extra identifier alone", async () => {
+    const res = await post({ identifiers: [card("1234 5678")] });
+
+    expect(res.status).toBe(200);
+    expect(res.body.contact).toEqual({
+      primaryContactId: 1,
+      emails: [],
+      phoneNumbers: [],
+      secondaryContactIds: [],
+      identifiers: { loyaltyCard: ["1234 5678"] },
+      verification: { email: {}, phoneNumber: {} },
+    });
+  });
+
+  it(
+    "links on a shared loyalty card regardless of formatting",
+    async () => {
+      await post({ email: "a@test.com", identifiers: [card("1234-5678")] }); // id=1
+      const res = await post({ email: "b@test.com", identifiers: [card("1234 5678")] });
+
+      expect(res.body.contact.primaryContactId).toBe(1);
+      expect(res.body.contact.secondaryContactIds).toEqual([2]);
+      expect(res.body.contact.identifiers).toEqual({
+        email: ["a@test.com", "b@test.com"],
+        loyaltyCard: ["1234-5678", "1234 5678"],
+      });
+    },
+    20000
+  );
+
+  it(
+    "merges two primaries bridged by a device id",
+    async () => {
+      await post({ email: "older@test.com", identifiers: [device("dev-1")] }); // id=1
+      await post({ phoneNumber: "302002" }); // id=2
+
+      const res = await post({ phoneNumber: "302002", identifiers: [device("DEV-1")] });
+
+      expect(res.body.contact.primaryContactId).toBe(1);
+      expect(res.body.contact.secondaryContactIds).toContain(2);
+      expect(res.body.contact.emails).toEqual(["older@test.com"]);
+      expect(res.body.contact.phoneNumbers).toEqual(["302002"]);
+    },
+    25000
+  );
+
+  it(
+    "does not create a row when every identifier is already on one contact",
+    async () => {
+      const body = { email: "a@test.com", identifiers: [card("1234-5678"), device("dev-1")] };
+      const res1 = await post(body);
+      const res2 = await post({ identifiers: [device("dev-1")] });
+      const res3 = await post(body);
+
+      expect(res2.body).toEqual(res1.body);
+      expect(res3.body).toEqual(res1.body);
+      expect(await storedRows("contacts")).toHaveLength(1);
+    },
+    20000
+  );
+
+  it(
+    "creates a secondary when a known email arrives with a new identifier",
+    async () => {
+      await post({ email: "a@test.com" }); // id=1
+      const res = await post({ email: "a@test.com", identifiers: [card("9999-0000")] });
+
+      expect(res.body.contact.secondaryContactIds).toEqual([2]);
+      expect(res.body.contact.identifiers.loyaltyCard).toEqual(["9999-0000"]);
+    },
+    20000
+  );
+
+  it("rejects an unregistered identifier type", async () => {
+    const res = await post({ identifiers: [{ type: "ssn", value: "123-45-6789" }] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details[0].field).toBe("identifiers.0.type");
+  });
+
+  it("rejects a value that does not fit its type", async () => {
+    const res = await post({ identifiers: [{ type: "paymentFingerprint", value: "not-a-hash" }] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details[0].field).toBe("identifiers.0.value");
+  });
+});
+
+// =============================================================================
+// DRY RUN AND PREVIEW
+// =============================================================================
+
+describe("Dry run and POST /identify/preview", () => {
+  async function preview(body: Record<string, unknown>) {
+    return api()
+      .post("/identify/preview")
+      .send(body)
+      .set("Content-Type", "application/json");
+  }
+
+  async function snapshot() {
+    return storedRows("contacts");
+  }
+
+  it(
+    "reports a merge of two clusters without applying it",
+    async () => {
+      await post({ email: "pa@test.com", phoneNumber: "401001" }); // id=1
+      await post({ email: "pb@test.com", phoneNumber: "402002" }); // id=2
+      await post({ email: "sb@test.com", phoneNumber: "402002" }); // id=3 under 2
+      const before = await snapshot();
+
+      const res = await preview({ email: "pa@test.com", phoneNumber: "402002" });
+
+      expect(res.status).toBe(200);
+      expect(res.body.contact.primaryContactId).toBe(1);
+      expect(res.body.contact.secondaryContactIds).toEqual(
+        expect.arrayContaining([2, 3])
+      );
+      expect(res.body.changes).toEqual({
+        demotedPrimaryIds: [2],
+        reparented: [{ contactId: 3, fromPrimaryId: 2, toPrimaryId: 1 }],
+        newContact: { id: expect.any(Number), linkPrecedence: "secondary", linkedId: 1 },
+      });
+
+      expect(await snapshot()).toEqual(before);
+      const events = await storedRows("linkEvents");
+      expect(events.filter((e) => e.type === "demoted")).toHaveLength(0);
+    },
+    25000
+  );
+
+  it(
+    "dryRun on POST /identify returns the same preview",
+    async () => {
+      await post({ email: "a@test.com" }); // id=1
+      const before = await snapshot();
+
+      const res = await post({ email: "a@test.com", phoneNumber: "100200", dryRun: true });
+
+      expect(res.status).toBe(200);
+      expect(res.body.changes.demotedPrimaryIds).toEqual([]);
+      expect(res.body.changes.newContact).toMatchObject({
+        linkPrecedence: "secondary",
+        linkedId: 1,
+      });
+      expect(await snapshot()).toEqual(before);
+    },
+    20000
+  );
+
+  it("reports a new primary for an unknown identity", async () => {
+    const res = await preview({ email: "new@test.com" });
+
+    expect(res.body.changes).toEqual({
+      demotedPrimaryIds: [],
+      reparented: [],
+      newContact: { id: expect.any(Number), linkPrecedence: "primary", linkedId: null },
+    });
+    expect(await storedRows("contacts")).toHaveLength(0);
+  });
+
+  it(
+    "reports no changes when the input is already known",
+    async () => {
+      await post({ email: "a@test.com", phoneNumber: "100200" });
+      const res = await preview({ email: "a@test.com" });
+
+      expect(res.body.changes).toEqual({
+        demotedPrimaryIds: [],
+        reparented: [],
+        newContact: null,
+      });
+    },
+    20000
+  );
+
+  it("validates the body like POST /identify", async () => {
+    const res = await preview({});
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects a non-boolean dryRun", async () => {
+    const res = await post({ email: "a@test.com", dryRun: "yes" });
+    expect(res.status).toBe(400);
+    expect(res.body.details[0].field).toBe("dryRun");
+  });
+});
+
 // =============================================================================
 // VALIDATION
 // =============================================================================
@@ -528,4 +849,412 @@ describe("Validation", () => {
     expect(res.status).toBe(200);
     expect(res.body).toHaveProperty("contact");
   });
-});
\ No newline at end of file
+});
+// =============================================================================
+// BATCH
+// =============================================================================
+
+describe("POST /identify/batch", () => {
+  async function batch(body: Record<string, unknown>) {
+    return api()
+      .post("/identify/batch")
+      .send(body)
+      .set("Content-Type", "application/json");
+  }
+
+  it(
+    "resolves items in order with the same result as sequential calls",
+    async () => {
+      const res = await batch({
+        items: [
+          { email: "george@hillvalley.edu", phoneNumber: "919191" }, // id=1
+          { email: "biffsucks@hillvalley.edu", phoneNumber: "717171" }, // id=2
+          { email: "george@hillvalley.edu", phoneNumber: "717171" }, // merge
+        ],
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.results).toHaveLength(3);
+      expect(res.body.results[0]).toMatchObject({ index: 0, status: 200 });
+      expect(res.body.results[1].contact.primaryContactId).toBe(2);
+      expect(res.body.results[2].contact).toMatchObject({
+        primaryContactId: 1,
+        emails: ["george@hillvalley.edu", "biffsucks@hillvalley.edu"],
+        phoneNumbers: ["919191", "717171"],
+        secondaryContactIds: [2, 3],
+      });
+    },
+    25000
+  );
+
+  it(
+    "atomic batches resolve in one transaction with the same semantics",
+    async () => {
+      const res = await batch({
+        atomic: true,
+        items: [
+          { email: "a@test.com", phoneNumber: "301001" },
+          { email: "b@test.com", phoneNumber: "302002" },
+          { email: "a@test.com", phoneNumber: "302002" },
+          { email: "a@test.com", phoneNumber: "302002" }, // repeat is idempotent
+        ],
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body.results[2].contact.primaryContactId).toBe(1);
+      expect(res.body.results[3].contact).toEqual(res.body.results[2].contact);
+      expect(await storedRows("contacts")).toHaveLength(3);
+    },
+    25000
+  );
+
+  it("reports invalid items individually in per-item mode", async () => {
+    const res = await batch({
+      items: [{ email: "ok@test.com" }, { email: "not-an-email" }, {}],
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.results[0].status).toBe(200);
+    expect(res.body.results[1]).toMatchObject({ index: 1, status: 400 });
+    expect(res.body.results[1].details[0].field).toBe("email");
+    expect(res.body.results[2]).toMatchObject({ index: 2, status: 400 });
+    expect(await storedRows("contacts")).toHaveLength(1);
+  });
+
+  it("rejects an atomic batch with any invalid item without writing", async () => {
+    const res = await batch({
+      atomic: true,
+      items: [{ email: "ok@test.com" }, { email: "not-an-email" }],
+    });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details[0].field).toBe("items.1.email");
+    expect(await storedRows("contacts")).toHaveLength(0);
+  });
+
+  it("rejects batches over the configured maximum size", async () => {
+    const previous = process.env.IDENTIFY_BATCH_MAX_SIZE;
+    process.env.IDENTIFY_BATCH_MAX_SIZE = "2";
+    try {
+      const res = await batch({
+        items: [{ email: "a@test.com" }, { email: "b@test.com" }, { email: "c@test.com" }],
+      });
+      expect(res.status).toBe(400);
+      expect(res.body.details[0].field).toBe("items");
+    } finally {
+      if (previous === undefined) delete process.env.IDENTIFY_BATCH_MAX_SIZE;
+      else process.env.IDENTIFY_BATCH_MAX_SIZE = previous;
+    }
+  });
+
+  it("returns 400 when items is missing or empty", async () => {
+    expect((await batch({})).status).toBe(400);
+    expect((await batch({ items: [] })).status).toBe(400);
+  });
+});
+
+// =============================================================================
+// IDEMPOTENCY-KEY HEADER
+// =============================================================================
+
+describe("Idempotency-Key header", () => {
+  async function postWithKey(key: string, body: Record<string, unknown>) {
+    return api()
+      .post("/identify")
+      .send(body)
+      .set("Content-Type", "application/json")
+      .set("Idempotency-Key", key);
+  }
+
+  it(
+    "replays the first response even after an interleaved merge",
+    async () => {
+      await post({ email: "george@hillvalley.edu", phoneNumber: "919191" }); // id=1
+      const first = await postWithKey("order-42", {
+        email: "biffsucks@hillvalley.edu",
+        phoneNumber: "717171",
+      }); // id=2, its own primary
+
+      // Interleaved merge demotes id=2 under id=1
+      await post({ email: "george@hillvalley.edu", phoneNumber: "717171" });
+
+      const retry = await postWithKey("order-42", {
+        email: "biffsucks@hillvalley.edu",
+        phoneNumber: "717171",
+      });
+
+      expect(retry.status).toBe(200);
+      expect(retry.headers["idempotent-replayed"]).toBe("true");
+      expect(retry.body).toEqual(first.body);
+      expect(retry.body.contact.primaryContactId).toBe(2);
+    },
+    25000
+  );
+
+  it("returns 422 when a key is reused with a different body", async () => {
+    await postWithKey("order-43", { email: "a@test.com" });
+    const res = await postWithKey("order-43", { email: "b@test.com" });
+
+    expect(res.status).toBe(422);
+    expect(await storedRows("contacts")).toHaveLength(1);
+  });
+
+  it("treats whitespace-only differences as the same body", async () => {
+    await postWithKey("order-44", { email: "a@test.com" });
+    const res = await postWithKey("order-44", { email: "  a@test.com " });
+
+    expect(res.status).toBe(200);
+    expect(res.headers["idempotent-replayed"]).toBe("true");
+  });
+
+  it(
+    "resolves normally again once the key has expired",
+    async () => {
+      // Stored with no time to live, so it has expired by the retry
+      const previous = process.env.IDEMPOTENCY_TTL_SECONDS;
+      process.env.IDEMPOTENCY_TTL_SECONDS = "0";
+      try {
+        await postWithKey("order-45", { email: "a@test.com" });
+      } finally {
+        if (previous === undefined) delete process.env.IDEMPOTENCY_TTL_SECONDS;
+        else process.env.IDEMPOTENCY_TTL_SECONDS = previous;
+      }
+
+      const res = await postWithKey("order-45", { email: "b@test.com" });
+
+      expect(res.status).toBe(200);
+      expect(res.headers["idempotent-replayed"]).toBeUndefined();
+      expect(res.body.contact.emails).toEqual(["b@test.com"]);
+    },
+    20000
+  );
+
+  it("returns 400 for an over-long key", async () => {
+    const res = await postWithKey("k".repeat(256), { email: "a@test.com" });
+    expect(res.status).toBe(400);
+    expect(res.body.details[0].field).toBe("Idempotency-Key");
+  });
+});
+
+// =============================================================================
+// X-REQUEST-ID HEADER
+// =============================================================================
+
+describe("X-Request-Id header", () => {
+  it("echoes a supplied id and stamps it on the link events", async () => {
+    const res = await api()
+      .post("/identify")
+      .set("X-Request-Id", "checkout-7f3a")
+      .send({ email: "a@test.com" });
+
+    expect(res.status).toBe(200);
+    expect(res.headers["x-request-id"]).toBe("checkout-7f3a");
+
+    const events = await storedRows("linkEvents");
+    expect(events.map((e) => e.requestId)).toEqual(["checkout-7f3a"]);
+  });
+
+  it("generates an id when none or a malformed one is supplied", async () => {
+    const missing = await api().get("/health");
+    const malformed = await api().get("/health").set("X-Request-Id", "bad id with spaces");
+
+    const uuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+    expect(missing.headers["x-request-id"]).toMatch(uuid);
+    expect(malformed.headers["x-request-id"]).toMatch(uuid);
+  });
+});
+
+// =============================================================================
+// RATE LIMITING
+// =============================================================================
+
+describe("rate limiting", () => {
+  const LIMIT_VARS = [
+    "RATE_LIMIT_KEY_BURST",
+    "RATE_LIMIT_KEY_PER_SECOND",
+    "RATE_LIMIT_MERGE_BURST",
+    "RATE_LIMIT_MERGE_PER_SECOND",
+  ];
+  afterEach(() => LIMIT_VARS.forEach((name) => delete process.env[name]));
+
+  // cleanDb issues the test key under a fresh id, so every test starts with
+  // full buckets
+  it(
+    "returns 429 with RateLimit headers once the key's bucket is empty",
+    async () => {
+      process.env.RATE_LIMIT_KEY_BURST = "2";
+      process.env.RATE_LIMIT_KEY_PER_SECOND = "0.01";
+
+      const first = await post({ email: "a@test.com" });
+      await post({ email: "b@test.com" });
+      const refused = await post({ email: "c@test.com" });
+
+      expect(first.status).toBe(200);
+      expect(first.headers["ratelimit-limit"]).toBe("2");
+      expect(first.headers["ratelimit-remaining"]).toBe("1");
+
+      expect(refused.status).toBe(429);
+      expect(refused.body).toEqual({ error: "Too many requests" });
+      expect(refused.headers["ratelimit-remaining"]).toBe("0");
+      expect(Number(refused.headers["retry-after"])).toBeGreaterThan(0);
+      expect(await storedRows("contacts")).toHaveLength(2);
+    },
+    15000
+  );
+
+  it(
+    "charges a batch one token per item",
+    async () => {
+      process.env.RATE_LIMIT_KEY_BURST = "3";
+      process.env.RATE_LIMIT_KEY_PER_SECOND = "0.01";
+
+      const batch = (emails: string[]) =>
+        api()
+          .post("/identify/batch")
+          .send({ items: emails.map((email) => ({ email })) })
+          .set("Content-Type", "application/json");
+
+      const first = await batch(["a@test.com", "b@test.com"]);
+      const refused = await batch(["c@test.com", "d@test.com"]);
+      const single = await post({ email: "e@test.com" });
+
+      expect(first.status).toBe(200);
+      expect(first.headers["ratelimit-remaining"]).toBe("1");
+      expect(refused.status).toBe(429);
+      expect(refused.body).toEqual({ error: "Too many requests" });
+      expect(single.status).toBe(200);
+      expect(await storedRows("contacts")).toHaveLength(3);
+    },
+    15000
+  );
+
+  it(
+    "holds merges to their own stricter limit without touching the clusters",
+    async () => {
+      process.env.RATE_LIMIT_MERGE_BURST = "1";
+      process.env.RATE_LIMIT_MERGE_PER_SECOND = "0.01";
+
+      await post({ email: "a@test.com", phoneNumber: "100" }); // id=1
+      await post({ email: "b@test.com", phoneNumber: "200" }); // id=2
+      await post({ email: "c@test.com", phoneNumber: "300" }); // id=3
+      const merged = await post({ email: "a@test.com", phoneNumber: "200" });
+      const refused = await post({ email: "a@test.com", phoneNumber: "300" });
+      const plain = await post({ email: "d@test.com" });
+
+      expect(merged.status).toBe(200);
+      expect(refused.status).toBe(429);
+      expect(refused.body).toEqual({ error: "Too many merging requests" });
+      expect(refused.headers["retry-after"]).toBeDefined();
+      expect(plain.status).toBe(200);
+
+      const contact3 = await storedContact(3);
+      expect(contact3.linkPrecedence).toBe("primary");
+    },
+    25000
+  );
+
+  it(
+    "spends no merge tokens on previews",
+    async () => {
+      process.env.RATE_LIMIT_MERGE_BURST = "1";
+      process.env.RATE_LIMIT_MERGE_PER_SECOND = "0.01";
+
+      await post({ email: "a@test.com", phoneNumber: "100" }); // id=1
+      await post({ email: "b@test.com", phoneNumber: "200" }); // id=2
+      const bridge = { email: "a@test.com", phoneNumber: "200" };
+      const previews = [
+        await api().post("/identify/preview").send(bridge),
+        await api().post("/identify/preview").send(bridge),
+      ];
+      const merged = await post(bridge);
+
+      expect(previews.map((p) => p.status)).toEqual([200, 200]);
+      expect(merged.status).toBe(200);
+      // Previews use up contact ids, like any rolled-back insert
+      expect(merged.body.contact.secondaryContactIds).toEqual([2, 5]);
+    },
+    25000
+  );
+});
+
+// =============================================================================
+// STORAGE TRANSACTIONS
+// =============================================================================
+
+describe("Storage transactions", () => {
+  class Rollback extends Error {}
+
+  const matches = (repo: ContactRepository) =>
+    repo.findDirectMatches(TEST_TENANT_ID, "doc@hillvalley.edu", null);
+
+  it("discards every write of a transaction that throws", async () => {
+    const repo = contactStore();
+    await expect(
+      repo.transaction(async (tx) => {
+        await resolveIdentity(tx, TEST_TENANT_ID, { email: "doc@hillvalley.edu" });
+        expect(await matches(tx)).toHaveLength(1);
+        throw new Rollback();
+      })
+    ).rejects.toBeInstanceOf(Rollback);
+
+    expect(await matches(repo)).toEqual([]);
+  }, 15000);
+
+  it("joins the enclosing transaction when called on a scoped repository", async () => {
+    const repo = contactStore();
+    await expect(
+      repo.transaction(async (tx) => {
+        await tx.transaction((inner) =>
+          resolveIdentity(inner, TEST_TENANT_ID, { email: "doc@hillvalley.edu" })
+        );
+        throw new Rollback();
+      })
+    ).rejects.toBeInstanceOf(Rollback);
+
+    expect(await matches(repo)).toEqual([]);
+  }, 15000);
+
+  it("commits an atomic batch as a whole or not at all", async () => {
+    const repo = contactStore();
+    await expect(
+      identifyBatch(
+        TEST_TENANT_ID,
+        [{ email: "doc@hillvalley.edu" }, { email: null, phoneNumber: null }],
+        { atomic: true, timeoutMs: 10000 },
+        repo
+      )
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(await matches(repo)).toEqual([]);
+
+    const results = await identifyBatch(
+      TEST_TENANT_ID,
+      [{ email: "doc@hillvalley.edu" }, { email: "doc@hillvalley.edu", phoneNumber: "123456" }],
+      { atomic: true, timeoutMs: 10000 },
+      repo
+    );
+    expect(results.map((r) => r.status)).toEqual([200, 200]);
+    expect(await matches(repo)).toHaveLength(2);
+  }, 15000);
+
+  it("does not hand out a dry run's provisional id again", async () => {
+    await post({ email: "doc@hillvalley.edu" }); // id=1
+
+    const preview = await previewIdentify(TEST_TENANT_ID, {
+      email: "doc@hillvalley.edu",
+      phoneNumber: "123456",
+    });
+    expect(preview.changes.newContact).toEqual({ id: 2, linkPrecedence: "secondary", linkedId: 1 });
+
+    const real = await post({ email: "doc@hillvalley.edu", phoneNumber: "123456" });
+    expect(real.body.contact.secondaryContactIds).toEqual([3]);
+  }, 15000);
+
+  it("refuses a transaction's repository once the transaction is over", async () => {
+    let leaked: ContactRepository | undefined;
+    await contactStore().transaction(async (tx) => {
+      leaked = tx;
+    });
+
+    await expect(matches(leaked!)).rejects.toThrow();
+  }, 15000);
+});
@@ -0,0 +1,208 @@
+/**
+ * Integration tests for the cluster integrity checker and repair.
+ *
+ * Healthy clusters are built through POST /identify; the corruption under
+ * test is then written straight to the table, since the service never
+ * produces it. Requires a live PostgreSQL database; skipped on
+ * CONTACT_STORE=memory.
+ */
+
+import { prisma } from "../lib/prisma";
+import { cleanDb, api, adminApi, describePostgres } from "./helpers";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+async function identify(body: Record<string, unknown>) {
+  return api().post("/identify").send(body);
+}
+
+async function check() {
+  const res = await adminApi().get("/admin/integrity");
+  expect(res.status).toBe(200);
+  return res.body;
+}
+
+async function repair() {
+  const res = await adminApi().post("/admin/integrity/repair");
+  expect(res.status).toBe(200);
+  return res.body;
+}
+
+async function corrupt(id: number, data: Record<string, unknown>) {
+  await prisma.contact.update({ where: { id }, data });
+}
+
+const kinds = (violations: { kind: string; contactIds: number[] }[]) =>
+  violations.map((v) => [v.kind, v.contactIds]);
+
+// ── Setup / Teardown ──────────────────────────────────────────────────────────
+
+beforeEach(async () => {
+  await cleanDb();
+});
+
+afterAll(async () => {
+  await cleanDb();
+  await prisma.$disconnect();
+});
+
+// =============================================================================
+// CHECK
+// =============================================================================
+
+describePostgres("GET /admin/integrity", () => {
+  it(
+    "reports nothing for clusters built by /identify",
+    async () => {
+      await identify({ email: "a@test.com", phoneNumber: "100" });
+      await identify({ email: "b@test.com", phoneNumber: "100" });
+      await identify({ email: "c@test.com", phoneNumber: "200" });
+
+      const report = await check();
+      expect(report).toMatchObject({ contactsScanned: 3, violations: [] });
+    },
+    20000
+  );
+
+  it(
+    "reports every broken link with its row ids",
+    async () => {
+      await identify({ email: "a@test.com", phoneNumber: "100" }); // id=1
+      await identify({ email: "b@test.com", phoneNumber: "100" }); // id=2 under 1
+      await identify({ email: "c@test.com", phoneNumber: "300" }); // id=3
+      await identify({ email: "d@test.com", phoneNumber: "400" }); // id=4
+
+      await corrupt(3, { linkPrecedence: "secondary", linkedId: 2 }); // chain 3 → 2 → 1
+      await corrupt(4, { linkedId: 1 }); // primary with a link
+
+      const report = await check();
+      expect(kinds(report.violations)).toEqual([
+        ["chained_link", [3]],
+        ["primary_with_link", [4]],
+      ]);
+      expect(report.violations[0].message).toBe("Secondary 3 points at secondary 2");
+    },
+    20000
+  );
+
+  it(
+    "reports clusters that share an identifier without being linked",
+    async () => {
+      await identify({ email: "a@test.com" }); // id=1
+      await identify({ email: "b@test.com" }); // id=2
+      await corrupt(2, { email: "a@test.com", emailNormalized: "a@test.com" });
+
+      const report = await check();
+      expect(report.violations).toEqual([
+        {
+          kind: "unlinked_shared_identifier",
+          contactIds: [1, 2],
+          message: "Clusters 1, 2 share an email but are not linked",
+        },
+      ]);
+    },
+    20000
+  );
+
+  it(
+    "ignores clusters that were split on purpose",
+    async () => {
+      await identify({ email: "a@test.com", phoneNumber: "100" }); // id=1
+      await identify({ email: "b@test.com", phoneNumber: "100" }); // id=2
+      await api().post("/contacts/2/unlink").send({ reason: "shared phone" });
+
+      expect((await check()).violations).toEqual([]);
+    },
+    20000
+  );
+});
+
+// =============================================================================
+// REPAIR
+// =============================================================================
+
+describePostgres("POST /admin/integrity/repair", () => {
+  it(
+    "flattens chains and clears stray links",
+    async () => {
+      await identify({ email: "a@test.com", phoneNumber: "100" }); // id=1
+      await identify({ email: "b@test.com", phoneNumber: "100" }); // id=2 under 1
+      await identify({ email: "c@test.com", phoneNumber: "300" }); // id=3
+      await identify({ email: "d@test.com", phoneNumber: "400" }); // id=4
+      await corrupt(3, { linkPrecedence: "secondary", linkedId: 2 });
+      await corrupt(4, { linkedId: 1 });
+
+      const report = await repair();
+      expect(report.repairs).toEqual([
+        { action: "promoted", contactIds: [4], primaryId: 4 },
+        { action: "relinked", contactIds: [3], primaryId: 1 },
+      ]);
+      expect(report.remaining).toEqual([]);
+
+      const c3 = await prisma.contact.findUnique({ where: { id: 3 } });
+      expect(c3).toMatchObject({ linkPrecedence: "secondary", linkedId: 1 });
+      const c4 = await prisma.contact.findUnique({ where: { id: 4 } });
+      expect(c4).toMatchObject({ linkPrecedence: "primary", linkedId: null });
+    },
+    25000
+  );
+
+  it(
+    "elects a new primary for secondaries left without one",
+    async () => {
+      await identify({ email: "a@test.com", phoneNumber: "100" }); // id=1
+      await identify({ email: "b@test.com", phoneNumber: "100" }); // id=2 under 1
+      await identify({ email: "c@test.com", phoneNumber: "100" }); // id=3 under 1
+      await corrupt(1, { deletedAt: new Date() }); // deleted without a successor
+
+      expect(kinds((await check()).violations)).toEqual([
+        ["dangling_link", [2]],
+        ["dangling_link", [3]],
+      ]);
+
+      const report = await repair();
+      expect(report.repairs).toEqual([
+        { action: "promoted", contactIds: [2], primaryId: 2 },
+        { action: "relinked", contactIds: [3], primaryId: 2 },
+      ]);
+      expect(report.remaining).toEqual([]);
+
+      const res = await api().get("/contacts/3");
+      expect(res.body.contact).toMatchObject({ primaryContactId: 2, secondaryContactIds: [3] });
+    },
+    25000
+  );
+
+  it(
+    "merges clusters that share an identifier and records why",
+    async () => {
+      await identify({ email: "a@test.com", identifiers: [{ type: "deviceId", value: "dev-1" }] }); // id=1
+      await identify({ email: "b@test.com" }); // id=2
+      await prisma.contactIdentifier.create({
+        data: { contactId: 2, type: "deviceId", value: "DEV-1", normalizedValue: "dev-1" },
+      });
+
+      const report = await repair();
+      expect(report.violations.map((v: any) => v.message)).toEqual([
+        "Clusters 1, 2 share a deviceId but are not linked",
+      ]);
+      expect(report.repairs).toEqual([{ action: "merged", contactIds: [1, 2], primaryId: 1 }]);
+      expect(report.remaining).toEqual([]);
+
+      const [event] = await prisma.contactLinkEvent.findMany({ where: { contactId: 2, type: "demoted" } });
+      expect(event).toMatchObject({ newLinkedId: 1, reason: "integrity repair" });
+    },
+    25000
+  );
+
+  it(
+    "does nothing on a healthy table",
+    async () => {
+      await identify({ email: "a@test.com", phoneNumber: "100" });
+
+      const report = await repair();
+      expect(report).toMatchObject({ violations: [], repairs: [], remaining: [] });
+    },
+    20000
+  );
+});
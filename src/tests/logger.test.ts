@@ -0,0 +1,112 @@
+/**
+ * Unit tests for the logger: levels, redaction and request ids (no database
+ * needed).
+ */
+
+import { logger, maskEmail, maskPhone, maskText, redact } from "../lib/logger";
+import { runWithRequestContext } from "../lib/request-context";
+
+let written: string[];
+let stdout: jest.SpyInstance;
+let stderr: jest.SpyInstance;
+
+beforeEach(() => {
+  written = [];
+  const capture = (chunk: string | Uint8Array) => {
+    written.push(String(chunk));
+    return true;
+  };
+  stdout = jest.spyOn(process.stdout, "write").mockImplementation(capture);
+  stderr = jest.spyOn(process.stderr, "write").mockImplementation(capture);
+});
+
+afterEach(() => {
+  stdout.mockRestore();
+  stderr.mockRestore();
+  delete process.env.LOG_LEVEL;
+});
+
+const entries = () => written.map((line) => JSON.parse(line));
+
+describe("log levels", () => {
+  it("drops debug by default and keeps it at LOG_LEVEL=debug", () => {
+    logger.debug("hidden");
+    expect(written).toHaveLength(0);
+
+    process.env.LOG_LEVEL = "debug";
+    logger.debug("shown");
+    expect(entries()[0]).toMatchObject({ level: "debug", message: "shown" });
+  });
+
+  it("keeps only errors at LOG_LEVEL=error", () => {
+    process.env.LOG_LEVEL = "error";
+    logger.info("hidden");
+    logger.warn("hidden");
+    logger.error("shown");
+    expect(entries().map((e) => e.level)).toEqual(["error"]);
+  });
+});
+
+describe("redaction", () => {
+  it("masks email and phone fields wherever they are nested", () => {
+    expect(
+      redact({
+        email: "george@hillvalley.edu",
+        input: { phoneNumber: "+1 415 555 0123", emails: ["doc@hillvalley.edu"] },
+        count: 2,
+      })
+    ).toEqual({
+      email: "g***@hillvalley.edu",
+      input: { phoneNumber: "***23", emails: ["d***@hillvalley.edu"] },
+      count: 2,
+    });
+  });
+
+  it("masks emails inside free text", () => {
+    expect(maskEmail('duplicate key "marty@hillvalley.edu"')).toBe('duplicate key "m***@hillvalley.edu"');
+    expect(maskPhone("12")).toBe("***");
+  });
+
+  it("masks phone numbers inside free text, leaving dates, ids and addresses", () => {
+    expect(maskText("Key (phone)=(+1 (415) 555-0123) already exists")).toBe(
+      "Key (phone)=(***23) already exists"
+    );
+    expect(maskText("retry 4155550123 for doc@hillvalley.edu")).toBe(
+      "retry ***23 for d***@hillvalley.edu"
+    );
+    expect(maskText("contact 42 on 2024-05-01T10:00:00.000Z")).toBe(
+      "contact 42 on 2024-05-01T10:00:00.000Z"
+    );
+    expect(maskText("since 2024-05-01 from 192.168.100.200")).toBe(
+      "since 2024-05-01 from 192.168.100.200"
+    );
+    expect(maskText("request 0b6f3e1c-1234-5678-9abc-000000000001")).toBe(
+      "request 0b6f3e1c-1234-5678-9abc-000000000001"
+    );
+  });
+
+  it("applies to the message and metadata of every entry", () => {
+    logger.info("lookup for biff@hillvalley.edu", {
+      phoneNumber: "555-0199",
+      error: "no match for 555 0199",
+    });
+    expect(entries()[0]).toMatchObject({
+      message: "lookup for b***@hillvalley.edu",
+      phoneNumber: "***99",
+      error: "no match for ***99",
+    });
+  });
+});
+
+describe("request ids", () => {
+  it("attaches the current request id, across awaits", async () => {
+    await runWithRequestContext({ requestId: "req-123" }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      logger.warn("inside");
+    });
+    logger.info("outside");
+
+    expect(entries()[0]).toMatchObject({ message: "inside", requestId: "req-123" });
+    expect(entries()[1].requestId).toBeUndefined();
+  });
+});
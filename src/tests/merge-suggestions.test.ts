@@ -0,0 +1,265 @@
+/**
+ * Integration tests for merge suggestions: the scan that fills the review
+ * queue and the /merge-suggestions routes that work through it.
+ *
+ * Requires a live PostgreSQL database and serial execution (--runInBand);
+ * skipped on CONTACT_STORE=memory, which has no merge suggestions.
+ */
+
+import { prisma } from "../lib/prisma";
+import { scanMergeSuggestions } from "../services/merge-suggestion.service";
+import { cleanDb, api, adminApi, describePostgres, TEST_TENANT_ID } from "./helpers";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+async function identify(body: Record<string, unknown>) {
+  const res = await api().post("/identify").send(body);
+  expect(res.status).toBe(200);
+  return res.body.contact;
+}
+
+async function pending() {
+  const res = await api().get("/merge-suggestions");
+  expect(res.status).toBe(200);
+  return res.body.suggestions;
+}
+
+// ── Setup / Teardown ──────────────────────────────────────────────────────────
+
+beforeEach(async () => {
+  await cleanDb();
+});
+
+afterEach(() => {
+  delete process.env.MERGE_SUGGESTION_RULES;
+  delete process.env.MERGE_SUGGESTION_MIN_SCORE;
+});
+
+afterAll(async () => {
+  await cleanDb();
+  await prisma.$disconnect();
+});
+
+// =============================================================================
+// SCAN
+// =============================================================================
+
+describePostgres("scan", () => {
+  it(
+    "suggests near-duplicate clusters without merging them",
+    async () => {
+      await identify({ email: "john.smith@gmail.com", phoneNumber: "+14155550123" });
+      await identify({ email: "jon.smith@gmail.com", phoneNumber: "+12125550123" });
+      await identify({ email: "doc@hillvalley.edu", phoneNumber: "+13105550188" });
+      await identify({ email: "marty@hillvalley.edu", phoneNumber: "+13105550181" });
+
+      const summary = await scanMergeSuggestions(TEST_TENANT_ID);
+      expect(summary).toMatchObject({ clustersScanned: 4, suggested: 1, removed: 0 });
+
+      const [suggestion] = await pending();
+      expect(suggestion).toMatchObject({
+        contactIdA: 1,
+        contactIdB: 2,
+        status: "pending",
+        decidedAt: null,
+      });
+      expect(suggestion.score).toBeGreaterThan(0.95);
+      expect(suggestion.reasons.map((r: { rule: string }) => r.rule)).toEqual([
+        "email-edit-distance",
+        "email-name",
+        "phone-last-four",
+      ]);
+      expect(JSON.stringify(suggestion.reasons)).not.toMatch(/smith|0123/);
+
+      expect(await prisma.contact.count({ where: { linkPrecedence: "primary" } })).toBe(4);
+    },
+    15000
+  );
+
+  it(
+    "finds a phone number with two digits swapped",
+    async () => {
+      await identify({ phoneNumber: "+14155550123" });
+      await identify({ phoneNumber: "+14155550132" });
+
+      await scanMergeSuggestions(TEST_TENANT_ID);
+      const [suggestion] = await pending();
+      expect(suggestion.reasons).toEqual([
+        expect.objectContaining({ rule: "phone-transposition", score: 0.85 }),
+      ]);
+    },
+    15000
+  );
+
+  it(
+    "honours the configured rules and threshold",
+    async () => {
+      await identify({ phoneNumber: "+14155550123" });
+      await identify({ phoneNumber: "+12125550123" });
+
+      await scanMergeSuggestions(TEST_TENANT_ID);
+      expect(await pending()).toHaveLength(0);
+
+      process.env.MERGE_SUGGESTION_MIN_SCORE = "0.25";
+      await scanMergeSuggestions(TEST_TENANT_ID);
+      expect(await pending()).toHaveLength(1);
+
+      process.env.MERGE_SUGGESTION_RULES = "email-name";
+      const summary = await scanMergeSuggestions(TEST_TENANT_ID);
+      expect(summary).toMatchObject({ suggested: 0, removed: 1 });
+      expect(await pending()).toHaveLength(0);
+    },
+    15000
+  );
+
+  it(
+    "leaves clusters that already share an identifier to exact matching",
+    async () => {
+      await identify({ email: "john.smith@gmail.com", phoneNumber: "+14155550123" });
+      await identify({ email: "jon.smith@gmail.com", phoneNumber: "+14155550123" });
+      const unlinked = await api().post("/contacts/2/unlink").send({ reason: "test" });
+      expect(unlinked.status).toBe(200);
+
+      const summary = await scanMergeSuggestions(TEST_TENANT_ID);
+      expect(summary.suggested).toBe(0);
+    },
+    15000
+  );
+
+  it(
+    "only compares clusters of the same tenant",
+    async () => {
+      await identify({ email: "john.smith@gmail.com" });
+      const tenant = await adminApi().post("/admin/tenants").send({ name: "other" });
+      const issued = await adminApi()
+        .post(`/admin/tenants/${tenant.body.id}/api-keys`)
+        .send({ name: "other key" });
+      await api(issued.body.key).post("/identify").send({ email: "jon.smith@gmail.com" });
+
+      expect((await scanMergeSuggestions(TEST_TENANT_ID)).suggested).toBe(0);
+      expect((await scanMergeSuggestions(tenant.body.id)).suggested).toBe(0);
+    },
+    15000
+  );
+});
+
+// =============================================================================
+// REVIEW
+// =============================================================================
+
+describePostgres("review", () => {
+  async function suggestPair() {
+    await identify({ email: "john.smith@gmail.com", phoneNumber: "+14155550123" });
+    await identify({ email: "jon.smith@gmail.com", phoneNumber: "+12125550123" });
+    await scanMergeSuggestions(TEST_TENANT_ID);
+    return (await pending())[0].id as number;
+  }
+
+  it(
+    "accept merges the two clusters through the normal merge path",
+    async () => {
+      const id = await suggestPair();
+
+      const res = await api().post(`/merge-suggestions/${id}/accept`);
+      expect(res.status).toBe(200);
+      expect(res.body.suggestion).toMatchObject({ id, status: "accepted" });
+      expect(res.body.suggestion.decidedAt).not.toBeNull();
+      expect(res.body.cluster.contact).toEqual({
+        primaryContactId: 1,
+        emails: ["john.smith@gmail.com", "jon.smith@gmail.com"],
+        phoneNumbers: ["+14155550123", "+12125550123"],
+        secondaryContactIds: [2],
+        identifiers: {
+          email: ["john.smith@gmail.com", "jon.smith@gmail.com"],
+          phoneNumber: ["+14155550123", "+12125550123"],
+        },
+        verification: {
+          email: { "john.smith@gmail.com": "unverified", "jon.smith@gmail.com": "unverified" },
+          phoneNumber: { "+14155550123": "unverified", "+12125550123": "unverified" },
+        },
+      });
+
+      const demoted = await prisma.contactLinkEvent.findFirst({ where: { type: "demoted" } });
+      expect(demoted).toMatchObject({
+        contactId: 2,
+        newLinkedId: 1,
+        reason: `merge suggestion ${id} accepted`,
+      });
+      expect(await prisma.outboxEvent.count({ where: { type: "cluster.merged" } })).toBe(1);
+
+      expect(await pending()).toHaveLength(0);
+      const accepted = await api().get("/merge-suggestions?status=accepted");
+      expect(accepted.body.suggestions.map((s: { id: number }) => s.id)).toEqual([id]);
+    },
+    15000
+  );
+
+  it(
+    "accept follows contacts that moved since the scan",
+    async () => {
+      const id = await suggestPair();
+      // Merged by hand in the meantime
+      await identify({ email: "john.smith@gmail.com", phoneNumber: "+12125550123" });
+
+      const res = await api().post(`/merge-suggestions/${id}/accept`);
+      expect(res.status).toBe(200);
+      expect(res.body.cluster.contact.primaryContactId).toBe(1);
+      expect(res.body.cluster.contact.secondaryContactIds).toContain(2);
+      // Demoted by the identify call, not again by the accept
+      expect(await prisma.contactLinkEvent.count({ where: { type: "demoted" } })).toBe(1);
+    },
+    15000
+  );
+
+  it(
+    "reject dismisses the pair for good",
+    async () => {
+      const id = await suggestPair();
+
+      const res = await api().post(`/merge-suggestions/${id}/reject`);
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ id, status: "rejected" });
+
+      const summary = await scanMergeSuggestions(TEST_TENANT_ID);
+      expect(summary.suggested).toBe(0);
+      expect(await pending()).toHaveLength(0);
+      expect(await prisma.contact.count({ where: { linkPrecedence: "primary" } })).toBe(2);
+    },
+    15000
+  );
+
+  it(
+    "refuses decided, unknown and other tenants' suggestions",
+    async () => {
+      const id = await suggestPair();
+      await api().post(`/merge-suggestions/${id}/reject`);
+
+      expect((await api().post(`/merge-suggestions/${id}/accept`)).status).toBe(409);
+      expect((await api().post(`/merge-suggestions/${id}/reject`)).status).toBe(409);
+      expect((await api().post("/merge-suggestions/999/accept")).status).toBe(404);
+      expect((await api().post("/merge-suggestions/abc/accept")).status).toBe(400);
+      expect((await api().get("/merge-suggestions?status=maybe")).status).toBe(400);
+
+      const tenant = await adminApi().post("/admin/tenants").send({ name: "other" });
+      const issued = await adminApi()
+        .post(`/admin/tenants/${tenant.body.id}/api-keys`)
+        .send({ name: "other key" });
+      const other = await api(issued.body.key).get("/merge-suggestions?status=rejected");
+      expect(other.body).toEqual({ suggestions: [] });
+    },
+    15000
+  );
+
+  it(
+    "refuses a suggestion whose contact was deleted",
+    async () => {
+      const id = await suggestPair();
+      await api().delete("/contacts/2");
+
+      const res = await api().post(`/merge-suggestions/${id}/accept`);
+      expect(res.status).toBe(409);
+      expect(res.body.error).toMatch(/can no longer be accepted/);
+    },
+    15000
+  );
+});
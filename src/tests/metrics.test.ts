@@ -0,0 +1,107 @@
+/**
+ * Integration tests for GET /metrics.
+ *
+ * The registry lives for the whole process, so tests compare values before
+ * and after an action instead of asserting absolute counts. Runs on either
+ * storage backend, like identify.test.ts.
+ */
+
+import { prisma } from "../lib/prisma";
+import { cleanDb, api, onPostgres } from "./helpers";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+async function scrape(): Promise<string> {
+  const res = await api().get("/metrics");
+  expect(res.status).toBe(200);
+  expect(res.headers["content-type"]).toMatch(/^text\/plain/);
+  return res.text;
+}
+
+/** Value of one sample, e.g. `identity_merges_total` or `x{a="b"}`; 0 if absent. */
+function sample(text: string, series: string): number {
+  const line = text.split("\n").find((l) => l.startsWith(`${series} `));
+  return line ? Number(line.slice(series.length + 1)) : 0;
+}
+
+async function identify(body: Record<string, unknown>) {
+  return api().post("/identify").send(body);
+}
+
+// ── Setup / Teardown ──────────────────────────────────────────────────────────
+
+beforeEach(async () => {
+  await cleanDb();
+});
+
+afterAll(async () => {
+  await cleanDb();
+  await prisma.$disconnect();
+});
+
+// =============================================================================
+// METRICS
+// =============================================================================
+
+describe("GET /metrics", () => {
+  it(
+    "counts identify() outcomes, merges and demoted primaries",
+    async () => {
+      const before = await scrape();
+
+      await identify({ email: "a@test.com", phoneNumber: "100" }); // new primary
+      await identify({ email: "b@test.com", phoneNumber: "200" }); // new primary
+      await identify({ email: "a@test.com", phoneNumber: "200" }); // merge, new secondary
+      await identify({ email: "a@test.com", phoneNumber: "200" }); // idempotent
+
+      const after = await scrape();
+      const delta = (series: string) => sample(after, series) - sample(before, series);
+
+      expect(delta('identity_resolutions_total{outcome="new_primary"}')).toBe(2);
+      expect(delta('identity_resolutions_total{outcome="new_secondary"}')).toBe(1);
+      expect(delta('identity_resolutions_total{outcome="idempotent"}')).toBe(1);
+      expect(delta("identity_merges_total")).toBe(1);
+      expect(delta("identity_demoted_primaries_total")).toBe(1);
+      expect(delta("identity_cluster_size_count")).toBe(4);
+      expect(delta('identity_cluster_size_bucket{le="1"}')).toBe(2);
+    },
+    25000
+  );
+
+  it(
+    "does not count dry runs",
+    async () => {
+      const before = await scrape();
+      await identify({ email: "a@test.com", dryRun: true });
+      const after = await scrape();
+
+      expect(sample(after, 'identity_resolutions_total{outcome="new_primary"}')).toBe(
+        sample(before, 'identity_resolutions_total{outcome="new_primary"}')
+      );
+    },
+    20000
+  );
+
+  it(
+    "labels requests with the route pattern and status code",
+    async () => {
+      await api().get("/contacts/999999");
+      await api().get("/no-such-route");
+
+      const text = await scrape();
+      expect(
+        sample(text, 'http_requests_total{method="GET",route="/contacts/:id",status_code="404"}')
+      ).toBeGreaterThanOrEqual(1);
+      expect(
+        sample(text, 'http_requests_total{method="GET",route="unmatched",status_code="404"}')
+      ).toBeGreaterThanOrEqual(1);
+      expect(text).toContain("http_request_duration_seconds_bucket");
+      // Query timings come from Prisma's query events
+      if (onPostgres) {
+        expect(text).toContain('prisma_query_duration_seconds_count{operation="select"}');
+      }
+      expect(text).toContain("db_transaction_retries_total");
+    },
+    20000
+  );
+});
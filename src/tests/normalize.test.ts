@@ -0,0 +1,54 @@
+/**
+ * Unit tests for email / phone canonicalization (no database needed).
+ */
+
+import { normalizeEmail, normalizePhone, NormalizationConfig } from "../lib/normalize";
+
+const plain: NormalizationConfig = { defaultRegion: "US", emailProviderRules: false };
+const withRules: NormalizationConfig = { defaultRegion: "US", emailProviderRules: true };
+
+describe("normalizeEmail", () => {
+  it("case-folds and trims", () => {
+    expect(normalizeEmail("  Foo@Example.COM ", plain)).toBe("foo@example.com");
+  });
+
+  it("returns null for empty input", () => {
+    expect(normalizeEmail(null, plain)).toBeNull();
+    expect(normalizeEmail("", plain)).toBeNull();
+  });
+
+  it("leaves Gmail dots and plus-tags alone unless provider rules are on", () => {
+    expect(normalizeEmail("j.doe+shop@gmail.com", plain)).toBe("j.doe+shop@gmail.com");
+    expect(normalizeEmail("J.Doe+shop@GoogleMail.com", withRules)).toBe("jdoe@gmail.com");
+  });
+
+  it("strips plus-tags but keeps dots for providers that only alias tags", () => {
+    expect(normalizeEmail("j.doe+news@outlook.com", withRules)).toBe("j.doe@outlook.com");
+  });
+
+  it("does not rewrite unknown domains", () => {
+    expect(normalizeEmail("j.doe+x@hillvalley.edu", withRules)).toBe("j.doe+x@hillvalley.edu");
+  });
+});
+
+describe("normalizePhone", () => {
+  it("formats national and international spellings to the same E.164 value", () => {
+    expect(normalizePhone("+1 (555) 010-2000", plain)).toBe("+15550102000");
+    expect(normalizePhone("15550102000", plain)).toBe("+15550102000");
+    expect(normalizePhone("555-010-2000", plain)).toBe("+15550102000");
+  });
+
+  it("uses the configured default region", () => {
+    expect(normalizePhone("020 7946 0958", { ...plain, defaultRegion: "GB" })).toBe("+442079460958");
+  });
+
+  it("falls back to digits for numbers that cannot be E.164", () => {
+    expect(normalizePhone("123456", plain)).toBe("123456");
+    expect(normalizePhone("12-34 56", plain)).toBe("123456");
+  });
+
+  it("returns null for empty input", () => {
+    expect(normalizePhone(null, plain)).toBeNull();
+    expect(normalizePhone("()", plain)).toBeNull();
+  });
+});
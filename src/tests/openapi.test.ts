@@ -0,0 +1,70 @@
+/**
+ * Tests for the OpenAPI document: that it builds, is served, and covers
+ * exactly the routes app.ts mounts (no database needed).
+ */
+
+import request from "supertest";
+import app from "../app";
+import { openApiDocument } from "../openapi";
+import { ValidationErrorSchema, validationError } from "../validation/errors";
+import { IdentifySchema } from "../validation/identify.schema";
+
+const METHODS = ["get", "post", "put", "patch", "delete"] as const;
+
+/** "METHOD /path" for every route app.ts mounts, with :params as {params}. */
+function appRoutes(): string[] {
+  const stack = (app as unknown as { _router: { stack: { route?: { path: string; methods: Record<string, boolean> } }[] } })._router.stack;
+  return stack.flatMap(({ route }) =>
+    route
+      ? Object.keys(route.methods).map(
+          (m) => `${m.toUpperCase()} ${route.path.replace(/:(\w+)/g, "{$1}")}`
+        )
+      : []
+  );
+}
+
+function specRoutes(): string[] {
+  return Object.entries(openApiDocument().paths ?? {}).flatMap(([path, item]) =>
+    METHODS.filter((m) => item[m] !== undefined).map((m) => `${m.toUpperCase()} ${path}`)
+  );
+}
+
+describe("OpenAPI document", () => {
+  it("is an OpenAPI 3.1 document", () => {
+    const doc = openApiDocument();
+    expect(doc.openapi).toBe("3.1.0");
+    expect(doc.components?.schemas).toHaveProperty("ValidationError");
+    expect(doc.components?.securitySchemes).toHaveProperty("apiKey");
+  });
+
+  it("documents every route the app serves, and nothing else", () => {
+    expect(specRoutes().sort()).toEqual(appRoutes().sort());
+  });
+
+  it("is served at /openapi.json without authentication", async () => {
+    const res = await request(app).get("/openapi.json");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(JSON.parse(JSON.stringify(openApiDocument())));
+  });
+
+  it("serves Swagger UI at /docs", async () => {
+    const res = await request(app).get("/docs/");
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toMatch(/^text\/html/);
+  });
+});
+
+describe("validation errors", () => {
+  it("match the documented ValidationError schema", () => {
+    const parsed = IdentifySchema.safeParse({ email: 42 });
+    expect(parsed.success).toBe(false);
+    if (parsed.success) return;
+
+    expect(ValidationErrorSchema.safeParse(validationError(parsed.error.errors)).success).toBe(true);
+    expect(
+      ValidationErrorSchema.safeParse(validationError(parsed.error.errors, "Idempotency-Key")).success
+    ).toBe(true);
+  });
+});
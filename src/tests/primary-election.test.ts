@@ -0,0 +1,114 @@
+/**
+ * Unit tests for primary-election strategies (no database needed).
+ */
+
+import { Contact } from "../repositories/contact.repository";
+import {
+  rankPrimaries,
+  primaryElectionStrategy,
+  oldestFirst,
+  completeFirst,
+  verifiedFirst,
+  mostSecondariesFirst,
+} from "../services/primary-election";
+
+let nextId = 1;
+
+function contact(overrides: Partial<Contact>): Contact {
+  const id = overrides.id ?? nextId++;
+  return {
+    id,
+    tenantId: 1,
+    email: null,
+    phoneNumber: null,
+    emailNormalized: null,
+    phoneNormalized: null,
+    linkedId: null,
+    linkPrecedence: "primary",
+    emailVerification: "unverified",
+    phoneVerification: "unverified",
+    createdAt: new Date(2024, 0, id),
+    updatedAt: new Date(2024, 0, id),
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+const ids = (contacts: Contact[]) => contacts.map((c) => c.id);
+
+describe("rankPrimaries", () => {
+  it("oldest: orders primaries by createdAt, ignoring secondaries", () => {
+    const cluster = [
+      contact({ id: 3, email: "c@test.com" }),
+      contact({ id: 1, email: "a@test.com" }),
+      contact({ id: 4, linkPrecedence: "secondary", linkedId: 3 }),
+      contact({ id: 2, email: "b@test.com" }),
+    ];
+    expect(ids(rankPrimaries(cluster, oldestFirst))).toEqual([1, 2, 3]);
+  });
+
+  it("breaks createdAt ties on the lower id", () => {
+    const at = new Date(2024, 5, 1);
+    const cluster = [contact({ id: 8, createdAt: at }), contact({ id: 7, createdAt: at })];
+    expect(ids(rankPrimaries(cluster, oldestFirst))).toEqual([7, 8]);
+  });
+
+  it("complete: prefers a primary with both email and phone", () => {
+    const cluster = [
+      contact({ id: 1, email: "a@test.com" }),
+      contact({ id: 2, phoneNumber: "222" }),
+      contact({ id: 3, email: "c@test.com", phoneNumber: "333" }),
+    ];
+    expect(ids(rankPrimaries(cluster, completeFirst))).toEqual([3, 1, 2]);
+  });
+
+  it("verified: prefers a primary holding a verified email or phone", () => {
+    const cluster = [
+      contact({ id: 1, email: "a@test.com" }),
+      contact({ id: 2, phoneNumber: "222", phoneVerification: "verified_otp" }),
+      contact({ id: 3, email: "c@test.com", emailVerification: "verified_partner" }),
+    ];
+    expect(ids(rankPrimaries(cluster, verifiedFirst))).toEqual([2, 3, 1]);
+  });
+
+  it("most-secondaries: prefers the primary heading the largest cluster", () => {
+    const cluster = [
+      contact({ id: 1 }),
+      contact({ id: 2, linkPrecedence: "secondary", linkedId: 1 }),
+      contact({ id: 3 }),
+      contact({ id: 4, linkPrecedence: "secondary", linkedId: 3 }),
+      contact({ id: 5, linkPrecedence: "secondary", linkedId: 3 }),
+    ];
+    expect(ids(rankPrimaries(cluster, mostSecondariesFirst))).toEqual([3, 1]);
+  });
+
+  it("falls back to oldest-first when a strategy cannot tell candidates apart", () => {
+    const cluster = [contact({ id: 2 }), contact({ id: 1 })];
+    for (const strategy of [completeFirst, verifiedFirst, mostSecondariesFirst]) {
+      expect(ids(rankPrimaries(cluster, strategy))).toEqual([1, 2]);
+    }
+  });
+});
+
+describe("primaryElectionStrategy", () => {
+  const original = process.env.PRIMARY_ELECTION_STRATEGY;
+  afterEach(() => {
+    if (original === undefined) delete process.env.PRIMARY_ELECTION_STRATEGY;
+    else process.env.PRIMARY_ELECTION_STRATEGY = original;
+  });
+
+  it("defaults to oldest", () => {
+    delete process.env.PRIMARY_ELECTION_STRATEGY;
+    expect(primaryElectionStrategy()).toBe(oldestFirst);
+  });
+
+  it("selects a strategy by name", () => {
+    process.env.PRIMARY_ELECTION_STRATEGY = "most-secondaries";
+    expect(primaryElectionStrategy()).toBe(mostSecondariesFirst);
+  });
+
+  it("rejects an unknown name", () => {
+    process.env.PRIMARY_ELECTION_STRATEGY = "newest";
+    expect(() => primaryElectionStrategy()).toThrow(/PRIMARY_ELECTION_STRATEGY/);
+  });
+});
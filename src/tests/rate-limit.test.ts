@@ -0,0 +1,85 @@
+/**
+ * Unit tests for the token-bucket store and rate-limit configuration (no
+ * database needed).
+ */
+
+import { MemoryRateLimitStore, rateLimitPolicy } from "../lib/rate-limit";
+
+const policy = { burst: 3, perSecond: 2 };
+
+describe("MemoryRateLimitStore", () => {
+  let now: number;
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    now = 0;
+    store = new MemoryRateLimitStore(() => now);
+  });
+
+  it("allows a burst, then refuses until a token refills", async () => {
+    const states = [];
+    for (let i = 0; i < 4; i++) states.push(await store.consume("k", policy));
+
+    expect(states.map((s) => s.allowed)).toEqual([true, true, true, false]);
+    expect(states.map((s) => s.remaining)).toEqual([2, 1, 0, 0]);
+    expect(states[3].retryAfterSeconds).toBe(1);
+
+    now += 500;
+    expect((await store.consume("k", policy)).allowed).toBe(true);
+    expect((await store.consume("k", policy)).allowed).toBe(false);
+  });
+
+  it("refills continuously up to the burst and reports the time to full", async () => {
+    await store.consume("k", policy);
+    await store.consume("k", policy);
+    expect((await store.consume("k", policy)).resetSeconds).toBe(2);
+
+    now += 60_000;
+    const state = await store.consume("k", policy);
+    expect(state.remaining).toBe(2);
+    expect(state.resetSeconds).toBe(1);
+  });
+
+  it("spends a cost of several tokens at once or not at all", async () => {
+    expect((await store.consume("k", policy, 2)).remaining).toBe(1);
+
+    const refused = await store.consume("k", policy, 2);
+    expect(refused.allowed).toBe(false);
+    expect(refused.remaining).toBe(1);
+    expect(refused.retryAfterSeconds).toBe(1);
+    expect((await store.consume("k", policy)).allowed).toBe(true);
+  });
+
+  it("keeps buckets apart", async () => {
+    for (let i = 0; i < 3; i++) await store.consume("a", policy);
+    expect((await store.consume("a", policy)).allowed).toBe(false);
+    expect((await store.consume("b", policy)).allowed).toBe(true);
+  });
+});
+
+describe("rateLimitPolicy", () => {
+  afterEach(() => {
+    delete process.env.RATE_LIMIT_MERGE_BURST;
+    delete process.env.RATE_LIMIT_MERGE_PER_SECOND;
+  });
+
+  it("uses the defaults, the environment, or null when turned off", () => {
+    expect(rateLimitPolicy("merge")).toEqual({ burst: 30, perSecond: 1 });
+
+    process.env.RATE_LIMIT_MERGE_BURST = "5";
+    process.env.RATE_LIMIT_MERGE_PER_SECOND = "0.5";
+    expect(rateLimitPolicy("merge")).toEqual({ burst: 5, perSecond: 0.5 });
+
+    process.env.RATE_LIMIT_MERGE_BURST = "0";
+    expect(rateLimitPolicy("merge")).toBeNull();
+  });
+
+  it("rejects values that would block every request", () => {
+    process.env.RATE_LIMIT_MERGE_BURST = "abc";
+    expect(() => rateLimitPolicy("merge")).toThrow(/RATE_LIMIT_MERGE_BURST/);
+
+    process.env.RATE_LIMIT_MERGE_BURST = "5";
+    process.env.RATE_LIMIT_MERGE_PER_SECOND = "0";
+    expect(() => rateLimitPolicy("merge")).toThrow(/PER_SECOND above 0/);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Unit tests for the near-duplicate rules behind merge suggestions (no
+ * database needed).
+ */
+
+import {
+  ClusterProfile,
+  blockingKeys,
+  editDistance,
+  emailEditDistance,
+  emailNameMatch,
+  isAdjacentTransposition,
+  phoneLastFour,
+  phoneOneDigit,
+  phoneTransposition,
+  scorePair,
+  suggestionConfig,
+} from "../lib/similarity";
+
+let nextId = 1;
+
+function profile(emails: string[], phones: string[] = []): ClusterProfile {
+  return { primaryId: nextId++, emails, phones };
+}
+
+const sharesBlock = (a: ClusterProfile, b: ClusterProfile) =>
+  blockingKeys(a).some((key) => blockingKeys(b).includes(key));
+
+describe("distances", () => {
+  it("editDistance counts insertions, deletions and substitutions", () => {
+    expect(editDistance("jon", "john")).toBe(1);
+    expect(editDistance("john", "jon")).toBe(1);
+    expect(editDistance("smith", "smyth")).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("", "abc")).toBe(3);
+    expect(editDistance("same", "same")).toBe(0);
+  });
+
+  it("isAdjacentTransposition wants exactly one swapped neighbour pair", () => {
+    expect(isAdjacentTransposition("4155550123", "4155550132")).toBe(true);
+    expect(isAdjacentTransposition("4155550123", "4155550321")).toBe(false);
+    expect(isAdjacentTransposition("4155550123", "4155550124")).toBe(false);
+    expect(isAdjacentTransposition("4155550123", "4155550123")).toBe(false);
+  });
+});
+
+describe("rules", () => {
+  it("email-edit-distance: same domain, local parts a typo apart", () => {
+    const a = profile(["john.smith@gmail.com"]);
+    expect(emailEditDistance.match(a, profile(["jon.smith@gmail.com"]))?.score).toBeCloseTo(0.9);
+    expect(emailEditDistance.match(a, profile(["jon.smith@yahoo.com"]))).toBeNull();
+    expect(emailEditDistance.match(a, profile(["jane.doe@gmail.com"]))).toBeNull();
+    expect(emailEditDistance.match(profile(["ab@x.com"]), profile(["ac@x.com"]))).toBeNull();
+  });
+
+  it("email-name: same family name, compatible given name", () => {
+    const a = profile(["john.smith@acme.com"]);
+    expect(emailNameMatch.match(a, profile(["john_smith84@acme.com"]))?.score).toBe(0.9);
+    expect(emailNameMatch.match(a, profile(["jon-smith@acme.com"]))?.score).toBe(0.8);
+    expect(emailNameMatch.match(a, profile(["j.smith@acme.com"]))?.score).toBe(0.6);
+    expect(emailNameMatch.match(a, profile(["jane.smith@acme.com"]))).toBeNull();
+    expect(emailNameMatch.match(a, profile(["john.smith@other.com"]))).toBeNull();
+    expect(emailNameMatch.match(a, profile(["johnsmith@acme.com"]))).toBeNull();
+  });
+
+  it("phone rules compare digits only and ignore short numbers", () => {
+    const a = profile([], ["+14155550123"]);
+    expect(phoneTransposition.match(a, profile([], ["+14155550132"]))?.score).toBe(0.85);
+    expect(phoneOneDigit.match(a, profile([], ["+14155550124"]))?.score).toBe(0.6);
+    expect(phoneLastFour.match(a, profile([], ["+12125550123"]))?.score).toBe(0.3);
+    expect(phoneLastFour.match(a, profile([], ["+14155550123"]))).toBeNull();
+    expect(phoneOneDigit.match(profile([], ["123456"]), profile([], ["123457"]))).toBeNull();
+  });
+
+  it("never puts identifiers in the detail", () => {
+    const { matches } = scorePair(
+      profile(["john.smith@gmail.com"], ["+14155550123"]),
+      profile(["jon.smith@gmail.com"], ["+12125550123"]),
+      suggestionConfig().rules
+    );
+    expect(matches.length).toBeGreaterThan(0);
+    for (const m of matches) expect(m.detail).not.toMatch(/smith|gmail|0123/);
+  });
+});
+
+describe("scorePair", () => {
+  afterEach(() => {
+    delete process.env.MERGE_SUGGESTION_RULES;
+    delete process.env.MERGE_SUGGESTION_MIN_SCORE;
+  });
+
+  it("combines the rules that fire as independent evidence", () => {
+    const { score, matches } = scorePair(
+      profile(["john.smith@gmail.com"], ["+14155550123"]),
+      profile(["jon.smith@gmail.com"], ["+12125550123"]),
+      suggestionConfig().rules
+    );
+    expect(matches.map((m) => m.rule)).toEqual([
+      "email-edit-distance",
+      "email-name",
+      "phone-last-four",
+    ]);
+    expect(score).toBeCloseTo(1 - 0.1 * 0.2 * 0.7);
+  });
+
+  it("scores 0 when nothing fires", () => {
+    const result = scorePair(
+      profile(["doc@hillvalley.edu"]),
+      profile(["marty@hillvalley.edu"]),
+      suggestionConfig().rules
+    );
+    expect(result).toEqual({ score: 0, matches: [] });
+  });
+
+  it("applies MERGE_SUGGESTION_RULES selection and weights", () => {
+    process.env.MERGE_SUGGESTION_RULES = "phone-last-four:2, email-name";
+    const { rules } = suggestionConfig();
+    expect(rules.map((r) => [r.rule.name, r.weight])).toEqual([
+      ["phone-last-four", 2],
+      ["email-name", 1],
+    ]);
+
+    const { score } = scorePair(
+      profile([], ["+14155550123"]),
+      profile([], ["+12125550123"]),
+      rules
+    );
+    expect(score).toBeCloseTo(0.6);
+  });
+
+  it("rejects unknown rules, bad weights and thresholds", () => {
+    process.env.MERGE_SUGGESTION_RULES = "soundex";
+    expect(() => suggestionConfig()).toThrow(/soundex/);
+    process.env.MERGE_SUGGESTION_RULES = "email-name:0";
+    expect(() => suggestionConfig()).toThrow(/positive/);
+
+    delete process.env.MERGE_SUGGESTION_RULES;
+    process.env.MERGE_SUGGESTION_MIN_SCORE = "1.5";
+    expect(() => suggestionConfig()).toThrow(/MERGE_SUGGESTION_MIN_SCORE/);
+    process.env.MERGE_SUGGESTION_MIN_SCORE = "0.5";
+    expect(suggestionConfig().minScore).toBe(0.5);
+  });
+});
+
+describe("blockingKeys", () => {
+  it("puts every pair a rule can fire on in a shared block", () => {
+    const pairs: [ClusterProfile, ClusterProfile][] = [
+      [profile(["john.smith@gmail.com"]), profile(["jon.smith@gmail.com"])],
+      [profile(["john.smith@acme.com"]), profile(["j.smith@acme.com"])],
+      [profile(["mary.jones@acme.com"]), profile(["marie.jones@acme.com"])],
+      // Two edits apart, with no family name to fall back on
+      [profile(["jonathan84@gmail.com"]), profile(["johnathan8@gmail.com"])],
+      [profile([], ["+14155550123"]), profile([], ["+14155550132"])],
+      [profile([], ["+14155550123"]), profile([], ["+14155550124"])],
+      [profile([], ["+14155550123"]), profile([], ["+12125550123"])],
+    ];
+    for (const [a, b] of pairs) expect(sharesBlock(a, b)).toBe(true);
+  });
+
+  it("keeps unrelated clusters apart", () => {
+    expect(sharesBlock(profile(["doc@hillvalley.edu"]), profile(["marty@hillvalley.edu"]))).toBe(false);
+    expect(sharesBlock(profile([], ["+14155550123"]), profile([], ["+12125559876"]))).toBe(false);
+    expect(sharesBlock(profile(["john.smith@gmail.com"]), profile(["john.smith@yahoo.com"]))).toBe(false);
+  });
+});
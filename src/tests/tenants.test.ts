@@ -0,0 +1,178 @@
+/**
+ * Integration tests for API key authentication, the /admin tenant and key
+ * routes, and per-tenant scoping of contacts.
+ *
+ * Same requirements as identify.test.ts: either storage backend and serial
+ * execution (--runInBand).
+ */
+
+import { prisma } from "../lib/prisma";
+import { cleanDb, api, adminApi, storedRows, TEST_API_KEY } from "./helpers";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Create a second tenant through the admin API and return its id and key. */
+async function otherTenant(): Promise<{ id: number; key: string }> {
+  const tenant = await adminApi().post("/admin/tenants").send({ name: "other" });
+  const issued = await adminApi()
+    .post(`/admin/tenants/${tenant.body.id}/api-keys`)
+    .send({ name: "other key" });
+  return { id: tenant.body.id, key: issued.body.key };
+}
+
+// ── Setup / Teardown ──────────────────────────────────────────────────────────
+
+beforeEach(async () => {
+  await cleanDb();
+});
+
+afterAll(async () => {
+  await cleanDb();
+  await prisma.$disconnect();
+});
+
+// =============================================================================
+// AUTHENTICATION
+// =============================================================================
+
+describe("API key authentication", () => {
+  it("rejects tenant routes without a valid key", async () => {
+    const missing = await api("").post("/identify").send({ email: "a@test.com" });
+    const wrong = await api("idk_not-a-key").get("/contacts/1");
+
+    for (const res of [missing, wrong]) {
+      expect(res.status).toBe(401);
+      expect(res.headers["www-authenticate"]).toBe("Bearer");
+      expect(res.body).toEqual({ error: "Missing or invalid API key" });
+    }
+    expect(await storedRows("contacts")).toHaveLength(0);
+  });
+
+  it("rejects the admin routes with a tenant key", async () => {
+    adminApi(); // configures ADMIN_API_KEY
+    const res = await api().get("/admin/tenants");
+    expect(res.status).toBe(401);
+  });
+
+  it("leaves /health open", async () => {
+    const res = await api("").get("/health");
+    expect(res.status).toBe(200);
+  });
+});
+
+// =============================================================================
+// KEYS
+// =============================================================================
+
+describe("/admin API keys", () => {
+  it(
+    "issues a key that works once and is never shown again",
+    async () => {
+      const { id, key } = await otherTenant();
+      expect(key).toMatch(/^idk_/);
+
+      expect((await api(key).post("/identify").send({ email: "a@test.com" })).status).toBe(200);
+
+      const list = await adminApi().get(`/admin/tenants/${id}/api-keys`);
+      expect(list.status).toBe(200);
+      expect(list.body.apiKeys).toHaveLength(1);
+      expect(list.body.apiKeys[0]).toMatchObject({ name: "other key", prefix: key.slice(0, 12) });
+      expect(list.body.apiKeys[0].key).toBeUndefined();
+      expect(list.body.apiKeys[0].keyHash).toBeUndefined();
+    },
+    15000
+  );
+
+  it(
+    "refuses a revoked key",
+    async () => {
+      const { id, key } = await otherTenant();
+      const [apiKey] = (await adminApi().get(`/admin/tenants/${id}/api-keys`)).body.apiKeys;
+
+      const revoked = await adminApi().delete(`/admin/api-keys/${apiKey.id}`);
+      expect(revoked.status).toBe(200);
+      expect(revoked.body.revokedAt).not.toBeNull();
+
+      const res = await api(key).post("/identify").send({ email: "a@test.com" });
+      expect(res.status).toBe(401);
+    },
+    15000
+  );
+
+  it("returns 404 for an unknown tenant or key", async () => {
+    const tenant = await adminApi().post("/admin/tenants/999/api-keys").send({ name: "k" });
+    const key = await adminApi().delete("/admin/api-keys/999");
+    expect(tenant.status).toBe(404);
+    expect(key.status).toBe(404);
+  });
+
+  it("returns 409 for a duplicate tenant name", async () => {
+    const res = await adminApi().post("/admin/tenants").send({ name: "test" });
+    expect(res.status).toBe(409);
+  });
+});
+
+// =============================================================================
+// ISOLATION
+// =============================================================================
+
+describe("tenant isolation", () => {
+  it(
+    "never merges the same email across tenants",
+    async () => {
+      const other = await otherTenant();
+
+      const mine = await api().post("/identify").send({ email: "same@test.com", phoneNumber: "100" });
+      const theirs = await api(other.key)
+        .post("/identify")
+        .send({ email: "same@test.com", phoneNumber: "200" });
+
+      expect(mine.body.contact).toMatchObject({ primaryContactId: 1, secondaryContactIds: [] });
+      expect(theirs.body.contact).toMatchObject({
+        primaryContactId: 2,
+        phoneNumbers: ["200"],
+        secondaryContactIds: [],
+      });
+
+      const rows = await storedRows("contacts");
+      expect(rows.map((r) => [r.tenantId, r.linkPrecedence])).toEqual([
+        [1, "primary"],
+        [other.id, "primary"],
+      ]);
+    },
+    15000
+  );
+
+  it(
+    "hides another tenant's contacts",
+    async () => {
+      const other = await otherTenant();
+      await api(other.key).post("/identify").send({ email: "theirs@test.com" }); // id=1
+
+      expect((await api().get("/contacts/1")).status).toBe(404);
+      expect((await api().delete("/contacts/1")).status).toBe(404);
+      expect((await api().get("/contacts").query({ email: "theirs@test.com" })).body).toEqual({
+        clusters: [],
+      });
+      expect((await api(other.key).get("/contacts/1")).status).toBe(200);
+    },
+    15000
+  );
+
+  it(
+    "scopes Idempotency-Key per tenant",
+    async () => {
+      const other = await otherTenant();
+      const send = (key: string, email: string) =>
+        api(key).post("/identify").set("Idempotency-Key", "order-1").send({ email });
+
+      await send(TEST_API_KEY, "a@test.com");
+      const res = await send(other.key, "b@test.com");
+
+      expect(res.status).toBe(200);
+      expect(res.headers["idempotent-replayed"]).toBeUndefined();
+      expect(res.body.contact.emails).toEqual(["b@test.com"]);
+    },
+    15000
+  );
+});
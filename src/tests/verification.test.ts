@@ -0,0 +1,196 @@
+/**
+ * Integration tests for identifier verification: POST /contacts/:id/verify
+ * and LINK_VERIFICATION_POLICY=verified, which holds back merges bridged by
+ * an unverified email or phone as pending links.
+ *
+ * Same requirements as identify.test.ts: either storage backend and serial
+ * execution (--runInBand).
+ */
+
+import { prisma } from "../lib/prisma";
+import { checkIntegrity } from "../services/integrity.service";
+import { cleanDb, api, onPostgres, storedRows } from "./helpers";
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+async function identify(body: Record<string, unknown>) {
+  const res = await api().post("/identify").send(body);
+  expect(res.status).toBe(200);
+  return res.body.contact;
+}
+
+const verify = (id: number, body: Record<string, unknown>) =>
+  api().post(`/contacts/${id}/verify`).send(body);
+
+// ── Setup / Teardown ──────────────────────────────────────────────────────────
+
+beforeEach(async () => {
+  await cleanDb();
+});
+
+afterEach(() => {
+  delete process.env.LINK_VERIFICATION_POLICY;
+});
+
+afterAll(async () => {
+  await cleanDb();
+  await prisma.$disconnect();
+});
+
+// =============================================================================
+// VERIFY
+// =============================================================================
+
+describe("POST /contacts/:id/verify", () => {
+  it(
+    "verifies the value on every row that holds it",
+    async () => {
+      await identify({ email: "doc@hillvalley.edu", phoneNumber: "+14155550123" }); // id=1
+      await identify({ email: "emmett@hillvalley.edu", phoneNumber: "+14155550123" }); // id=2
+
+      const res = await verify(2, { phoneNumber: "verified_otp" });
+      expect(res.status).toBe(200);
+      expect(res.body.contact.verification).toEqual({
+        email: { "doc@hillvalley.edu": "unverified", "emmett@hillvalley.edu": "unverified" },
+        phoneNumber: { "+14155550123": "verified_otp" },
+      });
+
+      const rows = await storedRows("contacts");
+      expect(rows.map((c) => c.phoneVerification)).toEqual(["verified_otp", "verified_otp"]);
+    },
+    15000
+  );
+
+  it(
+    "carries the state over to new rows with the same value",
+    async () => {
+      await identify({ email: "doc@hillvalley.edu" }); // id=1
+      await verify(1, { email: "verified_partner" });
+
+      const contact = await identify({ email: "Doc@HillValley.edu", phoneNumber: "+14155550123" });
+      expect(contact.verification.email).toEqual({
+        "doc@hillvalley.edu": "verified_partner",
+        "Doc@HillValley.edu": "verified_partner",
+      });
+      expect(contact.verification.phoneNumber).toEqual({ "+14155550123": "unverified" });
+    },
+    15000
+  );
+
+  it(
+    "rejects bad input, unknown contacts and missing values",
+    async () => {
+      await identify({ email: "doc@hillvalley.edu" }); // id=1
+
+      expect((await verify(1, {})).status).toBe(400);
+      expect((await verify(1, { email: "trusted" })).status).toBe(400);
+      expect((await verify(1, { email: "verified_otp", extra: true })).status).toBe(400);
+      expect((await verify(999, { email: "verified_otp" })).status).toBe(404);
+
+      const res = await verify(1, { phoneNumber: "verified_otp" });
+      expect(res.status).toBe(409);
+      expect(res.body.error).toBe("Contact 1 has no phone number");
+    },
+    15000
+  );
+});
+
+// =============================================================================
+// LINKING POLICY
+// =============================================================================
+
+describe("LINK_VERIFICATION_POLICY=verified", () => {
+  // B (older) holds the phone; A holds a verified email
+  async function twoCustomers() {
+    await identify({ email: "marty@hillvalley.edu", phoneNumber: "+14155550123" }); // id=1
+    await identify({ email: "doc@hillvalley.edu", phoneNumber: "+12125550188" }); // id=2
+    await verify(2, { email: "verified_otp" });
+    process.env.LINK_VERIFICATION_POLICY = "verified";
+  }
+
+  it(
+    "holds back a merge bridged by an unverified phone",
+    async () => {
+      await twoCustomers();
+
+      const contact = await identify({ email: "doc@hillvalley.edu", phoneNumber: "+14155550123" });
+      // Joins the cluster its verified email reached, though 1 is older
+      expect(contact.primaryContactId).toBe(2);
+      expect(contact.secondaryContactIds).toEqual([3]);
+      const rows = await storedRows("contacts");
+      expect(rows.filter((c) => c.linkPrecedence === "primary")).toHaveLength(2);
+
+      const links = await storedRows("pendingLinks");
+      expect(links).toMatchObject([
+        { primaryId: 2, heldPrimaryIds: [1], unverified: ["phoneNumber"], status: "pending" },
+      ]);
+
+      // The shared phone is deliberate, not an integrity violation. The
+      // check reads Postgres only.
+      if (onPostgres) expect((await checkIntegrity()).violations).toEqual([]);
+    },
+    15000
+  );
+
+  it(
+    "records one pending link however often the request repeats",
+    async () => {
+      await twoCustomers();
+
+      await identify({ email: "doc@hillvalley.edu", phoneNumber: "+14155550123" });
+      await identify({ email: "doc@hillvalley.edu", phoneNumber: "+14155550123" });
+      await identify({ phoneNumber: "+14155550123" });
+
+      expect(await storedRows("pendingLinks")).toHaveLength(1);
+      expect(await storedRows("contacts")).toHaveLength(3);
+    },
+    15000
+  );
+
+  it(
+    "merges when the bridging identifiers are verified",
+    async () => {
+      await twoCustomers();
+      await verify(1, { phoneNumber: "verified_partner" });
+
+      const contact = await identify({ email: "doc@hillvalley.edu", phoneNumber: "+14155550123" });
+      expect(contact.primaryContactId).toBe(1);
+      expect(contact.secondaryContactIds).toEqual([2, 3]);
+      expect(await storedRows("pendingLinks")).toHaveLength(0);
+    },
+    15000
+  );
+
+  it(
+    "completes the pending link once the shared phone is verified",
+    async () => {
+      await twoCustomers();
+      await identify({ email: "doc@hillvalley.edu", phoneNumber: "+14155550123" }); // id=3
+
+      const res = await verify(3, { phoneNumber: "verified_otp" });
+      expect(res.status).toBe(200);
+      expect(res.body.contact.primaryContactId).toBe(1);
+      expect(res.body.contact.secondaryContactIds).toEqual([2, 3]);
+
+      const [link] = await storedRows("pendingLinks");
+      expect(link.status).toBe("linked");
+      expect(link.linkedAt).not.toBeNull();
+      const demoted = (await storedRows("linkEvents")).find((e) => e.type === "demoted");
+      expect(demoted).toMatchObject({ contactId: 2, reason: `pending link ${link.id} verified` });
+    },
+    15000
+  );
+
+  it(
+    "leaves identify() as it was under the default policy",
+    async () => {
+      await twoCustomers();
+      delete process.env.LINK_VERIFICATION_POLICY;
+
+      const contact = await identify({ email: "doc@hillvalley.edu", phoneNumber: "+14155550123" });
+      expect(contact.primaryContactId).toBe(1);
+      expect(await storedRows("pendingLinks")).toHaveLength(0);
+    },
+    15000
+  );
+});
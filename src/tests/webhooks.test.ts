@@ -0,0 +1,367 @@
+/**
+ * Integration tests for the outbox and webhook delivery.
+ *
+ * Deliveries go to a stub HTTP server on a random local port, so private
+ * targets are allowed unless a test says otherwise, and the dispatcher is
+ * driven with dispatchOnce() instead of its timer.
+ * Requires a live PostgreSQL database: apart from the signatures, skipped on
+ * CONTACT_STORE=memory, which has no webhooks.
+ */
+
+import http, { IncomingHttpHeaders } from "http";
+import { AddressInfo } from "net";
+import { prisma } from "../lib/prisma";
+import { signPayload, verifySignature } from "../lib/webhook-signature";
+import { isPrivateHost } from "../lib/webhook-target";
+import { dispatchOnce } from "../workers/webhook-dispatcher";
+import { cleanDb, api, describePostgres } from "./helpers";
+
+// ── Stub receiver ─────────────────────────────────────────────────────────────
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+let received: Received[] = [];
+let responseStatus = 200;
+let responseHeaders: Record<string, string> = {};
+let stub: http.Server;
+let stubUrl: string;
+
+beforeAll(async () => {
+  stub = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(responseStatus, responseHeaders).end();
+    });
+  });
+  await new Promise<void>((resolve) => stub.listen(0, "127.0.0.1", resolve));
+  stubUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}/hooks`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => stub.close(resolve));
+  await cleanDb();
+  await prisma.$disconnect();
+});
+
+beforeEach(async () => {
+  await cleanDb();
+  received = [];
+  responseStatus = 200;
+  responseHeaders = {};
+  process.env.WEBHOOK_RETRY_BASE_MS = "0";
+  process.env.WEBHOOK_MAX_ATTEMPTS = "3";
+  process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS = "true";
+});
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+async function identify(body: Record<string, unknown>) {
+  return api().post("/identify").send(body);
+}
+
+async function subscribe(body: Record<string, unknown> = {}) {
+  const res = await api()
+    .post("/webhooks/subscriptions")
+    .send({ url: stubUrl, ...body });
+  expect(res.status).toBe(201);
+  return res.body;
+}
+
+const events = () => received.map((r) => JSON.parse(r.body));
+
+// =============================================================================
+// SIGNATURES
+// =============================================================================
+
+describe("webhook signatures", () => {
+  it("verifies its own signature and rejects a tampered body", () => {
+    const header = signPayload("secret-secret-secret", '{"a":1}');
+    expect(verifySignature("secret-secret-secret", '{"a":1}', header)).toBe(true);
+    expect(verifySignature("secret-secret-secret", '{"a":2}', header)).toBe(false);
+    expect(verifySignature("another-secret-value", '{"a":1}', header)).toBe(false);
+  });
+
+  it("rejects a stale timestamp", () => {
+    const header = signPayload("secret-secret-secret", "{}", Math.floor(Date.now() / 1000) - 3600);
+    expect(verifySignature("secret-secret-secret", "{}", header)).toBe(false);
+  });
+});
+
+// =============================================================================
+// TARGETS
+// =============================================================================
+
+describePostgres("webhook targets", () => {
+  it("treats loopback, private, link-local and localhost hosts as private", () => {
+    for (const host of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.16.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "0.0.0.0",
+      "[::1]",
+      "[fd00::1]",
+      "[fe80::1]",
+      "[::ffff:7f00:1]",
+      "[64:ff9b::a9fe:a9fe]",
+      "[64:ff9b:1::a00:1]",
+      "localhost",
+      "api.localhost",
+    ]) {
+      expect(isPrivateHost(host)).toBe(true);
+    }
+    for (const host of ["93.184.216.34", "[2606:4700::1111]", "example.com"]) {
+      expect(isPrivateHost(host)).toBe(false);
+    }
+  });
+
+  it("rejects subscriptions to private addresses", async () => {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS;
+
+    for (const url of [stubUrl, "http://localhost/hooks", "http://169.254.169.254/latest"]) {
+      const res = await api().post("/webhooks/subscriptions").send({ url });
+      expect(res.status).toBe(400);
+      expect(res.body.details.map((d: any) => d.field)).toEqual(["url"]);
+    }
+  });
+
+  it(
+    "does not deliver to a target that has become private",
+    async () => {
+      await subscribe();
+      delete process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS;
+
+      await identify({ email: "a@test.com" });
+      await dispatchOnce();
+
+      expect(received).toHaveLength(0);
+      const [delivery] = await prisma.webhookDelivery.findMany();
+      expect(delivery).toMatchObject({ status: "pending", attempts: 1, lastStatusCode: null });
+      expect(delivery.lastError).toMatch(/private address/);
+    },
+    20000
+  );
+
+  it(
+    "does not follow redirects",
+    async () => {
+      await subscribe();
+      responseStatus = 302;
+      responseHeaders = { Location: stubUrl };
+
+      await identify({ email: "a@test.com" });
+      await dispatchOnce();
+
+      // Following the Location header would have reached the stub twice
+      expect(received).toHaveLength(1);
+      const [delivery] = await prisma.webhookDelivery.findMany();
+      expect(delivery).toMatchObject({ status: "pending", lastStatusCode: 302 });
+    },
+    20000
+  );
+});
+
+// =============================================================================
+// OUTBOX
+// =============================================================================
+
+describePostgres("outbox events", () => {
+  it(
+    "writes contact.created for a new primary and a new secondary",
+    async () => {
+      await identify({ email: "a@test.com", phoneNumber: "100" }); // id=1
+      await identify({ email: "b@test.com", phoneNumber: "100" }); // id=2
+
+      const rows = await prisma.outboxEvent.findMany({ orderBy: { id: "asc" } });
+      expect(rows.map((r: any) => r.type)).toEqual(["contact.created", "contact.created"]);
+      expect(rows[1].payload).toMatchObject({
+        contactId: 2,
+        linkPrecedence: "secondary",
+        primaryContactId: 1,
+      });
+    },
+    20000
+  );
+
+  it(
+    "writes cluster.merged and contact.linked with old and new primary ids",
+    async () => {
+      await identify({ email: "pa@test.com", phoneNumber: "401001" }); // id=1
+      await identify({ email: "pb@test.com", phoneNumber: "402002" }); // id=2
+      await identify({ email: "sb@test.com", phoneNumber: "402002" }); // id=3 under 2
+      await prisma.outboxEvent.deleteMany();
+
+      await identify({ email: "pa@test.com", phoneNumber: "402002" });
+
+      const rows = await prisma.outboxEvent.findMany({ orderBy: { id: "asc" } });
+      const merged = rows.find((r: any) => r.type === "cluster.merged");
+      expect(merged?.payload).toMatchObject({
+        oldPrimaryId: 2,
+        newPrimaryId: 1,
+        contactIds: [2, 3],
+      });
+      const linked = rows.filter((r: any) => r.type === "contact.linked");
+      expect(linked.map((r: any) => r.payload.contactId).sort()).toEqual([2, 3]);
+      for (const r of linked) {
+        expect(r.payload).toMatchObject({ oldPrimaryId: 2, newPrimaryId: 1 });
+      }
+    },
+    25000
+  );
+
+  it("writes nothing for a dry run", async () => {
+    await identify({ email: "a@test.com", dryRun: true });
+    expect(await prisma.outboxEvent.count()).toBe(0);
+  });
+});
+
+// =============================================================================
+// DELIVERY
+// =============================================================================
+
+describePostgres("webhook delivery", () => {
+  it(
+    "delivers signed events to matching subscriptions only",
+    async () => {
+      const all = await subscribe();
+      await subscribe({ eventTypes: ["cluster.merged"] });
+
+      await identify({ email: "a@test.com" });
+      await dispatchOnce();
+
+      expect(received).toHaveLength(1);
+      const [delivery] = received;
+      expect(delivery.headers["x-webhook-event"]).toBe("contact.created");
+      expect(verifySignature(all.secret, delivery.body, delivery.headers["x-webhook-signature"] as string)).toBe(true);
+      expect(events()[0]).toMatchObject({
+        type: "contact.created",
+        data: { contactId: 1, linkPrecedence: "primary" },
+      });
+
+      // Nothing is sent twice
+      await dispatchOnce();
+      expect(received).toHaveLength(1);
+    },
+    20000
+  );
+
+  it(
+    "retries failed deliveries and dead-letters them after the last attempt",
+    async () => {
+      const sub = await subscribe();
+      responseStatus = 500;
+
+      await identify({ email: "a@test.com" });
+      await dispatchOnce();
+      await dispatchOnce();
+
+      let [delivery] = await prisma.webhookDelivery.findMany();
+      expect(delivery).toMatchObject({ status: "pending", attempts: 2, lastStatusCode: 500 });
+
+      await dispatchOnce();
+      [delivery] = await prisma.webhookDelivery.findMany();
+      expect(delivery).toMatchObject({ status: "dead", attempts: 3 });
+      expect(received).toHaveLength(3);
+
+      // Dead deliveries are listed and can be sent again by hand
+      const dead = await api().get(`/webhooks/subscriptions/${sub.id}/deliveries?status=dead`);
+      expect(dead.body.deliveries.map((d: any) => d.id)).toEqual([delivery.id]);
+
+      responseStatus = 204;
+      const retry = await api().post(`/webhooks/deliveries/${delivery.id}/retry`);
+      expect(retry.status).toBe(200);
+      await dispatchOnce();
+
+      [delivery] = await prisma.webhookDelivery.findMany();
+      expect(delivery.status).toBe("delivered");
+    },
+    25000
+  );
+
+  it(
+    "backs off before retrying",
+    async () => {
+      process.env.WEBHOOK_RETRY_BASE_MS = "60000";
+      await subscribe();
+      responseStatus = 503;
+
+      await identify({ email: "a@test.com" });
+      await dispatchOnce();
+      await dispatchOnce();
+
+      expect(received).toHaveLength(1);
+      const [delivery] = await prisma.webhookDelivery.findMany();
+      expect(delivery.nextAttemptAt.getTime()).toBeGreaterThan(Date.now() + 50000);
+    },
+    20000
+  );
+
+  it(
+    "skips inactive subscriptions",
+    async () => {
+      const sub = await subscribe();
+      await api().patch(`/webhooks/subscriptions/${sub.id}`).send({ active: false });
+
+      await identify({ email: "a@test.com" });
+      await dispatchOnce();
+
+      expect(received).toHaveLength(0);
+      expect(await prisma.outboxEvent.count({ where: { dispatchedAt: null } })).toBe(0);
+    },
+    20000
+  );
+});
+
+// =============================================================================
+// SUBSCRIPTION CRUD
+// =============================================================================
+
+describePostgres("/webhooks/subscriptions", () => {
+  it("returns the secret on create only", async () => {
+    const created = await subscribe({ description: "CRM" });
+    expect(created.secret).toMatch(/^whsec_/);
+
+    const fetched = await api().get(`/webhooks/subscriptions/${created.id}`);
+    expect(fetched.status).toBe(200);
+    expect(fetched.body).toMatchObject({ url: stubUrl, description: "CRM", active: true });
+    expect(fetched.body.secret).toBeUndefined();
+
+    const list = await api().get("/webhooks/subscriptions");
+    expect(list.body.subscriptions).toHaveLength(1);
+    expect(list.body.subscriptions[0].secret).toBeUndefined();
+  });
+
+  it("updates and deletes a subscription", async () => {
+    const { id } = await subscribe();
+
+    const updated = await api()
+      .patch(`/webhooks/subscriptions/${id}`)
+      .send({ eventTypes: ["contact.linked"] });
+    expect(updated.status).toBe(200);
+    expect(updated.body.eventTypes).toEqual(["contact.linked"]);
+
+    expect((await api().delete(`/webhooks/subscriptions/${id}`)).status).toBe(204);
+    expect((await api().get(`/webhooks/subscriptions/${id}`)).status).toBe(404);
+  });
+
+  it("rejects unknown event types and non-http URLs", async () => {
+    const res = await api()
+      .post("/webhooks/subscriptions")
+      .send({ url: "ftp://example.com", eventTypes: ["contact.deleted"] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.details.map((d: any) => d.field)).toEqual(["url", "eventTypes.0"]);
+  });
+
+  it("returns 400 for an empty update", async () => {
+    const { id } = await subscribe();
+    const res = await api().patch(`/webhooks/subscriptions/${id}`).send({});
+    expect(res.status).toBe(400);
+  });
+});
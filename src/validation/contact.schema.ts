@@ -0,0 +1,208 @@
+import { z } from "zod";
+import { decodeCursor } from "../lib/cursor";
+import { IdentifyResponseSchema, VerificationStatusSchema } from "./identify.schema";
+
+// ── Requests ──────────────────────────────────────────────────────────────────
+
+const contactId = z.coerce
+  .number({ invalid_type_error: "Contact id must be a number" })
+  .int("Contact id must be an integer")
+  .positive("Contact id must be positive");
+
+export const ContactIdParamsSchema = z.object({ id: contactId });
+
+export const PrimaryIdParamsSchema = z.object({ primaryId: contactId });
+
+export const UnlinkSchema = z.object({
+  reason: z
+    .string({ required_error: "reason is required" })
+    .trim()
+    .min(1, "reason must not be empty")
+    .max(500, "reason must be at most 500 characters"),
+});
+
+export const MergeContactsSchema = z.object({
+  contactIds: z
+    .array(contactId, { required_error: "contactIds is required" })
+    .min(2, "contactIds must list at least two contacts")
+    .max(50, "contactIds must list at most 50 contacts")
+    .refine((ids) => new Set(ids).size === ids.length, "contactIds must not repeat an id"),
+  reason: z
+    .string()
+    .trim()
+    .min(1, "reason must not be empty")
+    .max(500, "reason must be at most 500 characters")
+    .optional(),
+});
+
+export const VerifyContactSchema = z
+  .object({
+    email: VerificationStatusSchema.optional(),
+    phoneNumber: VerificationStatusSchema.optional(),
+  })
+  .strict()
+  .refine((b) => b.email !== undefined || b.phoneNumber !== undefined, {
+    message: "At least one of email or phoneNumber must be provided",
+  });
+
+export const ContactSearchQuerySchema = z
+  .object({
+    email: z.string().trim().min(1, "email must not be empty").optional(),
+    phoneNumber: z
+      .string()
+      .trim()
+      .min(1, "phoneNumber must not be empty")
+      .optional(),
+  })
+  .refine((q) => q.email !== undefined || q.phoneNumber !== undefined, {
+    message: "At least one of email or phoneNumber must be provided",
+  });
+
+const MAX_PAGE_SIZE = 100;
+
+const timestampParam = (name: string) =>
+  z
+    .string()
+    .datetime({ offset: true, message: `${name} must be an ISO 8601 timestamp` })
+    .transform((value) => new Date(value));
+
+const positiveIntParam = (name: string) =>
+  z.coerce
+    .number({ invalid_type_error: `${name} must be a number` })
+    .int(`${name} must be an integer`)
+    .positive(`${name} must be positive`);
+
+// What encodeCursor() wrote for the last cluster of a page
+const ClusterCursorSchema = z.discriminatedUnion("sort", [
+  z.object({
+    sort: z.literal("recent"),
+    id: z.number().int().positive(),
+    createdAt: z.string().datetime().transform((value) => new Date(value)),
+  }),
+  z.object({
+    sort: z.literal("size"),
+    id: z.number().int().positive(),
+    size: z.number().int().positive(),
+  }),
+]);
+
+export const ClusterListQuerySchema = z
+  .object({
+    cursor: z.string().optional(),
+    limit: positiveIntParam("limit")
+      .max(MAX_PAGE_SIZE, `limit must be at most ${MAX_PAGE_SIZE}`)
+      .default(20),
+    sort: z
+      .enum(["recent", "size"], {
+        errorMap: () => ({ message: "sort must be one of: recent, size" }),
+      })
+      .default("recent"),
+    createdFrom: timestampParam("createdFrom").optional(),
+    createdTo: timestampParam("createdTo").optional(),
+    emailDomain: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, "emailDomain must be a domain like example.com")
+      .optional(),
+    phonePrefix: z
+      .string()
+      .trim()
+      .regex(/^\+?\d{1,15}$/, "phonePrefix must be digits, optionally after a +")
+      .optional(),
+    minSize: positiveIntParam("minSize").optional(),
+    mergedWithinDays: positiveIntParam("mergedWithinDays").optional(),
+  })
+  .transform((query, ctx) => {
+    if (query.cursor === undefined) return { ...query, cursor: undefined };
+
+    const cursor = ClusterCursorSchema.safeParse(decodeCursor(query.cursor));
+    if (!cursor.success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cursor"], message: "cursor is not valid" });
+      return z.NEVER;
+    }
+    if (cursor.data.sort !== query.sort) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["cursor"],
+        message: `cursor was issued for sort=${cursor.data.sort}`,
+      });
+      return z.NEVER;
+    }
+    return { ...query, cursor: cursor.data };
+  });
+
+// ── Responses ─────────────────────────────────────────────────────────────────
+
+const timestamp = z.string().datetime();
+
+export const ContactRowSchema = z
+  .object({
+    id: z.number().int(),
+    email: z.string().nullable(),
+    phoneNumber: z.string().nullable(),
+    linkPrecedence: z.enum(["primary", "secondary"]),
+    linkedId: z.number().int().nullable(),
+    identifiers: z.array(z.object({ type: z.string(), value: z.string() }).strict()),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .strict();
+
+export const ClusterViewSchema = IdentifyResponseSchema.extend({
+  contacts: z.array(ContactRowSchema),
+}).strict();
+
+export const ClusterListResponseSchema = z
+  .object({
+    clusters: z.array(IdentifyResponseSchema),
+    nextCursor: z.string().nullable(),
+  })
+  .strict();
+
+export const ClusterSearchResponseSchema = z
+  .object({ clusters: z.array(ClusterViewSchema) })
+  .strict();
+
+export const UnlinkResponseSchema = z
+  .object({
+    detached: IdentifyResponseSchema,
+    remaining: IdentifyResponseSchema,
+  })
+  .strict();
+
+export const LinkEventSchema = z
+  .object({
+    id: z.number().int(),
+    contactId: z.number().int(),
+    type: z.enum(["created", "demoted", "reparented", "promoted", "deleted", "erased"]),
+    oldLinkedId: z.number().int().nullable(),
+    newLinkedId: z.number().int().nullable(),
+    email: z.string().nullable(),
+    phoneNumber: z.string().nullable(),
+    requestId: z.string(),
+    reason: z.string().nullable(),
+    createdAt: timestamp,
+  })
+  .strict();
+
+export const ClusterHistoryResponseSchema = z
+  .object({
+    primaryContactId: z.number().int(),
+    events: z.array(LinkEventSchema),
+  })
+  .strict();
+
+export const DeleteContactResponseSchema = z
+  .object({
+    deletedContactId: z.number().int(),
+    remaining: IdentifyResponseSchema.nullable(),
+  })
+  .strict();
+
+export const EraseClusterResponseSchema = z
+  .object({
+    primaryContactId: z.number().int(),
+    erasedContactIds: z.array(z.number().int()),
+  })
+  .strict();
@@ -0,0 +1,47 @@
+import { Response } from "express";
+import { z } from "zod";
+
+// Every error response has one of these two shapes. The controllers build
+// validation errors through sendValidationError() and the OpenAPI document
+// describes them with the same schemas, so the two cannot drift apart.
+
+export const ErrorSchema = z
+  .object({
+    error: z.string(),
+  })
+  .strict();
+
+export const ValidationErrorSchema = z
+  .object({
+    error: z.literal("Validation failed"),
+    details: z.array(
+      z
+        .object({
+          /** Dotted path of the offending field, or a header name */
+          field: z.string(),
+          message: z.string(),
+        })
+        .strict()
+    ),
+  })
+  .strict();
+
+export type ValidationError = z.infer<typeof ValidationErrorSchema>;
+
+/**
+ * The 400 body for a set of zod issues. `field` overrides the issue paths,
+ * for values that do not come from the body (headers).
+ */
+export function validationError(issues: z.ZodIssue[], field?: string): ValidationError {
+  return {
+    error: "Validation failed",
+    details: issues.map((e) => ({
+      field: field ?? e.path.join("."),
+      message: e.message,
+    })),
+  };
+}
+
+export function sendValidationError(res: Response, issues: z.ZodIssue[], field?: string): void {
+  res.status(400).json(validationError(issues, field));
+}
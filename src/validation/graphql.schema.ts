@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+// POST /graphql follows the GraphQL-over-HTTP spec; graphql-http validates the
+// request itself, so these only describe the envelope for the OpenAPI document.
+
+export const GraphQLRequestSchema = z.object({
+  query: z.string(),
+  variables: z.record(z.unknown()).nullable().optional(),
+  operationName: z.string().nullable().optional(),
+});
+
+export const GraphQLResponseSchema = z
+  .object({
+    data: z.record(z.unknown()).nullable().optional(),
+    errors: z
+      .array(
+        z.object({
+          message: z.string(),
+          path: z.array(z.union([z.string(), z.number()])).optional(),
+          extensions: z.record(z.unknown()).optional(),
+        })
+      )
+      .optional(),
+  })
+  .strict();
@@ -0,0 +1,191 @@
+import { z } from "zod";
+import { getIdentifierType, identifierTypeNames } from "../lib/identifiers";
+import { VERIFICATION_STATUSES, VerificationStatus } from "../lib/verification";
+import { IdentifyInput } from "../services/identity.service";
+import { ValidationErrorSchema } from "./errors";
+
+// Shared by the HTTP controllers and the bulk import CLI, so a row is accepted
+// by `identity import` exactly when it would be accepted by POST /identify.
+
+const MAX_IDENTIFIERS = 20;
+
+// Types are checked against the registry at parse time, so types registered
+// after this module loads are accepted too
+const IdentifierSchema = z
+  .object({
+    type: z.string({ required_error: "type is required" }),
+    value: z
+      .string({ required_error: "value is required" })
+      .trim()
+      .min(1, "value must not be empty")
+      .max(255, "value must be at most 255 characters"),
+  })
+  .superRefine((identifier, ctx) => {
+    const definition = getIdentifierType(identifier.type);
+    if (!definition) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["type"],
+        message: `type must be one of: ${identifierTypeNames().join(", ")}`,
+      });
+    } else if (!definition.pattern.test(identifier.value)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["value"],
+        message: definition.patternMessage,
+      });
+    }
+  });
+
+export const IdentifyFields = z.object({
+  email: z
+    .string()
+    .trim()
+    .email("Invalid email format")
+    .nullable()
+    .optional(),
+  phoneNumber: z
+    .string()
+    .trim()
+    .regex(/^\+?[\d\s\-().]{1,20}$/, "Invalid phone number format")
+    .nullable()
+    .optional(),
+  identifiers: z
+    .array(IdentifierSchema)
+    .max(MAX_IDENTIFIERS, `identifiers must contain at most ${MAX_IDENTIFIERS} entries`)
+    .nullable()
+    .optional(),
+});
+
+const hasIdentifier = (data: z.infer<typeof IdentifyFields>) =>
+  (data.email != null && data.email !== "") ||
+  (data.phoneNumber != null && data.phoneNumber !== "") ||
+  (data.identifiers != null && data.identifiers.length > 0);
+
+const missingIdentifier = {
+  message: "At least one of email, phoneNumber or identifiers must be provided",
+};
+
+export const IdentifySchema = IdentifyFields.refine(hasIdentifier, missingIdentifier);
+
+// POST /identify only: batch items and /identify/preview have no dryRun flag
+export const IdentifyRequestSchema = IdentifyFields.extend({
+  dryRun: z.boolean().optional().default(false),
+}).refine(hasIdentifier, missingIdentifier);
+
+export const IdempotencyKeySchema = z
+  .string()
+  .trim()
+  .min(1, "Idempotency-Key must not be empty")
+  .max(255, "Idempotency-Key must be at most 255 characters");
+
+export function maxBatchSize(): number {
+  return parseInt(process.env.IDENTIFY_BATCH_MAX_SIZE ?? "100", 10);
+}
+
+// Items are validated one by one so a bad row does not hide the others
+export const IdentifyBatchSchema = z.object({
+  items: z
+    .array(z.unknown(), { required_error: "items is required" })
+    .min(1, "items must not be empty")
+    .superRefine((items, ctx) => {
+      const max = maxBatchSize();
+      if (items.length > max) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.too_big,
+          maximum: max,
+          type: "array",
+          inclusive: true,
+          message: `items must contain at most ${max} entries`,
+        });
+      }
+    }),
+  atomic: z.boolean().optional().default(false),
+});
+
+export function toIdentifyInput(data: z.infer<typeof IdentifyFields>): IdentifyInput {
+  return {
+    email: data.email ?? null,
+    phoneNumber: data.phoneNumber ?? null,
+    identifiers: data.identifiers ?? [],
+  };
+}
+
+export const VerificationStatusSchema = z.enum(
+  VERIFICATION_STATUSES as [VerificationStatus, ...VerificationStatus[]],
+  {
+    errorMap: () => ({
+      message: `verification status must be one of: ${VERIFICATION_STATUSES.join(", ")}`,
+    }),
+  }
+);
+
+// ── Responses ─────────────────────────────────────────────────────────────────
+// Strict, so a field added to or dropped from a response without updating the
+// schema fails the contract tests.
+
+export const IdentifyResponseSchema = z
+  .object({
+    contact: z
+      .object({
+        primaryContactId: z.number().int(),
+        emails: z.array(z.string()),
+        phoneNumbers: z.array(z.string()),
+        secondaryContactIds: z.array(z.number().int()),
+        identifiers: z.record(z.array(z.string())),
+        verification: z
+          .object({
+            email: z.record(VerificationStatusSchema),
+            phoneNumber: z.record(VerificationStatusSchema),
+          })
+          .strict(),
+      })
+      .strict(),
+  })
+  .strict();
+
+export const IdentifyPreviewSchema = IdentifyResponseSchema.extend({
+  changes: z
+    .object({
+      demotedPrimaryIds: z.array(z.number().int()),
+      reparented: z.array(
+        z
+          .object({
+            contactId: z.number().int(),
+            fromPrimaryId: z.number().int().nullable(),
+            toPrimaryId: z.number().int().nullable(),
+          })
+          .strict()
+      ),
+      newContact: z
+        .object({
+          id: z.number().int(),
+          linkPrecedence: z.enum(["primary", "secondary"]),
+          linkedId: z.number().int().nullable(),
+        })
+        .strict()
+        .nullable(),
+    })
+    .strict(),
+}).strict();
+
+export const IdentifyBatchResponseSchema = z
+  .object({
+    results: z.array(
+      z.union([
+        IdentifyResponseSchema.extend({
+          index: z.number().int(),
+          status: z.literal(200),
+        }).strict(),
+        z
+          .object({
+            index: z.number().int(),
+            status: z.number().int(),
+            error: z.string(),
+            details: ValidationErrorSchema.shape.details.optional(),
+          })
+          .strict(),
+      ])
+    ),
+  })
+  .strict();
@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+// ── Responses ─────────────────────────────────────────────────────────────────
+
+export const ViolationSchema = z
+  .object({
+    kind: z.enum([
+      "primary_with_link",
+      "secondary_without_link",
+      "chained_link",
+      "dangling_link",
+      "unlinked_shared_identifier",
+    ]),
+    contactIds: z.array(z.number().int()),
+    message: z.string(),
+  })
+  .strict();
+
+export const RepairSchema = z
+  .object({
+    action: z.enum(["promoted", "relinked", "merged"]),
+    contactIds: z.array(z.number().int()),
+    primaryId: z.number().int(),
+  })
+  .strict();
+
+export const IntegrityReportSchema = z
+  .object({
+    checkedAt: z.string().datetime(),
+    contactsScanned: z.number().int(),
+    violations: z.array(ViolationSchema),
+    repairs: z.array(RepairSchema).optional(),
+    remaining: z.array(ViolationSchema).optional(),
+  })
+  .strict();
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { IdentifyResponseSchema } from "./identify.schema";
+
+// ── Requests ──────────────────────────────────────────────────────────────────
+
+export const IdParamsSchema = z.object({
+  id: z.coerce
+    .number({ invalid_type_error: "id must be a number" })
+    .int("id must be an integer")
+    .positive("id must be positive"),
+});
+
+export const SuggestionQuerySchema = z.object({
+  status: z.enum(["pending", "accepted", "rejected"]).optional().default("pending"),
+});
+
+// ── Responses ─────────────────────────────────────────────────────────────────
+
+const timestamp = z.string().datetime();
+
+export const MergeSuggestionSchema = z
+  .object({
+    id: z.number().int(),
+    tenantId: z.number().int(),
+    contactIdA: z.number().int(),
+    contactIdB: z.number().int(),
+    score: z.number(),
+    reasons: z.array(
+      z.object({ rule: z.string(), score: z.number(), detail: z.string() }).strict()
+    ),
+    status: z.enum(["pending", "accepted", "rejected"]),
+    decidedAt: timestamp.nullable(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .strict();
+
+export const MergeSuggestionListSchema = z
+  .object({ suggestions: z.array(MergeSuggestionSchema) })
+  .strict();
+
+export const AcceptSuggestionResponseSchema = z
+  .object({
+    suggestion: MergeSuggestionSchema,
+    cluster: IdentifyResponseSchema,
+  })
+  .strict();
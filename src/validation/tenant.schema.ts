@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+// ── Requests ──────────────────────────────────────────────────────────────────
+
+export const IdParamsSchema = z.object({
+  id: z.coerce
+    .number({ invalid_type_error: "id must be a number" })
+    .int("id must be an integer")
+    .positive("id must be positive"),
+});
+
+export const CreateTenantSchema = z.object({
+  name: z
+    .string({ required_error: "name is required" })
+    .trim()
+    .min(1, "name must not be empty")
+    .max(100, "name must be at most 100 characters"),
+});
+
+export const IssueApiKeySchema = z.object({
+  name: z
+    .string({ required_error: "name is required" })
+    .trim()
+    .min(1, "name must not be empty")
+    .max(100, "name must be at most 100 characters"),
+});
+
+// ── Responses ─────────────────────────────────────────────────────────────────
+
+const timestamp = z.string().datetime();
+
+export const TenantSchema = z
+  .object({
+    id: z.number().int(),
+    name: z.string(),
+    createdAt: timestamp,
+  })
+  .strict();
+
+export const TenantListSchema = z.object({ tenants: z.array(TenantSchema) }).strict();
+
+export const ApiKeySchema = z
+  .object({
+    id: z.number().int(),
+    tenantId: z.number().int(),
+    name: z.string(),
+    prefix: z.string(),
+    createdAt: timestamp,
+    lastUsedAt: timestamp.nullable(),
+    revokedAt: timestamp.nullable(),
+  })
+  .strict();
+
+/** The issue response is the only one that carries the key itself. */
+export const IssuedApiKeySchema = ApiKeySchema.extend({
+  key: z.string(),
+}).strict();
+
+export const ApiKeyListSchema = z.object({ apiKeys: z.array(ApiKeySchema) }).strict();
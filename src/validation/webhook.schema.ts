@@ -0,0 +1,112 @@
+import { z } from "zod";
+import { allowPrivateTargets, isPrivateHost } from "../lib/webhook-target";
+import { DOMAIN_EVENT_TYPES } from "../repositories/outbox.repository";
+
+// ── Requests ──────────────────────────────────────────────────────────────────
+
+export const IdParamsSchema = z.object({
+  id: z.coerce
+    .number({ invalid_type_error: "id must be a number" })
+    .int("id must be an integer")
+    .positive("id must be positive"),
+});
+
+// Runs even when .url() has already failed, so it must not throw
+function isPublicUrl(u: string): boolean {
+  if (allowPrivateTargets() || !URL.canParse(u)) return true;
+  return !isPrivateHost(new URL(u).hostname);
+}
+
+const url = z
+  .string({ required_error: "url is required" })
+  .trim()
+  .url("url must be a valid URL")
+  .max(2048, "url must be at most 2048 characters")
+  .refine((u) => /^https?:\/\//.test(u), "url must use http or https")
+  .refine(isPublicUrl, "url must not point at a private, loopback or link-local address");
+
+const eventTypes = z
+  .array(
+    z.enum(DOMAIN_EVENT_TYPES as [string, ...string[]], {
+      errorMap: () => ({ message: `event types must be one of: ${DOMAIN_EVENT_TYPES.join(", ")}` }),
+    })
+  )
+  .transform((types) => [...new Set(types)]);
+
+const description = z
+  .string()
+  .trim()
+  .max(255, "description must be at most 255 characters")
+  .nullable();
+
+export const CreateSubscriptionSchema = z.object({
+  url,
+  eventTypes: eventTypes.optional().default([]),
+  description: description.optional(),
+  secret: z
+    .string()
+    .min(16, "secret must be at least 16 characters")
+    .max(255, "secret must be at most 255 characters")
+    .optional(),
+});
+
+export const UpdateSubscriptionSchema = z
+  .object({
+    url: url.optional(),
+    eventTypes: eventTypes.optional(),
+    description: description.optional(),
+    active: z.boolean().optional(),
+  })
+  .refine((body) => Object.values(body).some((v) => v !== undefined), {
+    message: "At least one field must be provided",
+  });
+
+export const DeliveryQuerySchema = z.object({
+  status: z.enum(["pending", "delivered", "dead"]).optional(),
+});
+
+// ── Responses ─────────────────────────────────────────────────────────────────
+
+const timestamp = z.string().datetime();
+
+export const SubscriptionSchema = z
+  .object({
+    id: z.number().int(),
+    tenantId: z.number().int(),
+    url: z.string(),
+    eventTypes: z.array(z.string()),
+    description: z.string().nullable(),
+    active: z.boolean(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .strict();
+
+/** The create response is the only one that carries the signing secret. */
+export const CreatedSubscriptionSchema = SubscriptionSchema.extend({
+  secret: z.string(),
+}).strict();
+
+export const SubscriptionListSchema = z
+  .object({ subscriptions: z.array(SubscriptionSchema) })
+  .strict();
+
+export const DeliverySchema = z
+  .object({
+    id: z.number().int(),
+    eventId: z.number().int(),
+    subscriptionId: z.number().int(),
+    status: z.enum(["pending", "delivered", "dead"]),
+    attempts: z.number().int(),
+    nextAttemptAt: timestamp,
+    lastStatusCode: z.number().int().nullable(),
+    lastError: z.string().nullable(),
+    deliveredAt: timestamp.nullable(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  })
+  .strict();
+
+export const DeliveryListSchema = z
+  .object({ deliveries: z.array(DeliverySchema) })
+  .strict();
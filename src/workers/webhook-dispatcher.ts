@@ -0,0 +1,186 @@
+import http from "http";
+import https from "https";
+import { prisma } from "../lib/prisma";
+import { logger } from "../lib/logger";
+import { runTransaction } from "../lib/transaction";
+import { SIGNATURE_HEADER, signPayload } from "../lib/webhook-signature";
+import { allowPrivateTargets, isPrivateHost, publicOnlyLookup } from "../lib/webhook-target";
+import {
+  lockUndispatchedEvents,
+  markEventsDispatched,
+} from "../repositories/outbox.repository";
+import {
+  ClaimedDelivery,
+  findSubscribersFor,
+  createDeliveries,
+  claimDueDeliveries,
+  markDelivered,
+  markFailed,
+} from "../repositories/webhook.repository";
+
+// ── Configuration ─────────────────────────────────────────────────────────────
+// Read on every pass so tests can change them through process.env.
+
+const BATCH_SIZE = 50;
+
+function maxAttempts(): number {
+  return parseInt(process.env.WEBHOOK_MAX_ATTEMPTS ?? "8", 10);
+}
+
+function retryBaseMs(): number {
+  return parseInt(process.env.WEBHOOK_RETRY_BASE_MS ?? "30000", 10);
+}
+
+function requestTimeoutMs(): number {
+  return parseInt(process.env.WEBHOOK_TIMEOUT_MS ?? "10000", 10);
+}
+
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/** Delay before attempt `attempts + 1`, doubling each time, capped at an hour. */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(retryBaseMs() * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+// ── Fan-out ───────────────────────────────────────────────────────────────────
+
+/**
+ * Turn undispatched outbox events into one delivery per matching
+ * subscription of the event's tenant. Subscriptions created later do not
+ * receive older events.
+ */
+async function fanOut(): Promise<number> {
+  return runTransaction(async (tx) => {
+    const events = await lockUndispatchedEvents(tx, BATCH_SIZE);
+
+    for (const event of events) {
+      const subscribers = await findSubscribersFor(tx, event.tenantId, event.type);
+      await createDeliveries(
+        tx,
+        subscribers.map((s) => ({ eventId: event.id, subscriptionId: s.id }))
+      );
+    }
+
+    await markEventsDispatched(tx, events.map((e) => e.id));
+    return events.length;
+  });
+}
+
+// ── Delivery ──────────────────────────────────────────────────────────────────
+
+/**
+ * POST `body` and resolve with the response status. Redirects are not
+ * followed (a 3xx is a failed attempt), and the target's addresses are
+ * checked as the connection is made; see lib/webhook-target.ts.
+ */
+function post(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  const target = new URL(url);
+  if (isPrivateHost(target.hostname) && !allowPrivateTargets()) {
+    return Promise.reject(new Error(`${target.hostname} is a private address`));
+  }
+
+  const client = target.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: publicOnlyLookup,
+        signal: AbortSignal.timeout(requestTimeoutMs()),
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+async function deliver(delivery: ClaimedDelivery): Promise<void> {
+  const { event, subscription } = delivery;
+  const body = JSON.stringify({
+    id: event.id,
+    type: event.type,
+    createdAt: event.createdAt,
+    data: event.payload,
+  });
+
+  let statusCode: number | null = null;
+  let error: string;
+  try {
+    statusCode = await post(
+      subscription.url,
+      {
+        "Content-Type": "application/json",
+        "X-Webhook-Event": event.type,
+        "X-Webhook-Delivery": String(delivery.id),
+        [SIGNATURE_HEADER]: signPayload(subscription.secret, body),
+      },
+      body
+    );
+    if (statusCode >= 200 && statusCode < 300) {
+      await markDelivered(prisma, delivery.id, statusCode);
+      return;
+    }
+    error = `HTTP ${statusCode}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const nextAttemptAt =
+    attempts >= maxAttempts() ? null : new Date(Date.now() + retryDelayMs(attempts));
+  await markFailed(prisma, delivery.id, { statusCode, error, nextAttemptAt });
+
+  const meta = { deliveryId: delivery.id, subscriptionId: subscription.id, attempts, error };
+  if (nextAttemptAt) logger.warn("webhook delivery failed, will retry", meta);
+  else logger.error("webhook delivery dead-lettered", meta);
+}
+
+/**
+ * One dispatcher pass: fan out new events, then attempt every due delivery.
+ * Exported so tests and scripts can drive the dispatcher deterministically.
+ */
+export async function dispatchOnce(): Promise<{ events: number; deliveries: number }> {
+  const events = await fanOut();
+
+  // Lease long enough for every request in the batch to time out
+  const leaseUntil = new Date(Date.now() + requestTimeoutMs() * 2);
+  const due = await claimDueDeliveries(prisma, BATCH_SIZE, leaseUntil);
+  await Promise.all(due.map(deliver));
+
+  return { events, deliveries: due.length };
+}
+
+// ── Loop ──────────────────────────────────────────────────────────────────────
+
+/**
+ * Run dispatchOnce() every `intervalMs` until the returned stop function is
+ * called. A tick that arrives while a pass is still running is skipped.
+ */
+export function startWebhookDispatcher(intervalMs: number): () => Promise<void> {
+  let running: Promise<void> | null = null;
+
+  const timer = setInterval(() => {
+    if (running) return;
+    running = dispatchOnce()
+      .then(() => undefined)
+      .catch((err) =>
+        logger.error("webhook dispatch failed", {
+          message: err instanceof Error ? err.message : String(err),
+        })
+      )
+      .finally(() => {
+        running = null;
+      });
+  }, intervalMs);
+  timer.unref();
+
+  return async () => {
+    clearInterval(timer);
+    await running;
+  };
+}